@@ -9,6 +9,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Detector document uploads (PDF/DOCX up to 5 MB) are sent to a server action.
+      bodySizeLimit: '6mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,150 @@
+/**
+ * Offline evaluation of the detection methods against a labeled dataset.
+ *
+ *   npm run eval -- data/labeled.jsonl
+ *   npm run eval -- data/labeled.csv --methods llm --prompt-version 2 --name "prompt v2" --compare latest
+ *   npm run eval -- --list
+ *
+ * The dataset is a CSV or JSONL file in the batch detector format with a "label" column (Real/Fake) or an
+ * "is_fake" column (1/0); unlabeled rows are skipped. Without --methods every configured detector runs: the LLM, and the Truth Lens
+ * model and the ensemble for each registered ML model (--models narrows that down). Reports are written to
+ * EVALUATION_REPORTS_DIR (default data/evaluations) and compared with the previous run on the same dataset.
+ */
+import 'dotenv/config';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseBatchFile } from '@/lib/batch';
+import { compareEvaluationReports, DETECTION_METHODS } from '@/lib/evaluation';
+import { listModels } from '@/services/mlModels/registry';
+import { readEvaluationReport, readEvaluationReports } from '@/services/evaluation/store';
+import type { DetectionMethod, EvaluationMetrics, EvaluationReport, EvaluationTarget } from '@/types';
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    methods: { type: 'string' }, // Comma-separated: custom,llm,ensemble
+    models: { type: 'string' }, // Comma-separated ML model registry ids for custom and ensemble
+    concurrency: { type: 'string', default: '3' },
+    weight: { type: 'string', default: '50' }, // Truth Lens share (%) of ensemble verdicts
+    limit: { type: 'string' }, // Evaluate only the first N labeled rows
+    'prompt-version': { type: 'string' }, // LLM detection prompt version; defaults to the registry traffic split
+    name: { type: 'string' },
+    compare: { type: 'string' }, // Report id, or "latest" for the newest report regardless of dataset
+    'no-save': { type: 'boolean', default: false },
+    list: { type: 'boolean', default: false },
+  },
+});
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number, asPercent: boolean) => {
+  const text = asPercent ? `${(value * 100).toFixed(1)} pts` : value.toFixed(3);
+  return value > 0 ? `+${text}` : text;
+};
+
+function printMetrics(report: EvaluationReport) {
+  console.table(Object.fromEntries(report.targets.map(target => [target.key, {
+    models: target.models.map(model => `${model.name} (${model.version})`).join(', '),
+    n: target.metrics.sampleCount,
+    failed: target.failures,
+    accuracy: percent(target.metrics.accuracy),
+    precision: percent(target.metrics.precision),
+    recall: percent(target.metrics.recall),
+    f1: percent(target.metrics.f1),
+    auc: target.metrics.rocAuc.toFixed(3),
+    ece: target.metrics.expectedCalibrationError.toFixed(3),
+    'raw ece': target.metrics.rawExpectedCalibrationError?.toFixed(3) ?? '-',
+    brier: target.metrics.brierScore.toFixed(3),
+  }])));
+  report.targets.forEach(target => {
+    const { truePositives, falsePositives, trueNegatives, falseNegatives } = target.metrics.confusionMatrix;
+    console.log(`${target.key} confusion matrix (rows: actual, columns: predicted)`);
+    console.log(`              Fake    Real`);
+    console.log(`  Fake  ${String(truePositives).padStart(8)}${String(falseNegatives).padStart(8)}`);
+    console.log(`  Real  ${String(falsePositives).padStart(8)}${String(trueNegatives).padStart(8)}`);
+  });
+}
+
+function printComparison(baseline: EvaluationReport, candidate: EvaluationReport) {
+  const { sameDataset, targets } = compareEvaluationReports(baseline, candidate);
+  console.log(`\nCompared with ${baseline.id}${baseline.name ? ` (${baseline.name})` : ''}:`);
+  if (!sameDataset) {
+    console.log(`  Note: the datasets differ (${baseline.dataset.name} vs ${candidate.dataset.name}), so differences may not be due to the detectors.`);
+  }
+  const delta = (before: EvaluationMetrics | undefined, after: EvaluationMetrics | undefined, metric: 'accuracy' | 'f1' | 'rocAuc' | 'expectedCalibrationError', asPercent: boolean) =>
+    before && after ? signed(after[metric] - before[metric], asPercent) : '-';
+  console.table(Object.fromEntries(targets.map(target => [target.key, {
+    accuracy: delta(target.baseline, target.candidate, 'accuracy', true),
+    f1: delta(target.baseline, target.candidate, 'f1', true),
+    auc: delta(target.baseline, target.candidate, 'rocAuc', false),
+    ece: delta(target.baseline, target.candidate, 'expectedCalibrationError', false),
+    fixed: target.fixed ?? '-',
+    broken: target.broken ?? '-',
+    note: !target.baseline ? 'new' : !target.candidate ? 'not run' : '',
+  }])));
+}
+
+async function resolveTargets(): Promise<EvaluationTarget[] | undefined> {
+  if (!options.methods && !options.models) return undefined; // The flow's default: every configured detector
+  const methods = (options.methods?.split(',').map(method => method.trim()) ?? [...DETECTION_METHODS]) as DetectionMethod[];
+  const unknown = methods.filter(method => !(DETECTION_METHODS as readonly string[]).includes(method));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown detection method(s): ${unknown.join(', ')}. Use ${DETECTION_METHODS.join(', ')}.`);
+  }
+  const modelIds = options.models?.split(',').map(id => id.trim()).filter(Boolean) ?? (await listModels()).map(model => model.id);
+  return methods.flatMap<EvaluationTarget>(detectionMethod => detectionMethod === 'llm'
+    ? [{ detectionMethod }]
+    : modelIds.map(modelId => ({ detectionMethod, modelId })));
+}
+
+async function main() {
+  if (options.list) {
+    const reports = await readEvaluationReports();
+    if (reports.length === 0) console.log('No evaluation reports yet.');
+    reports.forEach(report => {
+      const best = [...report.targets].sort((a, b) => b.metrics.f1 - a.metrics.f1)[0];
+      console.log(`${report.id}  ${report.dataset.name} (${report.dataset.sampleCount} rows)  ${report.targets.length} detectors${best ? `, best F1 ${percent(best.metrics.f1)} (${best.key})` : ''}`);
+    });
+    return;
+  }
+
+  const datasetPath = positionals[0];
+  if (!datasetPath) {
+    throw new Error('Usage: npm run eval -- <dataset.csv|dataset.jsonl> [--methods custom,llm,ensemble] [--models id,...] [--prompt-version n] [--name text] [--compare id|latest]');
+  }
+  const rows = parseBatchFile(await readFile(datasetPath, 'utf-8'), datasetPath).filter(row => row.label);
+  const limit = options.limit ? Number(options.limit) : undefined;
+  const samples = rows.slice(0, limit).map(row => ({ text: row.text, label: row.label as 'Real' | 'Fake' }));
+  console.log(`Loaded ${samples.length} labeled articles from ${datasetPath} (${samples.filter(sample => sample.label === 'Fake').length} fake).`);
+
+  // Loaded here so --list works without Genkit and Firebase credentials.
+  const { evaluateDetectors } = await import('@/ai/flows/evaluate-detectors');
+  const previousReports = await readEvaluationReports();
+  const report = await evaluateDetectors({
+    datasetName: path.basename(datasetPath),
+    samples,
+    targets: await resolveTargets(),
+    concurrency: Number(options.concurrency),
+    customModelWeight: Number(options.weight),
+    promptVersion: options['prompt-version'],
+    name: options.name,
+    save: !options['no-save'],
+  });
+
+  console.log(`\nEvaluation ${report.id}${report.name ? ` (${report.name})` : ''} on ${report.dataset.name}, fingerprint ${report.dataset.fingerprint}:`);
+  printMetrics(report);
+
+  const baseline = options.compare === 'latest'
+    ? previousReports[0]
+    : options.compare
+      ? await readEvaluationReport(options.compare)
+      : previousReports.find(previous => previous.dataset.fingerprint === report.dataset.fingerprint);
+  if (baseline) {
+    printComparison(baseline, report);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
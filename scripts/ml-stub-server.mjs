@@ -0,0 +1,76 @@
+/**
+ * Local stand-in for the HTTP ML model services, with one route per failure mode of the model client.
+ *
+ *   npm run ml:stub
+ *   ML_MODELS_PATH=data/ml-models.stub.json npm run dev
+ *
+ * Every route is registered as a separate model in data/ml-models.stub.json, so each path can be
+ * exercised from the detector page by picking the matching model.
+ */
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.STUB_PORT || 8765);
+const SLOW_MS = Number(process.env.STUB_SLOW_MS || 30000);
+
+let flakyCalls = 0;
+
+const SENSATIONAL = /\b(shocking|miracle|secret|they don't want you|exposed|hoax|cure|100%)\b/gi;
+
+// Deterministic fake-probability so the same article always gets the same verdict.
+function fakeProbability(text) {
+  const hits = (text.match(SENSATIONAL) ?? []).length;
+  const exclamations = (text.match(/!/g) ?? []).length;
+  return Math.min(0.97, 0.2 + 0.15 * hits + 0.03 * exclamations);
+}
+
+function prediction(text) {
+  const p = fakeProbability(text);
+  return { prediction: p >= 0.5 ? 'fake' : 'real', confidence: Number((p >= 0.5 ? p : 1 - p).toFixed(3)) };
+}
+
+function send(res, status, body, contentType = 'application/json') {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
+
+const routes = {
+  'GET /health': (req, res, url) => send(res, Number(url.searchParams.get('status') || 200), { status: 'ok' }),
+  'POST /predict': (req, res, url, body) => send(res, 200, prediction(String(body.text ?? ''))),
+  // Same verdict, shaped like the mapped example in data/ml-models.example.json
+  'POST /fake-probability': (req, res, url, body) => send(res, 200, { scores: { fake: fakeProbability(String(body.inputs?.text ?? '')) } }),
+  'POST /slow': (req, res, url, body) => setTimeout(() => send(res, 200, prediction(String(body.text ?? ''))), SLOW_MS),
+  // Fails twice, then succeeds: recovered by the client's retries
+  'POST /flaky': (req, res, url, body) => {
+    flakyCalls += 1;
+    if (flakyCalls % 3 !== 0) return send(res, 503, { error: 'temporarily overloaded' });
+    send(res, 200, prediction(String(body.text ?? '')));
+  },
+  // Always fails: exhausts retries and eventually opens the circuit
+  'POST /error': (req, res) => send(res, 500, { error: 'internal model error' }),
+  'POST /reject': (req, res) => send(res, 400, { error: 'missing field "text"' }),
+  'POST /not-json': (req, res) => send(res, 200, '<html>Bad gateway</html>', 'text/html'),
+  'POST /bad-shape': (req, res) => send(res, 200, { result: 'maybe' }),
+  // Drops the connection without answering: a network error
+  'POST /drop': (req) => req.socket.destroy(),
+};
+
+createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const route = routes[`${req.method} ${url.pathname}`];
+  const body = req.method === 'POST' ? await readJson(req) : {};
+  console.log(`${new Date().toISOString()} ${req.method} ${url.pathname}`);
+  if (!route) return send(res, 404, { error: 'not found' });
+  route(req, res, url, body);
+}).listen(PORT, () => {
+  console.log(`ML stub server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,43 @@
+/**
+ * Mirrors NEXT_PUBLIC_ADMIN_EMAILS into the `admin` custom claim that firestore.rules checks.
+ *
+ *   npm run admins:sync
+ *
+ * Every account whose email is on the list gets `admin: true`; everyone else loses the claim. Needs Firebase
+ * Admin credentials (FIREBASE_SERVICE_ACCOUNT or application default credentials). Claims reach a signed-in
+ * user with their next ID token, i.e. within an hour or after signing in again.
+ */
+import 'dotenv/config';
+import { isAdminEmail } from '@/lib/admin';
+import { getAdminAuth } from '@/services/firebaseAdmin';
+
+async function main() {
+  const auth = getAdminAuth();
+  if (!auth) {
+    throw new Error("Firebase Admin is not configured; set FIREBASE_SERVICE_ACCOUNT and try again.");
+  }
+
+  let granted = 0;
+  let revoked = 0;
+  let pageToken: string | undefined;
+  do {
+    const page = await auth.listUsers(1000, pageToken);
+    for (const user of page.users) {
+      const shouldBeAdmin = isAdminEmail(user.email);
+      if ((user.customClaims?.admin === true) === shouldBeAdmin) continue;
+      const { admin: _previous, ...otherClaims } = user.customClaims ?? {};
+      await auth.setCustomUserClaims(user.uid, shouldBeAdmin ? { ...otherClaims, admin: true } : otherClaims);
+      console.log(`${shouldBeAdmin ? 'Granted' : 'Revoked'} admin: ${user.email ?? user.uid}`);
+      if (shouldBeAdmin) granted++;
+      else revoked++;
+    }
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  console.log(`Done: ${granted} granted, ${revoked} revoked.`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
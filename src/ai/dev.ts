@@ -5,5 +5,16 @@ config();
 import '@/ai/flows/generate-fake-news-article.ts';
 import '@/ai/flows/detect-fake-news.ts';
 import '@/ai/flows/llm-detect-fake-news.ts';
+import '@/ai/flows/ensemble-detect-fake-news.ts';
+import '@/ai/flows/chunked-detect-fake-news.ts';
+import '@/ai/flows/analyze-claims.ts';
+import '@/ai/flows/analyze-headline.ts';
+import '@/ai/flows/detect-ai-text.ts';
+import '@/ai/flows/classify-propaganda.ts';
+import '@/ai/flows/analyze-bias.ts';
+import '@/ai/flows/compare-articles.ts';
+import '@/ai/flows/explain-prediction.ts';
+import '@/ai/flows/evaluate-detectors.ts';
+import '@/ai/flows/translate-article.ts';
 import '@/ai/flows/generate-article-image-flow.ts'; // Added new image generation flow
 
@@ -0,0 +1,151 @@
+'use server';
+/**
+ * @fileOverview Estimates the political framing and slant of an article on a chosen scale, with quoted evidence.
+ *
+ * - analyzeBias - A function that rates an article's slant, checks its sourcing and lists the perspectives it leaves out.
+ * - AnalyzeBiasInput - The input type for the analyzeBias function.
+ * - AnalyzeBiasOutput - The return type for the analyzeBias function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { BIAS_SCALES, BIAS_SCALE_INFO, DEFAULT_BIAS_SCALE, SLANT_BUCKETS, isOneSidedSourcing, slantBucket } from '@/lib/bias';
+import { locateExcerpt } from '@/lib/highlights';
+
+const AnalyzeBiasInputSchema = z.object({
+  articleText: z.string().describe('The text content of the news article to analyze.'),
+  scale: z.enum(BIAS_SCALES).optional().describe('The political axis to measure slant on. Defaults to left/right.'),
+  responseLanguage: z.string().optional().describe('Language (e.g. "Spanish") to write the explanations in. Defaults to English.'),
+});
+export type AnalyzeBiasInput = z.infer<typeof AnalyzeBiasInputSchema>;
+
+const BiasSourceSchema = z.object({
+  name: z.string().describe('The person or organization quoted or cited, e.g. "Senator Jane Doe" or "an unnamed aide".'),
+  side: z.enum(['negative', 'neutral', 'positive']).describe('Which pole of the scale the source speaks for, or neutral.'),
+});
+
+const BiasEvidenceSchema = z.object({
+  quote: z.string().describe('A passage copied verbatim from the article (a phrase or one sentence).'),
+  observation: z.string().describe('One sentence on what the passage shows about the framing.'),
+});
+
+const AnalyzeBiasOutputSchema = z.object({
+  scale: z.enum(BIAS_SCALES),
+  isPolitical: z.boolean(),
+  slant: z.number().min(-100).max(100),
+  bucket: z.enum(SLANT_BUCKETS),
+  confidence: z.number().min(0).max(100),
+  framing: z.string(),
+  sources: z.array(BiasSourceSchema),
+  oneSidedSourcing: z.boolean(),
+  omittedPerspectives: z.array(z.string()),
+  evidence: z.array(BiasEvidenceSchema),
+  explanation: z.string(),
+});
+export type AnalyzeBiasOutput = z.infer<typeof AnalyzeBiasOutputSchema>;
+
+const MAX_EVIDENCE = 6;
+
+export async function analyzeBias(input: AnalyzeBiasInput): Promise<AnalyzeBiasOutput> {
+  try {
+    return await analyzeBiasFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in analyzeBias flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Bias analysis failed: ${error.message || 'An unexpected error occurred in the bias analysis flow.'}`);
+    }
+    throw new Error('Bias analysis failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const analyzeBiasPrompt = ai.definePrompt({
+  name: 'analyzeBiasPrompt',
+  input: {schema: z.object({
+    articleText: z.string(),
+    negativePole: z.string(),
+    positivePole: z.string(),
+    scaleDescription: z.string(),
+    responseLanguage: z.string().optional(),
+  })},
+  output: {schema: z.object({
+    isPolitical: z.boolean().describe('Whether the article covers a political topic or takes a political position at all.'),
+    slant: z.number().min(-100).max(100).describe('-100 = strongly toward the negative pole, 0 = balanced, 100 = strongly toward the positive pole.'),
+    confidence: z.number().min(0).max(100).describe('How confident you are in the slant rating.'),
+    framing: z.string().describe('The dominant frame of the story in a short phrase.'),
+    sources: z.array(BiasSourceSchema).describe('Every person or organization the article quotes or cites.'),
+    omittedPerspectives: z.array(z.string()).describe('Stakeholders or viewpoints a balanced story would include but this one leaves out.'),
+    evidence: z.array(BiasEvidenceSchema).describe(`Up to ${MAX_EVIDENCE} passages that support the rating.`),
+    explanation: z.string().describe('Two or three sentences explaining the rating.'),
+  })},
+  prompt: `You are a media-bias analyst. Rate the framing and slant of the article below on this scale:
+{{negativePole}} (-100) <-> balanced (0) <-> {{positivePole}} (100). {{scaleDescription}}
+
+Judge how the article is written, not whether its subject or its facts favor one side:
+- word choice and labels for each side, which facts lead and which are buried, what is presented as fact versus opinion;
+- who is quoted or cited (list every source with side 'negative' if it speaks for {{negativePole}}, 'positive' for {{positivePole}}, 'neutral' for neither), and how much space and credibility each side gets;
+- which stakeholders or perspectives a fair story on this topic would include but this one omits.
+Straight factual reporting that quotes both sides fairly is balanced even if the news itself is bad for one side.
+If the article has no political angle (e.g. sports results, product news), set isPolitical to false, slant to 0 and say so in the explanation.
+Support your rating with passages copied verbatim from the article.
+{{#if responseLanguage}}
+Write the framing, perspectives, observations and explanation in {{responseLanguage}}. Quotes MUST still be copied verbatim from the article.
+{{/if}}
+
+Article Text:
+{{{articleText}}}
+`,
+  config: {
+    safetySettings: [
+      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+    ],
+  },
+});
+
+const analyzeBiasFlow = ai.defineFlow(
+  {
+    name: 'analyzeBiasFlow',
+    inputSchema: AnalyzeBiasInputSchema,
+    outputSchema: AnalyzeBiasOutputSchema,
+  },
+  async (input) => {
+    const scale = input.scale ?? DEFAULT_BIAS_SCALE;
+    const { negativePole, positivePole, description } = BIAS_SCALE_INFO[scale];
+    const {output} = await analyzeBiasPrompt({
+      articleText: input.articleText,
+      negativePole,
+      positivePole,
+      scaleDescription: description,
+      responseLanguage: input.responseLanguage,
+    });
+    if (!output) {
+      console.error('[TruthLensAI] Bias analysis failed: AI did not return a valid structure for input:', input.articleText.substring(0,100));
+      throw new Error('The AI model did not return a bias analysis. Please try again later.');
+    }
+
+    // Quotes must come from the article; anything the model paraphrased is dropped rather than shown as a quote.
+    const evidence = output.evidence
+      .flatMap(item => {
+        const position = locateExcerpt(input.articleText, item.quote);
+        return position ? [{ ...item, quote: input.articleText.slice(position.start, position.end) }] : [];
+      })
+      .slice(0, MAX_EVIDENCE);
+
+    const slant = output.isPolitical ? Math.round(output.slant) : 0;
+    return {
+      scale,
+      isPolitical: output.isPolitical,
+      slant,
+      bucket: slantBucket(slant),
+      confidence: Math.round(output.confidence),
+      framing: output.framing,
+      sources: output.sources,
+      oneSidedSourcing: isOneSidedSourcing(output.sources),
+      omittedPerspectives: output.omittedPerspectives,
+      evidence,
+      explanation: output.explanation,
+    };
+  }
+);
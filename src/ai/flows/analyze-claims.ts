@@ -0,0 +1,159 @@
+'use server';
+/**
+ * @fileOverview Splits an article into atomic, checkable claims and assigns each one a verdict.
+ *
+ * - analyzeClaims - A function that extracts claims and scores them as supported, refuted or unverifiable.
+ * - AnalyzeClaimsInput - The input type for the analyzeClaims function.
+ * - AnalyzeClaimsOutput - The return type for the analyzeClaims function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { searchFactChecks } from '@/services/factCheck';
+import { FactCheckResultSchema } from '@/ai/schemas';
+
+const AnalyzeClaimsInputSchema = z.object({
+  articleText: z.string().describe('The text content of the news article to break into claims.'),
+});
+export type AnalyzeClaimsInput = z.infer<typeof AnalyzeClaimsInputSchema>;
+
+const ClaimSchema = z.object({
+  text: z.string().describe('The claim, restated as a single self-contained factual statement.'),
+  verdict: z.enum(['supported', 'refuted', 'unverifiable']).describe('Whether the claim is supported, refuted, or cannot be verified.'),
+  reasoning: z.string().describe('One or two sentences explaining the verdict.'),
+  factChecks: z.array(FactCheckResultSchema).optional().describe('Published fact-checks that matched this claim.'),
+});
+
+const AnalyzeClaimsOutputSchema = z.object({
+  claims: z.array(ClaimSchema).describe('The atomic claims found in the article, in order of appearance.'),
+});
+export type AnalyzeClaimsOutput = z.infer<typeof AnalyzeClaimsOutputSchema>;
+
+const MAX_CLAIMS = 12;
+
+export async function analyzeClaims(input: AnalyzeClaimsInput): Promise<AnalyzeClaimsOutput> {
+  try {
+    return await analyzeClaimsFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in analyzeClaims flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Claim analysis failed: ${error.message || 'An unexpected error occurred in the claim analysis flow.'}`);
+    }
+    throw new Error('Claim analysis failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const extractClaimsPrompt = ai.definePrompt({
+  name: 'extractClaimsPrompt',
+  input: {schema: AnalyzeClaimsInputSchema},
+  output: {schema: z.object({ claims: z.array(z.string()) })},
+  prompt: `You are an AI assistant that prepares news articles for fact-checking.
+Split the following article into atomic, checkable factual claims.
+Each claim MUST be a single self-contained statement that can be verified on its own (resolve pronouns, include who/what/when where the article gives it).
+Skip opinions, predictions, questions and rhetorical statements. Do not merge separate facts into one claim.
+Return at most ${MAX_CLAIMS} claims, in the order they appear in the article.
+
+Article Text:
+{{{articleText}}}
+`,
+});
+
+const ScoreClaimsInputSchema = z.object({
+  articleText: z.string(),
+  claims: z.array(z.object({
+    id: z.number(),
+    text: z.string(),
+    factChecks: z.array(FactCheckResultSchema),
+  })),
+});
+
+const scoreClaimsPrompt = ai.definePrompt({
+  name: 'scoreClaimsPrompt',
+  input: {schema: ScoreClaimsInputSchema},
+  output: {schema: z.object({
+    claims: z.array(ClaimSchema.omit({ text: true, factChecks: true }).extend({
+      claimId: z.number().describe('The number in square brackets in front of the claim this verdict is for.'),
+    })),
+  })},
+  prompt: `You are an AI assistant specializing in fact-checking.
+For each claim below, decide whether it is 'supported', 'refuted' or 'unverifiable' based on well-established public knowledge and any published fact-checks listed with it.
+Published fact-checks take precedence over your own knowledge. Use 'unverifiable' when there is not enough reliable information, rather than guessing.
+Give one or two sentences of reasoning for each verdict, and return each verdict with the number of its claim as claimId.
+
+Claims:
+{{#each claims}}
+[{{id}}] {{{text}}}
+{{#each factChecks}}
+  * Fact-check by {{{source}}}: "{{{claimReviewed}}}" rated {{{rating}}}
+{{/each}}
+{{/each}}
+
+Article Text (for context):
+{{{articleText}}}
+`,
+  config: {
+    safetySettings: [
+      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+    ],
+  },
+});
+
+const analyzeClaimsFlow = ai.defineFlow(
+  {
+    name: 'analyzeClaimsFlow',
+    inputSchema: AnalyzeClaimsInputSchema,
+    outputSchema: AnalyzeClaimsOutputSchema,
+  },
+  async (input) => {
+    const {output: extracted} = await extractClaimsPrompt(input);
+    const claimTexts = (extracted?.claims ?? [])
+      .map(claim => claim.trim())
+      .filter(claim => claim.length > 0)
+      .slice(0, MAX_CLAIMS);
+    if (claimTexts.length === 0) {
+      return { claims: [] };
+    }
+
+    const claimsWithEvidence = await Promise.all(claimTexts.map(async (text, index) => {
+      const id = index + 1;
+      try {
+        const matches = await searchFactChecks(text, { limit: 3 });
+        return { id, text, factChecks: matches.map(({ source, claimReviewed, rating, url }) => ({ source, claimReviewed, rating, ...(url ? { url } : {}) })) };
+      } catch (lookupError) {
+        console.warn("[TruthLensAI] Fact-check lookup failed for claim, scoring without it:", lookupError);
+        return { id, text, factChecks: [] };
+      }
+    }));
+
+    const {output: scored} = await scoreClaimsPrompt({ articleText: input.articleText, claims: claimsWithEvidence });
+    if (!scored) {
+      console.error('[TruthLensAI] Claim scoring failed: AI did not return a valid structure for input:', input.articleText.substring(0,100));
+      throw new Error('The AI model did not return verdicts for the extracted claims. Please try again later.');
+    }
+
+    // Pair verdicts with claims by the id the model echoes back; the first verdict for an id wins,
+    // verdicts for unknown ids are ignored and any claim left without one is unverifiable.
+    const verdicts = new Map<number, (typeof scored.claims)[number]>();
+    for (const verdict of scored.claims) {
+      if (!claimsWithEvidence.some(claim => claim.id === verdict.claimId)) {
+        console.warn("[TruthLensAI] Claim scoring returned a verdict for unknown claim id, ignoring it:", verdict.claimId);
+      } else if (!verdicts.has(verdict.claimId)) {
+        verdicts.set(verdict.claimId, verdict);
+      }
+    }
+    return {
+      claims: claimsWithEvidence.map(claim => {
+        const verdict = verdicts.get(claim.id);
+        return {
+          text: claim.text,
+          verdict: verdict?.verdict ?? 'unverifiable',
+          reasoning: verdict?.reasoning ?? 'The AI did not return a verdict for this claim.',
+          ...(claim.factChecks.length > 0 ? { factChecks: claim.factChecks } : {}),
+        };
+      }),
+    };
+  }
+);
@@ -0,0 +1,139 @@
+'use server';
+/**
+ * @fileOverview Scores a headline for clickbait and sensationalism and suggests a neutral rewrite.
+ *
+ * - analyzeHeadline - A function that scores a headline, explains which clickbait patterns it uses and rewrites it.
+ * - AnalyzeHeadlineInput - The input type for the analyzeHeadline function.
+ * - AnalyzeHeadlineOutput - The return type for the analyzeHeadline function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { HEADLINE_PATTERNS, detectHeadlinePatterns, headlineVerdict } from '@/lib/headline';
+
+const AnalyzeHeadlineInputSchema = z.object({
+  headline: z.string().min(1).describe('The headline to analyze.'),
+  articleText: z.string().optional().describe('The article the headline belongs to, used to judge whether the headline is accurate and to keep the rewrite faithful.'),
+  responseLanguage: z.string().optional().describe('Language (e.g. "Spanish") to write the explanations in. Defaults to English.'),
+});
+export type AnalyzeHeadlineInput = z.infer<typeof AnalyzeHeadlineInputSchema>;
+
+const HeadlinePatternHitSchema = z.object({
+  pattern: z.enum(HEADLINE_PATTERNS).describe('The clickbait pattern.'),
+  excerpt: z.string().describe('The words of the headline that use the pattern, copied verbatim.'),
+  explanation: z.string().describe('One sentence on how this headline uses the pattern.'),
+});
+
+const AnalyzeHeadlineOutputSchema = z.object({
+  headline: z.string(),
+  clickbaitScore: z.number().min(0).max(100).describe('How much the headline baits the click instead of informing (0-100).'),
+  sensationalismScore: z.number().min(0).max(100).describe('How much the headline exaggerates or dramatizes (0-100).'),
+  verdict: z.enum(['neutral', 'borderline', 'clickbait']),
+  patterns: z.array(HeadlinePatternHitSchema),
+  neutralRewrite: z.string().describe('An informative, neutral version of the headline.'),
+  explanation: z.string().describe('A short overall assessment.'),
+});
+export type AnalyzeHeadlineOutput = z.infer<typeof AnalyzeHeadlineOutputSchema>;
+
+// Only the first part of the article is needed to know what the headline should say.
+const MAX_ARTICLE_CONTEXT_CHARS = 3000;
+
+export async function analyzeHeadline(input: AnalyzeHeadlineInput): Promise<AnalyzeHeadlineOutput> {
+  try {
+    return await analyzeHeadlineFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in analyzeHeadline flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Headline analysis failed: ${error.message || 'An unexpected error occurred in the headline analysis flow.'}`);
+    }
+    throw new Error('Headline analysis failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const analyzeHeadlinePrompt = ai.definePrompt({
+  name: 'analyzeHeadlinePrompt',
+  input: {schema: z.object({
+    headline: z.string(),
+    articleText: z.string().optional(),
+    responseLanguage: z.string().optional(),
+    detectedPatterns: z.array(z.object({ pattern: z.string(), excerpt: z.string() })),
+  })},
+  output: {schema: AnalyzeHeadlineOutputSchema.pick({ clickbaitScore: true, sensationalismScore: true, patterns: true, neutralRewrite: true, explanation: true })},
+  prompt: `You are an experienced news editor who reviews headlines for clickbait and sensationalism.
+
+Score the headline below:
+- clickbaitScore (0-100): how much it withholds or teases information to get a click rather than telling the reader what happened. A plain factual headline scores below 20.
+- sensationalismScore (0-100): how much it exaggerates, dramatizes or uses emotionally loaded language.
+
+List every clickbait pattern the headline uses, choosing from: curiosity_gap (withholds the key fact), listicle (numbered list format), superlative (best/worst/most/ever and other extremes), emotional_trigger (loaded words like "shocking" or "slams"), question (a question the article likely does not answer), direct_address (speaks to "you"), urgency (artificial time pressure), all_caps (shouting), excessive_punctuation (exclamation marks, "?!").
+For each pattern quote the triggering words verbatim from the headline. Only list patterns the headline actually uses; a superlative that is literally true and informative (e.g. "hottest year on record" backed by data) is not clickbait.
+{{#if detectedPatterns.length}}
+A rule-based pre-check matched these patterns; confirm or dismiss each one:
+{{#each detectedPatterns}}
+- {{pattern}}: "{{{excerpt}}}"
+{{/each}}
+{{/if}}
+
+Then write a neutralRewrite: a factual, specific headline in the same language as the original that states the actual news without any of the patterns. Do not add facts that are not in the headline{{#if articleText}} or the article{{/if}}. If the headline is already neutral, return it unchanged.
+Finish with a one or two sentence explanation of the scores.
+{{#if responseLanguage}}
+Write the explanations in {{responseLanguage}}. Excerpts MUST still be copied verbatim from the headline.
+{{/if}}
+
+Headline:
+{{{headline}}}
+{{#if articleText}}
+
+Article (beginning, for context):
+{{{articleText}}}
+{{/if}}
+`,
+});
+
+const analyzeHeadlineFlow = ai.defineFlow(
+  {
+    name: 'analyzeHeadlineFlow',
+    inputSchema: AnalyzeHeadlineInputSchema,
+    outputSchema: AnalyzeHeadlineOutputSchema,
+  },
+  async (input) => {
+    const headline = input.headline.trim();
+    const detected = detectHeadlinePatterns(headline);
+
+    const {output} = await analyzeHeadlinePrompt({
+      headline,
+      articleText: input.articleText?.substring(0, MAX_ARTICLE_CONTEXT_CHARS),
+      responseLanguage: input.responseLanguage,
+      detectedPatterns: detected.map(({ pattern, excerpt }) => ({ pattern, excerpt })),
+    });
+    if (!output) {
+      console.error('[TruthLensAI] Headline analysis failed: AI did not return a valid structure for headline:', headline);
+      throw new Error('The AI model did not return a headline analysis. Please try again later.');
+    }
+
+    // One entry per pattern. Excerpts the model did not copy from the headline are dropped; the rule-based
+    // hits fill in only for shouting and punctuation, which the model tends to overlook but which are unambiguous.
+    const patterns = new Map<string, z.infer<typeof HeadlinePatternHitSchema>>();
+    for (const hit of output.patterns) {
+      if (!patterns.has(hit.pattern) && headline.toLowerCase().includes(hit.excerpt.trim().toLowerCase())) {
+        patterns.set(hit.pattern, { ...hit, excerpt: hit.excerpt.trim() });
+      }
+    }
+    for (const hit of detected) {
+      if (!patterns.has(hit.pattern) && (hit.pattern === 'all_caps' || hit.pattern === 'excessive_punctuation')) {
+        patterns.set(hit.pattern, hit);
+      }
+    }
+
+    const clickbaitScore = Math.round(output.clickbaitScore);
+    return {
+      headline,
+      clickbaitScore,
+      sensationalismScore: Math.round(output.sensationalismScore),
+      verdict: headlineVerdict(clickbaitScore),
+      patterns: [...patterns.values()],
+      neutralRewrite: output.neutralRewrite.trim() || headline,
+      explanation: output.explanation,
+    };
+  }
+);
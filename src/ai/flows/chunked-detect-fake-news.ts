@@ -0,0 +1,212 @@
+'use server';
+/**
+ * @fileOverview Detection for long articles: splits the text into paragraph-aware sections,
+ * runs the selected detector on each and aggregates the section verdicts into one.
+ *
+ * - chunkedDetectFakeNews - A function that analyzes a long article section by section.
+ * - ChunkedDetectFakeNewsInput - The input type for the chunkedDetectFakeNews function.
+ * - ChunkedDetectFakeNewsOutput - The return type for the chunkedDetectFakeNews function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { detectFakeNews } from '@/ai/flows/detect-fake-news';
+import { llmDetectFakeNews } from '@/ai/flows/llm-detect-fake-news';
+import { ensembleDetectFakeNews } from '@/ai/flows/ensemble-detect-fake-news';
+import { chunkText, DEFAULT_CHUNK_CHARS } from '@/lib/chunking';
+import { runWithConcurrency } from '@/lib/batch';
+import { CalibrationInfoSchema, DetectionModelInfoSchema, EnsembleDetailsSchema, EvidenceSchema, FactCheckResultSchema, HighlightSpanSchema, VerdictLabelSchema, VerdictSchema } from '@/ai/schemas';
+import { toFakeProbability, toVerdict } from '@/lib/calibration';
+import { combinedCachedAt } from '@/services/detectionCache';
+import { selectPromptVersion } from '@/services/promptRegistry/store';
+import type { CalibrationInfo, DetectionModelInfo, DetectionVerdict, EnsembleComponent, EnsembleDetails, Evidence, FactCheckResult, HighlightSpan } from '@/types';
+
+const CHUNK_CONCURRENCY = 3;
+
+const ChunkedDetectFakeNewsInputSchema = z.object({
+  articleText: z.string().describe('The full text of the (long) news article to be analyzed.'),
+  detectionMethod: z.enum(['custom', 'llm', 'ensemble']).describe('Detector to run on each section.'),
+  weights: z.object({
+    custom: z.number().min(0),
+    llm: z.number().min(0),
+  }).optional().describe('Ensemble weights, used when detectionMethod is "ensemble".'),
+  responseLanguage: z.string().optional().describe('Language the LLM should write its titles and explanations in.'),
+  maxChunkChars: z.number().int().min(500).optional().describe(`Maximum section length in characters. Defaults to ${DEFAULT_CHUNK_CHARS}.`),
+  modelId: z.string().optional().describe('Registry id of the ML model to use for "custom" and "ensemble" detection.'),
+  forceRefresh: z.boolean().optional().describe('Skip the result cache for every section.'),
+  promptVersion: z.string().optional().describe('Prompt registry version for the LLM instead of the one picked by the traffic split.'),
+});
+export type ChunkedDetectFakeNewsInput = z.infer<typeof ChunkedDetectFakeNewsInputSchema>;
+
+const ChunkedDetectFakeNewsOutputSchema = z.object({
+  suggestedTitle: z.string().optional().describe('Title suggested for the opening section, if the detector provides one.'),
+  label: VerdictLabelSchema.describe('The aggregated label for the whole article.'),
+  confidence: z.number().min(0).max(100).describe('The aggregated confidence score (0-100).'),
+  evidence: z.array(EvidenceSchema).optional().describe('Evidence for the section that contributed most to the verdict, with offsets into the full text.'),
+  factChecks: z.array(FactCheckResultSchema).optional().describe('Fact-checks gathered across all sections.'),
+  highlights: z.array(HighlightSpanSchema).optional().describe('Manipulative passages flagged in any section, with offsets into the full text.'),
+  ensemble: EnsembleDetailsSchema.optional().describe('Aggregated component verdicts when detectionMethod is "ensemble".'),
+  chunks: z.array(z.object({
+    index: z.number().int().min(0),
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    result: VerdictSchema,
+    weight: z.number().min(0).max(1),
+    influence: z.number().min(-1).max(1),
+    evidence: z.array(EvidenceSchema).optional(),
+  })).describe('Per-section verdicts in reading order.'),
+  raw: VerdictSchema.describe('The aggregate of the uncalibrated section verdicts.'),
+  calibration: CalibrationInfoSchema.optional().describe('The calibration model applied to each section verdict, if any.'),
+  cachedAt: z.string().optional().describe('When the sections were first analyzed, if every section was served from the cache.'),
+  models: z.array(DetectionModelInfoSchema).describe('The models that analyzed the sections.'),
+  promptVersion: z.string().optional().describe('The prompt registry version the LLM used for every section, if the LLM took part.'),
+});
+export type ChunkedDetectFakeNewsOutput = z.infer<typeof ChunkedDetectFakeNewsOutputSchema>;
+
+export async function chunkedDetectFakeNews(input: ChunkedDetectFakeNewsInput): Promise<ChunkedDetectFakeNewsOutput> {
+  try {
+    return await chunkedDetectFakeNewsFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in chunkedDetectFakeNews flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Long-article detection failed: ${error.message || 'An unexpected error occurred while analyzing the article sections.'}`);
+    }
+    throw new Error('Long-article detection failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+interface SectionResult {
+  verdict: DetectionVerdict;
+  raw?: DetectionVerdict;
+  calibration?: CalibrationInfo;
+  cachedAt?: string;
+  models: DetectionModelInfo[];
+  suggestedTitle?: string;
+  evidence?: Evidence[];
+  factChecks?: FactCheckResult[];
+  highlights?: HighlightSpan[];
+  ensemble?: EnsembleDetails;
+  promptVersion?: string;
+}
+
+// Length-weighted mean of the sections' fake probabilities.
+function aggregate(verdicts: DetectionVerdict[], weights: number[]): DetectionVerdict {
+  return toVerdict(verdicts.reduce((sum, verdict, i) => sum + weights[i] * toFakeProbability(verdict), 0));
+}
+
+const chunkedDetectFakeNewsFlow = ai.defineFlow(
+  {
+    name: 'chunkedDetectFakeNewsFlow',
+    inputSchema: ChunkedDetectFakeNewsInputSchema,
+    outputSchema: ChunkedDetectFakeNewsOutputSchema,
+  },
+  async (input) => {
+    const chunks = chunkText(input.articleText, input.maxChunkChars ?? DEFAULT_CHUNK_CHARS);
+    if (chunks.length === 0) {
+      throw new Error('The article contains no text to analyze.');
+    }
+
+    // Chosen once for the whole article, so every section is analyzed with the same prompt.
+    const usesLlm = input.detectionMethod === 'llm' || (input.detectionMethod === 'ensemble' && input.weights?.llm !== 0);
+    const promptVersion = !usesLlm
+      ? undefined
+      : (await selectPromptVersion('llmDetectFakeNews', input.articleText, input.promptVersion)).version;
+
+    const analyzeSection = async (articleText: string): Promise<SectionResult> => {
+      if (input.detectionMethod === 'custom') {
+        const result = await detectFakeNews({ articleText, modelId: input.modelId, forceRefresh: input.forceRefresh });
+        return { verdict: { label: result.label, confidence: result.confidence }, raw: result.raw, calibration: result.calibration, cachedAt: result.cachedAt, models: result.models };
+      }
+      if (input.detectionMethod === 'llm') {
+        const result = await llmDetectFakeNews({ articleText, responseLanguage: input.responseLanguage, forceRefresh: input.forceRefresh, promptVersion });
+        return { verdict: { label: result.label, confidence: result.confidence }, ...result };
+      }
+      const result = await ensembleDetectFakeNews({ articleText, weights: input.weights, responseLanguage: input.responseLanguage, modelId: input.modelId, forceRefresh: input.forceRefresh, promptVersion });
+      return { verdict: { label: result.label, confidence: result.confidence }, ...result };
+    };
+
+    const sections: SectionResult[] = new Array(chunks.length);
+    let firstError: unknown;
+    await runWithConcurrency(chunks, CHUNK_CONCURRENCY, chunk => analyzeSection(chunk.text), (index, outcome) => {
+      if (outcome.status === 'fulfilled') {
+        sections[index] = outcome.value;
+      } else {
+        firstError ??= outcome.reason;
+      }
+    });
+    if (firstError) {
+      throw firstError instanceof Error ? firstError : new Error(String(firstError));
+    }
+
+    const totalLength = chunks.reduce((sum, chunk) => sum + (chunk.end - chunk.start), 0);
+    const weights = chunks.map(chunk => (chunk.end - chunk.start) / totalLength);
+    const overall = aggregate(sections.map(section => section.verdict), weights);
+    const raw = aggregate(sections.map(section => section.raw ?? section.verdict), weights);
+
+    // A section's influence is how far it pulled the weighted mean towards (positive) or away from (negative) the final label.
+    const direction = overall.label === 'Fake' ? 1 : -1;
+    const pulls = sections.map((section, i) => weights[i] * (toFakeProbability(section.verdict) - 0.5) * direction);
+    const maxPull = Math.max(...pulls.map(Math.abs), Number.EPSILON);
+    const mostInfluential = pulls.indexOf(Math.max(...pulls));
+
+    const factChecks = new Map<string, FactCheckResult>();
+    sections.flatMap(section => section.factChecks ?? []).forEach(fc => {
+      factChecks.set(`${fc.source}|${fc.claimReviewed}`.toLowerCase(), fc);
+    });
+    const highlights = sections.flatMap((section, i) => (section.highlights ?? []).map(span => ({
+      ...span,
+      start: span.start + chunks[i].start,
+      end: span.end + chunks[i].start,
+    })));
+    const evidence = sections.map((section, i) => section.evidence?.map(item => item.quote
+      ? { ...item, quote: { ...item.quote, start: item.quote.start + chunks[i].start, end: item.quote.end + chunks[i].start } }
+      : item));
+
+    let ensemble: ChunkedDetectFakeNewsOutput['ensemble'];
+    if (input.detectionMethod === 'ensemble') {
+      // A component that was skipped or failed for some sections is aggregated over the sections it did analyze.
+      const aggregateComponent = (component: EnsembleComponent) => {
+        const analyzed = sections.flatMap((section, i) => (section.ensemble?.[component] ? [{ verdict: section.ensemble[component]!, weight: weights[i] }] : []));
+        const analyzedWeight = analyzed.reduce((sum, { weight }) => sum + weight, 0);
+        return analyzed.length > 0
+          ? aggregate(analyzed.map(({ verdict }) => verdict), analyzed.map(({ weight }) => weight / analyzedWeight))
+          : undefined;
+      };
+      const custom = aggregateComponent('custom');
+      const llm = aggregateComponent('llm');
+      const fallback = sections.find(section => section.ensemble?.fallback)?.ensemble?.fallback;
+      ensemble = {
+        weights: sections[0].ensemble!.weights,
+        custom,
+        llm,
+        agreement: custom && llm ? custom.label === llm.label : undefined,
+        fallback,
+      };
+    }
+
+    return {
+      suggestedTitle: sections[0].suggestedTitle,
+      label: overall.label,
+      confidence: overall.confidence,
+      evidence: evidence[mostInfluential],
+      factChecks: factChecks.size > 0 ? Array.from(factChecks.values()) : undefined,
+      highlights: input.detectionMethod === 'custom' ? undefined : highlights,
+      ensemble,
+      raw,
+      calibration: sections[0].calibration,
+      cachedAt: combinedCachedAt(sections.map(section => section.cachedAt)),
+      // Sections can differ when an ensemble component failed for some of them.
+      models: [...new Map(sections.flatMap(section => section.models).map(model => [`${model.provider}|${model.name}|${model.version}`, model])).values()],
+      promptVersion: sections.some(section => section.promptVersion) ? promptVersion : undefined,
+      chunks: chunks.map((chunk, i) => ({
+        index: i,
+        start: chunk.start,
+        end: chunk.end,
+        result: sections[i].verdict,
+        weight: parseFloat(weights[i].toFixed(4)),
+        influence: parseFloat((pulls[i] / maxPull).toFixed(3)),
+        ...(evidence[i] ? { evidence: evidence[i] } : {}),
+      })),
+    };
+  }
+);
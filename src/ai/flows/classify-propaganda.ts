@@ -0,0 +1,111 @@
+'use server';
+/**
+ * @fileOverview Tags an article with propaganda techniques from a fixed taxonomy, with supporting excerpts and severity.
+ *
+ * - classifyPropaganda - A function that finds the propaganda techniques an article uses.
+ * - ClassifyPropagandaInput - The input type for the classifyPropaganda function.
+ * - ClassifyPropagandaOutput - The return type for the classifyPropaganda function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { PROPAGANDA_SEVERITIES, PROPAGANDA_TECHNIQUES, PROPAGANDA_TECHNIQUE_INFO } from '@/lib/propaganda';
+import { locateExcerpt } from '@/lib/highlights';
+
+const ClassifyPropagandaInputSchema = z.object({
+  articleText: z.string().describe('The text content of the news article to classify.'),
+});
+export type ClassifyPropagandaInput = z.infer<typeof ClassifyPropagandaInputSchema>;
+
+const PropagandaFindingSchema = z.object({
+  technique: z.enum(PROPAGANDA_TECHNIQUES).describe('The propaganda technique, from the fixed taxonomy.'),
+  excerpt: z.string().describe('The passage that uses the technique, copied verbatim from the article (a phrase or one sentence).'),
+  severity: z.enum(PROPAGANDA_SEVERITIES).describe('How strongly the passage manipulates the reader.'),
+  explanation: z.string().describe('One sentence on how the passage uses the technique.'),
+});
+
+const ClassifyPropagandaOutputSchema = z.object({
+  findings: z.array(PropagandaFindingSchema).describe('Each use of a technique, in order of appearance.'),
+});
+export type ClassifyPropagandaOutput = z.infer<typeof ClassifyPropagandaOutputSchema>;
+
+const MAX_FINDINGS = 15;
+
+const TAXONOMY = PROPAGANDA_TECHNIQUES
+  .map(technique => `- ${technique}: ${PROPAGANDA_TECHNIQUE_INFO[technique].label}. ${PROPAGANDA_TECHNIQUE_INFO[technique].definition}`)
+  .join('\n');
+
+export async function classifyPropaganda(input: ClassifyPropagandaInput): Promise<ClassifyPropagandaOutput> {
+  try {
+    return await classifyPropagandaFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in classifyPropaganda flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Propaganda classification failed: ${error.message || 'An unexpected error occurred in the propaganda classification flow.'}`);
+    }
+    throw new Error('Propaganda classification failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const classifyPropagandaPrompt = ai.definePrompt({
+  name: 'classifyPropagandaPrompt',
+  input: {schema: ClassifyPropagandaInputSchema},
+  output: {schema: ClassifyPropagandaOutputSchema},
+  prompt: `You are a media-literacy instructor who identifies propaganda techniques in news articles.
+Use ONLY these techniques:
+${TAXONOMY}
+
+Find each passage in the article that uses one of these techniques. For every finding:
+- copy the passage verbatim from the article (a phrase or a single sentence, not a paraphrase);
+- rate severity: 'low' for a mild or incidental use, 'medium' for a clear use that colors the story, 'high' for a use central to the article's message;
+- explain in one sentence how the passage uses the technique.
+A passage may use more than one technique; list each separately. Quoting someone who uses a technique counts only if the article adopts or amplifies it rather than reporting it neutrally.
+Return at most ${MAX_FINDINGS} findings, in the order they appear. Return an empty list for neutral reporting; do not force findings.
+
+Article Text:
+{{{articleText}}}
+`,
+  config: {
+    safetySettings: [
+      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+    ],
+  },
+});
+
+const classifyPropagandaFlow = ai.defineFlow(
+  {
+    name: 'classifyPropagandaFlow',
+    inputSchema: ClassifyPropagandaInputSchema,
+    outputSchema: ClassifyPropagandaOutputSchema,
+  },
+  async (input) => {
+    const {output} = await classifyPropagandaPrompt(input);
+    if (!output) {
+      console.error('[TruthLensAI] Propaganda classification failed: AI did not return a valid structure for input:', input.articleText.substring(0,100));
+      throw new Error('The AI model did not return a propaganda classification. Please try again later.');
+    }
+
+    // Keep only excerpts that really occur in the article, quoted exactly as they appear there, in reading order.
+    const seen = new Set<string>();
+    const findings = output.findings
+      .flatMap(finding => {
+        const position = locateExcerpt(input.articleText, finding.excerpt);
+        if (!position) {
+          console.warn("[TruthLensAI] Dropping propaganda finding whose excerpt is not in the article:", finding.excerpt.substring(0, 80));
+          return [];
+        }
+        const key = `${finding.technique}:${position.start}`;
+        if (seen.has(key)) return [];
+        seen.add(key);
+        return [{ start: position.start, finding: { ...finding, excerpt: input.articleText.slice(position.start, position.end) } }];
+      })
+      .sort((a, b) => a.start - b.start)
+      .slice(0, MAX_FINDINGS)
+      .map(({ finding }) => finding);
+
+    return { findings };
+  }
+);
@@ -0,0 +1,122 @@
+'use server';
+/**
+ * @fileOverview Compares two articles about the same event claim by claim and rates how consistent they are.
+ *
+ * - compareArticles - A function that aligns the claims of two texts and finds contradictions, omissions and added details.
+ * - CompareArticlesInput - The input type for the compareArticles function.
+ * - CompareArticlesOutput - The return type for the compareArticles function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { CLAIM_ALIGNMENT_STATUSES, comparisonVerdict, consistencyScore } from '@/lib/comparison';
+
+const CompareArticlesInputSchema = z.object({
+  subjectText: z.string().describe('The article being checked, e.g. a suspicious story.'),
+  referenceText: z.string().describe('The article it is checked against, e.g. a reputable report of the same event.'),
+  responseLanguage: z.string().optional().describe('Language (e.g. "Spanish") to write the claims and explanations in. Defaults to English.'),
+});
+export type CompareArticlesInput = z.infer<typeof CompareArticlesInputSchema>;
+
+const AlignedClaimSchema = z.object({
+  status: z.enum(CLAIM_ALIGNMENT_STATUSES).describe("'consistent' if both texts state it compatibly, 'contradiction' if they disagree, 'omission' if only the reference states it, 'addition' if only the subject states it."),
+  subjectClaim: z.string().optional().describe('The claim as the subject states it; leave out for omissions.'),
+  referenceClaim: z.string().optional().describe('The claim as the reference states it; leave out for additions.'),
+  importance: z.enum(['minor', 'major']).describe("'major' if the difference changes what a reader takes away about the event."),
+  explanation: z.string().describe('One sentence on how the two texts relate on this point.'),
+});
+
+const CompareArticlesOutputSchema = z.object({
+  title: z.string().describe('A short neutral name for the event both texts cover.'),
+  alignedClaims: z.array(AlignedClaimSchema),
+  consistencyScore: z.number().min(0).max(100),
+  verdict: z.enum(['consistent', 'partially_consistent', 'inconsistent']),
+  summary: z.string(),
+});
+export type CompareArticlesOutput = z.infer<typeof CompareArticlesOutputSchema>;
+
+const MAX_ALIGNED_CLAIMS = 20;
+
+export async function compareArticles(input: CompareArticlesInput): Promise<CompareArticlesOutput> {
+  try {
+    return await compareArticlesFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in compareArticles flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Article comparison failed: ${error.message || 'An unexpected error occurred in the comparison flow.'}`);
+    }
+    throw new Error('Article comparison failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const compareArticlesPrompt = ai.definePrompt({
+  name: 'compareArticlesPrompt',
+  input: {schema: CompareArticlesInputSchema},
+  output: {schema: z.object({
+    title: CompareArticlesOutputSchema.shape.title,
+    alignedClaims: z.array(AlignedClaimSchema).describe('The factual claims of both texts, matched to each other.'),
+    summary: z.string().describe('Two or three sentences on where the texts agree and where they diverge.'),
+  })},
+  prompt: `You are a fact-checker comparing two reports of the same event: a SUBJECT article that is being checked and a REFERENCE article to check it against.
+
+Break both texts into their factual claims (who, what, when, where, how many, who said what) and match them up:
+- 'consistent': both texts state the claim and agree (different wording or rounding is fine);
+- 'contradiction': both texts address the same point but disagree (different numbers, dates, people, causes or outcomes);
+- 'omission': only the REFERENCE states the claim; the subject leaves it out;
+- 'addition': only the SUBJECT states the claim; the reference does not mention it.
+Restate each claim as a short self-contained sentence for each text that contains it. Mark a difference 'major' when it changes what a reader would believe about the event, otherwise 'minor'.
+Skip opinions and commentary unless they are presented as fact. Do not judge which text is true beyond what the two texts say.
+Return at most ${MAX_ALIGNED_CLAIMS} aligned claims, most important first.
+{{#if responseLanguage}}
+Write the claims, explanations and summary in {{responseLanguage}}.
+{{/if}}
+
+SUBJECT article:
+{{{subjectText}}}
+
+REFERENCE article:
+{{{referenceText}}}
+`,
+  config: {
+    safetySettings: [
+      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+    ],
+  },
+});
+
+const compareArticlesFlow = ai.defineFlow(
+  {
+    name: 'compareArticlesFlow',
+    inputSchema: CompareArticlesInputSchema,
+    outputSchema: CompareArticlesOutputSchema,
+  },
+  async (input) => {
+    const {output} = await compareArticlesPrompt(input);
+    if (!output) {
+      console.error('[TruthLensAI] Article comparison failed: AI did not return a valid structure for input:', input.subjectText.substring(0,100));
+      throw new Error('The AI model did not return a comparison. Please try again later.');
+    }
+
+    // Each status needs the sides it describes; drop entries that lack them and fields that contradict the status.
+    const alignedClaims = output.alignedClaims
+      .flatMap(claim => {
+        const subjectClaim = claim.status === 'omission' ? undefined : claim.subjectClaim?.trim();
+        const referenceClaim = claim.status === 'addition' ? undefined : claim.referenceClaim?.trim();
+        if ((claim.status !== 'omission' && !subjectClaim) || (claim.status !== 'addition' && !referenceClaim)) return [];
+        return [{ ...claim, subjectClaim, referenceClaim }];
+      })
+      .slice(0, MAX_ALIGNED_CLAIMS);
+
+    const score = consistencyScore(alignedClaims);
+    return {
+      title: output.title,
+      alignedClaims,
+      consistencyScore: score,
+      verdict: comparisonVerdict(alignedClaims, score),
+      summary: output.summary,
+    };
+  }
+);
@@ -0,0 +1,133 @@
+'use server';
+/**
+ * @fileOverview Estimates whether a text was written by a language model, combining stylometric features with an LLM judge.
+ *
+ * - detectAiText - A function that returns the likelihood (0-100) that the text is machine-generated.
+ * - DetectAiTextInput - The input type for the detectAiText function.
+ * - DetectAiTextOutput - The return type for the detectAiText function.
+ */
+
+import {ai, DEFAULT_MODEL} from '@/ai/genkit';
+import {z} from 'genkit';
+import { withDetectionCache } from '@/services/detectionCache';
+import { aiTextVerdict, analyzeStylometry, stylometricScore, MIN_WORDS_FOR_STYLOMETRY, STYLOMETRY_WEIGHT } from '@/lib/stylometry';
+
+const DetectAiTextInputSchema = z.object({
+  articleText: z.string().describe('The text to assess for machine authorship.'),
+  forceRefresh: z.boolean().optional().describe('Skip the result cache and ask the judge again.'),
+});
+export type DetectAiTextInput = z.infer<typeof DetectAiTextInputSchema>;
+
+const StylometricFeaturesSchema = z.object({
+  wordCount: z.number(),
+  sentenceLengthMean: z.number(),
+  burstiness: z.number(),
+  typeTokenRatio: z.number(),
+  contractionRate: z.number(),
+  repeatedOpeningShare: z.number(),
+  llmPhraseHits: z.array(z.string()),
+});
+
+const DetectAiTextOutputSchema = z.object({
+  likelihood: z.number().min(0).max(100).describe('Combined likelihood (0-100) that the text is machine-generated.'),
+  verdict: z.enum(['likely_ai', 'uncertain', 'likely_human']),
+  stylometricScore: z.number().min(0).max(100),
+  judgeScore: z.number().min(0).max(100),
+  features: StylometricFeaturesSchema,
+  indicators: z.array(z.string()),
+  reasoning: z.string(),
+});
+export type DetectAiTextOutput = z.infer<typeof DetectAiTextOutputSchema>;
+
+// The judge sees the beginning of long texts; authorship style is consistent throughout.
+const MAX_JUDGE_CHARS = 8000;
+// Part of the cache key: bump it when the judge prompt or the score combination changes.
+const AI_TEXT_VERSION = '1';
+
+export async function detectAiText(input: DetectAiTextInput): Promise<DetectAiTextOutput> {
+  try {
+    return await detectAiTextFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in detectAiText flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`AI authorship analysis failed: ${error.message || 'An unexpected error occurred in the AI authorship flow.'}`);
+    }
+    throw new Error('AI authorship analysis failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const aiTextJudgePrompt = ai.definePrompt({
+  name: 'aiTextJudgePrompt',
+  input: {schema: z.object({
+    articleText: z.string(),
+    features: StylometricFeaturesSchema,
+  })},
+  output: {schema: z.object({
+    judgeScore: z.number().min(0).max(100).describe('Likelihood (0-100) that the text was generated by a language model.'),
+    indicators: z.array(z.string()).describe('Up to 5 short, concrete observations that informed the score.'),
+    reasoning: z.string().describe('Two or three sentences explaining the score.'),
+  })},
+  prompt: `You are a forensic linguist who judges whether texts were written by a human or generated by a large language model.
+This is about authorship only, NOT about whether the content is true: a machine can write accurate news and a human can write lies.
+
+Signs of machine authorship include: uniform sentence length and rhythm, generic statements without concrete names, numbers, places or quotes that could be checked, balanced "on the one hand / on the other hand" framing, stock transitions ("Furthermore", "Moreover", "In conclusion"), summarizing closing paragraphs, and polished but impersonal prose.
+Signs of human authorship include: specific reporting details (named sources, direct quotes, dates, local detail), uneven rhythm, idiosyncratic word choice, typos, and a distinct voice.
+
+Measured style features (for reference; short texts make them unreliable):
+- Words: {{features.wordCount}}, mean sentence length {{features.sentenceLengthMean}}
+- Burstiness (sentence length variation; human writing is usually above 0.5): {{features.burstiness}}
+- Moving type-token ratio: {{features.typeTokenRatio}}
+- Contractions per 100 words: {{features.contractionRate}}
+- Share of sentences with repeated openings: {{features.repeatedOpeningShare}}
+{{#if features.llmPhraseHits.length}}
+- Stock LLM phrases found: {{#each features.llmPhraseHits}}"{{this}}" {{/each}}
+{{/if}}
+
+Give a judgeScore from 0 (certainly human) to 100 (certainly machine-generated), up to 5 concrete indicators, and brief reasoning. Use scores near 50 when the evidence is weak.
+
+Text:
+{{{articleText}}}
+`,
+});
+
+const detectAiTextFlow = ai.defineFlow(
+  {
+    name: 'detectAiTextFlow',
+    inputSchema: DetectAiTextInputSchema,
+    outputSchema: DetectAiTextOutputSchema,
+  },
+  async (input) => {
+    const { value } = await withDetectionCache(
+      { detectionMethod: 'aiText', modelVersion: `${DEFAULT_MODEL}/ai-text-${AI_TEXT_VERSION}`, articleText: input.articleText },
+      () => estimateAuthorship(input.articleText),
+      { forceRefresh: input.forceRefresh }
+    );
+    return value;
+  }
+);
+
+async function estimateAuthorship(articleText: string): Promise<DetectAiTextOutput> {
+  const features = analyzeStylometry(articleText);
+  const styleScore = stylometricScore(features);
+
+  const {output} = await aiTextJudgePrompt({ articleText: articleText.substring(0, MAX_JUDGE_CHARS), features });
+  if (!output) {
+    console.error('[TruthLensAI] AI authorship analysis failed: AI did not return a valid structure for input:', articleText.substring(0,100));
+    throw new Error('The AI model did not return an authorship assessment. Please try again later.');
+  }
+
+  const judgeScore = Math.round(Math.max(0, Math.min(100, output.judgeScore)));
+  // Stylometry carries no information on very short texts, so the judge decides alone there.
+  const styleWeight = features.wordCount >= MIN_WORDS_FOR_STYLOMETRY ? STYLOMETRY_WEIGHT : 0;
+  const likelihood = Math.round(styleWeight * styleScore + (1 - styleWeight) * judgeScore);
+
+  return {
+    likelihood,
+    verdict: aiTextVerdict(likelihood),
+    stylometricScore: styleScore,
+    judgeScore,
+    features,
+    indicators: output.indicators.slice(0, 5),
+    reasoning: output.reasoning,
+  };
+}
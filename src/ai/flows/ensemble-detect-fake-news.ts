@@ -0,0 +1,132 @@
+'use server';
+/**
+ * @fileOverview Ensemble fake news detection that fuses the Truth Lens model and the LLM verdict.
+ *
+ * - ensembleDetectFakeNews - A function that runs the weighted detectors and combines their predictions.
+ * - EnsembleDetectFakeNewsInput - The input type for the ensembleDetectFakeNews function.
+ * - EnsembleDetectFakeNewsOutput - The return type for the ensembleDetectFakeNews function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { detectFakeNews } from '@/ai/flows/detect-fake-news';
+import { llmDetectFakeNews } from '@/ai/flows/llm-detect-fake-news';
+import { CalibrationInfoSchema, DetectionModelInfoSchema, EnsembleDetailsSchema, EvidenceSchema, FactCheckResultSchema, HighlightSpanSchema, VerdictLabelSchema, VerdictSchema } from '@/ai/schemas';
+import { toFakeProbability, toVerdict } from '@/lib/calibration';
+import { applyCalibration } from '@/services/calibration/store';
+import { combinedCachedAt } from '@/services/detectionCache';
+import type { EnsembleComponent } from '@/types';
+
+const EnsembleDetectFakeNewsInputSchema = z.object({
+  articleText: z.string().describe('The text content of the news article to be analyzed.'),
+  weights: z.object({
+    custom: z.number().min(0).describe('Relative weight of the Truth Lens model prediction.'),
+    llm: z.number().min(0).describe('Relative weight of the LLM prediction.'),
+  }).optional().describe('Relative weights used to fuse the component predictions. Defaults to an even split.'),
+  responseLanguage: z.string().optional().describe('Language the LLM component should write its title and explanations in.'),
+  modelId: z.string().optional().describe('Registry id of the ML model used as the Truth Lens component. Defaults to the registry default.'),
+  forceRefresh: z.boolean().optional().describe('Skip the result cache for both components.'),
+  promptVersion: z.string().optional().describe('Prompt registry version for the LLM component instead of the one picked by the traffic split.'),
+});
+export type EnsembleDetectFakeNewsInput = z.infer<typeof EnsembleDetectFakeNewsInputSchema>;
+
+const EnsembleDetectFakeNewsOutputSchema = z.object({
+  suggestedTitle: z.string().optional().describe('Title suggested by the LLM component, if any.'),
+  label: VerdictLabelSchema.describe('The fused label for the article (Real or Fake).'),
+  confidence: z.number().min(0).max(100).describe('The fused confidence score (0-100).'),
+  evidence: z.array(EvidenceSchema).optional().describe('Evidence from the LLM component.'),
+  factChecks: z.array(FactCheckResultSchema).optional().describe('Fact-checks gathered by the LLM component.'),
+  highlights: z.array(HighlightSpanSchema).optional().describe('Manipulative passages flagged by the LLM component.'),
+  ensemble: EnsembleDetailsSchema,
+  raw: VerdictSchema.describe('The fused verdict before ensemble calibration.'),
+  calibration: CalibrationInfoSchema.optional().describe('The calibration model applied to the fused label/confidence, if any.'),
+  cachedAt: z.string().optional().describe('When the components were first run, if every component that ran was served from the cache.'),
+  models: z.array(DetectionModelInfoSchema).describe('The ML model and/or the LLM that made the component predictions.'),
+  promptVersion: z.string().optional().describe('The prompt registry version used by the LLM component, if it ran.'),
+});
+export type EnsembleDetectFakeNewsOutput = z.infer<typeof EnsembleDetectFakeNewsOutputSchema>;
+
+const DEFAULT_WEIGHTS = { custom: 0.5, llm: 0.5 };
+
+export async function ensembleDetectFakeNews(input: EnsembleDetectFakeNewsInput): Promise<EnsembleDetectFakeNewsOutput> {
+  try {
+    return await ensembleDetectFakeNewsFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in ensembleDetectFakeNews flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Ensemble detection failed: ${error.message || 'An unexpected error occurred in the ensemble detection flow.'}`);
+    }
+    throw new Error('Ensemble detection failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const ensembleDetectFakeNewsFlow = ai.defineFlow(
+  {
+    name: 'ensembleDetectFakeNewsFlow',
+    inputSchema: EnsembleDetectFakeNewsInputSchema,
+    outputSchema: EnsembleDetectFakeNewsOutputSchema,
+  },
+  async (input) => {
+    const weights = input.weights ?? DEFAULT_WEIGHTS;
+    const totalWeight = weights.custom + weights.llm;
+    if (totalWeight <= 0) {
+      throw new Error('At least one ensemble weight must be greater than zero.');
+    }
+
+    // A component with no weight cannot change the verdict, so it is not run at all.
+    const [customOutcome, llmOutcome] = await Promise.allSettled([
+      weights.custom > 0
+        ? detectFakeNews({ articleText: input.articleText, modelId: input.modelId, forceRefresh: input.forceRefresh })
+        : undefined,
+      weights.llm > 0
+        ? llmDetectFakeNews({ articleText: input.articleText, responseLanguage: input.responseLanguage, forceRefresh: input.forceRefresh, promptVersion: input.promptVersion })
+        : undefined,
+    ]);
+    const customResult = customOutcome.status === 'fulfilled' ? customOutcome.value : undefined;
+    const llmResult = llmOutcome.status === 'fulfilled' ? llmOutcome.value : undefined;
+    const failure = [customOutcome, llmOutcome].find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (!customResult && !llmResult) {
+      throw failure!.reason;
+    }
+
+    // If one component is down, the other one carries the verdict alone rather than failing the whole detection.
+    let fallback: EnsembleComponent | undefined;
+    if (failure) {
+      fallback = customOutcome.status === 'rejected' ? 'custom' : 'llm';
+      console.warn(`[TruthLensAI] Ensemble ${fallback} component failed; using the other component alone:`, failure.reason);
+    }
+
+    const usedWeights = { custom: customResult ? weights.custom : 0, llm: llmResult ? weights.llm : 0 };
+    const usedTotal = usedWeights.custom + usedWeights.llm;
+    const fakeProbability = (
+      (customResult ? usedWeights.custom * toFakeProbability(customResult) : 0) +
+      (llmResult ? usedWeights.llm * toFakeProbability(llmResult) : 0)
+    ) / usedTotal;
+    // Components arrive already calibrated; the fused verdict gets the ensemble's own calibration on top.
+    const calibrated = await applyCalibration('ensemble', toVerdict(fakeProbability));
+
+    return {
+      suggestedTitle: llmResult?.suggestedTitle,
+      label: calibrated.result.label,
+      confidence: calibrated.result.confidence,
+      raw: calibrated.raw,
+      calibration: calibrated.calibration,
+      cachedAt: combinedCachedAt([customResult, llmResult].flatMap(result => (result ? [result.cachedAt] : []))),
+      models: [...(customResult?.models ?? []), ...(llmResult?.models ?? [])],
+      promptVersion: llmResult?.promptVersion,
+      evidence: llmResult?.evidence,
+      factChecks: llmResult?.factChecks,
+      highlights: llmResult?.highlights,
+      ensemble: {
+        weights: {
+          custom: usedWeights.custom / usedTotal,
+          llm: usedWeights.llm / usedTotal,
+        },
+        custom: customResult && { label: customResult.label, confidence: customResult.confidence },
+        llm: llmResult && { label: llmResult.label, confidence: llmResult.confidence },
+        agreement: customResult && llmResult ? customResult.label === llmResult.label : undefined,
+        fallback,
+      },
+    };
+  }
+);
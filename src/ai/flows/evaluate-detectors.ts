@@ -0,0 +1,209 @@
+'use server';
+/**
+ * @fileOverview Offline evaluation of the detection methods against a labeled dataset.
+ *
+ * - evaluateDetectors - A function that runs each detector configuration on every labeled article and reports its metrics.
+ * - EvaluateDetectorsInput - The input type for the evaluateDetectors function.
+ * - EvaluateDetectorsOutput - The return type for the evaluateDetectors function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { createHash } from 'crypto';
+import { runDetection } from '@/lib/detection';
+import { runWithConcurrency } from '@/lib/batch';
+import { toFakeProbability, type CalibrationSample } from '@/lib/calibration';
+import { DETECTION_METHODS, evaluatePredictions, evaluationTargetKey } from '@/lib/evaluation';
+import { DetectionModelInfoSchema, VerdictLabelSchema } from '@/ai/schemas';
+import { listModels } from '@/services/mlModels/registry';
+import { writeEvaluationReport } from '@/services/evaluation/store';
+import type { DetectionModelInfo, EvaluationTarget, EvaluationTargetResult } from '@/types';
+
+const MAX_EVALUATION_CONCURRENCY = 10;
+
+const EvaluationTargetSchema = z.object({
+  detectionMethod: z.enum(DETECTION_METHODS),
+  modelId: z.string().optional().describe('Registry id of the ML model for custom and ensemble detection.'),
+});
+
+const EvaluateDetectorsInputSchema = z.object({
+  datasetName: z.string().describe('Name of the labeled dataset, usually its file name.'),
+  samples: z.array(z.object({
+    text: z.string().min(1),
+    label: VerdictLabelSchema,
+  })).min(2).describe('Labeled articles, in dataset order.'),
+  targets: z.array(EvaluationTargetSchema).optional().describe('Detector configurations to evaluate. Defaults to the LLM plus the Truth Lens model and the ensemble for every registered ML model.'),
+  concurrency: z.number().int().min(1).max(MAX_EVALUATION_CONCURRENCY).optional().describe('Articles analyzed in parallel per detector. Defaults to 3.'),
+  customModelWeight: z.number().min(0).max(100).optional().describe('Share (%) of the Truth Lens model in ensemble verdicts. Defaults to 50.'),
+  promptVersion: z.string().optional().describe('LLM detection prompt version to evaluate instead of the registry traffic split.'),
+  name: z.string().optional().describe('Short description of what is being evaluated, e.g. "prompt v2".'),
+  save: z.boolean().optional().describe('Write the report to the evaluation reports directory. Defaults to true.'),
+});
+export type EvaluateDetectorsInput = z.infer<typeof EvaluateDetectorsInputSchema>;
+
+const MetricsSchema = z.object({
+  sampleCount: z.number().int(),
+  accuracy: z.number(),
+  precision: z.number(),
+  recall: z.number(),
+  f1: z.number(),
+  confusionMatrix: z.object({
+    truePositives: z.number().int(),
+    falsePositives: z.number().int(),
+    trueNegatives: z.number().int(),
+    falseNegatives: z.number().int(),
+  }),
+  rocAuc: z.number(),
+  rocCurve: z.array(z.object({ threshold: z.number(), falsePositiveRate: z.number(), truePositiveRate: z.number() })),
+  expectedCalibrationError: z.number(),
+  rawExpectedCalibrationError: z.number().optional(),
+  brierScore: z.number(),
+});
+
+const EvaluateDetectorsOutputSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  dataset: z.object({
+    name: z.string(),
+    fingerprint: z.string(),
+    sampleCount: z.number().int(),
+    fakeCount: z.number().int(),
+    labels: z.array(VerdictLabelSchema),
+  }),
+  targets: z.array(EvaluationTargetSchema.extend({
+    key: z.string(),
+    models: z.array(DetectionModelInfoSchema),
+    metrics: MetricsSchema,
+    failures: z.number().int(),
+    fakeProbabilities: z.array(z.number().nullable()),
+    predictedLabels: z.array(VerdictLabelSchema.nullable()).optional(),
+    durationMs: z.number(),
+  })),
+  startedAt: z.string(),
+  completedAt: z.string(),
+});
+export type EvaluateDetectorsOutput = z.infer<typeof EvaluateDetectorsOutputSchema>;
+
+export async function evaluateDetectors(input: EvaluateDetectorsInput): Promise<EvaluateDetectorsOutput> {
+  try {
+    return await evaluateDetectorsFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in evaluateDetectors flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Evaluation failed: ${error.message || 'An unexpected error occurred in the evaluation flow.'}`);
+    }
+    throw new Error('Evaluation failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+async function defaultTargets(): Promise<EvaluationTarget[]> {
+  const models = await listModels();
+  return [
+    { detectionMethod: 'llm' },
+    ...models.flatMap(model => [
+      { detectionMethod: 'custom' as const, modelId: model.id },
+      { detectionMethod: 'ensemble' as const, modelId: model.id },
+    ]),
+  ];
+}
+
+// Changes whenever any text or label changes, so reports on edited datasets are not compared row by row.
+function datasetFingerprint(samples: EvaluateDetectorsInput['samples']): string {
+  const hash = createHash('sha256');
+  samples.forEach(sample => hash.update(`${sample.label}\u0000${sample.text}\u0000`));
+  return hash.digest('hex').substring(0, 16);
+}
+
+function reportId(startedAt: string, name?: string): string {
+  const slug = name?.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 40);
+  return `${startedAt.replace(/[:.]/g, '-')}${slug ? `-${slug}` : ''}`;
+}
+
+const evaluateDetectorsFlow = ai.defineFlow(
+  {
+    name: 'evaluateDetectorsFlow',
+    inputSchema: EvaluateDetectorsInputSchema,
+    outputSchema: EvaluateDetectorsOutputSchema,
+  },
+  async (input) => {
+    const { samples, concurrency = 3, customModelWeight = 50, save = true } = input;
+    if (samples.every(sample => sample.label === 'Fake') || samples.every(sample => sample.label === 'Real')) {
+      throw new Error("The dataset needs both real and fake examples to measure precision, recall and ROC/AUC.");
+    }
+    const targets = input.targets?.length ? input.targets : await defaultTargets();
+    const startedAt = new Date().toISOString();
+
+    const results: EvaluationTargetResult[] = [];
+    for (const target of targets) {
+      const key = evaluationTargetKey(target);
+      const targetStartedAt = Date.now();
+      const fakeProbabilities: (number | null)[] = samples.map(() => null);
+      const rawProbabilities: (number | null)[] = samples.map(() => null);
+      const predictedLabels: ('Real' | 'Fake' | null)[] = samples.map(() => null);
+      const models = new Map<string, DetectionModelInfo>();
+      let failures = 0;
+      console.log(`[TruthLensAI] Evaluating ${key} on ${samples.length} articles...`);
+
+      await runWithConcurrency(
+        samples,
+        concurrency,
+        // The cache is bypassed: a cached verdict may come from an older prompt or model version.
+        sample => runDetection(target.detectionMethod, sample.text, { forceRefresh: true, translate: true, modelId: target.modelId, customModelWeight, promptVersion: input.promptVersion }),
+        (index, outcome) => {
+          if (outcome.status === 'fulfilled') {
+            fakeProbabilities[index] = toFakeProbability(outcome.value.result);
+            predictedLabels[index] = outcome.value.result.label;
+            rawProbabilities[index] = toFakeProbability(outcome.value.rawResult ?? outcome.value.result);
+            outcome.value.models?.forEach(model => models.set(`${model.provider}|${model.name}|${model.version}`, model));
+          } else {
+            failures++;
+            console.warn(`[TruthLensAI] ${key} failed on dataset row ${index + 1}:`, outcome.reason);
+          }
+        },
+      );
+
+      const evaluated = samples.flatMap((sample, index) => fakeProbabilities[index] === null ? [] : [index]);
+      if (evaluated.length === 0) {
+        throw new Error(`Every article failed for ${key}; check that its model is reachable.`);
+      }
+      const toSamples = (probabilities: (number | null)[]): CalibrationSample[] => evaluated.map(index => ({
+        fakeProbability: probabilities[index] ?? 0,
+        isFake: samples[index].label === 'Fake',
+      }));
+      results.push({
+        ...target,
+        key,
+        models: [...models.values()],
+        // The confusion matrix follows the verdicts themselves, so a Real verdict at 50% confidence counts as Real.
+        metrics: evaluatePredictions(
+          toSamples(fakeProbabilities).map((sample, position) => ({ ...sample, predictedFake: predictedLabels[evaluated[position]] === 'Fake' })),
+          toSamples(rawProbabilities),
+        ),
+        failures,
+        fakeProbabilities,
+        predictedLabels,
+        durationMs: Date.now() - targetStartedAt,
+      });
+    }
+
+    const report = {
+      id: reportId(startedAt, input.name),
+      name: input.name,
+      dataset: {
+        name: input.datasetName,
+        fingerprint: datasetFingerprint(samples),
+        sampleCount: samples.length,
+        fakeCount: samples.filter(sample => sample.label === 'Fake').length,
+        labels: samples.map(sample => sample.label),
+      },
+      targets: results,
+      startedAt,
+      completedAt: new Date().toISOString(),
+    };
+    if (save) {
+      const filePath = await writeEvaluationReport(report);
+      console.log(`[TruthLensAI] Evaluation report saved to ${filePath}`);
+    }
+    return report;
+  }
+);
@@ -0,0 +1,112 @@
+'use server';
+/**
+ * @fileOverview Explains a Truth Lens (ML model) prediction by occlusion: removes one sentence or clause at a time,
+ * re-queries the model and reports which spans moved its confidence most.
+ *
+ * - explainPrediction - A function that measures how much each span of the text contributes to the model's verdict.
+ * - ExplainPredictionInput - The input type for the explainPrediction function.
+ * - ExplainPredictionOutput - The return type for the explainPrediction function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { predictFakeNews } from '@/ai/tools/predict-fake-news';
+import { DetectionModelInfoSchema } from '@/ai/schemas';
+import { getModel, modelInfo } from '@/services/mlModels/registry';
+import { runWithConcurrency } from '@/lib/batch';
+import { toFakeProbability } from '@/lib/calibration';
+import { occlusionUnits, removeSpan } from '@/lib/occlusion';
+
+// Parallel model calls per explanation; the model client retries and trips its circuit breaker on its own.
+const OCCLUSION_CONCURRENCY = 3;
+
+const ExplainPredictionInputSchema = z.object({
+  articleText: z.string().describe('The exact text the model classified (the translation, if the article was translated).'),
+  modelId: z.string().optional().describe('Registry id of the ML model to explain. Defaults to the registry default.'),
+});
+export type ExplainPredictionInput = z.infer<typeof ExplainPredictionInputSchema>;
+
+const OcclusionSpanSchema = z.object({
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  text: z.string(),
+  fakeProbability: z.number().min(0).max(1),
+  delta: z.number().min(-1).max(1),
+  flipsVerdict: z.boolean(),
+});
+
+const ExplainPredictionOutputSchema = z.object({
+  baselineFakeProbability: z.number().min(0).max(1).describe('Uncalibrated probability of Fake for the full text.'),
+  unit: z.enum(['sentence', 'clause']),
+  spans: z.array(OcclusionSpanSchema).describe('Every removed span in reading order.'),
+  queries: z.number().int().min(1),
+  model: DetectionModelInfoSchema,
+});
+export type ExplainPredictionOutput = z.infer<typeof ExplainPredictionOutputSchema>;
+
+export async function explainPrediction(input: ExplainPredictionInput): Promise<ExplainPredictionOutput> {
+  try {
+    return await explainPredictionFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in explainPrediction flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Prediction explanation failed: ${error.message || 'An unexpected error occurred in the explanation flow.'}`);
+    }
+    throw new Error('Prediction explanation failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const explainPredictionFlow = ai.defineFlow(
+  {
+    name: 'explainPredictionFlow',
+    inputSchema: ExplainPredictionInputSchema,
+    outputSchema: ExplainPredictionOutputSchema,
+  },
+  async (input) => {
+    const model = await getModel(input.modelId);
+    const { unit, spans } = occlusionUnits(input.articleText);
+    if (spans.length < 2) {
+      throw new Error('The text is too short to explain; it needs at least two sentences or clauses.');
+    }
+
+    // The raw model output is explained, bypassing the cache and calibration: the question is what the model reacts to.
+    const baseline = toFakeProbability(await predictFakeNews({ articleText: input.articleText, modelId: model.id }));
+    const baselineIsFake = baseline >= 0.5;
+
+    const probabilities: number[] = new Array(spans.length);
+    const controller = new AbortController();
+    let firstError: unknown;
+    await runWithConcurrency(
+      spans,
+      OCCLUSION_CONCURRENCY,
+      async (span) => toFakeProbability(await predictFakeNews({ articleText: removeSpan(input.articleText, span), modelId: model.id })),
+      (index, outcome) => {
+        if (outcome.status === 'fulfilled') {
+          probabilities[index] = outcome.value;
+        } else if (!firstError) {
+          // A partial explanation would be misleading; stop issuing calls and fail as a whole.
+          firstError = outcome.reason;
+          controller.abort();
+        }
+      },
+      controller.signal,
+    );
+    if (firstError) {
+      throw firstError instanceof Error ? firstError : new Error(String(firstError));
+    }
+
+    return {
+      baselineFakeProbability: baseline,
+      unit,
+      spans: spans.map((span, index) => ({
+        ...span,
+        text: input.articleText.slice(span.start, span.end),
+        fakeProbability: probabilities[index],
+        delta: baseline - probabilities[index],
+        flipsVerdict: (probabilities[index] >= 0.5) !== baselineIsFake,
+      })),
+      queries: spans.length + 1,
+      model: modelInfo(model),
+    };
+  }
+);
@@ -11,6 +11,8 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import { selectPromptVersion } from '@/services/promptRegistry/store';
+import type { PromptVersion } from '@/types';
 
 const GenerateFakeNewsArticleInputSchema = z.object({
   topic: z.string().describe('The topic of the fake news article.'),
@@ -22,6 +24,7 @@ export type GenerateFakeNewsArticleInput = z.infer<typeof GenerateFakeNewsArticl
 const GenerateFakeNewsArticleOutputSchema = z.object({
   title: z.string().describe('The catchy, AI-generated headline for the fake news article.'),
   article: z.string().describe('The body content of the generated fake news article.'),
+  promptVersion: z.string().describe('The prompt registry version that wrote the article.'),
 });
 export type GenerateFakeNewsArticleOutput = z.infer<typeof GenerateFakeNewsArticleOutputSchema>;
 
@@ -51,33 +54,38 @@ export async function generateFakeNewsArticle(
   }
 }
 
-const prompt = ai.definePrompt({
-  name: 'generateFakeNewsArticlePrompt',
-  input: {schema: GenerateFakeNewsArticleInputSchema},
-  output: {schema: GenerateFakeNewsArticleOutputSchema},
-  prompt: `You are a professional fake news article writer.
+const GenerateFakeNewsArticlePromptOutputSchema = GenerateFakeNewsArticleOutputSchema.omit({ promptVersion: true });
 
-You will be provided with a topic, category, and tone.
+// Each registry version is registered once, as a Genkit variant of the same prompt.
+const generateFakeNewsArticlePrompts = new Map<string, ReturnType<typeof defineGenerateFakeNewsArticlePrompt>>();
 
-You MUST generate a catchy and relevant headline (title) for the article.
-You will write a fake news article based on the topic, category, and tone.
-
-Topic: {{{topic}}}
-Category: {{{category}}}
-Tone: {{{tone}}}
+function defineGenerateFakeNewsArticlePrompt(promptVersion: PromptVersion) {
+  return ai.definePrompt({
+    name: 'generateFakeNewsArticlePrompt',
+    variant: `v${promptVersion.version}`,
+    input: {schema: GenerateFakeNewsArticleInputSchema},
+    output: {schema: GenerateFakeNewsArticlePromptOutputSchema},
+    prompt: promptVersion.template,
+     // Basic safety settings - adjust as needed
+    config: {
+      safetySettings: [
+        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      ],
+    },
+  });
+}
 
-Headline: 
-Article: `,
-   // Basic safety settings - adjust as needed
-  config: {
-    safetySettings: [
-      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-    ],
-  },
-});
+function generateFakeNewsArticlePrompt(promptVersion: PromptVersion) {
+  let prompt = generateFakeNewsArticlePrompts.get(promptVersion.version);
+  if (!prompt) {
+    prompt = defineGenerateFakeNewsArticlePrompt(promptVersion);
+    generateFakeNewsArticlePrompts.set(promptVersion.version, prompt);
+  }
+  return prompt;
+}
 
 const generateFakeNewsArticleFlow = ai.defineFlow(
   {
@@ -87,7 +95,9 @@ const generateFakeNewsArticleFlow = ai.defineFlow(
   },
   async input => {
     try {
-      const {output, candidates} = await prompt(input);
+      // No bucket key: every generated article is an independent draw from the traffic split.
+      const promptVersion = await selectPromptVersion('generateFakeNewsArticle');
+      const {output, candidates} = await generateFakeNewsArticlePrompt(promptVersion)(input);
       if (!output || !output.article || !output.title) {
         if (candidates && candidates.length > 0) {
             const firstCandidate = candidates[0];
@@ -103,7 +113,7 @@ const generateFakeNewsArticleFlow = ai.defineFlow(
         console.error('[TruthLensAI] Article generation failed: AI did not return a valid article structure (title and/or body missing) for input:', input);
         throw new Error('AI model did not return a complete article (title or body). Please try modifying your input or try again later.');
       }
-      return output;
+      return { ...output, promptVersion: promptVersion.version };
     } catch (error: any) {
         console.error("[TruthLensAI] Error during article generation prompt execution in flow:", error);
         if (error instanceof Error) {
@@ -8,36 +8,61 @@
  * - LlmDetectFakeNewsOutput - The return type for the llmDetectFakeNews function.
  */
 
-import {ai} from '@/ai/genkit';
+import {ai, DEFAULT_MODEL} from '@/ai/genkit';
 import {z} from 'genkit';
-import type { FactCheckResult } from '@/types';
+import type { FactCheckResult, PromptVersion } from '@/types';
+import { searchFactChecks } from '@/services/factCheck';
+import { MANIPULATION_CATEGORIES, locateExcerpt, normalizeSpans } from '@/lib/highlights';
+import { EVIDENCE_CATEGORIES, EVIDENCE_DIRECTIONS, EVIDENCE_STRENGTHS } from '@/lib/evidence';
+import { CalibrationInfoSchema, DetectionModelInfoSchema, EvidenceSchema, FactCheckResultSchema, HighlightSpanSchema, VerdictLabelSchema, VerdictSchema } from '@/ai/schemas';
+import { selectPromptVersion } from '@/services/promptRegistry/store';
+import { applyCalibration } from '@/services/calibration/store';
+import { withDetectionCache } from '@/services/detectionCache';
 
 const LlmDetectFakeNewsInputSchema = z.object({
   articleText: z.string().describe('The text content of the news article to be analyzed.'),
+  responseLanguage: z.string().optional().describe('Language (e.g. "Spanish") to write the title and explanations in. Defaults to English.'),
+  forceRefresh: z.boolean().optional().describe('Skip the result cache and ask the model again.'),
+  promptVersion: z.string().optional().describe('Prompt registry version to use instead of the one picked by the traffic split.'),
 });
 export type LlmDetectFakeNewsInput = z.infer<typeof LlmDetectFakeNewsInputSchema>;
 
-const FactCheckResultSchema = z.object({
-  source: z.string().describe('The source of the fact-check (e.g., Snopes, PolitiFact).'),
-  claimReviewed: z.string().describe('A brief summary of the claim that was fact-checked.'),
-  rating: z.string().describe('The rating given by the fact-checking source (e.g., False, True, Mixed).'),
-  url: z.string().url().optional().describe('A URL to the fact-check article, if available.'),
-});
-
 const LlmDetectFakeNewsOutputSchema = z.object({
   suggestedTitle: z.string().optional().describe('A concise, AI-generated title summarizing the analyzed article text (max 15 words).'),
-  label: z.enum(['Real', 'Fake']).describe('The predicted label for the article (Real or Fake).'),
+  label: VerdictLabelSchema.describe('The predicted label for the article (Real or Fake).'),
   confidence: z.number().min(0).max(100).describe('The confidence score of the prediction (0-100).'),
-  justification: z.string().optional().describe('Bullet-point reasons supporting the prediction (2-3 main points, plain text).'),
+  evidence: z.array(EvidenceSchema).optional().describe('The reasons behind the prediction, with character offsets of any quoted passage in the article text.'),
   factChecks: z.array(FactCheckResultSchema).optional().describe('Relevant fact-checks from external sources.'),
+  highlights: z.array(HighlightSpanSchema).optional().describe('Character-offset spans of manipulative passages in the article text.'),
+  raw: VerdictSchema.optional().describe('The verdict exactly as stated by the LLM, before calibration.'),
+  calibration: CalibrationInfoSchema.optional().describe('The calibration model applied to label/confidence, if any.'),
+  cachedAt: z.string().optional().describe('When the analysis was first made, if it was served from the cache.'),
+  models: z.array(DetectionModelInfoSchema).describe('The LLM (name and prompt version) that made the prediction.'),
+  promptVersion: z.string().describe('The prompt registry version that produced the analysis.'),
 });
 export type LlmDetectFakeNewsOutput = z.infer<typeof LlmDetectFakeNewsOutputSchema>;
 
-// Mock Tool for External Fact-Checking
+// The model quotes passages rather than counting characters; the flow converts the quotes into offsets.
+const LlmDetectFakeNewsPromptOutputSchema = LlmDetectFakeNewsOutputSchema.omit({ highlights: true, raw: true, calibration: true, cachedAt: true, models: true, promptVersion: true, evidence: true }).extend({
+  evidence: z.array(z.object({
+    statement: z.string().describe('One short plain-text sentence giving a reason for the assessment.'),
+    category: z.enum(EVIDENCE_CATEGORIES).describe('What aspect of the article the reason is about.'),
+    direction: z.enum(EVIDENCE_DIRECTIONS).describe("'for' if the reason points to the article being real, 'against' if it points to it being fake."),
+    strength: z.enum(EVIDENCE_STRENGTHS).describe('How much the reason weighs on the assessment.'),
+    quote: z.string().optional().describe('The exact passage from the article text the reason rests on, copied verbatim, if any.'),
+  })).optional().describe('The evidence behind the prediction (2-5 items).'),
+  manipulativeSpans: z.array(z.object({
+    excerpt: z.string().describe('The exact passage from the article text, copied verbatim (a phrase or a single sentence).'),
+    category: z.enum(MANIPULATION_CATEGORIES).describe('The kind of manipulation the passage exhibits.'),
+    reason: z.string().describe('A short explanation of why this passage is problematic.'),
+  })).optional().describe('Passages in the article that use manipulative or unreliable techniques.'),
+});
+
+// Searches the configured fact-check providers (ClaimReview feeds, local corpus) for reviews of claims in the article.
 const externalFactCheckerTool = ai.defineTool(
   {
     name: 'externalFactCheckerTool',
-    description: '(MOCK TOOL) Attempts to find external fact-checks for claims in the provided article text. This tool currently returns placeholder data and does not make live API calls.',
+    description: 'Searches the configured fact-check databases for published fact-checks of claims made in the provided article text. Returns matching reviews with their source, rating and URL, or an empty list if none match.',
     inputSchema: z.object({
       articleText: z.string().describe('The text of the article to check for verifiable claims.'),
     }),
@@ -45,29 +70,12 @@ const externalFactCheckerTool = ai.defineTool(
   },
   async (input) => {
     try {
-        // In a real implementation, this would call an external API (e.g., Google Fact Check API)
-        console.log("[TruthLensAI] Mock externalFactCheckerTool called with text snippet:", input.articleText.substring(0, 100) + "...");
-        // Simulate some processing time
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        // Randomly decide if we "find" any mock fact checks
-        if (Math.random() > 0.7) {
-            return [
-                {
-                    source: "MockCheck.org",
-                    claimReviewed: "A key claim from the article (mocked)",
-                    rating: Math.random() > 0.5 ? "Potentially Misleading (Mock)" : "Partially True (Mock)",
-                    url: "https://example.com/mock-fact-check"
-                }
-            ];
-        }
-        return [];
+      const matches = await searchFactChecks(input.articleText);
+      return matches.map(({ source, claimReviewed, rating, url }) => ({ source, claimReviewed, rating, ...(url ? { url } : {}) }));
     } catch (toolError: any) {
-        console.error("[TruthLensAI] Error in externalFactCheckerTool (mock):", toolError);
-        // Even for a mock tool, it's good practice to handle errors.
-        // In a real tool, you'd throw an error that the calling flow can handle.
-        // For this mock, we'll just return an empty array to simulate failure.
-        return []; // Or: throw new Error(`Mock fact-checking tool failed: ${toolError.message}`);
+      console.error("[TruthLensAI] Error in externalFactCheckerTool:", toolError);
+      // Fact-checks are supplementary; a lookup failure should not fail the whole detection.
+      return [];
     }
   }
 );
@@ -85,32 +93,37 @@ export async function llmDetectFakeNews(input: LlmDetectFakeNewsInput): Promise<
   }
 }
 
-const llmDetectFakeNewsPrompt = ai.definePrompt({
-  name: 'llmDetectFakeNewsPrompt',
-  tools: [externalFactCheckerTool],
-  input: {schema: LlmDetectFakeNewsInputSchema},
-  output: {schema: LlmDetectFakeNewsOutputSchema},
-  prompt: `You are an AI assistant specializing in fake news detection and analysis.
-Analyze the following news article text.
-You MUST generate a concise, representative title for the article, no more than 15 words long. This title should summarize the main topic or claim of the article.
-Based on your analysis, determine if the article is 'Real' or 'Fake'.
-You MUST provide a confidence score (an integer between 0 and 100) for your prediction.
-You MUST provide a brief justification for your prediction, consisting of 2 to 3 main bullet points. Each bullet point should be a short sentence. Do NOT use HTML formatting in the justification; provide plain text bullet points, each starting with a hyphen (-) or asterisk (*).
-If the article contains verifiable claims, consider using the 'externalFactCheckerTool' to find related fact-checks. Include any findings from this tool in the 'factChecks' output field. If the tool returns no results, you can omit the 'factChecks' field or return an empty array.
-
-Article Text:
-{{{articleText}}}
-`,
-  // Basic safety settings - adjust as needed
-  config: {
-    safetySettings: [
-      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
-    ],
-  },
-});
+// Each registry version is registered once, as a Genkit variant of the same prompt.
+const llmDetectFakeNewsPrompts = new Map<string, ReturnType<typeof defineLlmDetectFakeNewsPrompt>>();
+
+function defineLlmDetectFakeNewsPrompt(promptVersion: PromptVersion) {
+  return ai.definePrompt({
+    name: 'llmDetectFakeNewsPrompt',
+    variant: `v${promptVersion.version}`,
+    tools: [externalFactCheckerTool],
+    input: {schema: LlmDetectFakeNewsInputSchema},
+    output: {schema: LlmDetectFakeNewsPromptOutputSchema},
+    prompt: promptVersion.template,
+    // Basic safety settings - adjust as needed
+    config: {
+      safetySettings: [
+        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_MEDIUM_AND_ABOVE' },
+      ],
+    },
+  });
+}
+
+function llmDetectFakeNewsPrompt(promptVersion: PromptVersion) {
+  let prompt = llmDetectFakeNewsPrompts.get(promptVersion.version);
+  if (!prompt) {
+    prompt = defineLlmDetectFakeNewsPrompt(promptVersion);
+    llmDetectFakeNewsPrompts.set(promptVersion.version, prompt);
+  }
+  return prompt;
+}
 
 const llmDetectFakeNewsFlow = ai.defineFlow(
   {
@@ -120,49 +133,94 @@ const llmDetectFakeNewsFlow = ai.defineFlow(
   },
   async (input) => {
     try {
-      const {output, candidates} = await llmDetectFakeNewsPrompt(input);
-      if (!output) {
-        if (candidates && candidates.length > 0) {
-            const firstCandidate = candidates[0];
-            if (firstCandidate.finishReason === 'SAFETY') {
-                console.warn('[TruthLensAI] LLM detection blocked by safety filters for input:', input.articleText.substring(0,100), 'Finish message:', firstCandidate.finishMessage);
-                throw new Error("The AI could not analyze this article due to safety content policies. Please try different content.");
-            }
-             if (firstCandidate.finishReason === 'RECITATION') {
-                 console.warn('[TruthLensAI] LLM detection blocked due to recitation policy for input:', input.articleText.substring(0,100), 'Finish message:', firstCandidate.finishMessage);
-                throw new Error("The AI could not analyze this article as it might resemble copyrighted material. Please try different content.");
-            }
+      // Bucketed by article text, so re-analyzing an article uses the same version and can hit the cache.
+      const promptVersion = await selectPromptVersion('llmDetectFakeNews', input.articleText, input.promptVersion);
+      const modelInfo = { provider: 'genkit' as const, name: DEFAULT_MODEL, version: `prompt-${promptVersion.version}` };
+      // The uncalibrated analysis is cached, so calibration changes still apply to cached results.
+      // Passages and quotes are cached as excerpts and located afterwards, since the cache key ignores whitespace differences.
+      const { value: { manipulativeSpans, evidence: statedEvidence, ...output }, cachedAt } = await withDetectionCache({
+        detectionMethod: 'llm',
+        modelVersion: `${DEFAULT_MODEL}/${modelInfo.version}`,
+        variant: input.responseLanguage,
+        articleText: input.articleText,
+      }, async () => {
+        const {output: promptOutput, candidates} = await llmDetectFakeNewsPrompt(promptVersion)({ articleText: input.articleText, responseLanguage: input.responseLanguage });
+        if (!promptOutput) {
+          if (candidates && candidates.length > 0) {
+              const firstCandidate = candidates[0];
+              if (firstCandidate.finishReason === 'SAFETY') {
+                  console.warn('[TruthLensAI] LLM detection blocked by safety filters for input:', input.articleText.substring(0,100), 'Finish message:', firstCandidate.finishMessage);
+                  throw new Error("The AI could not analyze this article due to safety content policies. Please try different content.");
+              }
+               if (firstCandidate.finishReason === 'RECITATION') {
+                   console.warn('[TruthLensAI] LLM detection blocked due to recitation policy for input:', input.articleText.substring(0,100), 'Finish message:', firstCandidate.finishMessage);
+                  throw new Error("The AI could not analyze this article as it might resemble copyrighted material. Please try different content.");
+              }
+          }
+          console.error('[TruthLensAI] LLM detection failed: AI did not return a valid detection structure for input:', input.articleText.substring(0,100));
+          throw new Error('The LLM AI model did not return a valid detection response. Please try again later.');
+        }
+        const { manipulativeSpans, ...output } = promptOutput;
+
+        if (typeof output.confidence === 'string') {
+            output.confidence = parseFloat(output.confidence);
+        }
+        if (isNaN(output.confidence) || output.confidence === undefined || output.confidence === null) {
+            console.warn("[TruthLensAI] LLM returned non-numeric or missing confidence, defaulted to 50 for input:", input.articleText.substring(0,100), "Received confidence:", output.confidence);
+            output.confidence = 50; // Default confidence if parsing fails or value is invalid
+        }
+        output.confidence = Math.max(0, Math.min(100, parseFloat(output.confidence.toFixed(1))));
+
+        if (!output.label) {
+            console.warn("[TruthLensAI] LLM returned missing label, defaulted to 'Fake' for input:", input.articleText.substring(0,100));
+            output.label = 'Fake'; // Default label if missing
         }
-        console.error('[TruthLensAI] LLM detection failed: AI did not return a valid detection structure for input:', input.articleText.substring(0,100));
-        throw new Error('The LLM AI model did not return a valid detection response. Please try again later.');
-      }
-
-      if (typeof output.confidence === 'string') {
-          output.confidence = parseFloat(output.confidence);
-      }
-      if (isNaN(output.confidence) || output.confidence === undefined || output.confidence === null) {
-          console.warn("[TruthLensAI] LLM returned non-numeric or missing confidence, defaulted to 50 for input:", input.articleText.substring(0,100), "Received confidence:", output.confidence);
-          output.confidence = 50; // Default confidence if parsing fails or value is invalid
-      }
-      output.confidence = Math.max(0, Math.min(100, parseFloat(output.confidence.toFixed(1))));
-
-      if (!output.label) {
-          console.warn("[TruthLensAI] LLM returned missing label, defaulted to 'Fake' for input:", input.articleText.substring(0,100));
-          output.label = 'Fake'; // Default label if missing
-      }
-      
-      if (!output.suggestedTitle) {
-          console.warn("[TruthLensAI] LLM returned missing suggestedTitle, will be handled by client for input:", input.articleText.substring(0,100));
-          // Client-side will create a snippet title if this is missing.
-      }
-      
-      // Ensure justification is a string if it exists
-      if (output.justification && typeof output.justification !== 'string') {
-          console.warn("[TruthLensAI] LLM returned non-string justification, attempting to stringify for input:", input.articleText.substring(0,100));
-          output.justification = JSON.stringify(output.justification);
-      }
       
-      return output;
+        if (!output.suggestedTitle) {
+            console.warn("[TruthLensAI] LLM returned missing suggestedTitle, will be handled by client for input:", input.articleText.substring(0,100));
+            // Client-side will create a snippet title if this is missing.
+        }
+
+        if (!output.evidence?.length) {
+            console.warn("[TruthLensAI] LLM returned no evidence for its prediction for input:", input.articleText.substring(0,100));
+        }
+
+        return { ...output, manipulativeSpans };
+      }, { forceRefresh: input.forceRefresh });
+
+      const evidence = statedEvidence?.map(({ quote, ...item }) => {
+        const offsets = quote ? locateExcerpt(input.articleText, quote) : null;
+        if (quote && !offsets) {
+          console.warn("[TruthLensAI] LLM quoted a passage that does not appear in the article text, dropping the quote:", quote.substring(0, 100));
+        }
+        return offsets ? { ...item, quote: { text: input.articleText.slice(offsets.start, offsets.end), ...offsets } } : item;
+      });
+
+      const highlights = normalizeSpans(
+        (manipulativeSpans ?? []).flatMap(span => {
+          const offsets = locateExcerpt(input.articleText, span.excerpt);
+          if (!offsets) {
+            console.warn("[TruthLensAI] LLM flagged a passage that does not appear in the article text, skipping it:", span.excerpt.substring(0, 100));
+            return [];
+          }
+          return [{ ...offsets, category: span.category, reason: span.reason }];
+        }),
+        input.articleText.length
+      );
+
+      const calibrated = await applyCalibration('llm', { label: output.label, confidence: output.confidence });
+      return {
+        ...output,
+        label: calibrated.result.label,
+        confidence: calibrated.result.confidence,
+        raw: calibrated.raw,
+        evidence,
+        highlights,
+        calibration: calibrated.calibration,
+        cachedAt,
+        models: [modelInfo],
+        promptVersion: promptVersion.version,
+      };
     } catch (error: any) {
         console.error("[TruthLensAI] Error during LLM detection prompt execution in flow:", error);
          if (error instanceof Error && (error.message.includes("safety content policies") || error.message.includes("copyrighted material") || error.message.includes("AI model did not return a valid detection response"))) {
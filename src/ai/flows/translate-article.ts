@@ -0,0 +1,90 @@
+'use server';
+/**
+ * @fileOverview Machine-translates an article so detectors trained on English can analyze it.
+ *
+ * - translateArticle - A function that translates article text into a target language, section by section.
+ * - TranslateArticleInput - The input type for the translateArticle function.
+ * - TranslateArticleOutput - The return type for the translateArticle function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { chunkText } from '@/lib/chunking';
+import { runWithConcurrency } from '@/lib/batch';
+
+const TRANSLATION_CHUNK_CHARS = 3000;
+const TRANSLATION_CONCURRENCY = 3;
+
+const TranslateArticleInputSchema = z.object({
+  articleText: z.string().describe('The article text to translate.'),
+  sourceLanguage: z.string().optional().describe('Name of the language the article is written in, if known (e.g. "Spanish").'),
+  targetLanguage: z.string().optional().describe('Name of the language to translate into. Defaults to English.'),
+});
+export type TranslateArticleInput = z.infer<typeof TranslateArticleInputSchema>;
+
+const TranslateArticleOutputSchema = z.object({
+  translatedText: z.string().describe('The translated article text, with paragraph breaks preserved.'),
+});
+export type TranslateArticleOutput = z.infer<typeof TranslateArticleOutputSchema>;
+
+export async function translateArticle(input: TranslateArticleInput): Promise<TranslateArticleOutput> {
+  try {
+    return await translateArticleFlow(input);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error in translateArticle flow execution:", error);
+    if (error instanceof Error) {
+      throw new Error(`Translation failed: ${error.message || 'An unexpected error occurred in the translation flow.'}`);
+    }
+    throw new Error('Translation failed due to an unexpected server-side problem. Please check logs.');
+  }
+}
+
+const translateSectionPrompt = ai.definePrompt({
+  name: 'translateSectionPrompt',
+  input: {schema: z.object({ text: z.string(), sourceLanguage: z.string(), targetLanguage: z.string() })},
+  output: {schema: z.object({ translation: z.string() })},
+  prompt: `You are a professional news translator.
+Translate the following {{sourceLanguage}} news text into {{targetLanguage}}.
+Translate faithfully: keep every claim, number, name and quotation exactly as stated, even if it seems false or exaggerated. Do NOT summarize, soften, correct or add commentary.
+Preserve the tone and emphasis of the original (including sensational wording and punctuation) and keep paragraph breaks as blank lines.
+
+Text:
+{{{text}}}
+`,
+});
+
+const translateArticleFlow = ai.defineFlow(
+  {
+    name: 'translateArticleFlow',
+    inputSchema: TranslateArticleInputSchema,
+    outputSchema: TranslateArticleOutputSchema,
+  },
+  async (input) => {
+    const sections = chunkText(input.articleText, TRANSLATION_CHUNK_CHARS);
+    const translations: string[] = new Array(sections.length);
+    let firstError: unknown;
+
+    await runWithConcurrency(sections, TRANSLATION_CONCURRENCY, async (section) => {
+      const {output} = await translateSectionPrompt({
+        text: section.text,
+        sourceLanguage: input.sourceLanguage || 'source-language',
+        targetLanguage: input.targetLanguage || 'English',
+      });
+      if (!output?.translation) {
+        throw new Error('The AI did not return a translation for part of the article.');
+      }
+      return output.translation.trim();
+    }, (index, outcome) => {
+      if (outcome.status === 'fulfilled') {
+        translations[index] = outcome.value;
+      } else {
+        firstError ??= outcome.reason;
+      }
+    });
+    if (firstError) {
+      throw firstError instanceof Error ? firstError : new Error(String(firstError));
+    }
+
+    return { translatedText: translations.join('\n\n') };
+  }
+);
@@ -1,7 +1,9 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
 
+export const DEFAULT_MODEL = 'googleai/gemini-2.0-flash';
+
 export const ai = genkit({
   plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  model: DEFAULT_MODEL,
 });
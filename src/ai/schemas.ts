@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Zod schemas shared by the detection flows. Each describes a type from '@/types' once, so flows that
+ * pass results to each other (LLM and ML detectors, the ensemble, chunked detection, evaluation) cannot drift apart.
+ */
+
+import {z} from 'genkit';
+import { MANIPULATION_CATEGORIES } from '@/lib/highlights';
+import { EVIDENCE_CATEGORIES, EVIDENCE_DIRECTIONS, EVIDENCE_STRENGTHS } from '@/lib/evidence';
+
+export const VerdictLabelSchema = z.enum(['Real', 'Fake']);
+
+export const VerdictSchema = z.object({
+  label: VerdictLabelSchema,
+  confidence: z.number().min(0).max(100),
+});
+
+export const FactCheckResultSchema = z.object({
+  source: z.string().describe('The source of the fact-check (e.g., Snopes, PolitiFact).'),
+  claimReviewed: z.string().describe('A brief summary of the claim that was fact-checked.'),
+  rating: z.string().describe('The rating given by the fact-checking source (e.g., False, True, Mixed).'),
+  url: z.string().url().optional().describe('A URL to the fact-check article, if available.'),
+});
+
+export const EvidenceSchema = z.object({
+  statement: z.string(),
+  category: z.enum(EVIDENCE_CATEGORIES),
+  direction: z.enum(EVIDENCE_DIRECTIONS),
+  strength: z.enum(EVIDENCE_STRENGTHS),
+  quote: z.object({ text: z.string(), start: z.number().int().min(0), end: z.number().int().min(0) }).optional(),
+});
+
+export const HighlightSpanSchema = z.object({
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  category: z.enum(MANIPULATION_CATEGORIES),
+  reason: z.string(),
+});
+
+export const CalibrationInfoSchema = z.object({
+  method: z.enum(['temperature', 'platt']),
+  fittedAt: z.string(),
+});
+
+export const DetectionModelInfoSchema = z.object({
+  provider: z.enum(['http', 'genkit']),
+  name: z.string(),
+  version: z.string(),
+});
+
+export const EnsembleDetailsSchema = z.object({
+  weights: z.object({ custom: z.number(), llm: z.number() }).describe('Shares actually used; 0 for a component that was skipped or failed.'),
+  custom: VerdictSchema.optional().describe('Prediction of the Truth Lens model, unless its weight is 0 or it failed.'),
+  llm: VerdictSchema.optional().describe('Prediction of the LLM, unless its weight is 0 or it failed.'),
+  agreement: z.boolean().optional().describe('Whether both components predicted the same label, when both ran.'),
+  fallback: z.enum(['custom', 'llm']).optional().describe('The component that failed, when the verdict comes from the other one alone.'),
+});
@@ -0,0 +1,34 @@
+/**
+ * @fileOverview The predictFakeNews tool: one prediction from a registered ML model, shared by the
+ * Truth Lens detection flow and the occlusion explainer.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { getModel } from '@/services/mlModels/registry';
+import { callModel } from '@/services/mlModels/client';
+import { VerdictLabelSchema } from '@/ai/schemas';
+
+export const predictFakeNews = ai.defineTool(
+  {
+    name: 'predictFakeNews',
+    description: 'Analyzes the provided news article text and predicts whether it is real or fake using a registered ML model (the default Truth Lens model unless another is selected). This tool provides the definitive prediction.',
+    inputSchema: z.object({
+      articleText: z.string().describe('The text content of the news article to analyze.'),
+      modelId: z.string().optional().describe('Registry id of the ML model to use. Defaults to the registry default.'),
+    }),
+    outputSchema: z.object({
+      label: VerdictLabelSchema.describe('The predicted label for the article (Real or Fake).'),
+      confidence: z.number().min(0).max(100).describe('The confidence score of the prediction (0-100).'),
+    }),
+  },
+  async (input) => {
+    const model = await getModel(input.modelId);
+    try {
+      return await callModel(model, input.articleText);
+    } catch (error: any) {
+      console.error('Full error caught in predictFakeNews tool:', error);
+      throw error; // MlClientError messages are user-friendly and carry the error code
+    }
+  }
+);
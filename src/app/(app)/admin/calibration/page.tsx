@@ -0,0 +1,351 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { ReliabilityDiagram } from '@/components/admin/ReliabilityDiagram';
+import { runDetection } from '@/lib/detection';
+import { parseBatchFile, runWithConcurrency, type BatchInputRow } from '@/lib/batch';
+import { fitCalibration, reliabilityBins, calibrateProbability, toFakeProbability, type CalibrationSample } from '@/lib/calibration';
+import { getCurrentUserIdToken } from '@/lib/firebase';
+import { fetchCalibrations, saveCalibration, clearCalibration } from '@/services/calibrationService';
+import type { CalibrationMethod, CalibrationModel, DetectionMethod } from '@/types';
+import { format } from 'date-fns';
+import { Loader2, Gauge, Play, Square, Save, Trash2 } from 'lucide-react';
+
+const detectionMethodNames: Record<DetectionMethod, string> = {
+  custom: "Truth Lens Model",
+  llm: "Genkit AI Model",
+  ensemble: "Ensemble (Truth Lens + Genkit AI)",
+};
+
+const calibrationMethodNames: Record<CalibrationMethod, string> = {
+  temperature: "Temperature Scaling",
+  platt: "Platt Scaling",
+};
+
+type DiagramView = 'raw' | CalibrationMethod;
+
+function describeParameters(model: Pick<CalibrationModel, 'method' | 'temperature' | 'slope' | 'intercept'>): string {
+  return model.method === 'temperature'
+    ? `T = ${model.temperature?.toFixed(3)}`
+    : `a = ${model.slope?.toFixed(3)}, b = ${model.intercept?.toFixed(3)}`;
+}
+
+export default function CalibrationAdminPage() {
+  const { toast } = useToast();
+  const [calibrations, setCalibrations] = useState<Partial<Record<DetectionMethod, CalibrationModel>>>({});
+  const [isLoadingCalibrations, setIsLoadingCalibrations] = useState(true);
+  const [detectionMethod, setDetectionMethod] = useState<DetectionMethod>('custom');
+  const [labeledRows, setLabeledRows] = useState<BatchInputRow[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(3);
+  const [isCollecting, setIsCollecting] = useState(false);
+  const [progress, setProgress] = useState({ settled: 0, failed: 0 });
+  const [samples, setSamples] = useState<CalibrationSample[]>([]);
+  const [samplesMethod, setSamplesMethod] = useState<DetectionMethod | null>(null);
+  const [diagramView, setDiagramView] = useState<DiagramView>('raw');
+  const [savingMethod, setSavingMethod] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const loadCalibrations = useCallback(async () => {
+    setIsLoadingCalibrations(true);
+    try {
+      setCalibrations(await fetchCalibrations());
+    } catch (error: any) {
+      toast({ title: "Error Loading Calibrations", description: error.message || "Could not load the current calibration models.", variant: "destructive" });
+    } finally {
+      setIsLoadingCalibrations(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCalibrations();
+  }, [loadCalibrations]);
+
+  const handleFileSelected = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const rows = parseBatchFile(await file.text(), file.name).filter(row => row.label);
+      if (rows.length === 0) {
+        throw new Error("No labeled articles found. Add a \"label\" column with Real/Fake values (or an \"is_fake\" column with 1/0).");
+      }
+      setLabeledRows(rows);
+      setFileName(file.name);
+      setSamples([]);
+      setSamplesMethod(null);
+    } catch (error: any) {
+      setLabeledRows([]);
+      setFileName(null);
+      toast({ title: "Could Not Read File", description: error.message || "The labeled set could not be parsed.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleCollect = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsCollecting(true);
+    setProgress({ settled: 0, failed: 0 });
+    setSamples([]);
+
+    const collected: CalibrationSample[] = [];
+    await runWithConcurrency(
+      labeledRows,
+      concurrency,
+      // Calibration is fitted on the uncalibrated output, so any model already in place is bypassed via rawResult.
+      async row => {
+        const detection = await runDetection(detectionMethod, row.text, { translate: true });
+        return toFakeProbability(detection.rawResult ?? detection.result);
+      },
+      (index, outcome) => {
+        if (outcome.status === 'fulfilled') {
+          collected.push({ fakeProbability: outcome.value, isFake: labeledRows[index].label === 'Fake' });
+        } else {
+          console.error(`Calibration detection failed for row ${labeledRows[index].rowNumber}:`, outcome.reason);
+        }
+        setProgress(prev => ({ settled: prev.settled + 1, failed: prev.failed + (outcome.status === 'rejected' ? 1 : 0) }));
+      },
+      controller.signal,
+    );
+
+    abortControllerRef.current = null;
+    setIsCollecting(false);
+    setSamples(collected);
+    setSamplesMethod(detectionMethod);
+    setDiagramView('raw');
+    toast({
+      title: controller.signal.aborted ? "Collection Stopped" : "Predictions Collected",
+      description: `${collected.length} labeled predictions are available for fitting.`,
+    });
+  }, [labeledRows, concurrency, detectionMethod, toast]);
+
+  const fits = useMemo(() => {
+    if (samples.length === 0) return null;
+    try {
+      return {
+        temperature: fitCalibration(samples, 'temperature'),
+        platt: fitCalibration(samples, 'platt'),
+        error: null as string | null,
+      };
+    } catch (error: any) {
+      return { temperature: null, platt: null, error: error.message as string };
+    }
+  }, [samples]);
+
+  const diagramBins = useMemo(() => {
+    if (samples.length === 0) return [];
+    const raw = samples.map(sample => sample.fakeProbability);
+    const model = diagramView === 'raw' ? null : fits?.[diagramView];
+    return reliabilityBins(model ? raw.map(p => calibrateProbability(p, model)) : raw, samples);
+  }, [samples, diagramView, fits]);
+
+  const handleSave = useCallback(async (method: CalibrationMethod) => {
+    const fit = fits?.[method];
+    if (!fit || !samplesMethod) return;
+    setSavingMethod(method);
+    try {
+      const idToken = await getCurrentUserIdToken();
+      await saveCalibration(idToken, { ...fit, detectionMethod: samplesMethod, fittedAt: new Date().toISOString() });
+      toast({ title: "Calibration Saved!", description: `${calibrationMethodNames[method]} now applies to every ${detectionMethodNames[samplesMethod]} detection.` });
+      await loadCalibrations();
+    } catch (error: any) {
+      toast({ title: "Save Failed", description: error.message || "Could not save the calibration.", variant: "destructive" });
+    } finally {
+      setSavingMethod(null);
+    }
+  }, [fits, samplesMethod, toast, loadCalibrations]);
+
+  const handleClear = useCallback(async (method: DetectionMethod) => {
+    setSavingMethod(method);
+    try {
+      const idToken = await getCurrentUserIdToken();
+      await clearCalibration(idToken, method);
+      toast({ title: "Calibration Removed", description: `${detectionMethodNames[method]} confidences are no longer calibrated.` });
+      await loadCalibrations();
+    } catch (error: any) {
+      toast({ title: "Remove Failed", description: error.message || "Could not remove the calibration.", variant: "destructive" });
+    } finally {
+      setSavingMethod(null);
+    }
+  }, [toast, loadCalibrations]);
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><Gauge className="mr-3 h-7 w-7 text-primary" />Confidence Calibration</CardTitle>
+          <CardDescription>
+            Each detection method reports confidence on its own scale. Fit temperature or Platt scaling against a labeled set so that a given percentage means the same thing for every method. Both the raw and calibrated confidence are stored with each detection.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingCalibrations ? (
+            <div className="flex items-center text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading current calibrations...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Detection Method</TableHead>
+                  <TableHead>Calibration</TableHead>
+                  <TableHead>Parameters</TableHead>
+                  <TableHead>ECE (before / after)</TableHead>
+                  <TableHead>Fitted</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(Object.keys(detectionMethodNames) as DetectionMethod[]).map(method => {
+                  const model = calibrations[method];
+                  return (
+                    <TableRow key={method}>
+                      <TableCell className="font-medium">{detectionMethodNames[method]}</TableCell>
+                      <TableCell>{model ? calibrationMethodNames[model.method] : <span className="text-muted-foreground">Uncalibrated</span>}</TableCell>
+                      <TableCell className="font-mono text-xs">{model ? describeParameters(model) : '-'}</TableCell>
+                      <TableCell>{model ? `${(model.metrics.eceBefore * 100).toFixed(1)}% / ${(model.metrics.eceAfter * 100).toFixed(1)}%` : '-'}</TableCell>
+                      <TableCell className="text-xs">{model ? `${format(new Date(model.fittedAt), "MMM d, yyyy")} (${model.sampleCount} articles)` : '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {model && (
+                          <Button variant="ghost" size="sm" onClick={() => handleClear(method)} disabled={savingMethod !== null}>
+                            {savingMethod === method ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Fit a New Calibration</CardTitle>
+          <CardDescription>
+            Upload a CSV or JSONL labeled set with &quot;text&quot; and &quot;label&quot; (Real/Fake) columns. Each article is run through the selected method and the uncalibrated predictions are used for fitting. Use a set that is representative of what you analyze, ideally a few hundred articles.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="calibration-file">Labeled Set</Label>
+              <Input id="calibration-file" type="file" accept=".csv,.jsonl,.ndjson,.json" onChange={(e) => handleFileSelected(e.target.files?.[0])} disabled={isCollecting} />
+              {fileName && <p className="text-xs text-muted-foreground">{labeledRows.length} labeled articles ({labeledRows.filter(row => row.label === 'Fake').length} fake) from {fileName}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calibration-method">Detection Method</Label>
+              <Select value={detectionMethod} onValueChange={(value: DetectionMethod) => setDetectionMethod(value)} disabled={isCollecting}>
+                <SelectTrigger id="calibration-method"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(detectionMethodNames) as DetectionMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{detectionMethodNames[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calibration-concurrency">Parallel Requests</Label>
+              <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))} disabled={isCollecting}>
+                <SelectTrigger id="calibration-concurrency"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5].map(count => <SelectItem key={count} value={String(count)}>{count}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            {isCollecting ? (
+              <Button variant="destructive" onClick={() => abortControllerRef.current?.abort()}><Square className="mr-2 h-4 w-4" /> Stop</Button>
+            ) : (
+              <Button onClick={handleCollect} disabled={labeledRows.length === 0}><Play className="mr-2 h-4 w-4" /> Collect Predictions</Button>
+            )}
+          </div>
+
+          {(isCollecting || progress.settled > 0) && labeledRows.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>{progress.settled} / {labeledRows.length} articles processed</span>
+                {progress.failed > 0 && <span className="text-destructive">{progress.failed} failed</span>}
+              </div>
+              <Progress value={(progress.settled / labeledRows.length) * 100} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {fits && samplesMethod && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">Results for {detectionMethodNames[samplesMethod]}</CardTitle>
+            <CardDescription>Metrics are measured on the same {samples.length} labeled predictions the scaling was fitted on. Lower is better for both.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {fits.error ? (
+              <p className="text-sm text-destructive">{fits.error}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scaling</TableHead>
+                    <TableHead>Parameters</TableHead>
+                    <TableHead>ECE</TableHead>
+                    <TableHead>Log Loss</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="font-medium">Uncalibrated</TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell>{(fits.temperature!.metrics.eceBefore * 100).toFixed(1)}%</TableCell>
+                    <TableCell>{fits.temperature!.metrics.nllBefore.toFixed(3)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                  {(['temperature', 'platt'] as CalibrationMethod[]).map(method => {
+                    const fit = fits[method]!;
+                    return (
+                      <TableRow key={method}>
+                        <TableCell className="font-medium">{calibrationMethodNames[method]}</TableCell>
+                        <TableCell className="font-mono text-xs">{describeParameters(fit)}</TableCell>
+                        <TableCell>{(fit.metrics.eceAfter * 100).toFixed(1)}%</TableCell>
+                        <TableCell>{fit.metrics.nllAfter.toFixed(3)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => handleSave(method)} disabled={savingMethod !== null}>
+                            {savingMethod === method ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Apply
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <h4 className="font-semibold">Reliability Diagram</h4>
+                <Tabs value={diagramView} onValueChange={(value) => setDiagramView(value as DiagramView)}>
+                  <TabsList>
+                    <TabsTrigger value="raw">Uncalibrated</TabsTrigger>
+                    <TabsTrigger value="temperature" disabled={!fits.temperature}>Temperature</TabsTrigger>
+                    <TabsTrigger value="platt" disabled={!fits.platt}>Platt</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+              <ReliabilityDiagram bins={diagramBins} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
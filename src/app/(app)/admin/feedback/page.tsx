@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { fetchDetectionFeedback } from '@/lib/firebase';
+import { aggregateFeedback, feedbackGroupKey, FEEDBACK_LABELS } from '@/lib/feedback';
+import type { DetectionFeedbackRecord, DetectionMethod } from '@/types';
+import { format } from 'date-fns';
+import { Loader2, MessageSquareWarning, RefreshCw, X } from 'lucide-react';
+
+const detectionMethodNames: Record<DetectionMethod, string> = {
+  custom: "Truth Lens Model",
+  llm: "Genkit AI Model",
+  ensemble: "Ensemble (Truth Lens + Genkit AI)",
+};
+
+// Rows in the recent-feedback table; older feedback still counts toward the summary.
+const MAX_LISTED_FEEDBACK = 100;
+
+export default function FeedbackAdminPage() {
+  const { toast } = useToast();
+  const [records, setRecords] = useState<DetectionFeedbackRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [onlyIncorrect, setOnlyIncorrect] = useState(true);
+
+  const loadFeedback = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRecords(await fetchDetectionFeedback());
+    } catch (error: any) {
+      toast({ title: "Error Loading Feedback", description: error.message || "Could not load user feedback.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadFeedback();
+  }, [loadFeedback]);
+
+  const groups = useMemo(() => aggregateFeedback(records), [records]);
+  const selected = groups.find(group => group.key === selectedGroup);
+
+  const listedRecords = useMemo(() => records
+    .filter(record => !onlyIncorrect || !record.isCorrect)
+    .filter(record => !selectedGroup || feedbackGroupKey(record) === selectedGroup)
+    .slice(0, MAX_LISTED_FEEDBACK), [records, onlyIncorrect, selectedGroup]);
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><MessageSquareWarning className="mr-3 h-7 w-7 text-primary" />Detection Feedback</CardTitle>
+            <Button variant="outline" size="sm" onClick={loadFeedback} disabled={isLoading}>
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />} Refresh
+            </Button>
+          </div>
+          <CardDescription>
+            What users said when asked &quot;Was this correct?&quot; after a detection, grouped by detection method and the model versions that produced the verdict. Groups with the lowest share of correct verdicts come first. Click a group to see its individual reports.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && records.length === 0 ? (
+            <div className="flex items-center text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading feedback...</div>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No feedback has been submitted yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Model Versions</TableHead>
+                  <TableHead className="text-right">Reports</TableHead>
+                  <TableHead className="text-right">Correct</TableHead>
+                  <TableHead className="text-right">Wrongly Fake</TableHead>
+                  <TableHead className="text-right">Wrongly Real</TableHead>
+                  <TableHead>Corrected To</TableHead>
+                  <TableHead>Latest</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map(group => (
+                  <TableRow
+                    key={group.key}
+                    onClick={() => setSelectedGroup(current => current === group.key ? null : group.key)}
+                    className={`cursor-pointer ${group.key === selectedGroup ? 'bg-muted' : ''}`}
+                  >
+                    <TableCell className="font-medium">{detectionMethodNames[group.detectionMethod]}</TableCell>
+                    <TableCell className="text-xs">{group.modelVersions}</TableCell>
+                    <TableCell className="text-right">{group.total}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={group.accuracy >= 80 ? 'default' : group.accuracy >= 60 ? 'secondary' : 'destructive'}>{group.accuracy.toFixed(1)}%</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{group.falseFakes}</TableCell>
+                    <TableCell className="text-right">{group.falseReals}</TableCell>
+                    <TableCell className="text-xs">
+                      {FEEDBACK_LABELS.filter(label => group.correctedLabels[label]).map(label => `${label} ${group.correctedLabels[label]}`).join(', ') || '-'}
+                    </TableCell>
+                    <TableCell className="text-xs">{format(new Date(group.lastSubmittedAt), "MMM d, yyyy")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {records.length > 0 && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <CardTitle className="font-headline">
+                {onlyIncorrect ? 'Disputed Verdicts' : 'All Reports'}
+                {selected && <span className="text-base font-normal text-muted-foreground"> for {detectionMethodNames[selected.detectionMethod]}, {selected.modelVersions}</span>}
+              </CardTitle>
+              <div className="flex gap-2">
+                {selected && (
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedGroup(null)}><X className="mr-1 h-4 w-4" /> All Groups</Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setOnlyIncorrect(value => !value)}>
+                  {onlyIncorrect ? 'Show All Reports' : 'Only Disputed'}
+                </Button>
+              </div>
+            </div>
+            <CardDescription>The newest {MAX_LISTED_FEEDBACK} matching reports, with a snippet of the text that was judged.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {listedRecords.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No reports match.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Article</TableHead>
+                    <TableHead>Predicted</TableHead>
+                    <TableHead>User Says</TableHead>
+                    <TableHead>Comment</TableHead>
+                    <TableHead>Submitted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {listedRecords.map(record => (
+                    <TableRow key={record.id}>
+                      <TableCell className="max-w-xs">
+                        <p className="font-medium truncate">{record.title || 'Untitled'}</p>
+                        <p className="text-xs text-muted-foreground line-clamp-2">{record.excerpt}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={record.predicted.label === 'Fake' ? 'destructive' : 'default'}>{record.predicted.label}</Badge>
+                        <span className="ml-1 text-xs text-muted-foreground">{record.predicted.confidence.toFixed(0)}%</span>
+                      </TableCell>
+                      <TableCell>
+                        {record.isCorrect ? (
+                          <Badge variant="secondary">Correct</Badge>
+                        ) : (
+                          <Badge variant="outline" className="border-destructive text-destructive">{record.correctedLabel ?? 'Incorrect'}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs max-w-sm whitespace-pre-wrap">{record.comment || '-'}</TableCell>
+                      <TableCell className="text-xs">{format(new Date(record.submittedAt), "MMM d, yyyy, h:mm a")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
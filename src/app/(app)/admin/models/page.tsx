@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { fetchMlModels } from '@/services/mlModelService';
+import type { MlModelHealthStatus, MlModelSummary } from '@/types';
+import { format } from 'date-fns';
+import { Loader2, Server, RefreshCw } from 'lucide-react';
+
+const healthBadgeVariants: Record<MlModelHealthStatus, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  healthy: 'default',
+  unhealthy: 'destructive',
+  unknown: 'secondary',
+  unconfigured: 'outline',
+};
+
+export default function MlModelsAdminPage() {
+  const { toast } = useToast();
+  const [models, setModels] = useState<MlModelSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadModels = useCallback(async (refreshHealth: boolean) => {
+    setIsLoading(true);
+    try {
+      setModels(await fetchMlModels({ refreshHealth }));
+    } catch (error: any) {
+      toast({ title: "Error Loading Models", description: error.message || "Could not load the ML model registry.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadModels(false);
+  }, [loadModels]);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><Server className="mr-3 h-7 w-7 text-primary" />ML Models</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => loadModels(true)} disabled={isLoading}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />} Check Health
+          </Button>
+        </div>
+        <CardDescription>
+          HTTP detection models registered in the ML model registry (ML_MODELS_PATH, default data/ml-models.json; see data/ml-models.example.json for the format). Users can pick any of them on the detector page, and each detection records the model name and version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && models.length === 0 ? (
+          <div className="flex items-center text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading models...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Id</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead>Health</TableHead>
+                <TableHead>Last Checked</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {models.map(model => (
+                <TableRow key={model.id}>
+                  <TableCell className="font-medium">
+                    {model.name} {model.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{model.id}</TableCell>
+                  <TableCell>{model.version}</TableCell>
+                  <TableCell>
+                    <Badge variant={healthBadgeVariants[model.health.status]} className="capitalize">{model.health.status}</Badge>
+                    {model.health.latencyMs !== undefined && <span className="ml-2 text-xs text-muted-foreground">{model.health.latencyMs} ms</span>}
+                    {model.health.message && <p className="text-xs text-muted-foreground mt-1">{model.health.message}</p>}
+                  </TableCell>
+                  <TableCell className="text-xs">{format(new Date(model.health.checkedAt), "MMM d, h:mm:ss a")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import Link from 'next/link';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { FileCode2, Gauge, MessageSquareWarning, Server, ShieldCheck, ShieldQuestion } from 'lucide-react';
+
+const adminTools = [
+  {
+    href: '/admin/calibration',
+    title: 'Confidence Calibration',
+    description: 'Fit temperature or Platt scaling per detection method against a labeled set and inspect reliability diagrams.',
+    icon: Gauge,
+  },
+  {
+    href: '/admin/feedback',
+    title: 'Detection Feedback',
+    description: 'See where users say verdicts were wrong, grouped by detection method and model version, with their corrections and comments.',
+    icon: MessageSquareWarning,
+  },
+  {
+    href: '/admin/models',
+    title: 'ML Models',
+    description: 'See the registered HTTP detection models, their versions and whether their endpoints are healthy.',
+    icon: Server,
+  },
+  {
+    href: '/admin/prompts',
+    title: 'Prompt Registry',
+    description: 'Add versions of the Genkit detection and generation prompts and split traffic between them for A/B testing.',
+    icon: FileCode2,
+  },
+  {
+    href: '/admin/sources',
+    title: 'Source Credibility',
+    description: 'Rate news domains for reliability and record their ownership; detections look up the article domain and its links.',
+    icon: ShieldQuestion,
+  },
+];
+
+export default function AdminPage() {
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><ShieldCheck className="mr-3 h-7 w-7 text-primary" />Admin</CardTitle>
+          <CardDescription>Configuration shared by every Truth Lens AI user. Changes take effect immediately.</CardDescription>
+        </CardHeader>
+      </Card>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {adminTools.map(tool => (
+          <Link key={tool.href} href={tool.href} className="block">
+            <Card className="h-full hover:border-primary transition-colors">
+              <CardHeader>
+                <CardTitle className="font-headline flex items-center"><tool.icon className="mr-2 h-5 w-5 text-primary" />{tool.title}</CardTitle>
+                <CardDescription>{tool.description}</CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
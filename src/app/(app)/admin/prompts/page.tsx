@@ -0,0 +1,237 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { effectiveTraffic, missingPromptVariables, PROMPT_IDS, PROMPT_INFO } from '@/lib/prompts';
+import { getCurrentUserIdToken } from '@/lib/firebase';
+import { fetchPromptRegistry, savePromptTraffic, savePromptVersion } from '@/services/promptRegistryService';
+import type { PromptId, PromptRegistryEntry, PromptVersion } from '@/types';
+import { format } from 'date-fns';
+import { Loader2, FileCode2, Eye, CopyPlus, Save } from 'lucide-react';
+
+interface VersionDraft {
+  promptId: PromptId;
+  basedOn: string;
+  template: string;
+  notes: string;
+}
+
+// Traffic inputs are kept as text so a field can be cleared while typing.
+function trafficInputs(entry: PromptRegistryEntry): Record<string, string> {
+  const traffic = effectiveTraffic(entry);
+  return Object.fromEntries(entry.versions.map(version => [version.version, String(traffic[version.version] ?? 0)]));
+}
+
+export default function PromptRegistryAdminPage() {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<PromptRegistryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activePromptId, setActivePromptId] = useState<PromptId>(PROMPT_IDS[0]);
+  const [traffic, setTraffic] = useState<Partial<Record<PromptId, Record<string, string>>>>({});
+  const [viewing, setViewing] = useState<PromptVersion | null>(null);
+  const [draft, setDraft] = useState<VersionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyEntry = useCallback((entry: PromptRegistryEntry) => {
+    setEntries(previous => previous.map(existing => existing.promptId === entry.promptId ? entry : existing));
+    setTraffic(previous => ({ ...previous, [entry.promptId]: trafficInputs(entry) }));
+  }, []);
+
+  const loadRegistry = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await fetchPromptRegistry();
+      setEntries(loaded);
+      setTraffic(Object.fromEntries(loaded.map(entry => [entry.promptId, trafficInputs(entry)])));
+    } catch (error: any) {
+      toast({ title: "Error Loading Prompts", description: error.message || "Could not load the prompt registry.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRegistry();
+  }, [loadRegistry]);
+
+  const handleSaveTraffic = useCallback(async (promptId: PromptId) => {
+    const inputs = traffic[promptId] ?? {};
+    setIsSaving(true);
+    try {
+      const idToken = await getCurrentUserIdToken();
+      const shares = Object.fromEntries(Object.entries(inputs).map(([version, share]) => [version, Number(share) || 0]));
+      applyEntry(await savePromptTraffic(idToken, promptId, shares));
+      toast({ title: "Traffic Split Saved", description: `New ${PROMPT_INFO[promptId].label.toLowerCase()} requests use the updated split.` });
+    } catch (error: any) {
+      toast({ title: "Save Failed", description: error.message || "Could not save the traffic split.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [traffic, applyEntry, toast]);
+
+  const handleSaveVersion = useCallback(async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const idToken = await getCurrentUserIdToken();
+      const entry = await savePromptVersion(idToken, { promptId: draft.promptId, template: draft.template, notes: draft.notes });
+      applyEntry(entry);
+      const created = entry.versions[entry.versions.length - 1];
+      toast({ title: `Version ${created.version} Created`, description: "It gets no traffic until you include it in the split." });
+      setDraft(null);
+    } catch (error: any) {
+      toast({ title: "Save Failed", description: error.message || "Could not save the prompt version.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [draft, applyEntry, toast]);
+
+  const missingVariables = draft ? missingPromptVariables(draft.promptId, draft.template) : [];
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><FileCode2 className="mr-3 h-7 w-7 text-primary" />Prompt Registry</CardTitle>
+        <CardDescription>
+          Versioned templates for the Genkit prompts, stored in Firestore and shared by every server instance (changes reach other instances within a minute). Versions cannot be edited once saved; create a new version and move traffic to it. Detection assigns each article text to a version consistently, so re-analyzing an article reuses its version; generation picks at random. Every saved article records the prompt version it used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && entries.length === 0 ? (
+          <div className="flex items-center text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading prompts...</div>
+        ) : (
+          <Tabs value={activePromptId} onValueChange={(value) => setActivePromptId(value as PromptId)}>
+            <TabsList>
+              {entries.map(entry => (
+                <TabsTrigger key={entry.promptId} value={entry.promptId}>{PROMPT_INFO[entry.promptId].label}</TabsTrigger>
+              ))}
+            </TabsList>
+            {entries.map(entry => {
+              const info = PROMPT_INFO[entry.promptId];
+              const inputs = traffic[entry.promptId] ?? {};
+              const total = Object.values(inputs).reduce((sum, share) => sum + (Number(share) || 0), 0);
+              const isDirty = Object.entries(trafficInputs(entry)).some(([version, share]) => (Number(inputs[version]) || 0) !== Number(share));
+              return (
+                <TabsContent key={entry.promptId} value={entry.promptId} className="space-y-4">
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    <p>{info.description}</p>
+                    <p>
+                      Variables: {info.requiredVariables.map(name => <code key={name} className="mr-1">{`{{{${name}}}}`}</code>)}
+                      {info.optionalVariables.length > 0 && <> (optional: {info.optionalVariables.map(name => <code key={name} className="mr-1">{name}</code>)})</>}
+                    </p>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Notes</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead className="w-28">Traffic (%)</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entry.versions.map(version => (
+                        <TableRow key={version.version}>
+                          <TableCell className="whitespace-nowrap">
+                            <span className="font-mono">v{version.version}</span>
+                            {version.builtIn && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+                            {version.retired && <Badge variant="outline" className="ml-2">Retired</Badge>}
+                          </TableCell>
+                          <TableCell className="text-xs max-w-xs">{version.notes}</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">
+                            {version.builtIn ? 'Shipped with the app' : format(new Date(version.createdAt), "MMM d, yyyy")}
+                            {version.createdBy && <span className="block text-muted-foreground">{version.createdBy}</span>}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              step={1}
+                              className="h-8"
+                              aria-label={`Traffic for version ${version.version}`}
+                              value={inputs[version.version] ?? '0'}
+                              disabled={version.retired}
+                              onChange={(event) => setTraffic(previous => ({ ...previous, [entry.promptId]: { ...inputs, [version.version]: event.target.value } }))}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setViewing(version)}>
+                              <Eye className="h-4 w-4" /><span className="sr-only">View template</span>
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDraft({ promptId: entry.promptId, basedOn: version.version, template: version.template, notes: '' })} disabled={isSaving}>
+                              <CopyPlus className="h-4 w-4" /><span className="sr-only">New version from this one</span>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <p className={`text-sm ${total === 100 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                      Total: {total}%{total !== 100 && ' (must be 100%)'}
+                      {entry.updatedAt && <span className="text-muted-foreground"> · Last changed {format(new Date(entry.updatedAt), "PPp")}{entry.updatedBy ? ` by ${entry.updatedBy}` : ''}</span>}
+                    </p>
+                    <Button size="sm" onClick={() => handleSaveTraffic(entry.promptId)} disabled={total !== 100 || !isDirty || isSaving}>
+                      {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save Traffic Split
+                    </Button>
+                  </div>
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+        )}
+      </CardContent>
+
+      <Dialog open={viewing !== null} onOpenChange={(open) => { if (!open) setViewing(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewing ? `${PROMPT_INFO[viewing.promptId].label} v${viewing.version}` : ''}</DialogTitle>
+            {viewing?.notes && <DialogDescription>{viewing.notes}</DialogDescription>}
+          </DialogHeader>
+          <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap rounded-md border bg-muted/30 p-3 text-xs">{viewing?.template}</pre>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New {draft ? PROMPT_INFO[draft.promptId].label : ''} Version</DialogTitle>
+            <DialogDescription>Starts from v{draft?.basedOn}. Templates use Handlebars, as in Genkit prompts; the output format is fixed by the flow.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="prompt-template">Template</Label>
+                <Textarea id="prompt-template" rows={16} className="font-mono text-xs" value={draft.template} onChange={(event) => setDraft({ ...draft, template: event.target.value })} />
+                {missingVariables.length > 0 && (
+                  <p className="text-xs text-destructive">The template must use {missingVariables.map(name => `{{{${name}}}}`).join(', ')}.</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="prompt-notes">Notes</Label>
+                <Input id="prompt-notes" placeholder="What changed and why" value={draft.notes} onChange={(event) => setDraft({ ...draft, notes: event.target.value })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveVersion} disabled={!draft?.template.trim() || missingVariables.length > 0 || isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Create Version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
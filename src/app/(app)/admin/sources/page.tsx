@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ReliabilityBadge } from '@/components/detection/SourceCredibilityPanel';
+import { RELIABILITY_LABELS, SOURCE_RELIABILITIES } from '@/lib/sourceCredibility';
+import { getCurrentUserIdToken } from '@/lib/firebase';
+import { fetchSourceEntries, saveSourceEntry, deleteSourceEntry } from '@/services/sourceCredibilityService';
+import type { SourceCredibilityEntry, SourceReliability } from '@/types';
+import { format } from 'date-fns';
+import { Loader2, ShieldQuestion, Plus, Pencil, Trash2, Save } from 'lucide-react';
+
+type EntryDraft = Omit<SourceCredibilityEntry, 'updatedAt'>;
+
+const emptyDraft: EntryDraft = { domain: '', name: '', reliability: 'mixed', ownership: '', notes: '' };
+
+export default function SourceCredibilityAdminPage() {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<SourceCredibilityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [editingDomain, setEditingDomain] = useState<string | undefined>(undefined);
+  const [busyDomain, setBusyDomain] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await fetchSourceEntries());
+    } catch (error: any) {
+      toast({ title: "Error Loading Sources", description: error.message || "Could not load the source credibility database.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return entries;
+    return entries.filter(entry => [entry.domain, entry.name, entry.ownership, entry.notes].some(field => field?.toLowerCase().includes(query)));
+  }, [entries, filter]);
+
+  const openEditor = (entry?: SourceCredibilityEntry) => {
+    setEditingDomain(entry?.domain);
+    setDraft(entry
+      ? { domain: entry.domain, name: entry.name ?? '', reliability: entry.reliability, ownership: entry.ownership ?? '', notes: entry.notes ?? '' }
+      : emptyDraft);
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return;
+    setBusyDomain(draft.domain);
+    try {
+      const idToken = await getCurrentUserIdToken();
+      setEntries(await saveSourceEntry(idToken, draft, editingDomain));
+      toast({ title: "Source Saved", description: `${draft.domain} is rated ${RELIABILITY_LABELS[draft.reliability].toLowerCase()}. New detections use the updated rating.` });
+      setDraft(null);
+    } catch (error: any) {
+      toast({ title: "Save Failed", description: error.message || "Could not save the source.", variant: "destructive" });
+    } finally {
+      setBusyDomain(null);
+    }
+  }, [draft, editingDomain, toast]);
+
+  const handleDelete = useCallback(async (domain: string) => {
+    setBusyDomain(domain);
+    try {
+      const idToken = await getCurrentUserIdToken();
+      setEntries(await deleteSourceEntry(idToken, domain));
+      toast({ title: "Source Removed", description: `${domain} is no longer rated.` });
+    } catch (error: any) {
+      toast({ title: "Remove Failed", description: error.message || "Could not remove the source.", variant: "destructive" });
+    } finally {
+      setBusyDomain(null);
+    }
+  }, [toast]);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><ShieldQuestion className="mr-3 h-7 w-7 text-primary" />Source Credibility</CardTitle>
+          <Button size="sm" onClick={() => openEditor()} disabled={isLoading}>
+            <Plus className="mr-2 h-4 w-4" /> Add Domain
+          </Button>
+        </div>
+        <CardDescription>
+          Reliability ratings for news domains: the seed list shipped with the app (data/source-credibility.json) plus the changes saved here, which are stored in Firestore. Detection looks up the domain an article was fetched from and every domain linked in its text; an entry also covers its subdomains. Saved detections keep the ratings they were analyzed with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input placeholder="Filter by domain, name, owner or notes..." value={filter} onChange={(event) => setFilter(event.target.value)} className="max-w-sm" />
+        {isLoading && entries.length === 0 ? (
+          <div className="flex items-center text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading sources...</div>
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{entries.length === 0 ? 'No domains are rated yet.' : 'No domains match the filter.'}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Domain</TableHead>
+                <TableHead>Reliability</TableHead>
+                <TableHead>Ownership</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredEntries.map(entry => (
+                <TableRow key={entry.domain}>
+                  <TableCell>
+                    <p className="font-mono text-xs">{entry.domain}</p>
+                    {entry.name && <p className="text-xs text-muted-foreground">{entry.name}</p>}
+                  </TableCell>
+                  <TableCell><ReliabilityBadge reliability={entry.reliability} /></TableCell>
+                  <TableCell className="text-xs">{entry.ownership}</TableCell>
+                  <TableCell className="text-xs max-w-xs">{entry.notes}</TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{format(new Date(entry.updatedAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(entry)} disabled={busyDomain !== null}>
+                      <Pencil className="h-4 w-4" /><span className="sr-only">Edit</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(entry.domain)} disabled={busyDomain !== null}>
+                      {busyDomain === entry.domain ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}<span className="sr-only">Remove</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingDomain ? `Edit ${editingDomain}` : 'Add Domain'}</DialogTitle>
+            <DialogDescription>Subdomains are covered automatically unless they have their own entry.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="source-domain">Domain</Label>
+                <Input id="source-domain" placeholder="example.com" value={draft.domain} onChange={(event) => setDraft({ ...draft, domain: event.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-name">Outlet Name</Label>
+                <Input id="source-name" value={draft.name} onChange={(event) => setDraft({ ...draft, name: event.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Reliability</Label>
+                <Select value={draft.reliability} onValueChange={(value) => setDraft({ ...draft, reliability: value as SourceReliability })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SOURCE_RELIABILITIES.map(reliability => (
+                      <SelectItem key={reliability} value={reliability}>{RELIABILITY_LABELS[reliability]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-ownership">Ownership</Label>
+                <Input id="source-ownership" value={draft.ownership} onChange={(event) => setDraft({ ...draft, ownership: event.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-notes">Notes</Label>
+                <Textarea id="source-notes" value={draft.notes} onChange={(event) => setDraft({ ...draft, notes: event.target.value })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!draft?.domain.trim() || busyDomain !== null}>
+              {busyDomain !== null ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
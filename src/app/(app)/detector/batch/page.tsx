@@ -0,0 +1,457 @@
+"use client";
+
+import { useState, useMemo, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { saveArticle } from '@/lib/firebase';
+import { analyzeHeadline } from '@/ai/flows/analyze-headline';
+import { runDetection, generateSnippetTitle, MAX_ARTICLE_CHARS } from '@/lib/detection';
+import { describeDetectionError } from '@/lib/mlErrors';
+import { parseBatchFile, runWithConcurrency, toCsv, downloadTextFile, type BatchInputRow } from '@/lib/batch';
+import { describeEvidence } from '@/lib/evidence';
+import type { DetectedArticle, DetectionMethod } from '@/types';
+import { Loader2, Files, Play, Square, Save, Download, ArrowUpDown, ArrowLeft, CheckCircle, AlertTriangle } from 'lucide-react';
+
+const MAX_BATCH_ROWS = 200;
+
+type BatchRowStatus = 'pending' | 'running' | 'done' | 'error';
+
+interface BatchResultRow {
+  input: BatchInputRow;
+  status: BatchRowStatus;
+  detection?: DetectedArticle;
+  error?: string;
+  savedId?: string;
+}
+
+type SortKey = 'row' | 'title' | 'label' | 'confidence' | 'status';
+
+const detectionMethodNames: Record<DetectionMethod, string> = {
+  custom: "Truth Lens Model",
+  llm: "Genkit AI Model",
+  ensemble: "Ensemble (Truth Lens + Genkit AI)",
+};
+
+const statusOrder: Record<BatchRowStatus, number> = { running: 0, pending: 1, error: 2, done: 3 };
+
+function rowTitle(row: BatchResultRow): string {
+  return row.detection?.title || row.input.title || generateSnippetTitle(row.input.text);
+}
+
+export default function BatchDetectorPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchResultRow[]>([]);
+  const [detectionMethod, setDetectionMethod] = useState<DetectionMethod>('custom');
+  const [customModelWeight, setCustomModelWeight] = useState(50);
+  const [concurrency, setConcurrency] = useState(3);
+  const [saveToHistory, setSaveToHistory] = useState(false);
+  const [translate, setTranslate] = useState(true);
+  const [estimateAiAuthorship, setEstimateAiAuthorship] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('row');
+  const [sortAscending, setSortAscending] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleFileSelected = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      let parsed = parseBatchFile(await file.text(), file.name);
+      if (parsed.length > MAX_BATCH_ROWS) {
+        toast({
+          title: "Batch Truncated",
+          description: `The file has ${parsed.length} articles; only the first ${MAX_BATCH_ROWS} will be analyzed.`,
+        });
+        parsed = parsed.slice(0, MAX_BATCH_ROWS);
+      }
+      setRows(parsed.map(input => ({ input, status: 'pending' })));
+      setFileName(file.name);
+    } catch (error: any) {
+      console.error("Error parsing batch file:", error);
+      setRows([]);
+      setFileName(null);
+      toast({
+        title: "Could Not Read File",
+        description: error.message || "The file could not be parsed. Please upload a CSV or JSONL file.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const saveDetection = useCallback(async (detection: DetectedArticle): Promise<string> => {
+    const { id, ...dataToSave } = detection;
+    const savedData = await saveArticle(user!.uid, dataToSave as Omit<DetectedArticle, 'id'>);
+    return savedData.id!;
+  }, [user]);
+
+  const handleRun = useCallback(async () => {
+    if (rows.length === 0) return;
+    if (saveToHistory && !user?.uid) {
+      toast({ title: "Error", description: "You must be logged in to save detections.", variant: "destructive" });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    // Re-running only retries rows that haven't produced a result yet.
+    const queue = rows.filter(row => row.status !== 'done').map(row => row.input);
+    const updateRow = (rowNumber: number, update: Partial<BatchResultRow>) => {
+      setRows(prev => prev.map(row => row.input.rowNumber === rowNumber ? { ...row, ...update } : row));
+    };
+
+    let failures = 0;
+    await runWithConcurrency(
+      queue,
+      concurrency,
+      async (input) => {
+        updateRow(input.rowNumber, { status: 'running', error: undefined });
+        const articleText = input.text.substring(0, MAX_ARTICLE_CHARS);
+        // Rows with a title column get their headline scored too; a failed headline check doesn't fail the row.
+        const [detection, headlineAnalysis] = await Promise.all([
+          runDetection(detectionMethod, articleText, { customModelWeight, translate, sourceUrl: input.url, estimateAiAuthorship }),
+          input.title
+            ? analyzeHeadline({ headline: input.title, articleText }).catch((headlineError: any) => {
+                console.warn(`Headline analysis failed for row ${input.rowNumber}:`, headlineError);
+                return undefined;
+              })
+            : Promise.resolve(undefined),
+        ]);
+        const article: DetectedArticle = {
+          ...detection,
+          type: 'detected',
+          title: input.title || detection.title,
+          text: articleText,
+          timestamp: new Date().toISOString(),
+          userId: user?.uid,
+          detectionMethod,
+          headlineAnalysis,
+        };
+        const savedId = saveToHistory ? await saveDetection(article) : undefined;
+        return { article, savedId };
+      },
+      (index, outcome) => {
+        const { rowNumber } = queue[index];
+        if (outcome.status === 'fulfilled') {
+          updateRow(rowNumber, { status: 'done', detection: outcome.value.article, savedId: outcome.value.savedId });
+        } else {
+          failures++;
+          console.error(`Error detecting batch row ${rowNumber}:`, outcome.reason);
+          const { code, title, description } = describeDetectionError(outcome.reason, "Detection failed");
+          updateRow(rowNumber, { status: 'error', error: code ? `${title}: ${description}` : description });
+        }
+      },
+      controller.signal,
+    );
+
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    if (controller.signal.aborted) {
+      setRows(prev => prev.map(row => row.status === 'running' ? { ...row, status: 'pending' } : row));
+      toast({ title: "Batch Stopped", description: "Rows that had not started were left pending. Run again to continue." });
+    } else {
+      toast({
+        title: "Batch Complete!",
+        description: failures > 0
+          ? `${queue.length - failures} of ${queue.length} articles analyzed; ${failures} failed and can be retried.`
+          : `All ${queue.length} articles analyzed with the ${detectionMethodNames[detectionMethod]}.`,
+        variant: failures > 0 ? "destructive" : "default",
+      });
+    }
+  }, [rows, concurrency, detectionMethod, customModelWeight, translate, estimateAiAuthorship, saveToHistory, user?.uid, saveDetection, toast]);
+
+  const handleStop = () => abortControllerRef.current?.abort();
+
+  const handleSaveAll = useCallback(async () => {
+    if (!user?.uid) {
+      toast({ title: "Error", description: "You must be logged in to save detections.", variant: "destructive" });
+      return;
+    }
+    const unsaved = rows.filter(row => row.detection && !row.savedId);
+    if (unsaved.length === 0) return;
+
+    setIsSaving(true);
+    let saved = 0;
+    await runWithConcurrency(
+      unsaved,
+      concurrency,
+      row => saveDetection(row.detection!),
+      (index, outcome) => {
+        if (outcome.status === 'fulfilled') {
+          saved++;
+          const { rowNumber } = unsaved[index].input;
+          setRows(prev => prev.map(row => row.input.rowNumber === rowNumber ? { ...row, savedId: outcome.value } : row));
+        } else {
+          console.error("Error saving batch detection:", outcome.reason);
+        }
+      },
+    );
+    setIsSaving(false);
+    toast({
+      title: saved === unsaved.length ? "Detections Saved!" : "Some Saves Failed",
+      description: `${saved} of ${unsaved.length} detections were saved to your history.`,
+      variant: saved === unsaved.length ? "default" : "destructive",
+    });
+  }, [rows, concurrency, user?.uid, saveDetection, toast]);
+
+  const handleExport = (formatType: 'csv' | 'json') => {
+    const baseName = (fileName?.replace(/\.[^.]+$/, '') || 'batch') + '-results';
+    if (formatType === 'json') {
+      const data = rows.map(row => ({
+        row: row.input.rowNumber,
+        title: rowTitle(row),
+        url: row.input.url,
+        status: row.status,
+        error: row.error,
+        ...(row.detection ? {
+          detectionMethod: row.detection.detectionMethod,
+          label: row.detection.result.label,
+          confidence: row.detection.result.confidence,
+          evidence: row.detection.evidence,
+          factChecks: row.detection.factChecks,
+          ensemble: row.detection.ensemble,
+          models: row.detection.models,
+          signals: row.detection.signals,
+          headlineAnalysis: row.detection.headlineAnalysis,
+          sourceCredibility: row.detection.sourceCredibility,
+          aiText: row.detection.aiText,
+          language: row.detection.language,
+          translatedText: row.detection.translation?.text,
+        } : {}),
+        text: row.input.text,
+      }));
+      downloadTextFile(JSON.stringify(data, null, 2), `${baseName}.json`, 'application/json;charset=utf-8');
+    } else {
+      const csv = toCsv(
+        ['row', 'title', 'url', 'status', 'detection_method', 'label', 'confidence', 'models', 'flagged_signals', 'headline_clickbait_score', 'headline_patterns', 'source_reliability', 'low_credibility_links', 'ai_likelihood', 'language', 'translated', 'evidence', 'error', 'text'],
+        rows.map(row => [
+          row.input.rowNumber,
+          rowTitle(row),
+          row.input.url,
+          row.status,
+          row.detection?.detectionMethod,
+          row.detection?.result.label,
+          row.detection?.result.confidence.toFixed(1),
+          row.detection?.models?.map(model => `${model.name}@${model.version}`).join('; '),
+          row.detection?.signals?.flagged.join('; '),
+          row.detection?.headlineAnalysis?.clickbaitScore,
+          row.detection?.headlineAnalysis?.patterns.map(hit => hit.pattern).join('; '),
+          row.detection?.sourceCredibility?.article?.entry?.reliability,
+          row.detection?.sourceCredibility?.lowCredibilityLinks,
+          row.detection?.aiText?.likelihood,
+          row.detection?.language?.code,
+          row.detection ? Boolean(row.detection.translation) : undefined,
+          row.detection?.evidence?.map(describeEvidence).join('; '),
+          row.error,
+          row.input.text,
+        ]),
+      );
+      downloadTextFile(csv, `${baseName}.csv`, 'text/csv;charset=utf-8');
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'row' || key === 'title');
+    }
+  };
+
+  const sortedRows = useMemo(() => {
+    const compare = (a: BatchResultRow, b: BatchResultRow): number => {
+      switch (sortKey) {
+        case 'title': return rowTitle(a).localeCompare(rowTitle(b));
+        case 'label': return (a.detection?.result.label ?? '~').localeCompare(b.detection?.result.label ?? '~');
+        case 'confidence': return (a.detection?.result.confidence ?? -1) - (b.detection?.result.confidence ?? -1);
+        case 'status': return statusOrder[a.status] - statusOrder[b.status];
+        default: return a.input.rowNumber - b.input.rowNumber;
+      }
+    };
+    return [...rows].sort((a, b) => sortAscending ? compare(a, b) : compare(b, a));
+  }, [rows, sortKey, sortAscending]);
+
+  const settledCount = rows.filter(row => row.status === 'done' || row.status === 'error').length;
+  const doneCount = rows.filter(row => row.status === 'done').length;
+  const fakeCount = rows.filter(row => row.detection?.result.label === 'Fake').length;
+  const unsavedCount = rows.filter(row => row.detection && !row.savedId).length;
+  const hasPendingRows = rows.some(row => row.status !== 'done');
+
+  const SortableHead = ({ sortBy, children, className }: { sortBy: SortKey; children: React.ReactNode; className?: string }) => (
+    <TableHead className={className}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(sortBy)} disabled={rows.length === 0}>
+        {children} <ArrowUpDown className={`ml-1 h-3 w-3 ${sortKey === sortBy ? 'text-primary' : 'text-muted-foreground'}`} />
+      </Button>
+    </TableHead>
+  );
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><Files className="mr-3 h-7 w-7 text-primary" />Batch Detection</CardTitle>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/detector"><ArrowLeft className="mr-2 h-4 w-4" /> Single Article</Link>
+            </Button>
+          </div>
+          <CardDescription>
+            Upload a CSV (with a header row and a &quot;text&quot; column) or a JSONL file (one object with a &quot;text&quot; field per line) to analyze many articles at once. Optional &quot;title&quot; and &quot;url&quot; columns are kept in the results.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="batch-file">Articles File</Label>
+              <Input
+                id="batch-file"
+                type="file"
+                accept=".csv,.jsonl,.ndjson,.json,text/csv,application/json"
+                onChange={(e) => handleFileSelected(e.target.files?.[0])}
+                disabled={isRunning || isSaving}
+              />
+              {fileName && <p className="text-xs text-muted-foreground">{rows.length} article{rows.length === 1 ? '' : 's'} loaded from {fileName}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-method">Detection Method</Label>
+              <Select value={detectionMethod} onValueChange={(value: DetectionMethod) => setDetectionMethod(value)} disabled={isRunning}>
+                <SelectTrigger id="batch-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="custom">{detectionMethodNames.custom}</SelectItem>
+                  <SelectItem value="llm">{detectionMethodNames.llm}</SelectItem>
+                  <SelectItem value="ensemble">{detectionMethodNames.ensemble}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {detectionMethod === 'ensemble' && (
+              <div className="space-y-3">
+                <Label>Ensemble Weights</Label>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Truth Lens Model: {customModelWeight}%</span>
+                  <span>Genkit AI Model: {100 - customModelWeight}%</span>
+                </div>
+                <Slider min={0} max={100} step={5} value={[customModelWeight]} onValueChange={(value) => setCustomModelWeight(value[0])} disabled={isRunning} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="batch-concurrency">Parallel Requests</Label>
+              <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))} disabled={isRunning}>
+                <SelectTrigger id="batch-concurrency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5].map(count => <SelectItem key={count} value={String(count)}>{count}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Lower this if the models start rate-limiting requests.</p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <Checkbox id="batch-translate" checked={translate} onCheckedChange={(checked) => setTranslate(checked === true)} disabled={isRunning} />
+            <Label htmlFor="batch-translate" className="font-normal cursor-pointer">Translate non-English articles to English before detection</Label>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <Checkbox id="batch-ai-text" checked={estimateAiAuthorship} onCheckedChange={(checked) => setEstimateAiAuthorship(checked === true)} disabled={isRunning} />
+            <Label htmlFor="batch-ai-text" className="font-normal cursor-pointer">Also estimate whether each article is AI-generated (one extra AI call per row)</Label>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <Checkbox id="batch-save" checked={saveToHistory} onCheckedChange={(checked) => setSaveToHistory(checked === true)} disabled={isRunning || !user} />
+            <Label htmlFor="batch-save" className="font-normal cursor-pointer">Save each result to my history as it completes</Label>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {isRunning ? (
+              <Button variant="destructive" onClick={handleStop}><Square className="mr-2 h-4 w-4" /> Stop</Button>
+            ) : (
+              <Button onClick={handleRun} disabled={rows.length === 0 || !hasPendingRows || isSaving}>
+                <Play className="mr-2 h-4 w-4" /> {settledCount > 0 && hasPendingRows ? 'Resume / Retry Failed' : 'Run Batch'}
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleSaveAll} disabled={isRunning || isSaving || unsavedCount === 0 || !user}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save All ({unsavedCount})
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('csv')} disabled={doneCount === 0}><Download className="mr-2 h-4 w-4" /> Export CSV</Button>
+            <Button variant="outline" onClick={() => handleExport('json')} disabled={doneCount === 0}><Download className="mr-2 h-4 w-4" /> Export JSON</Button>
+          </div>
+
+          {rows.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>{settledCount} / {rows.length} processed{isRunning && <Loader2 className="inline ml-2 h-3 w-3 animate-spin" />}</span>
+                <span>{doneCount > 0 && `${fakeCount} fake, ${doneCount - fakeCount} real`}</span>
+              </div>
+              <Progress value={(settledCount / rows.length) * 100} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">Results</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortableHead sortBy="row" className="w-16">#</SortableHead>
+                  <SortableHead sortBy="title">Title</SortableHead>
+                  <SortableHead sortBy="label" className="w-28">Result</SortableHead>
+                  <SortableHead sortBy="confidence" className="w-32">Confidence</SortableHead>
+                  <SortableHead sortBy="status" className="w-32">Status</SortableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRows.map(row => (
+                  <TableRow key={row.input.rowNumber}>
+                    <TableCell className="text-muted-foreground">{row.input.rowNumber}</TableCell>
+                    <TableCell className="max-w-md">
+                      <p className="truncate font-medium" title={rowTitle(row)}>{rowTitle(row)}</p>
+                      {row.error && <p className="text-xs text-destructive truncate" title={row.error}>{row.error}</p>}
+                    </TableCell>
+                    <TableCell>
+                      {row.detection && (
+                        <Badge variant={row.detection.result.label === 'Fake' ? 'destructive' : 'default'}>
+                          {row.detection.result.label === 'Fake' ? <AlertTriangle className="mr-1 h-3 w-3" /> : <CheckCircle className="mr-1 h-3 w-3" />}
+                          {row.detection.result.label}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{row.detection ? `${row.detection.result.confidence.toFixed(1)}%` : '-'}</TableCell>
+                    <TableCell>
+                      {row.status === 'running' ? (
+                        <span className="flex items-center text-sm"><Loader2 className="mr-1 h-3 w-3 animate-spin" /> Running</span>
+                      ) : (
+                        <span className="text-sm capitalize">{row.status === 'done' && row.savedId ? 'Saved' : row.status}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { saveArticle } from '@/lib/firebase';
+import { compareArticles } from '@/ai/flows/compare-articles';
+import { ComparisonPanel } from '@/components/detection/ComparisonPanel';
+import { MAX_ARTICLE_CHARS } from '@/lib/detection';
+import type { ComparedArticle } from '@/types';
+import { Loader2, GitCompare, ArrowLeft, Save } from 'lucide-react';
+
+const comparedTextSchema = (name: string) => z.string()
+  .trim()
+  .min(50, { message: `The ${name} must be at least 50 characters.` })
+  .max(MAX_ARTICLE_CHARS, { message: `The ${name} must be at most ${MAX_ARTICLE_CHARS} characters.` });
+
+const compareFormSchema = z.object({
+  subjectLabel: z.string().trim().min(1, { message: "Give the article a short name." }).max(60),
+  subjectText: comparedTextSchema('article to check'),
+  referenceLabel: z.string().trim().min(1, { message: "Give the reference a short name." }).max(60),
+  referenceText: comparedTextSchema('reference report'),
+});
+
+type CompareFormValues = z.infer<typeof compareFormSchema>;
+
+export default function CompareArticlesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [comparison, setComparison] = useState<ComparedArticle | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<CompareFormValues>({
+    resolver: zodResolver(compareFormSchema),
+    defaultValues: { subjectLabel: "Suspicious story", subjectText: "", referenceLabel: "Reference report", referenceText: "" },
+  });
+
+  const onSubmit: SubmitHandler<CompareFormValues> = useCallback(async (data) => {
+    setIsLoading(true);
+    setComparison(null);
+    try {
+      const result = await compareArticles({ subjectText: data.subjectText, referenceText: data.referenceText });
+      setComparison({
+        ...result,
+        type: 'compared',
+        userId: user?.uid,
+        subject: { label: data.subjectLabel, text: data.subjectText },
+        reference: { label: data.referenceLabel, text: data.referenceText },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      console.error("Error comparing articles:", error);
+      toast({
+        title: "Comparison Failed",
+        description: error.message || "Could not compare the two articles. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast, user?.uid]);
+
+  const handleSaveComparison = useCallback(async (comparisonToSave: ComparedArticle) => {
+    if (!user?.uid) {
+      toast({ title: "Error", description: "You must be logged in to save comparisons.", variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { id, ...dataToSave } = comparisonToSave;
+      const savedData = await saveArticle(user.uid, dataToSave);
+      toast({ title: "Comparison Saved!", description: "The comparison has been saved to your history." });
+      setComparison(prev => prev ? { ...prev, id: savedData.id } : null);
+    } catch (error: any) {
+      toast({ title: "Save Failed", description: error.message || "Could not save the comparison.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [toast, user?.uid]);
+
+  const renderTextFields = (prefix: 'subject' | 'reference', placeholder: string) => (
+    <div className="space-y-3">
+      <FormField
+        control={form.control}
+        name={`${prefix}Label`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-base">{prefix === 'subject' ? 'Article to Check' : 'Reference Report'}</FormLabel>
+            <FormControl>
+              <Input placeholder="Short name, e.g. the outlet" {...field} disabled={isLoading} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`${prefix}Text`}
+        render={({ field }) => (
+          <FormItem>
+            <FormControl>
+              <Textarea placeholder={placeholder} className="min-h-[250px] resize-y" {...field} disabled={isLoading} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><GitCompare className="mr-3 h-7 w-7 text-primary" />Compare Articles</CardTitle>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/detector"><ArrowLeft className="mr-2 h-4 w-4" /> Single Article</Link>
+            </Button>
+          </div>
+          <CardDescription>
+            Check a story against another report of the same event. The AI matches up the claims of both texts and shows where they contradict each other, what the story leaves out and which details it adds, with an overall consistency verdict.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {renderTextFields('subject', "Paste the story you want to check...")}
+                {renderTextFields('reference', "Paste a trusted report of the same event...")}
+              </div>
+              <Button type="submit" disabled={isLoading} className="w-full sm:w-auto">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Comparing...
+                  </>
+                ) : (
+                  <>
+                    <GitCompare className="mr-2 h-4 w-4" /> Compare
+                  </>
+                )}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline">{comparison.title}</CardTitle>
+            <CardDescription>{comparison.subject.label} compared with {comparison.reference.label}.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ComparisonPanel comparison={comparison} />
+          </CardContent>
+        </Card>
+      )}
+      {comparison && !comparison.id && (
+        <div className="flex">
+          <Button onClick={() => handleSaveComparison(comparison)} disabled={isSaving || isLoading} className="w-full sm:w-auto">
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" /> Save Comparison
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { analyzeHeadline } from '@/ai/flows/analyze-headline';
+import { HeadlineAnalysisPanel } from '@/components/detection/HeadlineAnalysisPanel';
+import type { HeadlineAnalysis } from '@/types';
+import { Loader2, Heading, ArrowLeft, Copy } from 'lucide-react';
+
+const headlineFormSchema = z.object({
+  headline: z.string().trim().min(5, { message: "Headline must be at least 5 characters." }).max(300, { message: "Headline must be at most 300 characters." }),
+  articleText: z.string(),
+});
+
+type HeadlineFormValues = z.infer<typeof headlineFormSchema>;
+
+export default function HeadlineCheckPage() {
+  const { toast } = useToast();
+  const [analysis, setAnalysis] = useState<HeadlineAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<HeadlineFormValues>({
+    resolver: zodResolver(headlineFormSchema),
+    defaultValues: { headline: "", articleText: "" },
+  });
+
+  const onSubmit: SubmitHandler<HeadlineFormValues> = useCallback(async (data) => {
+    setIsLoading(true);
+    setAnalysis(null);
+    try {
+      const result = await analyzeHeadline({ headline: data.headline, articleText: data.articleText.trim() || undefined });
+      setAnalysis(result);
+    } catch (error: any) {
+      console.error("Error analyzing headline:", error);
+      toast({
+        title: "Headline Analysis Failed",
+        description: error.message || "Could not analyze the headline. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const handleCopyRewrite = async () => {
+    if (!analysis) return;
+    try {
+      await navigator.clipboard.writeText(analysis.neutralRewrite);
+      toast({ title: "Copied", description: "The neutral headline was copied to your clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Your browser blocked clipboard access.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><Heading className="mr-3 h-7 w-7 text-primary" />Headline Check</CardTitle>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/detector"><ArrowLeft className="mr-2 h-4 w-4" /> Full Article</Link>
+            </Button>
+          </div>
+          <CardDescription>
+            Score a headline for clickbait and sensationalism, see which patterns it relies on (curiosity gaps, listicles, superlatives and more) and get a neutral rewrite. Adding the article text lets the AI check that the rewrite stays faithful to the story.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="headline"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base">Headline</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., You Won't Believe What This City Did With Its Old Buses" {...field} disabled={isLoading} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="articleText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base">Article Text (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Paste the article the headline belongs to..." className="min-h-[150px] resize-y" {...field} disabled={isLoading} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={isLoading} className="w-full sm:w-auto">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Analyzing...
+                  </>
+                ) : (
+                  <>
+                    <Heading className="mr-2 h-4 w-4" /> Check Headline
+                  </>
+                )}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {analysis && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <CardTitle className="font-headline">Result</CardTitle>
+              {analysis.neutralRewrite !== analysis.headline && (
+                <Button variant="outline" size="sm" onClick={handleCopyRewrite}>
+                  <Copy className="mr-2 h-4 w-4" /> Copy Rewrite
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <HeadlineAnalysisPanel analysis={analysis} showHeadline />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
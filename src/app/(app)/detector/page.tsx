@@ -1,7 +1,8 @@
 
 "use client";
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,101 +11,345 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Textarea } from '@/components/ui/textarea';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
-import { detectFakeNews, type DetectFakeNewsInput, type DetectFakeNewsOutput } from '@/ai/flows/detect-fake-news';
-import { llmDetectFakeNews, type LlmDetectFakeNewsInput, type LlmDetectFakeNewsOutput } from '@/ai/flows/llm-detect-fake-news';
+import { analyzeClaims } from '@/ai/flows/analyze-claims';
+import { classifyPropaganda } from '@/ai/flows/classify-propaganda';
+import { analyzeBias } from '@/ai/flows/analyze-bias';
+import { explainPrediction } from '@/ai/flows/explain-prediction';
+import { analyzeHeadline } from '@/ai/flows/analyze-headline';
 import { ArticleCard } from '@/components/shared/ArticleCard';
-import type { DetectedArticle } from '@/types';
+import { ClaimsList } from '@/components/detection/ClaimsList';
+import { HighlightedText } from '@/components/detection/HighlightedText';
+import { ChunkBreakdown } from '@/components/detection/ChunkBreakdown';
+import { SignalsPanel } from '@/components/detection/SignalsPanel';
+import { HeadlineAnalysisPanel } from '@/components/detection/HeadlineAnalysisPanel';
+import { SourceCredibilityPanel } from '@/components/detection/SourceCredibilityPanel';
+import { AiTextPanel } from '@/components/detection/AiTextPanel';
+import { PropagandaList } from '@/components/detection/PropagandaList';
+import { BiasPanel } from '@/components/detection/BiasPanel';
+import { OcclusionHeatmap } from '@/components/detection/OcclusionHeatmap';
+import { DetectionFeedbackForm } from '@/components/detection/DetectionFeedbackForm';
+import { topOcclusionSpans, MAX_OCCLUSION_UNITS } from '@/lib/occlusion';
+import { BIAS_SCALES, BIAS_SCALE_INFO, DEFAULT_BIAS_SCALE } from '@/lib/bias';
+import type { ArticleSource, DetectedArticle, DetectionFeedback, OcclusionExplanation, DetectionMethod, MlModelHealthStatus, MlModelSummary, SourceDocument } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { saveArticle } from '@/lib/firebase';
-import { Loader2, ScanSearch, Save, Brain, Database, Lightbulb } from 'lucide-react';
+import { runDetection, fallbackDetectionTitle, MAX_ARTICLE_CHARS, CHUNKED_DETECTION_THRESHOLD_CHARS } from '@/lib/detection';
+import { detectLanguage, languageName, SUPPORTED_LANGUAGES } from '@/lib/language';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { extractArticleFromUrl } from '@/services/articleExtractionService';
+import { extractTextFromDocument } from '@/services/documentExtractionService';
+import { fetchMlModels } from '@/services/mlModelService';
+import { describeDetectionError, RETRYABLE_ML_ERROR_CODES } from '@/lib/mlErrors';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, ScanSearch, Save, Brain, Database, Lightbulb, Layers, ListChecks, Highlighter, Link as LinkIcon, Type, FileUp, FileText, Files, SplitSquareVertical, Languages, RefreshCw, Activity, Heading, ShieldQuestion, Bot, Megaphone, Scale, GitCompare, Flame } from 'lucide-react';
 
 const detectorFormSchema = z.object({
-  articleText: z.string().min(50, { message: "Article text must be at least 50 characters." }).max(10000, {message: "Article text must be at most 10000 characters."}), // Increased max length
-  detectionMethod: z.enum(['custom', 'llm'], { required_error: "Please select a detection method." }),
+  inputMode: z.enum(['text', 'url', 'file']),
+  articleText: z.string(),
+  articleUrl: z.string(),
+  detectionMethod: z.enum(['custom', 'llm', 'ensemble'], { required_error: "Please select a detection method." }),
+  customModelWeight: z.number().min(0).max(100), // Share (%) of the Truth Lens model in the ensemble verdict
+  modelId: z.string(), // Registry id of the ML model; empty for the registry default
+  analyzeClaims: z.boolean(),
+  classifyPropaganda: z.boolean(), // Also tag propaganda techniques with supporting excerpts
+  analyzeBias: z.boolean(), // Also rate political framing and slant
+  biasScale: z.enum(BIAS_SCALES), // The axis slant is rated on
+  estimateAiAuthorship: z.boolean(), // Also estimate whether the text was written by an LLM
+  explainPrediction: z.boolean(), // Also explain the Truth Lens prediction by removing sentences one at a time
+  forceRefresh: z.boolean(), // Ignore cached detection results and query the models again
+  translate: z.boolean(), // Translate non-English articles to English before detection
+  responseLanguage: z.string(), // ISO 639-1 code of the language the LLM explains its verdict in
+}).superRefine((data, ctx) => {
+  if (data.inputMode === 'file' && data.articleText.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['articleText'], message: "Please upload a PDF, DOCX, HTML or TXT file to analyze." });
+  } else if (data.inputMode !== 'url') {
+    if (data.articleText.length < 50) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['articleText'], message: "Article text must be at least 50 characters." });
+    } else if (data.articleText.length > MAX_ARTICLE_CHARS) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['articleText'], message: `Article text must be at most ${MAX_ARTICLE_CHARS} characters.` });
+    }
+  } else if (!z.string().url().safeParse(data.articleUrl.trim()).success || !/^https?:\/\//i.test(data.articleUrl.trim())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['articleUrl'], message: "Please enter a valid article URL starting with http:// or https://." });
+  }
 });
 
 type DetectorFormValues = z.infer<typeof detectorFormSchema>;
 
+const detectionMethodNames: Record<DetectionMethod, string> = {
+  custom: "Truth Lens Model",
+  llm: "Genkit AI Model (with XAI & Fact-Check)",
+  ensemble: "Ensemble (Truth Lens + Genkit AI)",
+};
+
+const healthIndicatorClasses: Record<MlModelHealthStatus, string> = {
+  healthy: "bg-green-500",
+  unhealthy: "bg-destructive",
+  unknown: "bg-muted-foreground",
+  unconfigured: "bg-yellow-500",
+};
+
 export default function DetectorPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [detectionResult, setDetectionResult] = useState<DetectedArticle | null>(null);
+  const [occlusionDetails, setOcclusionDetails] = useState<OcclusionExplanation | null>(null); // Every span; the saved detection keeps only the top ones
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [selectedMethodForDisplay, setSelectedMethodForDisplay] = useState<'custom' | 'llm'>('custom');
+  const [selectedMethodForDisplay, setSelectedMethodForDisplay] = useState<DetectionMethod>('custom');
+  const [isFetchingUrl, setIsFetchingUrl] = useState(false);
+  const [isExtractingFile, setIsExtractingFile] = useState(false);
+  const [uploadedDocument, setUploadedDocument] = useState<{ document: SourceDocument; title?: string } | null>(null);
+  const [mlModels, setMlModels] = useState<MlModelSummary[]>([]);
 
 
   const form = useForm<DetectorFormValues>({
     resolver: zodResolver(detectorFormSchema),
     defaultValues: {
+      inputMode: "text",
       articleText: "",
+      articleUrl: "",
       detectionMethod: "custom",
+      customModelWeight: 50,
+      modelId: "",
+      analyzeClaims: false,
+      classifyPropaganda: false,
+      analyzeBias: false,
+      biasScale: DEFAULT_BIAS_SCALE,
+      estimateAiAuthorship: false,
+      explainPrediction: false,
+      forceRefresh: false,
+      translate: true,
+      responseLanguage: 'en',
     },
   });
 
-  const generateSnippetTitle = (text: string, maxLength: number = 60): string => {
-    if (text.length <= maxLength) return text;
-    const snippet = text.substring(0, maxLength);
-    const lastSpace = snippet.lastIndexOf(' ');
-    return (lastSpace > 0 ? snippet.substring(0, lastSpace) : snippet) + "...";
-  };
+  const watchedDetectionMethod = form.watch('detectionMethod');
+  const watchedInputMode = form.watch('inputMode');
+  const watchedArticleText = form.watch('articleText');
+  const watchedTranslate = form.watch('translate');
+  const watchedAnalyzeBias = form.watch('analyzeBias');
+  const detectedLanguage = useMemo(() => detectLanguage(watchedArticleText), [watchedArticleText]);
+
+  useEffect(() => {
+    // Default the explanation language to the browser's language when we support it.
+    const browserLanguage = navigator.language?.slice(0, 2).toLowerCase();
+    if (browserLanguage && browserLanguage in SUPPORTED_LANGUAGES) {
+      form.setValue('responseLanguage', browserLanguage);
+    }
+  }, [form]);
+
+  useEffect(() => {
+    fetchMlModels()
+      .then(models => {
+        setMlModels(models);
+        const defaultModel = models.find(model => model.isDefault);
+        if (defaultModel && !form.getValues('modelId')) {
+          form.setValue('modelId', defaultModel.id);
+        }
+      })
+      .catch(error => console.error("Error loading ML models:", error)); // The registry default is used server-side anyway
+  }, [form]);
+
+  const handleFileSelected = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    setIsExtractingFile(true);
+    setUploadedDocument(null);
+    form.setValue('articleText', '');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const extracted = await extractTextFromDocument(formData);
+      let text = extracted.text;
+      if (text.length > MAX_ARTICLE_CHARS) {
+        text = text.substring(0, MAX_ARTICLE_CHARS);
+        toast({
+          title: "Document Truncated",
+          description: `The extracted text is longer than ${MAX_ARTICLE_CHARS} characters; only the beginning will be analyzed. You can edit the preview before analyzing.`,
+        });
+      }
+      form.setValue('articleText', text, { shouldValidate: true });
+      setUploadedDocument({ document: extracted.document, title: extracted.title });
+    } catch (error: any) {
+      console.error("Error extracting document text:", error);
+      toast({
+        title: "Could Not Read File",
+        description: error.message || "The file could not be processed. Please try another file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExtractingFile(false);
+    }
+  }, [form, toast]);
 
   const onSubmit: SubmitHandler<DetectorFormValues> = useCallback(async (data) => {
     setIsLoading(true);
     setDetectionResult(null);
+    setOcclusionDetails(null);
     setSelectedMethodForDisplay(data.detectionMethod);
 
     try {
-      let result: DetectFakeNewsOutput | LlmDetectFakeNewsOutput;
-      let articleTitle: string | undefined;
-      const modelName = data.detectionMethod === 'custom' ? "Truth Lens Model" : "Genkit AI Model (with XAI & Mock Fact-Check)";
-
-      if (data.detectionMethod === 'custom') {
-        const input: DetectFakeNewsInput = { articleText: data.articleText };
-        result = await detectFakeNews(input);
-        articleTitle = `Analysis: ${generateSnippetTitle(data.articleText)}`;
-      } else {
-        const input: LlmDetectFakeNewsInput = { articleText: data.articleText };
-        result = await llmDetectFakeNews(input);
-        articleTitle = (result as LlmDetectFakeNewsOutput).suggestedTitle || `Analysis: ${generateSnippetTitle(data.articleText)}`;
+      let articleText = data.articleText;
+      let source: ArticleSource | undefined;
+      if (data.inputMode === 'url') {
+        setIsFetchingUrl(true);
+        try {
+          const extracted = await extractArticleFromUrl(data.articleUrl);
+          source = extracted.source;
+          articleText = extracted.text;
+        } finally {
+          setIsFetchingUrl(false);
+        }
+        if (articleText.length > MAX_ARTICLE_CHARS) {
+          articleText = articleText.substring(0, MAX_ARTICLE_CHARS);
+          toast({
+            title: "Article Truncated",
+            description: `The extracted article is longer than ${MAX_ARTICLE_CHARS} characters; only the beginning will be analyzed.`,
+          });
+        }
+      }
+
+      // Claim analysis runs alongside detection; its failure shouldn't discard the verdict.
+      const claimsPromise = data.analyzeClaims
+        ? analyzeClaims({ articleText }).catch((claimsError: any) => {
+            console.error("Error analyzing claims:", claimsError);
+            toast({
+              title: "Claim Analysis Failed",
+              description: claimsError.message || "Could not break the article into claims. The overall verdict is still available.",
+              variant: "destructive",
+            });
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+      const propagandaPromise = data.classifyPropaganda
+        ? classifyPropaganda({ articleText }).catch((propagandaError: any) => {
+            console.error("Error classifying propaganda techniques:", propagandaError);
+            toast({
+              title: "Propaganda Classification Failed",
+              description: propagandaError.message || "Could not tag propaganda techniques. The overall verdict is still available.",
+              variant: "destructive",
+            });
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+      const biasPromise = data.analyzeBias
+        ? analyzeBias({
+            articleText,
+            scale: data.biasScale,
+            responseLanguage: data.responseLanguage !== 'en' ? languageName(data.responseLanguage) : undefined,
+          }).catch((biasError: any) => {
+            console.error("Error analyzing bias:", biasError);
+            toast({
+              title: "Bias Analysis Failed",
+              description: biasError.message || "Could not rate the article's framing. The overall verdict is still available.",
+              variant: "destructive",
+            });
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+
+      // A headline that came with the article is scored right away. Pasted text has none, so the title the AI
+      // suggests for it is scored once detection returns, and marked as inferred.
+      const document = data.inputMode === 'file' ? uploadedDocument?.document : undefined;
+      const publishedHeadline = source?.headline || (document ? uploadedDocument?.title : undefined) || undefined;
+      const scoreHeadline = (headline: string, inferred: boolean) =>
+        analyzeHeadline({
+          headline,
+          articleText,
+          responseLanguage: data.responseLanguage !== 'en' ? languageName(data.responseLanguage) : undefined,
+        })
+          .then(analysis => (inferred ? { ...analysis, inferred } : analysis))
+          .catch((headlineError: any) => {
+            console.warn("Headline analysis failed, continuing without it:", headlineError);
+            return undefined;
+          });
+      const publishedHeadlinePromise = publishedHeadline ? scoreHeadline(publishedHeadline, false) : undefined;
+
+      const modelName = detectionMethodNames[data.detectionMethod];
+      const detection = await runDetection(data.detectionMethod, articleText, {
+        customModelWeight: data.customModelWeight,
+        translate: data.translate,
+        responseLanguage: data.responseLanguage,
+        forceRefresh: data.forceRefresh,
+        modelId: data.modelId || undefined,
+        sourceUrl: source?.url,
+        estimateAiAuthorship: data.estimateAiAuthorship,
+      });
+      if (data.estimateAiAuthorship && !detection.aiText) {
+        toast({
+          title: "AI Authorship Analysis Failed",
+          description: "Could not estimate whether the text was machine-written. The overall verdict is still available.",
+          variant: "destructive",
+        });
       }
-      
-      if (result.label && result.confidence !== undefined) {
-         const newDetection: DetectedArticle = {
-          type: 'detected',
-          title: articleTitle,
-          text: data.articleText,
-          result: {
-            label: result.label,
-            confidence: result.confidence,
-          },
-          timestamp: new Date().toISOString(),
-          userId: user?.uid,
-          detectionMethod: data.detectionMethod,
-          justification: result.justification, 
-          factChecks: result.factChecks, 
-        };
-        setDetectionResult(newDetection);
+      const articleTitle = publishedHeadline ?? detection.title; // The published headline beats a generated one
+      // The snippet used when no model suggested a title is not a headline, so there is nothing to score then.
+      const headlinePromise = publishedHeadlinePromise
+        ?? (detection.title && detection.title !== fallbackDetectionTitle(articleText) ? scoreHeadline(detection.title, true) : Promise.resolve(undefined));
+
+      // Occlusion re-queries the ML model once per sentence, on the exact text it classified. Long articles were
+      // classified section by section, so there is no single prediction to explain.
+      const canExplain = data.detectionMethod !== 'llm' && !detection.chunks;
+      if (data.explainPrediction && !canExplain) {
         toast({
-          title: "Detection Complete!",
-          description: `Using ${modelName}, the article is predicted as ${result.label.toLowerCase()} with ${result.confidence.toFixed(1)}% confidence. Additional insights may be available.`,
-          duration: 7000, 
+          title: "Explanation Skipped",
+          description: data.detectionMethod === 'llm'
+            ? "Sentence-level explanations are only available for the Truth Lens model and the ensemble."
+            : "The article was analyzed in sections; sentence-level explanations are only available for shorter articles.",
         });
-      } else {
-        throw new Error("AI did not return a valid detection structure (label or confidence missing).");
       }
+      const explanationPromise = data.explainPrediction && canExplain
+        ? explainPrediction({ articleText: detection.translation?.text ?? articleText, modelId: data.modelId || undefined }).catch((explainError: any) => {
+            console.error("Error explaining the Truth Lens prediction:", explainError);
+            toast({
+              title: "Explanation Failed",
+              description: explainError.message || "Could not explain the Truth Lens prediction. The overall verdict is still available.",
+              variant: "destructive",
+            });
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+
+      const [claimsResult, headlineAnalysis, propagandaResult, bias, occlusion] = await Promise.all([claimsPromise, headlinePromise, propagandaPromise, biasPromise, explanationPromise]);
+      setOcclusionDetails(occlusion ?? null);
+
+      const newDetection: DetectedArticle = {
+        ...detection,
+        type: 'detected',
+        title: articleTitle,
+        text: articleText,
+        timestamp: new Date().toISOString(),
+        userId: user?.uid,
+        detectionMethod: data.detectionMethod,
+        claims: claimsResult?.claims,
+        propaganda: propagandaResult?.findings,
+        bias,
+        occlusion: occlusion ? { ...occlusion, spans: topOcclusionSpans(occlusion.spans) } : undefined,
+        headlineAnalysis,
+        source,
+        document,
+      };
+      setDetectionResult(newDetection);
+      toast({
+        title: "Detection Complete!",
+        description: `Using ${modelName}, the article is predicted as ${detection.result.label.toLowerCase()} with ${detection.result.confidence.toFixed(1)}% confidence.${detection.cachedAt ? ' This is a cached result; use "Re-run Analysis" for a fresh one.' : ' Additional insights may be available.'}`,
+        duration: 7000,
+      });
     } catch (error: any) {
       console.error("Error detecting article:", error);
+      const { code, title, description } = describeDetectionError(error, "Detection Failed");
       toast({
-        title: "Detection Failed",
-        description: error.message || "Could not analyze the article. Please try again.",
+        title,
+        description: code && RETRYABLE_ML_ERROR_CODES.has(code) ? `${description} You can try again in a moment.` : description,
         variant: "destructive",
       });
     } finally {
       setIsLoading(false);
     }
-  }, [toast, user?.uid]);
+  }, [toast, user?.uid, uploadedDocument]);
 
   const handleSaveDetection = useCallback(async (articleToSave: DetectedArticle) => {
     if (!user?.uid) {
@@ -126,6 +371,10 @@ export default function DetectorPage() {
     }
   }, [toast, user?.uid]);
 
+  const handleFeedbackSaved = useCallback((feedback: DetectionFeedback) => {
+    setDetectionResult(prev => prev ? { ...prev, feedback } : null);
+  }, []);
+
   return (
     <div className="space-y-8">
       <Card>
@@ -142,9 +391,22 @@ export default function DetectorPage() {
 
       <Card className="shadow-lg">
         <CardHeader>
-          <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><ScanSearch className="mr-3 h-7 w-7 text-primary"/>Fake News Detector</CardTitle>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <CardTitle className="text-2xl md:text-3xl font-headline flex items-center"><ScanSearch className="mr-3 h-7 w-7 text-primary"/>Fake News Detector</CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/detector/headline"><Heading className="mr-2 h-4 w-4" /> Headline Check</Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/detector/compare"><GitCompare className="mr-2 h-4 w-4" /> Compare</Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/detector/batch"><Files className="mr-2 h-4 w-4" /> Batch Mode</Link>
+              </Button>
+            </div>
+          </div>
           <CardDescription>
-            Paste a news article below. Our AI models will analyze its content, predict authenticity, and provide insights. The Genkit AI Model offers a suggested title, XAI justification, and (mock) external fact-checking.
+            Paste a news article, enter its URL, or upload a document below. Our AI models will analyze its content, predict authenticity, and provide insights. The Genkit AI Model offers a suggested title, the evidence behind its verdict, and external fact-checking. The Ensemble runs both and fuses their verdicts.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -176,7 +438,15 @@ export default function DetectorPage() {
                             <RadioGroupItem value="llm" />
                           </FormControl>
                           <FormLabel className="font-normal cursor-pointer flex items-center w-full">
-                            <Brain className="mr-2 h-5 w-5" /> Genkit AI Model (Title, XAI & Mock Fact-Check)
+                            <Brain className="mr-2 h-5 w-5" /> Genkit AI Model (Title, XAI & Fact-Check)
+                          </FormLabel>
+                        </FormItem>
+                        <FormItem className="flex items-center space-x-3 space-y-0 p-4 border rounded-md flex-1 hover:bg-accent/50 has-[[data-state=checked]]:bg-accent has-[[data-state=checked]]:text-accent-foreground transition-colors">
+                          <FormControl>
+                            <RadioGroupItem value="ensemble" />
+                          </FormControl>
+                          <FormLabel className="font-normal cursor-pointer flex items-center w-full">
+                            <Layers className="mr-2 h-5 w-5" /> Ensemble (Truth Lens + Genkit AI)
                           </FormLabel>
                         </FormItem>
                       </RadioGroup>
@@ -186,25 +456,375 @@ export default function DetectorPage() {
                 )}
               />
 
+              {watchedDetectionMethod !== 'llm' && mlModels.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="modelId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center"><Database className="mr-2 h-4 w-4" /> ML Model</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={isLoading || isSaving}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Default model" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {mlModels.map(model => (
+                            <SelectItem key={model.id} value={model.id}>
+                              <span className="flex items-center gap-2">
+                                <span className={`h-2 w-2 rounded-full shrink-0 ${healthIndicatorClasses[model.health.status]}`} title={model.health.message ?? model.health.status} />
+                                {model.name} <span className="text-muted-foreground">v{model.version}</span>
+                                {model.health.status !== 'healthy' && model.health.status !== 'unknown' && <span className="text-xs text-muted-foreground">({model.health.status})</span>}
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">The model endpoint used for the Truth Lens prediction. The model name and version are saved with the result.</p>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {watchedDetectionMethod === 'ensemble' && (
+                <FormField
+                  control={form.control}
+                  name="customModelWeight"
+                  render={({ field }) => (
+                    <FormItem className="space-y-3">
+                      <FormLabel>Ensemble Weights</FormLabel>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Truth Lens Model: {field.value}%</span>
+                        <span>Genkit AI Model: {100 - field.value}%</span>
+                      </div>
+                      <FormControl>
+                        <Slider
+                          min={0}
+                          max={100}
+                          step={5}
+                          value={[field.value]}
+                          onValueChange={(value) => field.onChange(value[0])}
+                          disabled={isLoading || isSaving}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
-                name="articleText"
+                name="analyzeClaims"
                 render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Article Text</FormLabel>
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
                     <FormControl>
-                      <Textarea
-                        placeholder="Paste the full text of the news article here..."
-                        className="min-h-[200px] resize-y"
-                        {...field}
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
                         disabled={isLoading || isSaving}
                       />
                     </FormControl>
-                    <FormMessage />
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="cursor-pointer">Break down into individual claims</FormLabel>
+                      <p className="text-xs text-muted-foreground">Extracts each checkable claim and marks it as supported, refuted or unverifiable. Takes a little longer.</p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="classifyPropaganda"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={isLoading || isSaving}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="cursor-pointer">Tag propaganda techniques</FormLabel>
+                      <p className="text-xs text-muted-foreground">Finds passages that use techniques such as loaded language, whataboutism or false dilemmas, with a severity for each.</p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="analyzeBias"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={isLoading || isSaving}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="cursor-pointer">Rate political framing and slant</FormLabel>
+                      <p className="text-xs text-muted-foreground">For political content: estimates which way the story leans, checks whether its sources are one-sided and lists omitted perspectives.</p>
+                    </div>
                   </FormItem>
                 )}
               />
-              <Button type="submit" className="w-full md:w-auto" disabled={isLoading || isSaving}>
+
+              {watchedAnalyzeBias && (
+                <FormField
+                  control={form.control}
+                  name="biasScale"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center"><Scale className="mr-2 h-4 w-4" /> Slant Scale</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={isLoading || isSaving}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {BIAS_SCALES.map(scale => (
+                            <SelectItem key={scale} value={scale}>{BIAS_SCALE_INFO[scale].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">{BIAS_SCALE_INFO[field.value].description}</p>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="estimateAiAuthorship"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={isLoading || isSaving}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="cursor-pointer">Estimate whether the text is AI-generated</FormLabel>
+                      <p className="text-xs text-muted-foreground">Scores machine authorship from writing-style statistics and an extra AI judge call, separately from the Real/Fake verdict.</p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              {watchedDetectionMethod !== 'llm' && (
+                <FormField
+                  control={form.control}
+                  name="explainPrediction"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          disabled={isLoading || isSaving}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel className="cursor-pointer">Explain the Truth Lens prediction</FormLabel>
+                        <p className="text-xs text-muted-foreground">Removes one sentence at a time and re-runs the model to show which sentences drove its verdict. Makes up to {MAX_OCCLUSION_UNITS + 1} model calls.</p>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="forceRefresh"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={isLoading || isSaving}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="cursor-pointer">Force re-run</FormLabel>
+                      <p className="text-xs text-muted-foreground">Articles analyzed recently are answered from a cache. Tick this to query the models again instead.</p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="translate"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          disabled={isLoading || isSaving}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel className="cursor-pointer">Translate non-English articles first</FormLabel>
+                        <p className="text-xs text-muted-foreground">The Truth Lens model works best on English. Articles in other languages are machine-translated to English before detection.</p>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="responseLanguage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center"><Languages className="mr-2 h-4 w-4" /> Explanation Language</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={isLoading || isSaving}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+                            <SelectItem key={code} value={code}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">Language the Genkit AI Model writes its title and evidence in.</p>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="inputMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <Tabs
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Text typed in one mode shouldn't leak into an uploaded-document preview, and vice versa
+                        if (value === 'file' || field.value === 'file') {
+                          form.setValue('articleText', '');
+                          setUploadedDocument(null);
+                        }
+                        form.clearErrors(['articleText', 'articleUrl']);
+                      }}
+                    >
+                      <TabsList>
+                        <TabsTrigger value="text" disabled={isLoading || isSaving}><Type className="mr-2 h-4 w-4" /> Paste Text</TabsTrigger>
+                        <TabsTrigger value="url" disabled={isLoading || isSaving}><LinkIcon className="mr-2 h-4 w-4" /> From URL</TabsTrigger>
+                        <TabsTrigger value="file" disabled={isLoading || isSaving}><FileUp className="mr-2 h-4 w-4" /> Upload File</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </FormItem>
+                )}
+              />
+
+              {watchedInputMode === 'file' && (
+                <div className="space-y-2">
+                  <label htmlFor="document-upload" className="text-sm font-medium">Document</label>
+                  <Input
+                    id="document-upload"
+                    type="file"
+                    accept=".pdf,.docx,.html,.htm,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/html,text/plain"
+                    onChange={(e) => handleFileSelected(e.target.files?.[0])}
+                    disabled={isLoading || isSaving || isExtractingFile}
+                  />
+                  <p className="text-xs text-muted-foreground">PDF, DOCX, HTML or TXT, up to 5 MB. The extracted text is shown below so you can check it before analyzing.</p>
+                  {isExtractingFile && (
+                    <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Extracting text...</p>
+                  )}
+                </div>
+              )}
+
+              {watchedInputMode === 'file' ? (
+                (uploadedDocument || form.formState.errors.articleText) && (
+                  <FormField
+                    control={form.control}
+                    name="articleText"
+                    render={({ field }) => (
+                      <FormItem>
+                        {uploadedDocument && (
+                          <FormLabel className="flex items-center">
+                            <FileText className="mr-2 h-4 w-4 text-primary" /> Extracted Text Preview ({uploadedDocument.document.fileName})
+                          </FormLabel>
+                        )}
+                        {uploadedDocument && (
+                          <FormControl>
+                            <Textarea
+                              className="min-h-[200px] resize-y"
+                              {...field}
+                              disabled={isLoading || isSaving}
+                            />
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )
+              ) : watchedInputMode === 'text' ? (
+                <FormField
+                  control={form.control}
+                  name="articleText"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Article Text</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Paste the full text of the news article here..."
+                          className="min-h-[200px] resize-y"
+                          {...field}
+                          disabled={isLoading || isSaving}
+                        />
+                      </FormControl>
+                      {detectedLanguage.code !== 'und' && (
+                        <p className="text-xs text-muted-foreground flex items-center">
+                          <Languages className="mr-1 h-3 w-3" /> Detected language: {detectedLanguage.name} ({Math.round(detectedLanguage.confidence * 100)}% confidence)
+                          {detectedLanguage.code !== 'en' && watchedTranslate && ' - will be translated to English before detection'}
+                        </p>
+                      )}
+                      {field.value.length > CHUNKED_DETECTION_THRESHOLD_CHARS && (
+                        <p className="text-xs text-muted-foreground">Long article ({field.value.length.toLocaleString()} characters): it will be analyzed section by section and the results combined.</p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="articleUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Article URL</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="url"
+                          placeholder="https://www.example.com/news/article"
+                          {...field}
+                          disabled={isLoading || isSaving}
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">We fetch the page, extract the headline, byline, publish date and main text, then analyze it.</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <Button type="submit" className="w-full md:w-auto" disabled={isLoading || isSaving || isExtractingFile}>
                 {isLoading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Analyzing...
@@ -223,9 +843,9 @@ export default function DetectorPage() {
       {isLoading && (
          <Card className="shadow-md">
           <CardHeader>
-            <CardTitle className="font-headline flex items-center"><Loader2 className="mr-2 h-5 w-5 animate-spin text-primary"/>Analyzing Article...</CardTitle>
+            <CardTitle className="font-headline flex items-center"><Loader2 className="mr-2 h-5 w-5 animate-spin text-primary"/>{isFetchingUrl ? 'Fetching Article...' : 'Analyzing Article...'}</CardTitle>
             <CardDescription>
-                Our AI ({selectedMethodForDisplay === 'custom' ? 'Truth Lens Model' : 'Genkit AI Model'}) is processing the text. This may take a few moments, especially if XAI insights and a title are being generated.
+                Our AI ({detectionMethodNames[selectedMethodForDisplay]}) is processing the text. This may take a few moments, especially if XAI insights and a title are being generated.
             </CardDescription>
           </CardHeader>
           <CardContent className="flex justify-center items-center min-h-[150px]">
@@ -247,8 +867,126 @@ export default function DetectorPage() {
               // If this was the 'Saved' page, we'd call a function to remove it from the local state.
             } catch (e) { /* error handled in ArticleCard or handleSaveDetection */ }
           } : undefined}
+          onFeedbackSaved={handleFeedbackSaved}
         />
       )}
+      {detectionResult && user?.uid && (
+        <Card className="shadow-md">
+          <CardContent className="pt-6">
+            <DetectionFeedbackForm key={detectionResult.feedback?.submittedAt ?? 'none'} detection={detectionResult} onFeedbackSaved={handleFeedbackSaved} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.signals && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><Activity className="mr-2 h-5 w-5 text-primary"/>Linguistic Signals</CardTitle>
+            <CardDescription>Style measurements computed directly from the {detectionResult.translation ? 'translated ' : ''}text, independent of the AI verdict. Flagged signals are unusual for edited news writing; they are prompts to look closer, not proof.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SignalsPanel signals={detectionResult.signals} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.aiText && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><Bot className="mr-2 h-5 w-5 text-primary"/>AI Authorship</CardTitle>
+            <CardDescription>How likely it is that the {detectionResult.translation ? 'original ' : ''}text was written by a language model, combining writing-style statistics with an AI judge.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AiTextPanel analysis={detectionResult.aiText} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.propaganda && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><Megaphone className="mr-2 h-5 w-5 text-primary"/>Propaganda Techniques</CardTitle>
+            <CardDescription>Passages that use a named persuasion technique from the media-literacy taxonomy. A technique makes an article one-sided, not necessarily false.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PropagandaList findings={detectionResult.propaganda} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.occlusion && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><Flame className="mr-2 h-5 w-5 text-primary"/>What Drove the Truth Lens Verdict</CardTitle>
+            <CardDescription>Each {detectionResult.occlusion.unit} was removed in turn and the {detectionResult.translation ? 'translated ' : ''}text re-scored. Shading shows how far the model&apos;s probability of Fake moved without it. Only the most influential spans are saved with the detection.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OcclusionHeatmap text={detectionResult.translation?.text ?? detectionResult.text} explanation={occlusionDetails ?? detectionResult.occlusion} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.bias && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><Scale className="mr-2 h-5 w-5 text-primary"/>Framing &amp; Slant</CardTitle>
+            <CardDescription>How the story is framed on the {BIAS_SCALE_INFO[detectionResult.bias.scale].label} scale, based on word choice, sourcing and omissions, with the passages behind the rating.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BiasPanel analysis={detectionResult.bias} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.sourceCredibility && (detectionResult.sourceCredibility.article || detectionResult.sourceCredibility.links.length > 0) && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><ShieldQuestion className="mr-2 h-5 w-5 text-primary"/>Source Credibility</CardTitle>
+            <CardDescription>Reputation of the publishing site and the sites the article links to, from the source credibility database. Unrated domains are simply not in the database yet.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SourceCredibilityPanel summary={detectionResult.sourceCredibility} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.headlineAnalysis && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><Heading className="mr-2 h-5 w-5 text-primary"/>Headline Check</CardTitle>
+            <CardDescription>How much the headline relies on clickbait and sensational framing, with a neutral alternative.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <HeadlineAnalysisPanel analysis={detectionResult.headlineAnalysis} showHeadline />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.chunks && detectionResult.chunks.length > 1 && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><SplitSquareVertical className="mr-2 h-5 w-5 text-primary"/>Section Breakdown</CardTitle>
+            <CardDescription>This article was long, so it was analyzed in {detectionResult.chunks.length} sections and the verdicts were combined, weighted by section length. Highlighted sections pushed the overall result the most.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChunkBreakdown text={detectionResult.translation?.text ?? detectionResult.text} chunks={detectionResult.chunks} overall={detectionResult.result} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.highlights && detectionResult.highlights.length > 0 && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><Highlighter className="mr-2 h-5 w-5 text-primary"/>Flagged Passages</CardTitle>
+            <CardDescription>Passages the AI identified as manipulative or unreliable. Hover over a highlight to see why it was flagged.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <HighlightedText text={detectionResult.translation?.text ?? detectionResult.text} highlights={detectionResult.highlights} />
+          </CardContent>
+        </Card>
+      )}
+      {detectionResult?.claims && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center"><ListChecks className="mr-2 h-5 w-5 text-primary"/>Claim Breakdown</CardTitle>
+            <CardDescription>Each checkable claim in the article with its individual verdict. Expand a claim to see the reasoning.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ClaimsList claims={detectionResult.claims} />
+          </CardContent>
+        </Card>
+      )}
       {detectionResult && !detectionResult.id && (
           <div className="mt-6 flex flex-col sm:flex-row gap-3 justify-start">
              <Button 
@@ -266,6 +1004,16 @@ export default function DetectorPage() {
                  </>
               )}
             </Button>
+            {detectionResult.cachedAt && (
+              <Button
+                variant="outline"
+                onClick={() => onSubmit({ ...form.getValues(), forceRefresh: true })}
+                disabled={isSaving || isLoading}
+                className="w-full sm:w-auto"
+              >
+                <RefreshCw className="mr-2 h-4 w-4" /> Re-run Analysis
+              </Button>
+            )}
           </div>
       )}
     </div>
@@ -14,6 +14,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { generateFakeNewsArticle, type GenerateFakeNewsArticleInput, type GenerateFakeNewsArticleOutput } from '@/ai/flows/generate-fake-news-article';
 import { generateArticleImage, type GenerateArticleImageInput, type GenerateArticleImageOutput } from '@/ai/flows/generate-article-image-flow';
+import { analyzeHeadline } from '@/ai/flows/analyze-headline';
 import { ArticleCard } from '@/components/shared/ArticleCard';
 import type { GeneratedArticle } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
@@ -81,9 +82,17 @@ export default function GeneratorPage() {
         tone: data.tone,
         timestamp: new Date().toISOString(),
         userId: user?.uid,
+        promptVersion: articleResult.promptVersion,
       };
       setGeneratedArticle(tempArticleDetails);
 
+      // Scored alongside image generation; the article is usable without it.
+      const headlinePromise = analyzeHeadline({ headline: tempArticleDetails.title, articleText: tempArticleDetails.content })
+        .catch((headlineError: any) => {
+          console.warn("Headline analysis failed, continuing without it:", headlineError);
+          return undefined;
+        });
+
       toast({
         title: "Article Text & Title Generated!",
         description: "Now automatically creating a header image...",
@@ -123,7 +132,8 @@ export default function GeneratorPage() {
         setImageGenerationMessage(`Image generation failed: ${imageError.message}`);
       }
       
-      setGeneratedArticle(prev => prev ? { ...prev, imageUrl: finalImageUrl } : null);
+      const headlineAnalysis = await headlinePromise;
+      setGeneratedArticle(prev => prev ? { ...prev, imageUrl: finalImageUrl, headlineAnalysis } : null);
 
     } catch (error: any) { 
       console.error("Error generating article content/title:", error);
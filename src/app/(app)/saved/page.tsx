@@ -5,24 +5,54 @@ import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArticleCard, type ArticleCardProps } from '@/components/shared/ArticleCard';
-import type { Article, DetectedArticle } from '@/types';
+import { ComparisonCard } from '@/components/shared/ComparisonCard';
+import type { AiTextVerdict, Article, DetectedArticle, DetectionFeedback, DetectionMethod, LinguisticSignalKey, LinguisticSignals, PropagandaTechnique, BiasScale } from '@/types';
+import { analyzeSignals, SIGNAL_LABELS } from '@/lib/signals';
+import { AI_TEXT_VERDICT_LABELS } from '@/lib/stylometry';
+import { aggregatePropaganda, PROPAGANDA_TECHNIQUES, PROPAGANDA_TECHNIQUE_INFO } from '@/lib/propaganda';
+import { PropagandaSummary } from '@/components/detection/PropagandaList';
+import { BIAS_SCALES, BIAS_SCALE_INFO, slantDistribution } from '@/lib/bias';
+import { SlantDistributionChart } from '@/components/detection/SlantDistributionChart';
 import { fetchUserArticles } from '@/lib/firebase';
-import { Loader2, Inbox, Search, FileText, ScanSearch } from 'lucide-react';
+import { Loader2, Inbox, Search, FileText, ScanSearch, Megaphone, Scale, GitCompare } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 
 
+type PublishedFilter = 'all' | '7d' | '30d' | '365d' | 'older' | 'unknown';
+type SignalFilter = 'all' | 'none' | LinguisticSignalKey;
+type ArticleTypeFilter = Article['type'];
+type AiTextFilter = 'all' | 'not_analyzed' | AiTextVerdict;
+type PropagandaFilter = 'all' | 'none' | 'not_analyzed' | PropagandaTechnique;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function matchesPublishedFilter(publishedAt: string | undefined, filter: PublishedFilter): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'unknown') return !publishedAt;
+  if (!publishedAt) return false;
+  const ageDays = (Date.now() - new Date(publishedAt).getTime()) / DAY_MS;
+  if (filter === 'older') return ageDays > 365;
+  return ageDays <= parseInt(filter, 10);
+}
+
 export default function SavedHistoryPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [articles, setArticles] = useState<Article[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'generated' | 'detected'>('generated'); // Default to 'generated'
+  const [filterType, setFilterType] = useState<ArticleTypeFilter>('generated'); // Default to 'generated'
   const [filterResult, setFilterResult] = useState<'all' | 'Real' | 'Fake'>('all');
-  const [filterDetectionMethod, setFilterDetectionMethod] = useState<'all' | 'custom' | 'llm'>('all');
+  const [filterDetectionMethod, setFilterDetectionMethod] = useState<'all' | DetectionMethod>('all');
+  const [filterSourceDomain, setFilterSourceDomain] = useState<string>('all'); // 'all', 'none' (pasted text) or a domain
+  const [filterPublished, setFilterPublished] = useState<PublishedFilter>('all');
+  const [filterSignal, setFilterSignal] = useState<SignalFilter>('all');
+  const [filterAiText, setFilterAiText] = useState<AiTextFilter>('all');
+  const [filterPropaganda, setFilterPropaganda] = useState<PropagandaFilter>('all');
+  const [slantChartScale, setSlantChartScale] = useState<BiasScale | undefined>(undefined); // Defaults to the most used scale
 
   const loadArticles = useCallback(async () => {
     if (user?.uid) {
@@ -51,11 +81,16 @@ export default function SavedHistoryPage() {
     loadArticles();
   }, [loadArticles]);
 
-  const handleFilterTypeChange = (newType: 'generated' | 'detected') => {
+  const handleFilterTypeChange = (newType: ArticleTypeFilter) => {
     setFilterType(newType);
     // Reset detected-specific filters when changing main type
     setFilterResult('all');
     setFilterDetectionMethod('all');
+    setFilterSourceDomain('all');
+    setFilterPublished('all');
+    setFilterSignal('all');
+    setFilterAiText('all');
+    setFilterPropaganda('all');
   };
 
   const clearAllFilters = () => {
@@ -63,6 +98,11 @@ export default function SavedHistoryPage() {
     setFilterType('generated'); // Reset to default type
     setFilterResult('all');
     setFilterDetectionMethod('all');
+    setFilterSourceDomain('all');
+    setFilterPublished('all');
+    setFilterSignal('all');
+    setFilterAiText('all');
+    setFilterPropaganda('all');
   }
 
   const handleDeleteArticle = async (articleId: string) => {
@@ -70,6 +110,55 @@ export default function SavedHistoryPage() {
     // Toast for success is handled in ArticleCard after DB operation
   };
 
+  const handleFeedbackSaved = (detection: DetectedArticle, feedback: DetectionFeedback) => {
+    setArticles(prevArticles => prevArticles.map(article => article.id === detection.id && article.type === 'detected' ? { ...article, feedback } : article));
+  };
+
+  const sourceDomains = useMemo(() => {
+    const domains = new Set<string>();
+    articles.forEach(article => {
+      if (article.type === 'detected' && article.source?.domain) {
+        domains.add(article.source.domain);
+      }
+    });
+    return Array.from(domains).sort();
+  }, [articles]);
+
+  // Detections saved before signals were recorded get them computed on the fly; the analysis is deterministic.
+  const signalsByArticle = useMemo(() => {
+    const signals = new Map<Article, LinguisticSignals>();
+    articles.forEach(article => {
+      if (article.type === 'detected') {
+        signals.set(article, article.signals ?? analyzeSignals(article.translation?.text ?? article.text));
+      }
+    });
+    return signals;
+  }, [articles]);
+
+  // Technique counts over the whole detection history, not just the filtered view.
+  const propagandaTotals = useMemo(
+    () => aggregatePropaganda(articles.filter((article): article is DetectedArticle => article.type === 'detected')),
+    [articles],
+  );
+
+  // Scales that have rated political detections, most used first; each gets its own distribution.
+  const biasScales = useMemo(() => {
+    const counts = new Map<BiasScale, number>();
+    articles.forEach(article => {
+      if (article.type === 'detected' && article.bias?.isPolitical) {
+        counts.set(article.bias.scale, (counts.get(article.bias.scale) ?? 0) + 1);
+      }
+    });
+    return BIAS_SCALES.filter(scale => counts.has(scale)).sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0));
+  }, [articles]);
+  const activeSlantScale = slantChartScale && biasScales.includes(slantChartScale) ? slantChartScale : biasScales[0];
+  const slantCounts = useMemo(
+    () => activeSlantScale
+      ? slantDistribution(articles.filter((article): article is DetectedArticle => article.type === 'detected'), activeSlantScale)
+      : undefined,
+    [articles, activeSlantScale],
+  );
+
   const filteredArticles = useMemo(() => {
     return articles
       .filter(article => {
@@ -85,6 +174,32 @@ export default function SavedHistoryPage() {
           if (filterDetectionMethod !== 'all' && detectedArticle.detectionMethod !== filterDetectionMethod) {
             return false;
           }
+          if (filterSourceDomain === 'none' && detectedArticle.source) {
+            return false;
+          }
+          if (filterSourceDomain !== 'all' && filterSourceDomain !== 'none' && detectedArticle.source?.domain !== filterSourceDomain) {
+            return false;
+          }
+          if (!matchesPublishedFilter(detectedArticle.source?.publishedAt, filterPublished)) {
+            return false;
+          }
+          if (filterSignal !== 'all') {
+            const flagged = signalsByArticle.get(article)?.flagged ?? [];
+            if (filterSignal === 'none' ? flagged.length > 0 : !flagged.includes(filterSignal)) {
+              return false;
+            }
+          }
+          if (filterAiText !== 'all' && (detectedArticle.aiText?.verdict ?? 'not_analyzed') !== filterAiText) {
+            return false;
+          }
+          if (filterPropaganda !== 'all') {
+            const findings = detectedArticle.propaganda;
+            if (filterPropaganda === 'not_analyzed' ? findings !== undefined
+              : filterPropaganda === 'none' ? findings?.length !== 0
+              : !findings?.some(finding => finding.technique === filterPropaganda)) {
+              return false;
+            }
+          }
         }
         if (searchTerm) {
           const term = searchTerm.toLowerCase();
@@ -95,13 +210,20 @@ export default function SavedHistoryPage() {
                    article.category.toLowerCase().includes(term) ||
                    article.tone.toLowerCase().includes(term);
           } else if (article.type === 'detected') {
-            return article.text.toLowerCase().includes(term);
+            return article.text.toLowerCase().includes(term) ||
+                   (article.title?.toLowerCase().includes(term) ?? false) ||
+                   (article.source?.url.toLowerCase().includes(term) ?? false) ||
+                   (article.source?.outlet?.toLowerCase().includes(term) ?? false);
+          } else if (article.type === 'compared') {
+            return article.title.toLowerCase().includes(term) ||
+                   article.summary.toLowerCase().includes(term) ||
+                   [article.subject, article.reference].some(text => text.label.toLowerCase().includes(term) || text.text.toLowerCase().includes(term));
           }
         }
         return true;
       })
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-  }, [articles, searchTerm, filterType, filterResult, filterDetectionMethod]);
+  }, [articles, searchTerm, filterType, filterResult, filterDetectionMethod, filterSourceDomain, filterPublished, filterSignal, filterAiText, filterPropaganda, signalsByArticle]);
 
 
   if (isLoading) {
@@ -132,7 +254,7 @@ export default function SavedHistoryPage() {
         <CardHeader>
           <CardTitle className="text-2xl md:text-3xl font-headline">Your Saved Articles</CardTitle>
           <CardDescription>
-            Review all the articles you've generated or analyzed with Truth Lens AI.
+            Review all the articles you've generated, analyzed or compared with Truth Lens AI.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -153,6 +275,13 @@ export default function SavedHistoryPage() {
                     >
                         <ScanSearch className="mr-2 h-4 w-4" /> Detected
                     </Button>
+                    <Button
+                        variant={filterType === 'compared' ? 'default' : 'outline'}
+                        onClick={() => handleFilterTypeChange('compared')}
+                        className="flex-1 sm:flex-none"
+                    >
+                        <GitCompare className="mr-2 h-4 w-4" /> Compared
+                    </Button>
                 </div>
                  <div className="relative flex-grow w-full sm:w-auto">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -167,7 +296,7 @@ export default function SavedHistoryPage() {
             </div>
 
             {filterType === 'detected' && (
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t mt-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pt-4 border-t mt-4">
                 <div>
                   <Label htmlFor="filter-result">Filter by Result</Label>
                    <Select value={filterResult} onValueChange={(value: 'all' | 'Real' | 'Fake') => setFilterResult(value)}>
@@ -183,7 +312,7 @@ export default function SavedHistoryPage() {
                 </div>
                 <div>
                   <Label htmlFor="filter-detection-method">Detection Method</Label>
-                   <Select value={filterDetectionMethod} onValueChange={(value: 'all' | 'custom' | 'llm') => setFilterDetectionMethod(value)}>
+                   <Select value={filterDetectionMethod} onValueChange={(value: 'all' | DetectionMethod) => setFilterDetectionMethod(value)}>
                       <SelectTrigger id="filter-detection-method" className="mt-1">
                           <SelectValue placeholder="Filter by method" />
                       </SelectTrigger>
@@ -191,9 +320,120 @@ export default function SavedHistoryPage() {
                           <SelectItem value="all">All Methods</SelectItem>
                           <SelectItem value="custom">Truth Lens Model (Render API)</SelectItem>
                           <SelectItem value="llm">Genkit AI Model</SelectItem>
+                          <SelectItem value="ensemble">Ensemble (Truth Lens + Genkit AI)</SelectItem>
+                      </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="filter-source-domain">Source Outlet</Label>
+                   <Select value={filterSourceDomain} onValueChange={setFilterSourceDomain}>
+                      <SelectTrigger id="filter-source-domain" className="mt-1">
+                          <SelectValue placeholder="Filter by outlet" />
+                      </SelectTrigger>
+                      <SelectContent>
+                          <SelectItem value="all">All Sources</SelectItem>
+                          <SelectItem value="none">Pasted Text (No URL)</SelectItem>
+                          {sourceDomains.map(domain => (
+                            <SelectItem key={domain} value={domain}>{domain}</SelectItem>
+                          ))}
                       </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label htmlFor="filter-published">Published</Label>
+                   <Select value={filterPublished} onValueChange={(value: PublishedFilter) => setFilterPublished(value)}>
+                      <SelectTrigger id="filter-published" className="mt-1">
+                          <SelectValue placeholder="Filter by publish date" />
+                      </SelectTrigger>
+                      <SelectContent>
+                          <SelectItem value="all">Any Time</SelectItem>
+                          <SelectItem value="7d">Past Week</SelectItem>
+                          <SelectItem value="30d">Past Month</SelectItem>
+                          <SelectItem value="365d">Past Year</SelectItem>
+                          <SelectItem value="older">Over a Year Ago</SelectItem>
+                          <SelectItem value="unknown">Unknown Date</SelectItem>
+                      </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="filter-signal">Linguistic Signal</Label>
+                   <Select value={filterSignal} onValueChange={(value: SignalFilter) => setFilterSignal(value)}>
+                      <SelectTrigger id="filter-signal" className="mt-1">
+                          <SelectValue placeholder="Filter by signal" />
+                      </SelectTrigger>
+                      <SelectContent>
+                          <SelectItem value="all">Any Signals</SelectItem>
+                          <SelectItem value="none">No Flagged Signals</SelectItem>
+                          {(Object.keys(SIGNAL_LABELS) as LinguisticSignalKey[]).map(key => (
+                            <SelectItem key={key} value={key}>{SIGNAL_LABELS[key]}</SelectItem>
+                          ))}
+                      </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="filter-ai-text">AI Authorship</Label>
+                   <Select value={filterAiText} onValueChange={(value: AiTextFilter) => setFilterAiText(value)}>
+                      <SelectTrigger id="filter-ai-text" className="mt-1">
+                          <SelectValue placeholder="Filter by AI authorship" />
+                      </SelectTrigger>
+                      <SelectContent>
+                          <SelectItem value="all">Any Authorship</SelectItem>
+                          {(Object.keys(AI_TEXT_VERDICT_LABELS) as AiTextVerdict[]).map(verdict => (
+                            <SelectItem key={verdict} value={verdict}>{AI_TEXT_VERDICT_LABELS[verdict]}</SelectItem>
+                          ))}
+                          <SelectItem value="not_analyzed">Not Analyzed</SelectItem>
+                      </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="filter-propaganda">Propaganda Technique</Label>
+                   <Select value={filterPropaganda} onValueChange={(value: PropagandaFilter) => setFilterPropaganda(value)}>
+                      <SelectTrigger id="filter-propaganda" className="mt-1">
+                          <SelectValue placeholder="Filter by technique" />
+                      </SelectTrigger>
+                      <SelectContent>
+                          <SelectItem value="all">Any Techniques</SelectItem>
+                          <SelectItem value="none">No Techniques Found</SelectItem>
+                          {PROPAGANDA_TECHNIQUES.map(technique => (
+                            <SelectItem key={technique} value={technique}>{PROPAGANDA_TECHNIQUE_INFO[technique].label}</SelectItem>
+                          ))}
+                          <SelectItem value="not_analyzed">Not Classified</SelectItem>
+                      </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {filterType === 'detected' && propagandaTotals.analyzedArticles > 0 && (
+              <div className="pt-4 border-t mt-4">
+                <h4 className="text-sm font-semibold flex items-center mb-2"><Megaphone className="mr-2 h-4 w-4 text-primary" />Propaganda Techniques in Your History</h4>
+                <PropagandaSummary
+                  totals={propagandaTotals.totals}
+                  analyzedArticles={propagandaTotals.analyzedArticles}
+                  selected={filterPropaganda !== 'all' && filterPropaganda !== 'none' && filterPropaganda !== 'not_analyzed' ? filterPropaganda : undefined}
+                  onSelect={technique => setFilterPropaganda(current => current === technique ? 'all' : technique)}
+                />
+              </div>
+            )}
+
+            {filterType === 'detected' && activeSlantScale && slantCounts && (
+              <div className="pt-4 border-t mt-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <h4 className="text-sm font-semibold flex items-center"><Scale className="mr-2 h-4 w-4 text-primary" />Slant of Political Articles in Your History</h4>
+                  {biasScales.length > 1 && (
+                    <Select value={activeSlantScale} onValueChange={(value: BiasScale) => setSlantChartScale(value)}>
+                      <SelectTrigger className="w-[240px] h-8 text-xs">
+                          <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                          {biasScales.map(scale => (
+                            <SelectItem key={scale} value={scale}>{BIAS_SCALE_INFO[scale].label}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <SlantDistributionChart scale={activeSlantScale} counts={slantCounts} />
               </div>
             )}
           </div>
@@ -214,11 +454,20 @@ export default function SavedHistoryPage() {
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
               {filteredArticles.map((article) => (
-                <ArticleCard 
-                    key={article.id || article.timestamp} 
-                    article={article} 
-                    onDelete={article.id ? handleDeleteArticle : undefined}
-                />
+                article.type === 'compared' ? (
+                  <ComparisonCard
+                      key={article.id || article.timestamp}
+                      comparison={article}
+                      onDelete={article.id ? handleDeleteArticle : undefined}
+                  />
+                ) : (
+                  <ArticleCard 
+                      key={article.id || article.timestamp} 
+                      article={article} 
+                      onDelete={article.id ? handleDeleteArticle : undefined}
+                      onFeedbackSaved={article.type === 'detected' && article.id ? (feedback) => handleFeedbackSaved(article, feedback) : undefined}
+                  />
+                )
               ))}
             </div>
           )}
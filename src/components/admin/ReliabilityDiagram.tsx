@@ -0,0 +1,47 @@
+"use client";
+
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { ReliabilityBin } from '@/lib/calibration';
+
+const chartConfig = {
+  observed: { label: 'Observed % fake', color: 'hsl(var(--primary))' },
+  predicted: { label: 'Predicted % fake', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+interface ReliabilityDiagramProps {
+  bins: ReliabilityBin[];
+}
+
+/**
+ * Bars show how often articles in each predicted-probability bin were actually fake; the line shows what
+ * the model predicted for them. A well-calibrated model has bars that reach the line.
+ */
+export function ReliabilityDiagram({ bins }: ReliabilityDiagramProps) {
+  const data = bins.map(bin => ({
+    bin: `${Math.round(bin.binStart * 100)}-${Math.round(bin.binEnd * 100)}%`,
+    observed: bin.count > 0 ? parseFloat((bin.observedFrequency * 100).toFixed(1)) : null,
+    predicted: bin.count > 0 ? parseFloat((bin.meanPredicted * 100).toFixed(1)) : null,
+    count: bin.count,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[300px] w-full">
+      <ComposedChart data={data} margin={{ left: 0, right: 12, top: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="bin" tickLine={false} axisLine={false} tickMargin={8} fontSize={11} />
+        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} unit="%" width={44} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(label, payload) => `P(fake) ${label} - ${payload?.[0]?.payload?.count ?? 0} articles`}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="observed" fill="var(--color-observed)" radius={4} />
+        <Line dataKey="predicted" stroke="var(--color-predicted)" strokeWidth={2} dot connectNulls />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
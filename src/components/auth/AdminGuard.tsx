@@ -0,0 +1,30 @@
+"use client";
+
+import type React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isAdminEmail } from '@/lib/admin';
+import { ShieldAlert } from 'lucide-react';
+
+// Runs inside AuthGuard, so the user is already signed in here.
+export function AdminGuard({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+
+  if (!isAdminEmail(user?.email)) {
+    return (
+      <Card className="max-w-xl mx-auto mt-12">
+        <CardHeader className="flex flex-row items-start gap-4">
+          <ShieldAlert className="h-8 w-8 text-destructive mt-1 shrink-0" />
+          <div>
+            <CardTitle className="font-headline text-xl">Admin Access Required</CardTitle>
+            <CardDescription className="mt-1">
+              This area is only available to Truth Lens AI administrators. Ask an existing admin to add your email to the admin list.
+            </CardDescription>
+          </div>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { AiTextAnalysis, AiTextVerdict } from '@/types';
+import { AI_TEXT_VERDICT_LABELS, MIN_WORDS_FOR_STYLOMETRY } from '@/lib/stylometry';
+import { cn } from '@/lib/utils';
+import { Bot } from 'lucide-react';
+
+const verdictBadgeClasses: Record<AiTextVerdict, string> = {
+  likely_ai: 'border-purple-500 text-purple-700 dark:text-purple-400',
+  uncertain: 'border-yellow-500 text-yellow-700 dark:text-yellow-400',
+  likely_human: 'border-green-600 text-green-700 dark:text-green-400',
+};
+
+interface AiTextBadgeProps {
+  analysis: AiTextAnalysis;
+  className?: string;
+}
+
+export function AiTextBadge({ analysis, className }: AiTextBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('whitespace-nowrap', verdictBadgeClasses[analysis.verdict], className)}>
+      <Bot className="mr-1 h-3 w-3" /> AI-written {analysis.likelihood}%
+    </Badge>
+  );
+}
+
+interface AiTextPanelProps {
+  analysis: AiTextAnalysis;
+}
+
+/** Machine-authorship estimate: the combined score, its stylometric and judge components, and what the judge noticed. */
+export function AiTextPanel({ analysis }: AiTextPanelProps) {
+  const { features } = analysis;
+  const tooShort = features.wordCount < MIN_WORDS_FOR_STYLOMETRY;
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={verdictBadgeClasses[analysis.verdict]}>{AI_TEXT_VERDICT_LABELS[analysis.verdict]}</Badge>
+        <span className="text-sm text-muted-foreground">{analysis.likelihood}% likelihood of machine authorship</span>
+      </div>
+      <Progress value={analysis.likelihood} className="h-2" />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="p-3 border rounded-md bg-secondary/20">
+          <p className="text-xs font-semibold text-muted-foreground">Style Features</p>
+          <p className="text-lg font-bold">{tooShort ? 'n/a' : `${analysis.stylometricScore}%`}</p>
+          <p className="text-xs text-muted-foreground">
+            {tooShort
+              ? `Too short (${features.wordCount} words) for reliable style statistics.`
+              : `Sentence-length variation ${features.burstiness.toFixed(2)}, ${features.contractionRate.toFixed(2)} contractions / 100 words, vocabulary ratio ${features.typeTokenRatio.toFixed(2)}.`}
+          </p>
+        </div>
+        <div className="p-3 border rounded-md bg-secondary/20">
+          <p className="text-xs font-semibold text-muted-foreground">AI Judge</p>
+          <p className="text-lg font-bold">{analysis.judgeScore}%</p>
+          <p className="text-xs text-muted-foreground">{analysis.reasoning}</p>
+        </div>
+      </div>
+
+      {(analysis.indicators.length > 0 || features.llmPhraseHits.length > 0) && (
+        <div className="space-y-2">
+          {analysis.indicators.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+              {analysis.indicators.map((indicator, index) => <li key={index}>{indicator}</li>)}
+            </ul>
+          )}
+          {features.llmPhraseHits.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              <span className="text-xs text-muted-foreground mr-1">Stock phrases:</span>
+              {features.llmPhraseHits.map(phrase => <Badge key={phrase} variant="secondary" className="text-xs">{phrase}</Badge>)}
+            </div>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">Authorship is a separate question from accuracy: machine-written text can be true, and human-written text can be fake.</p>
+    </div>
+  );
+}
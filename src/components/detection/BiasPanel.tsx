@@ -0,0 +1,105 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import type { BiasAnalysis, BiasSource, SlantBucket } from '@/types';
+import { BIAS_SCALE_INFO, slantBucketLabel } from '@/lib/bias';
+import { cn } from '@/lib/utils';
+import { Scale, Users, EyeOff } from 'lucide-react';
+
+const bucketBadgeClasses: Record<SlantBucket, string> = {
+  strong_negative: 'border-blue-600 bg-blue-600/10 text-blue-700 dark:text-blue-400',
+  lean_negative: 'border-blue-400 text-blue-700 dark:text-blue-400',
+  balanced: 'border-green-600 text-green-700 dark:text-green-400',
+  lean_positive: 'border-red-400 text-red-700 dark:text-red-400',
+  strong_positive: 'border-red-600 bg-red-600/10 text-red-700 dark:text-red-400',
+};
+
+const sourceSideClasses: Record<BiasSource['side'], string> = {
+  negative: 'border-blue-400 text-blue-700 dark:text-blue-400',
+  neutral: '',
+  positive: 'border-red-400 text-red-700 dark:text-red-400',
+};
+
+interface BiasBadgeProps {
+  analysis: BiasAnalysis;
+  className?: string;
+}
+
+export function BiasBadge({ analysis, className }: BiasBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('whitespace-nowrap', bucketBadgeClasses[analysis.bucket], className)}>
+      <Scale className="mr-1 h-3 w-3" /> {slantBucketLabel(analysis.scale, analysis.bucket)}
+    </Badge>
+  );
+}
+
+interface BiasPanelProps {
+  analysis: BiasAnalysis;
+}
+
+/** Slant on the chosen scale, who the article quotes, what it leaves out and the passages behind the rating. */
+export function BiasPanel({ analysis }: BiasPanelProps) {
+  const { negativePole, positivePole, label } = BIAS_SCALE_INFO[analysis.scale];
+  if (!analysis.isPolitical) {
+    return <p className="text-sm text-muted-foreground">{analysis.explanation || 'The article has no political angle to rate.'}</p>;
+  }
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <BiasBadge analysis={analysis} />
+        <span className="text-sm text-muted-foreground">Framing: {analysis.framing}</span>
+      </div>
+
+      <div>
+        {/* The marker sits at the slant, mapped from -100..100 onto the bar. */}
+        <div className="relative h-2 rounded-full bg-gradient-to-r from-blue-500 via-green-500 to-red-500">
+          <div
+            className="absolute top-1/2 h-4 w-1.5 -translate-x-1/2 -translate-y-1/2 rounded-sm bg-foreground"
+            style={{ left: `${(analysis.slant + 100) / 2}%` }}
+          />
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground mt-1">
+          <span>{negativePole}</span>
+          <span>{label} scale, slant {analysis.slant > 0 ? '+' : ''}{analysis.slant}, {analysis.confidence}% confidence</span>
+          <span>{positivePole}</span>
+        </div>
+      </div>
+
+      <p className="text-sm">{analysis.explanation}</p>
+
+      {analysis.sources.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground flex items-center mb-1">
+            <Users className="mr-1 h-3 w-3" /> Sources quoted{analysis.oneSidedSourcing ? ' (one-sided)' : ''}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {analysis.sources.map((source, index) => (
+              <Badge key={`${source.name}-${index}`} variant="outline" className={cn('text-xs', sourceSideClasses[source.side])}>{source.name}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.omittedPerspectives.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground flex items-center mb-1"><EyeOff className="mr-1 h-3 w-3" /> Omitted perspectives</p>
+          <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+            {analysis.omittedPerspectives.map((perspective, index) => <li key={index}>{perspective}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {analysis.evidence.length > 0 && (
+        <ul className="space-y-2">
+          {analysis.evidence.map((item, index) => (
+            <li key={index} className="text-sm">
+              <blockquote className="border-l-2 pl-3 italic">&ldquo;{item.quote}&rdquo;</blockquote>
+              <p className="text-xs text-muted-foreground mt-1">{item.observation}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground">Slant describes how the story is told, not whether it is accurate.</p>
+    </div>
+  );
+}
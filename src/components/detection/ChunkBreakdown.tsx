@@ -0,0 +1,54 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { EvidenceList } from '@/components/detection/EvidenceList';
+import type { DetectionChunk, DetectionVerdict } from '@/types';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, CheckCircle, TrendingUp } from 'lucide-react';
+
+// Sections pulling at least this hard (relative to the strongest) are marked as having driven the verdict.
+export const DRIVER_INFLUENCE = 0.5;
+
+interface ChunkBreakdownProps {
+  text: string;
+  chunks: DetectionChunk[];
+  overall: DetectionVerdict;
+  previewChars?: number;
+}
+
+export function ChunkBreakdown({ text, chunks, overall, previewChars = 220 }: ChunkBreakdownProps) {
+  return (
+    <div className="space-y-3">
+      {chunks.map(chunk => {
+        const sectionText = text.slice(chunk.start, chunk.end);
+        const isDriver = chunk.influence >= DRIVER_INFLUENCE;
+        const agrees = chunk.result.label === overall.label;
+        return (
+          <div
+            key={chunk.index}
+            className={cn("p-3 border rounded-md space-y-2", isDriver ? "border-primary bg-primary/5" : "bg-secondary/20")}
+          >
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-semibold">Section {chunk.index + 1}</span>
+              <Badge variant={chunk.result.label === 'Fake' ? 'destructive' : 'default'}>
+                {chunk.result.label === 'Fake' ? <AlertTriangle className="mr-1 h-3 w-3" /> : <CheckCircle className="mr-1 h-3 w-3" />}
+                {chunk.result.label} ({chunk.result.confidence.toFixed(1)}%)
+              </Badge>
+              {isDriver && (
+                <Badge variant="outline" className="border-primary text-primary">
+                  <TrendingUp className="mr-1 h-3 w-3" /> Drove the verdict
+                </Badge>
+              )}
+              {!agrees && <span className="text-xs text-muted-foreground">Disagrees with the overall verdict</span>}
+              <span className="ml-auto text-xs text-muted-foreground">{Math.round(chunk.weight * 100)}% of the text</span>
+            </div>
+            <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+              {sectionText.length > previewChars ? `${sectionText.slice(0, previewChars).trimEnd()}...` : sectionText}
+            </p>
+            {chunk.evidence && chunk.evidence.length > 0 && <EvidenceList evidence={chunk.evidence} compact />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import type { ArticleClaim, ClaimVerdict } from '@/types';
+import { CheckCircle, XCircle, HelpCircle, ExternalLink } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const verdictStyles: Record<ClaimVerdict, { label: string; icon: typeof CheckCircle; className: string }> = {
+  supported: { label: 'Supported', icon: CheckCircle, className: 'text-green-600' },
+  refuted: { label: 'Refuted', icon: XCircle, className: 'text-destructive' },
+  unverifiable: { label: 'Unverifiable', icon: HelpCircle, className: 'text-muted-foreground' },
+};
+
+interface ClaimsListProps {
+  claims: ArticleClaim[];
+  className?: string;
+}
+
+export function ClaimsList({ claims, className }: ClaimsListProps) {
+  if (claims.length === 0) {
+    return <p className="text-sm text-muted-foreground">No checkable factual claims were found in this article.</p>;
+  }
+
+  const counts = claims.reduce((acc, claim) => {
+    acc[claim.verdict] = (acc[claim.verdict] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ClaimVerdict, number>>);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(verdictStyles) as ClaimVerdict[]).map(verdict => (
+          <Badge key={verdict} variant="outline" className={verdictStyles[verdict].className}>
+            {verdictStyles[verdict].label}: {counts[verdict] || 0}
+          </Badge>
+        ))}
+      </div>
+      <Accordion type="multiple" className="w-full">
+        {claims.map((claim, index) => {
+          const { label, icon: Icon, className: verdictClassName } = verdictStyles[claim.verdict];
+          return (
+            <AccordionItem value={`claim-${index}`} key={index}>
+              <AccordionTrigger className="text-sm text-left hover:no-underline py-3">
+                <div className="flex items-start gap-2 pr-2">
+                  <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", verdictClassName)} />
+                  <span>{claim.text}</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="pl-6 space-y-2">
+                <p className="text-xs">
+                  <span className={cn("font-semibold", verdictClassName)}>{label}.</span>{' '}
+                  <span className="text-muted-foreground">{claim.reasoning}</span>
+                </p>
+                {claim.factChecks && claim.factChecks.length > 0 && (
+                  <ul className="space-y-1">
+                    {claim.factChecks.map((fc, fcIndex) => (
+                      <li key={fcIndex} className="text-xs text-muted-foreground">
+                        {fc.source} rated &ldquo;{fc.claimReviewed}&rdquo; as <span className="font-semibold">{fc.rating}</span>
+                        {fc.url && (
+                          <a href={fc.url} target="_blank" rel="noopener noreferrer" className="ml-1 text-primary hover:underline inline-flex items-center">
+                            View Source <ExternalLink className="ml-1 h-3 w-3" />
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+}
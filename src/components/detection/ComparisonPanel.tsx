@@ -0,0 +1,89 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { ClaimAlignmentStatus, ComparedArticle, ComparisonVerdict } from '@/types';
+import { CLAIM_ALIGNMENT_LABELS, CLAIM_ALIGNMENT_STATUSES, COMPARISON_VERDICT_LABELS, countAlignments } from '@/lib/comparison';
+import { cn } from '@/lib/utils';
+
+const verdictBadgeClasses: Record<ComparisonVerdict, string> = {
+  consistent: 'border-green-600 text-green-700 dark:text-green-400',
+  partially_consistent: 'border-yellow-500 text-yellow-700 dark:text-yellow-400',
+  inconsistent: 'border-destructive text-destructive',
+};
+
+const statusClasses: Record<ClaimAlignmentStatus, { badge: string; row: string }> = {
+  consistent: { badge: 'border-green-600 text-green-700 dark:text-green-400', row: '' },
+  contradiction: { badge: 'border-destructive text-destructive', row: 'bg-destructive/5' },
+  omission: { badge: 'border-orange-500 text-orange-700 dark:text-orange-400', row: 'bg-orange-500/5' },
+  addition: { badge: 'border-blue-500 text-blue-700 dark:text-blue-400', row: 'bg-blue-500/5' },
+};
+
+interface ComparisonVerdictBadgeProps {
+  comparison: Pick<ComparedArticle, 'verdict' | 'consistencyScore'>;
+  className?: string;
+}
+
+export function ComparisonVerdictBadge({ comparison, className }: ComparisonVerdictBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('whitespace-nowrap', verdictBadgeClasses[comparison.verdict], className)}>
+      {COMPARISON_VERDICT_LABELS[comparison.verdict]} ({comparison.consistencyScore})
+    </Badge>
+  );
+}
+
+interface ComparisonPanelProps {
+  comparison: Pick<ComparedArticle, 'subject' | 'reference' | 'alignedClaims' | 'consistencyScore' | 'verdict' | 'summary'>;
+}
+
+/** The consistency verdict and every aligned claim, with the subject's version beside the reference's. */
+export function ComparisonPanel({ comparison }: ComparisonPanelProps) {
+  const counts = countAlignments(comparison.alignedClaims);
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <ComparisonVerdictBadge comparison={comparison} />
+        <p className="text-sm text-muted-foreground">{comparison.summary}</p>
+      </div>
+      <Progress value={comparison.consistencyScore} className="h-2" />
+      <div className="flex flex-wrap gap-2 text-xs">
+        {CLAIM_ALIGNMENT_STATUSES.map(status => (
+          <Badge key={status} variant="outline" className={statusClasses[status].badge}>
+            {CLAIM_ALIGNMENT_LABELS[status]}: {counts[status]}
+          </Badge>
+        ))}
+      </div>
+
+      {comparison.alignedClaims.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No factual claims could be matched between the two texts.</p>
+      ) : (
+        <div className="border rounded-md divide-y text-sm">
+          <div className="hidden md:grid grid-cols-2 gap-4 p-2 text-xs font-semibold text-muted-foreground">
+            <span>{comparison.subject.label}</span>
+            <span>{comparison.reference.label}</span>
+          </div>
+          {comparison.alignedClaims.map((claim, index) => (
+            <div key={index} className={cn('p-2 space-y-1', statusClasses[claim.status].row)}>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className={cn('text-xs', statusClasses[claim.status].badge)}>{CLAIM_ALIGNMENT_LABELS[claim.status]}</Badge>
+                {claim.status !== 'consistent' && claim.importance === 'major' && <Badge variant="secondary" className="text-xs">Major</Badge>}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-1 md:gap-4">
+                <p className={cn(!claim.subjectClaim && 'italic text-muted-foreground')}>
+                  <span className="md:hidden font-semibold">{comparison.subject.label}: </span>
+                  {claim.subjectClaim ?? 'Not mentioned'}
+                </p>
+                <p className={cn(!claim.referenceClaim && 'italic text-muted-foreground')}>
+                  <span className="md:hidden font-semibold">{comparison.reference.label}: </span>
+                  {claim.referenceClaim ?? 'Not mentioned'}
+                </p>
+              </div>
+              <p className="text-xs text-muted-foreground">{claim.explanation}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">Consistency shows whether the texts agree, not which one is right; a contradiction means at least one of them is wrong.</p>
+    </div>
+  );
+}
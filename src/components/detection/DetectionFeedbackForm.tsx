@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { saveDetectionFeedback } from '@/lib/firebase';
+import { FEEDBACK_LABELS, FEEDBACK_LABEL_DESCRIPTIONS, MAX_FEEDBACK_COMMENT_CHARS, feedbackRecord, oppositeLabel } from '@/lib/feedback';
+import type { DetectedArticle, DetectionFeedback, FeedbackLabel } from '@/types';
+import { Loader2, ThumbsUp, ThumbsDown, Send, Pencil } from 'lucide-react';
+
+interface DetectionFeedbackFormProps {
+  detection: DetectedArticle;
+  onFeedbackSaved: (feedback: DetectionFeedback) => void;
+}
+
+/** "Was this correct?" prompt for a verdict, with an optional corrected label and comment. */
+export function DetectionFeedbackForm({ detection, onFeedbackSaved }: DetectionFeedbackFormProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const existing = detection.feedback;
+  const [isEditing, setIsEditing] = useState(!existing);
+  const [isCorrect, setIsCorrect] = useState<boolean | null>(existing?.isCorrect ?? null);
+  const [correctedLabel, setCorrectedLabel] = useState<FeedbackLabel>(existing?.correctedLabel ?? oppositeLabel(detection.result.label));
+  const [comment, setComment] = useState(existing?.comment ?? '');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!user?.uid || isCorrect === null) return;
+    setIsSending(true);
+    try {
+      const feedback = await saveDetectionFeedback(user.uid, feedbackRecord(detection, {
+        isCorrect,
+        correctedLabel: isCorrect ? undefined : correctedLabel,
+        comment: comment.trim().substring(0, MAX_FEEDBACK_COMMENT_CHARS) || undefined,
+      }));
+      onFeedbackSaved(feedback);
+      setIsEditing(false);
+      toast({ title: "Thanks for Your Feedback", description: "It helps us find where the detectors go wrong." });
+    } catch (error: any) {
+      toast({ title: "Feedback Not Sent", description: error.message || "Could not send your feedback.", variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (existing && !isEditing) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Your feedback:</span>
+        {existing.isCorrect ? (
+          <Badge variant="default"><ThumbsUp className="mr-1 h-3 w-3" /> Correct</Badge>
+        ) : (
+          <Badge variant="destructive"><ThumbsDown className="mr-1 h-3 w-3" /> Incorrect{existing.correctedLabel ? `, actually ${existing.correctedLabel}` : ''}</Badge>
+        )}
+        <span className="text-xs text-muted-foreground">{format(new Date(existing.submittedAt), "MMM d, yyyy")}</span>
+        {existing.comment && <p className="w-full text-muted-foreground italic">&ldquo;{existing.comment}&rdquo;</p>}
+        <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+          <Pencil className="mr-1 h-3 w-3" /> Change
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Was this verdict correct?</span>
+        <Button type="button" size="sm" variant={isCorrect === true ? 'default' : 'outline'} onClick={() => setIsCorrect(true)} disabled={isSending}>
+          <ThumbsUp className="mr-1 h-4 w-4" /> Yes
+        </Button>
+        <Button type="button" size="sm" variant={isCorrect === false ? 'destructive' : 'outline'} onClick={() => setIsCorrect(false)} disabled={isSending}>
+          <ThumbsDown className="mr-1 h-4 w-4" /> No
+        </Button>
+      </div>
+      {isCorrect !== null && (
+        <div className="space-y-3">
+          {!isCorrect && (
+            <div className="space-y-1">
+              <Label htmlFor={`corrected-label-${detection.id ?? 'new'}`}>What is it actually?</Label>
+              <Select value={correctedLabel} onValueChange={(value) => setCorrectedLabel(value as FeedbackLabel)} disabled={isSending}>
+                <SelectTrigger id={`corrected-label-${detection.id ?? 'new'}`} className="w-full sm:w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEEDBACK_LABELS.map(label => (
+                    <SelectItem key={label} value={label}>{label} - {FEEDBACK_LABEL_DESCRIPTIONS[label]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor={`feedback-comment-${detection.id ?? 'new'}`}>Comment (optional)</Label>
+            <Textarea
+              id={`feedback-comment-${detection.id ?? 'new'}`}
+              placeholder={isCorrect ? "Anything worth adding?" : "What did the detector miss? A link to a fact-check helps."}
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              maxLength={MAX_FEEDBACK_COMMENT_CHARS}
+              className="min-h-[80px]"
+              disabled={isSending}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={handleSubmit} disabled={isSending || !user?.uid}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />} Send Feedback
+            </Button>
+            {existing && (
+              <Button type="button" size="sm" variant="ghost" onClick={() => setIsEditing(false)} disabled={isSending}>Cancel</Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
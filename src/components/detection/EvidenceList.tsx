@@ -0,0 +1,69 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import type { Evidence, EvidenceDirection, EvidenceStrength } from '@/types';
+import { EVIDENCE_CATEGORY_LABELS, EVIDENCE_DIRECTION_LABELS, EVIDENCE_STRENGTH_LABELS } from '@/lib/evidence';
+import { cn } from '@/lib/utils';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+
+const directionClasses: Record<EvidenceDirection, string> = {
+  for: 'text-green-600 dark:text-green-400',
+  against: 'text-destructive',
+};
+
+const strengthClasses: Record<EvidenceStrength, string> = {
+  weak: 'border-muted-foreground/40 text-muted-foreground',
+  moderate: 'border-primary/60',
+  strong: 'border-primary bg-primary/10',
+};
+
+function DirectionIcon({ direction, className }: { direction: EvidenceDirection; className?: string }) {
+  const Icon = direction === 'for' ? ThumbsUp : ThumbsDown;
+  return <Icon className={cn("h-3.5 w-3.5 shrink-0", directionClasses[direction], className)} aria-label={EVIDENCE_DIRECTION_LABELS[direction]} />;
+}
+
+interface EvidenceListProps {
+  evidence: Evidence[];
+  // Statements only, without badges and quotes; for article cards and section breakdowns
+  compact?: boolean;
+  className?: string;
+}
+
+/** The reasons behind an LLM verdict, each marked as pointing to the article being real or fake. */
+export function EvidenceList({ evidence, compact = false, className }: EvidenceListProps) {
+  if (evidence.length === 0) {
+    return <p className="text-sm text-muted-foreground">The AI gave no evidence for this verdict.</p>;
+  }
+  if (compact) {
+    return (
+      <ul className={cn("space-y-1 text-xs text-muted-foreground", className)}>
+        {evidence.map((item, index) => (
+          <li key={index} className="flex items-start gap-1.5">
+            <DirectionIcon direction={item.direction} className="mt-0.5 h-3 w-3" />
+            <span>{item.statement}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  return (
+    <ul className={cn("space-y-3", className)}>
+      {evidence.map((item, index) => (
+        <li key={index} className="text-sm">
+          <div className="flex items-start gap-2">
+            <DirectionIcon direction={item.direction} className="mt-0.5 h-4 w-4" />
+            <div className="space-y-1">
+              <p>{item.statement}</p>
+              <div className="flex flex-wrap items-center gap-1">
+                <Badge variant="outline" className="text-xs">{EVIDENCE_CATEGORY_LABELS[item.category]}</Badge>
+                <Badge variant="outline" className={cn("text-xs", strengthClasses[item.strength])}>{EVIDENCE_STRENGTH_LABELS[item.strength]}</Badge>
+                <span className={cn("text-xs", directionClasses[item.direction])}>{EVIDENCE_DIRECTION_LABELS[item.direction]}</span>
+              </div>
+              {item.quote && <blockquote className="border-l-2 pl-3 text-xs italic text-muted-foreground">&ldquo;{item.quote.text}&rdquo;</blockquote>}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
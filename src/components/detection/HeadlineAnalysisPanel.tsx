@@ -0,0 +1,81 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { HeadlineAnalysis, HeadlineVerdict } from '@/types';
+import { HEADLINE_PATTERN_LABELS, HEADLINE_VERDICT_LABELS } from '@/lib/headline';
+import { cn } from '@/lib/utils';
+import { PenLine } from 'lucide-react';
+
+const verdictBadgeClasses: Record<HeadlineVerdict, string> = {
+  neutral: 'border-green-600 text-green-700 dark:text-green-400',
+  borderline: 'border-yellow-500 text-yellow-700 dark:text-yellow-400',
+  clickbait: 'border-destructive text-destructive',
+};
+
+interface HeadlineVerdictBadgeProps {
+  analysis: HeadlineAnalysis;
+  className?: string;
+}
+
+export function HeadlineVerdictBadge({ analysis, className }: HeadlineVerdictBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn(verdictBadgeClasses[analysis.verdict], className)}>
+      {HEADLINE_VERDICT_LABELS[analysis.verdict]} ({analysis.clickbaitScore})
+    </Badge>
+  );
+}
+
+interface HeadlineAnalysisPanelProps {
+  analysis: HeadlineAnalysis;
+  showHeadline?: boolean;
+}
+
+/** Clickbait and sensationalism scores for a headline, the patterns it uses and a neutral rewrite. */
+export function HeadlineAnalysisPanel({ analysis, showHeadline = false }: HeadlineAnalysisPanelProps) {
+  const isRewritten = analysis.neutralRewrite.trim() !== analysis.headline.trim();
+  return (
+    <div className="space-y-4">
+      {showHeadline && <p className="font-semibold">&ldquo;{analysis.headline}&rdquo;</p>}
+      {analysis.inferred && (
+        <p className="text-xs text-muted-foreground">The text came without a headline, so the title the AI suggested for it was checked instead.</p>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <HeadlineVerdictBadge analysis={analysis} />
+        <p className="text-sm text-muted-foreground">{analysis.explanation}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground mb-1">Clickbait: {analysis.clickbaitScore}/100</p>
+          <Progress value={analysis.clickbaitScore} className="h-2" />
+        </div>
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground mb-1">Sensationalism: {analysis.sensationalismScore}/100</p>
+          <Progress value={analysis.sensationalismScore} className="h-2" />
+        </div>
+      </div>
+
+      {analysis.patterns.length > 0 ? (
+        <ul className="space-y-2">
+          {analysis.patterns.map(hit => (
+            <li key={hit.pattern} className="text-sm">
+              <Badge variant="secondary" className="mr-2">{HEADLINE_PATTERN_LABELS[hit.pattern]}</Badge>
+              <span className="font-medium">&ldquo;{hit.excerpt}&rdquo;</span>
+              <span className="text-muted-foreground"> &mdash; {hit.explanation}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No clickbait patterns found.</p>
+      )}
+
+      {isRewritten && (
+        <div className="p-3 border rounded-md bg-secondary/20">
+          <p className="text-xs font-semibold text-muted-foreground flex items-center"><PenLine className="mr-1 h-3 w-3" /> Neutral rewrite</p>
+          <p className="text-sm font-medium">{analysis.neutralRewrite}</p>
+        </div>
+      )}
+    </div>
+  );
+}
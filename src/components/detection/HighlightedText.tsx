@@ -0,0 +1,70 @@
+"use client";
+
+import { Fragment } from 'react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { HighlightSpan, ManipulationCategory } from '@/types';
+import { manipulationCategoryLabels, normalizeSpans } from '@/lib/highlights';
+import { cn } from '@/lib/utils';
+
+const categoryColors: Record<ManipulationCategory, string> = {
+  sensational_wording: 'bg-orange-200/70 dark:bg-orange-500/30',
+  unsupported_claim: 'bg-red-200/70 dark:bg-red-500/30',
+  anonymous_source: 'bg-purple-200/70 dark:bg-purple-500/30',
+  emotional_appeal: 'bg-yellow-200/70 dark:bg-yellow-500/30',
+  misleading_statistic: 'bg-sky-200/70 dark:bg-sky-500/30',
+  logical_fallacy: 'bg-pink-200/70 dark:bg-pink-500/30',
+};
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: HighlightSpan[];
+  className?: string;
+  showLegend?: boolean;
+}
+
+export function HighlightedText({ text, highlights, className, showLegend = true }: HighlightedTextProps) {
+  const spans = normalizeSpans(highlights, text.length);
+  const usedCategories = Array.from(new Set(spans.map(span => span.category)));
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    if (span.start > cursor) {
+      segments.push(<Fragment key={`plain-${index}`}>{text.slice(cursor, span.start)}</Fragment>);
+    }
+    segments.push(
+      <Tooltip key={`span-${index}`}>
+        <TooltipTrigger asChild>
+          <mark className={cn("rounded px-0.5 text-foreground cursor-help", categoryColors[span.category])}>
+            {text.slice(span.start, span.end)}
+          </mark>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p className="font-semibold">{manipulationCategoryLabels[span.category]}</p>
+          <p className="text-xs">{span.reason}</p>
+        </TooltipContent>
+      </Tooltip>
+    );
+    cursor = span.end;
+  });
+  if (cursor < text.length) {
+    segments.push(<Fragment key="plain-end">{text.slice(cursor)}</Fragment>);
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {showLegend && usedCategories.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {usedCategories.map(category => (
+            <span key={category} className={cn("rounded px-1.5 py-0.5", categoryColors[category])}>
+              {manipulationCategoryLabels[category]}
+            </span>
+          ))}
+        </div>
+      )}
+      <TooltipProvider delayDuration={0}>
+        <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{segments}</p>
+      </TooltipProvider>
+    </div>
+  );
+}
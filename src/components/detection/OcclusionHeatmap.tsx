@@ -0,0 +1,99 @@
+"use client";
+
+import { Fragment } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { OcclusionExplanation, OcclusionSpan } from '@/types';
+import { MIN_OCCLUSION_DELTA, topOcclusionSpans } from '@/lib/occlusion';
+
+function formatPoints(delta: number): string {
+  const points = delta * 100;
+  return `${points > 0 ? '+' : ''}${points.toFixed(1)} pts`;
+}
+
+// Red spans pushed the model toward Fake, green ones toward Real; opacity scales with the strongest span.
+function spanBackground(span: OcclusionSpan, maxDelta: number): string | undefined {
+  if (Math.abs(span.delta) < MIN_OCCLUSION_DELTA || maxDelta === 0) return undefined;
+  const alpha = (0.15 + 0.55 * Math.abs(span.delta) / maxDelta).toFixed(2);
+  return span.delta > 0 ? `rgba(220, 38, 38, ${alpha})` : `rgba(22, 163, 74, ${alpha})`;
+}
+
+interface OcclusionHeatmapProps {
+  text: string; // The analyzed text the span offsets refer to
+  explanation: OcclusionExplanation;
+}
+
+/** The analyzed text shaded by how much removing each span changed the model's probability of Fake. */
+export function OcclusionHeatmap({ text, explanation }: OcclusionHeatmapProps) {
+  const spans = [...explanation.spans]
+    .filter(span => span.start >= 0 && span.end <= text.length && span.end > span.start)
+    .sort((a, b) => a.start - b.start);
+  const maxDelta = Math.max(0, ...spans.map(span => Math.abs(span.delta)));
+  const topSpans = topOcclusionSpans(explanation.spans);
+  const flippers = explanation.spans.filter(span => span.flipsVerdict);
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    if (span.start < cursor) return;
+    if (span.start > cursor) {
+      segments.push(<Fragment key={`plain-${index}`}>{text.slice(cursor, span.start)}</Fragment>);
+    }
+    const background = spanBackground(span, maxDelta);
+    segments.push(background ? (
+      <Tooltip key={`span-${index}`}>
+        <TooltipTrigger asChild>
+          <mark className="rounded px-0.5 text-foreground cursor-help" style={{ backgroundColor: background }}>
+            {text.slice(span.start, span.end)}
+          </mark>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p className="font-semibold">{span.delta > 0 ? 'Pushes toward Fake' : 'Pushes toward Real'} ({formatPoints(span.delta)})</p>
+          <p className="text-xs">Without it the model gives {(span.fakeProbability * 100).toFixed(1)}% Fake{span.flipsVerdict ? ', which flips the verdict' : ''}.</p>
+        </TooltipContent>
+      </Tooltip>
+    ) : (
+      <Fragment key={`span-${index}`}>{text.slice(span.start, span.end)}</Fragment>
+    ));
+    cursor = span.end;
+  });
+  if (cursor < text.length) {
+    segments.push(<Fragment key="plain-end">{text.slice(cursor)}</Fragment>);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-muted-foreground">
+          Model: {explanation.model.name} v{explanation.model.version}, {(explanation.baselineFakeProbability * 100).toFixed(1)}% Fake for the full text (uncalibrated), {explanation.queries} queries.
+        </span>
+        <span className="rounded px-1.5 py-0.5" style={{ backgroundColor: 'rgba(220, 38, 38, 0.45)' }}>Toward Fake</span>
+        <span className="rounded px-1.5 py-0.5" style={{ backgroundColor: 'rgba(22, 163, 74, 0.45)' }}>Toward Real</span>
+      </div>
+      {flippers.length > 0 && (
+        <p className="text-sm">
+          <Badge variant="outline" className="mr-2 border-destructive text-destructive">Verdict flips</Badge>
+          Removing {flippers.length === 1 ? 'this highlighted span' : `any one of ${flippers.length} highlighted spans`} alone would change the model&apos;s label.
+        </p>
+      )}
+      <TooltipProvider delayDuration={0}>
+        <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{segments}</p>
+      </TooltipProvider>
+      {topSpans.length > 0 ? (
+        <div>
+          <p className="text-xs font-semibold text-muted-foreground mb-1">Most influential {explanation.unit === 'clause' ? 'clauses' : 'sentences'}</p>
+          <ol className="list-decimal list-inside text-sm space-y-1">
+            {topSpans.map((span, index) => (
+              <li key={index}>
+                <span className={span.delta > 0 ? 'text-destructive font-medium' : 'text-green-700 dark:text-green-400 font-medium'}>{formatPoints(span.delta)}</span>{' '}
+                <span className="text-muted-foreground">&ldquo;{span.text.length > 160 ? `${span.text.slice(0, 160)}...` : span.text}&rdquo;</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No single {explanation.unit} changed the model&apos;s confidence by more than a point.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { PropagandaFinding, PropagandaSeverity, PropagandaTechnique } from '@/types';
+import { PROPAGANDA_SEVERITY_LABELS, PROPAGANDA_TECHNIQUE_INFO, techniquesInArticle, type PropagandaTechniqueTotals } from '@/lib/propaganda';
+import { cn } from '@/lib/utils';
+
+const severityClasses: Record<PropagandaSeverity, string> = {
+  low: 'border-yellow-500 text-yellow-700 dark:text-yellow-400',
+  medium: 'border-orange-500 text-orange-700 dark:text-orange-400',
+  high: 'border-destructive bg-destructive/10 text-destructive',
+};
+
+interface PropagandaBadgesProps {
+  findings: PropagandaFinding[];
+  max?: number;
+  className?: string;
+}
+
+/** One badge per technique, colored by its most severe use. */
+export function PropagandaBadges({ findings, max = 4, className }: PropagandaBadgesProps) {
+  const techniques = techniquesInArticle(findings);
+  const hidden = techniques.length - max;
+  return (
+    <TooltipProvider delayDuration={0}>
+      <div className={cn("flex flex-wrap gap-1", className)}>
+        {techniques.slice(0, max).map(({ technique, severity, count }) => (
+          <Tooltip key={technique}>
+            <TooltipTrigger asChild>
+              <Badge variant="outline" className={cn("text-xs whitespace-nowrap", severityClasses[severity])}>
+                {PROPAGANDA_TECHNIQUE_INFO[technique].label}{count > 1 ? ` ×${count}` : ''}
+              </Badge>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              <p>{PROPAGANDA_TECHNIQUE_INFO[technique].definition} Highest severity: {PROPAGANDA_SEVERITY_LABELS[severity].toLowerCase()}.</p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+        {hidden > 0 && <Badge variant="secondary" className="text-xs">+{hidden} more</Badge>}
+      </div>
+    </TooltipProvider>
+  );
+}
+
+interface PropagandaListProps {
+  findings: PropagandaFinding[];
+}
+
+/** Every propaganda finding with its excerpt, severity and explanation, in reading order. */
+export function PropagandaList({ findings }: PropagandaListProps) {
+  if (findings.length === 0) {
+    return <p className="text-sm text-muted-foreground">No propaganda techniques found.</p>;
+  }
+  return (
+    <ul className="space-y-3">
+      {findings.map((finding, index) => (
+        <li key={`${finding.technique}-${index}`} className="text-sm">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <Badge variant="outline" className={severityClasses[finding.severity]}>{PROPAGANDA_TECHNIQUE_INFO[finding.technique].label}</Badge>
+            <span className="text-xs text-muted-foreground">{PROPAGANDA_SEVERITY_LABELS[finding.severity]} severity</span>
+          </div>
+          <blockquote className="border-l-2 pl-3 italic">&ldquo;{finding.excerpt}&rdquo;</blockquote>
+          <p className="text-xs text-muted-foreground mt-1">{finding.explanation}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface PropagandaSummaryProps {
+  totals: PropagandaTechniqueTotals[];
+  analyzedArticles: number;
+  selected?: PropagandaTechnique;
+  onSelect?: (technique: PropagandaTechnique) => void;
+}
+
+/** Technique counts across many detections; clicking a technique selects it (e.g. as a filter). */
+export function PropagandaSummary({ totals, analyzedArticles, selected, onSelect }: PropagandaSummaryProps) {
+  if (totals.length === 0) {
+    return <p className="text-sm text-muted-foreground">No propaganda techniques found in {analyzedArticles} classified {analyzedArticles === 1 ? 'article' : 'articles'}.</p>;
+  }
+  const maxArticles = totals[0].articleCount;
+  return (
+    <div className="space-y-2">
+      {totals.map(total => (
+        <button
+          key={total.technique}
+          type="button"
+          onClick={() => onSelect?.(total.technique)}
+          className={cn("w-full text-left rounded-md p-2 hover:bg-accent/50 transition-colors", selected === total.technique && "bg-accent")}
+        >
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{PROPAGANDA_TECHNIQUE_INFO[total.technique].label}</span>
+            <span className="text-xs text-muted-foreground">
+              {total.articleCount} of {analyzedArticles} articles · {total.findingCount} uses{total.highSeverityCount > 0 ? ` · ${total.highSeverityCount} high` : ''}
+            </span>
+          </div>
+          <div className="h-1.5 mt-1 rounded-full bg-secondary overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${(total.articleCount / maxArticles) * 100}%` }} />
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import type { LinguisticSignalKey, LinguisticSignals } from '@/types';
+import { SIGNAL_LABELS } from '@/lib/signals';
+import { cn } from '@/lib/utils';
+import { AlertTriangle } from 'lucide-react';
+
+interface SignalMetric {
+  key?: LinguisticSignalKey;
+  label: string;
+  value: string;
+  hint: string;
+}
+
+function readingEaseDescription(score: number): string {
+  if (score >= 70) return 'easy';
+  if (score >= 50) return 'fairly difficult';
+  if (score >= 30) return 'difficult';
+  return 'very difficult';
+}
+
+function metricsFor(signals: LinguisticSignals): SignalMetric[] {
+  return [
+    {
+      key: 'readability',
+      label: 'Reading Ease',
+      value: `${signals.fleschReadingEase.toFixed(0)} (${readingEaseDescription(signals.fleschReadingEase)})`,
+      hint: `Flesch score; grade level ${signals.fleschKincaidGrade.toFixed(1)}. ${signals.wordCount} words in ${signals.sentenceCount} sentences.`,
+    },
+    { key: 'exclamation', label: 'Exclamation Marks', value: `${signals.exclamationDensity.toFixed(2)} / 100 words`, hint: 'Edited news copy rarely uses them.' },
+    { key: 'caps', label: 'ALL-CAPS Words', value: `${(signals.capsDensity * 100).toFixed(1)}%`, hint: 'Share of words written entirely in capitals (acronyms count too).' },
+    { key: 'hedging', label: 'Hedging', value: `${signals.hedgingRatio.toFixed(2)} / 100 words`, hint: 'Words like "allegedly", "might", "reportedly".' },
+    { key: 'absolutist', label: 'Absolutist Words', value: `${signals.absolutistRatio.toFixed(2)} / 100 words`, hint: 'Words like "always", "never", "everyone", "proven".' },
+    { label: 'Quoted Text', value: `${(signals.quoteDensity * 100).toFixed(1)}%`, hint: 'Share of the text inside quotation marks.' },
+    { key: 'attribution', label: 'Attributions', value: String(signals.attributionCount), hint: 'Phrases like "according to" or "said" that name where information came from.' },
+  ];
+}
+
+interface SignalsPanelProps {
+  signals: LinguisticSignals;
+}
+
+/** Deterministic style signals for an analyzed article. Flagged tiles are outside the range typical for news copy. */
+export function SignalsPanel({ signals }: SignalsPanelProps) {
+  return (
+    <div className="space-y-4">
+      {signals.flagged.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {signals.flagged.map(key => (
+            <Badge key={key} variant="outline" className="border-destructive text-destructive">
+              <AlertTriangle className="mr-1 h-3 w-3" /> {SIGNAL_LABELS[key]}
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No style signals outside the typical range for news writing.</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {metricsFor(signals).map(metric => {
+          const isFlagged = metric.key !== undefined && signals.flagged.includes(metric.key);
+          return (
+            <div key={metric.label} className={cn("p-3 border rounded-md", isFlagged ? "border-destructive bg-destructive/5" : "bg-secondary/20")}>
+              <p className="text-xs font-semibold text-muted-foreground">{metric.label}</p>
+              <p className={cn("text-lg font-bold", isFlagged && "text-destructive")}>{metric.value}</p>
+              <p className="text-xs text-muted-foreground">{metric.hint}</p>
+            </div>
+          );
+        })}
+        <div className={cn("p-3 border rounded-md", signals.clickbaitHits.length > 0 ? "border-destructive bg-destructive/5" : "bg-secondary/20")}>
+          <p className="text-xs font-semibold text-muted-foreground">Clickbait Phrases</p>
+          {signals.clickbaitHits.length > 0 ? (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {signals.clickbaitHits.map(hit => <Badge key={hit} variant="destructive" className="text-xs">{hit}</Badge>)}
+            </div>
+          ) : (
+            <p className="text-lg font-bold">None</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
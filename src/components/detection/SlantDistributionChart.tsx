@@ -0,0 +1,35 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { BiasScale, SlantBucket } from '@/types';
+import { SLANT_BUCKETS, slantBucketLabel } from '@/lib/bias';
+
+const chartConfig = {
+  articles: { label: 'Articles', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface SlantDistributionChartProps {
+  scale: BiasScale;
+  counts: Record<SlantBucket, number>;
+}
+
+/** How many saved detections fall into each slant bucket of one scale, from one pole to the other. */
+export function SlantDistributionChart({ scale, counts }: SlantDistributionChartProps) {
+  const data = SLANT_BUCKETS.map(bucket => ({
+    bucket: slantBucketLabel(scale, bucket),
+    articles: counts[bucket],
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[220px] w-full">
+      <BarChart data={data} margin={{ left: 0, right: 12, top: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="bucket" tickLine={false} axisLine={false} tickMargin={8} fontSize={11} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="articles" fill="var(--color-articles)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import type { DomainCredibility, SourceCredibilitySummary, SourceReliability } from '@/types';
+import { RELIABILITY_LABELS } from '@/lib/sourceCredibility';
+import { cn } from '@/lib/utils';
+import { Globe, Link as LinkIcon } from 'lucide-react';
+
+const reliabilityBadgeClasses: Record<SourceReliability, string> = {
+  high: 'border-green-600 text-green-700 dark:text-green-400',
+  generally_reliable: 'border-green-500 text-green-600 dark:text-green-400',
+  mixed: 'border-yellow-500 text-yellow-700 dark:text-yellow-400',
+  low: 'border-destructive text-destructive',
+  very_low: 'border-destructive bg-destructive/10 text-destructive',
+  satire: 'border-purple-500 text-purple-700 dark:text-purple-400',
+};
+
+interface ReliabilityBadgeProps {
+  reliability?: SourceReliability;
+  className?: string;
+}
+
+export function ReliabilityBadge({ reliability, className }: ReliabilityBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('whitespace-nowrap', reliability ? reliabilityBadgeClasses[reliability] : 'text-muted-foreground', className)}>
+      {reliability ? RELIABILITY_LABELS[reliability] : 'Not rated'}
+    </Badge>
+  );
+}
+
+function DomainRow({ credibility }: { credibility: DomainCredibility }) {
+  const { domain, entry, linkCount } = credibility;
+  return (
+    <li className="text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium break-all">{entry?.name ? `${entry.name} (${domain})` : domain}</span>
+        <ReliabilityBadge reliability={entry?.reliability} />
+        {linkCount !== undefined && linkCount > 1 && <span className="text-xs text-muted-foreground">{linkCount} links</span>}
+      </div>
+      {entry?.ownership && <p className="text-xs text-muted-foreground">Owner: {entry.ownership}</p>}
+      {entry?.notes && <p className="text-xs text-muted-foreground">{entry.notes}</p>}
+    </li>
+  );
+}
+
+interface SourceCredibilityPanelProps {
+  summary: SourceCredibilitySummary;
+}
+
+/** Ratings from the source credibility database for the article's domain and the domains it links to. */
+export function SourceCredibilityPanel({ summary }: SourceCredibilityPanelProps) {
+  return (
+    <div className="space-y-4">
+      {summary.article && (
+        <div>
+          <h5 className="text-xs font-semibold text-muted-foreground mb-1 flex items-center"><Globe className="mr-1 h-3 w-3" /> Published by</h5>
+          <ul><DomainRow credibility={summary.article} /></ul>
+        </div>
+      )}
+      <div>
+        <h5 className="text-xs font-semibold text-muted-foreground mb-1 flex items-center"><LinkIcon className="mr-1 h-3 w-3" /> Linked sources</h5>
+        {summary.links.length > 0 ? (
+          <>
+            {summary.lowCredibilityLinks > 0 && (
+              <p className="text-xs text-destructive mb-2">{summary.lowCredibilityLinks} of {summary.links.length} linked domains are rated low credibility or satire.</p>
+            )}
+            <ul className="space-y-2">
+              {summary.links.map(link => <DomainRow key={link.domain} credibility={link} />)}
+            </ul>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">The text contains no links to other sites.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -57,7 +57,7 @@ export function AboutSection() {
                 <ul className="space-y-2 text-muted-foreground">
                     <li className="flex items-start">
                         <CheckIcon className="h-5 w-5 text-primary mr-2 mt-1 shrink-0" />
-                        <span><strong>Advanced Detection:</strong> Utilize our Truth Lens model and a Genkit-powered LLM (with XAI & mock fact-checking) to analyze news articles.</span>
+                        <span><strong>Advanced Detection:</strong> Utilize our Truth Lens model and a Genkit-powered LLM (with XAI & fact-checking) to analyze news articles.</span>
                     </li>
                     <li className="flex items-start">
                         <CheckIcon className="h-5 w-5 text-primary mr-2 mt-1 shrink-0" />
@@ -6,7 +6,7 @@ const features = [
   {
     icon: <ScanText className="h-10 w-10 text-primary" />,
     title: "Dual AI News Detection",
-    description: "Analyze articles using our Truth Lens model or an advanced Genkit AI model (with XAI & mock fact-checking) to get a confidence score on authenticity.",
+    description: "Analyze articles using our Truth Lens model or an advanced Genkit AI model (with XAI & fact-checking) to get a confidence score on authenticity.",
   },
   {
     icon: <BotMessageSquare className="h-10 w-10 text-primary" />,
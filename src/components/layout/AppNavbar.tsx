@@ -19,6 +19,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Logo } from './Logo';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
+import { isAdminEmail } from '@/lib/admin';
 import { ThemeToggle, ThemeToggleSidebar } from '@/components/shared/ThemeToggle';
 import {
   LayoutDashboard,
@@ -29,6 +30,7 @@ import {
   UserCircle,
   Menu,
   Puzzle,
+  ShieldCheck,
 } from 'lucide-react';
 import {
   Tooltip,
@@ -50,10 +52,15 @@ const userMenuItems = [
     { href: '/profile', label: 'Profile', icon: UserCircle },
 ];
 
+const adminMenuItems = [
+    { href: '/admin', label: 'Admin', icon: ShieldCheck },
+];
+
 export function AppNavbar() {
   const { user, signOut, loading } = useAuth();
   const pathname = usePathname();
   const [isSheetOpen, setIsSheetOpen] = React.useState(false);
+  const visibleUserMenuItems = isAdminEmail(user?.email) ? [...userMenuItems, ...adminMenuItems] : userMenuItems;
 
   // Close sheet on pathname change if it's open
   React.useEffect(() => {
@@ -75,7 +82,7 @@ export function AppNavbar() {
   const NavLinks = ({ mobile = false }: { mobile?: boolean }) => (
     <>
       {navItems.map((item) => {
-        const isActive = pathname === item.href;
+        const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
         const linkButton = (
           <Button
             key={item.href} 
@@ -104,8 +111,8 @@ export function AppNavbar() {
 
   const UserMenuItems = ({ mobile = false }: { mobile?: boolean}) => (
     <>
-      {userMenuItems.map((item) => {
-        const isActive = pathname === item.href;
+      {visibleUserMenuItems.map((item) => {
+        const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
         const menuItemContent = (
           <>
             <item.icon className={cn("mr-2 h-4 w-4", mobile && "h-5 w-5")} />
@@ -4,8 +4,8 @@
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button, buttonVariants } from '@/components/ui/button'; // Ensured buttonVariants is imported
-import type { GeneratedArticle, DetectedArticle, Article } from '@/types';
-import { Bot, CheckCircle, AlertTriangle, Clock, Tag, Type, Save, Loader2, Database, Brain, MessageSquareQuote, ExternalLink, ListChecks, FileText, Download, Trash2, MoreVertical, Maximize } from 'lucide-react';
+import type { GeneratedArticle, DetectedArticle, DetectionMethod, DetectionModelInfo, DetectionFeedback, CalibrationMethod, HeadlineAnalysis, SourceCredibilitySummary, DomainCredibility, EnsembleComponent, EnsembleDetails } from '@/types';
+import { Bot, CheckCircle, AlertTriangle, Clock, Tag, Type, Save, Loader2, Database, Brain, Layers, MessageSquareQuote, ExternalLink, ListChecks, FileText, Download, Trash2, MoreVertical, Maximize, Globe, User, CalendarDays, Paperclip, Languages, History } from 'lucide-react';
 import { format } from 'date-fns';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import {
@@ -44,14 +44,117 @@ import html2canvas from 'html2canvas';
 import { useAuth } from '@/contexts/AuthContext';
 import { deleteArticle as deleteArticleFromDb } from '@/lib/firebase';
 import { cn } from "@/lib/utils";
+import { ClaimsList } from '@/components/detection/ClaimsList';
+import { HighlightedText } from '@/components/detection/HighlightedText';
+import { ChunkBreakdown, DRIVER_INFLUENCE } from '@/components/detection/ChunkBreakdown';
+import { SignalsPanel } from '@/components/detection/SignalsPanel';
+import { SIGNAL_LABELS } from '@/lib/signals';
+import { HeadlineAnalysisPanel, HeadlineVerdictBadge } from '@/components/detection/HeadlineAnalysisPanel';
+import { HEADLINE_PATTERN_LABELS, HEADLINE_VERDICT_LABELS } from '@/lib/headline';
+import { ReliabilityBadge, SourceCredibilityPanel } from '@/components/detection/SourceCredibilityPanel';
+import { RELIABILITY_LABELS } from '@/lib/sourceCredibility';
+import { AiTextBadge, AiTextPanel } from '@/components/detection/AiTextPanel';
+import { AI_TEXT_VERDICT_LABELS } from '@/lib/stylometry';
+import { PropagandaBadges, PropagandaList } from '@/components/detection/PropagandaList';
+import { PROPAGANDA_SEVERITY_LABELS, PROPAGANDA_TECHNIQUE_INFO } from '@/lib/propaganda';
+import { BiasBadge, BiasPanel } from '@/components/detection/BiasPanel';
+import { BIAS_SCALE_INFO, slantBucketLabel } from '@/lib/bias';
+import { OcclusionHeatmap } from '@/components/detection/OcclusionHeatmap';
+import { DetectionFeedbackForm } from '@/components/detection/DetectionFeedbackForm';
+import { EvidenceList } from '@/components/detection/EvidenceList';
+import { describeEvidence, EVIDENCE_CATEGORY_LABELS, EVIDENCE_DIRECTION_LABELS, EVIDENCE_STRENGTH_LABELS } from '@/lib/evidence';
 
 
+const detectionMethodLabels: Record<DetectionMethod, string> = {
+  custom: 'Truth Lens',
+  llm: 'Genkit AI',
+  ensemble: 'Ensemble',
+};
+
+const detectionMethodDescriptions: Record<DetectionMethod, string> = {
+  custom: 'Detected using the Truth Lens model (Render API).',
+  llm: 'Detected using a Genkit-powered Large Language Model.',
+  ensemble: 'Detected by fusing the Truth Lens model and the Genkit LLM verdicts.',
+};
+
+const detectionMethodReportNames: Record<DetectionMethod, string> = {
+  custom: 'Truth Lens Model',
+  llm: 'Genkit AI Model',
+  ensemble: 'Ensemble (Truth Lens Model + Genkit AI Model)',
+};
+
+const ENSEMBLE_COMPONENTS: EnsembleComponent[] = ['custom', 'llm'];
+
+const ensembleComponentNames: Record<EnsembleComponent, string> = {
+  custom: detectionMethodReportNames.custom,
+  llm: detectionMethodReportNames.llm,
+};
+
+// A component's prediction and weight, or why it did not contribute to the verdict.
+function describeEnsembleComponent(ensemble: EnsembleDetails, component: EnsembleComponent): string {
+  const verdict = ensemble[component];
+  if (verdict) {
+    return `${verdict.label} (${verdict.confidence.toFixed(1)}%, weight ${(ensemble.weights[component] * 100).toFixed(0)}%)`;
+  }
+  return ensemble.fallback === component ? 'Unavailable (failed; the verdict comes from the other model alone)' : 'Not run (weight 0%)';
+}
+
+function describeModels(models: DetectionModelInfo[]): string {
+  return models.map(model => `${model.name} (${model.version})`).join(', ');
+}
+
+function headlineAnalysisMarkdown(analysis: HeadlineAnalysis): string {
+  let markdown = `- **Headline Check${analysis.inferred ? ' (AI-suggested title)' : ''}:** ${HEADLINE_VERDICT_LABELS[analysis.verdict]} (clickbait ${analysis.clickbaitScore}/100, sensationalism ${analysis.sensationalismScore}/100)\n`;
+  analysis.patterns.forEach(hit => {
+    markdown += `  - ${HEADLINE_PATTERN_LABELS[hit.pattern]}: "${hit.excerpt}" - ${hit.explanation}\n`;
+  });
+  if (analysis.neutralRewrite !== analysis.headline) {
+    markdown += `  - Neutral rewrite: ${analysis.neutralRewrite}\n`;
+  }
+  return markdown;
+}
+
+function headlineAnalysisHtml(analysis: HeadlineAnalysis): string {
+  let html = `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Headline Check${analysis.inferred ? ' (AI-suggested title)' : ''}:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+  html += `<li><strong>${HEADLINE_VERDICT_LABELS[analysis.verdict]}</strong> (clickbait ${analysis.clickbaitScore}/100, sensationalism ${analysis.sensationalismScore}/100)</li>`;
+  analysis.patterns.forEach(hit => {
+    html += `<li>${HEADLINE_PATTERN_LABELS[hit.pattern]}: "${hit.excerpt}" - ${hit.explanation}</li>`;
+  });
+  if (analysis.neutralRewrite !== analysis.headline) {
+    html += `<li>Neutral rewrite: <em>${analysis.neutralRewrite}</em></li>`;
+  }
+  return html + `</ul>`;
+}
+
+function describeDomainCredibility({ domain, entry, linkCount }: DomainCredibility): string {
+  const rating = entry ? RELIABILITY_LABELS[entry.reliability] : 'not rated';
+  const details = [entry?.ownership && `owner: ${entry.ownership}`, linkCount !== undefined && linkCount > 1 && `${linkCount} links`].filter(Boolean).join(', ');
+  return `${entry?.name ? `${entry.name} (${domain})` : domain}: ${rating}${details ? ` (${details})` : ''}`;
+}
+
+function sourceCredibilityMarkdown(summary: SourceCredibilitySummary): string {
+  let markdown = `- **Source Credibility:**\n`;
+  if (summary.article) {
+    markdown += `  - Published by ${describeDomainCredibility(summary.article)}\n`;
+  }
+  summary.links.forEach(link => {
+    markdown += `  - Links to ${describeDomainCredibility(link)}\n`;
+  });
+  return markdown;
+}
+
+const calibrationMethodNames: Record<CalibrationMethod, string> = {
+  temperature: 'temperature-scaled',
+  platt: 'Platt-scaled',
+};
+
 export interface ArticleCardProps {
-  article: Article;
+  article: GeneratedArticle | DetectedArticle; // Comparisons have their own ComparisonCard
   onDelete?: (articleId: string) => Promise<void>;
+  onFeedbackSaved?: (feedback: DetectionFeedback) => void; // Enables "Was this correct?" feedback on detections
 }
 
-export function ArticleCard({ article, onDelete }: ArticleCardProps) {
+export function ArticleCard({ article, onDelete, onFeedbackSaved }: ArticleCardProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isExportingPdf, setIsExportingPdf] = useState(false);
@@ -106,7 +209,9 @@ ${genArticle.content}
 - **Topic:** ${genArticle.topic}
 - **Category:** ${genArticle.category}
 - **Tone:** ${genArticle.tone}
+${genArticle.promptVersion ? `- **Prompt Version:** ${genArticle.promptVersion}` : ''}
 - **Generated on:** ${formattedTimestamp}
+${genArticle.headlineAnalysis ? headlineAnalysisMarkdown(genArticle.headlineAnalysis).trim() : ''}
 - *Exported from Truth Lens AI*
 `;
     } else if (article.type === 'detected') {
@@ -114,20 +219,17 @@ ${genArticle.content}
       const titleForFile = detArticle.title ? detArticle.title.substring(0,30).replace(/[^a-z0-9]+/g, '-').toLowerCase() : 'analysis';
       filename = `truth-lens-ai-detection-${titleForFile}.md`;
 
-      let justificationMd = "";
-      if (detArticle.justification) {
-        justificationMd = `\n- **AI Justification:**\n`;
-        detArticle.justification.split('\n').forEach(line => {
-          const cleanedLine = line.trim().replace(/^[-*]\s*/, '').trim();
-          if (cleanedLine) {
-            justificationMd += `  - ${cleanedLine}\n`;
-          }
+      let evidenceMd = "";
+      if (detArticle.evidence && detArticle.evidence.length > 0) {
+        evidenceMd = `\n- **AI Evidence:**\n`;
+        detArticle.evidence.forEach(item => {
+          evidenceMd += `  - ${describeEvidence(item)}\n`;
         });
       }
 
       let factChecksMd = "";
       if (detArticle.factChecks && detArticle.factChecks.length > 0) {
-        factChecksMd = "\n- **Fact-Checks (Mock Data):**\n";
+        factChecksMd = "\n- **Fact-Checks:**\n";
         detArticle.factChecks.forEach(fc => {
           factChecksMd += `  - **Source:** ${fc.source}\n`;
           factChecksMd += `    - **Claim Reviewed:** ${fc.claimReviewed.replace(/\n/g, ' ')}\n`;
@@ -138,19 +240,119 @@ ${genArticle.content}
         });
       }
 
+      let ensembleMd = "";
+      if (detArticle.ensemble) {
+        const ensemble = detArticle.ensemble;
+        ensembleMd = `\n- **Ensemble Components:**\n`;
+        ENSEMBLE_COMPONENTS.forEach(component => {
+          ensembleMd += `  - ${ensembleComponentNames[component]}: ${describeEnsembleComponent(ensemble, component)}\n`;
+        });
+      }
+
+      let chunksMd = "";
+      if (detArticle.chunks && detArticle.chunks.length > 1) {
+        chunksMd = `\n- **Section Breakdown (${detArticle.chunks.length} sections):**\n`;
+        detArticle.chunks.forEach(chunk => {
+          chunksMd += `  - Section ${chunk.index + 1}: ${chunk.result.label} (${chunk.result.confidence.toFixed(1)}%, ${Math.round(chunk.weight * 100)}% of text)${chunk.influence >= DRIVER_INFLUENCE ? ' - drove the verdict' : ''}\n`;
+        });
+      }
+
+      let signalsMd = "";
+      if (detArticle.signals) {
+        const signals = detArticle.signals;
+        signalsMd = `\n- **Linguistic Signals:** ${signals.flagged.length > 0 ? signals.flagged.map(key => SIGNAL_LABELS[key]).join(', ') : 'none flagged'}\n`;
+        signalsMd += `  - Reading ease ${signals.fleschReadingEase.toFixed(0)} (grade ${signals.fleschKincaidGrade.toFixed(1)}), ${signals.exclamationDensity.toFixed(2)} exclamation marks and ${signals.hedgingRatio.toFixed(2)} hedges / ${signals.absolutistRatio.toFixed(2)} absolutist words per 100 words\n`;
+        signalsMd += `  - ${(signals.capsDensity * 100).toFixed(1)}% ALL-CAPS words, ${(signals.quoteDensity * 100).toFixed(1)}% quoted text, ${signals.attributionCount} attributions${signals.clickbaitHits.length > 0 ? `, clickbait phrases: ${signals.clickbaitHits.join(', ')}` : ''}\n`;
+      }
+
+      const credibilityMd = detArticle.sourceCredibility && (detArticle.sourceCredibility.article || detArticle.sourceCredibility.links.length > 0)
+        ? sourceCredibilityMarkdown(detArticle.sourceCredibility)
+        : "";
+
+      let claimsMd = "";
+      if (detArticle.claims && detArticle.claims.length > 0) {
+        claimsMd = "\n- **Claims:**\n";
+        detArticle.claims.forEach(claim => {
+          claimsMd += `  - **${claim.verdict.charAt(0).toUpperCase() + claim.verdict.slice(1)}:** ${claim.text.replace(/\n/g, ' ')}\n`;
+          claimsMd += `    - ${claim.reasoning.replace(/\n/g, ' ')}\n`;
+        });
+      }
+
+      let propagandaMd = "";
+      if (detArticle.propaganda) {
+        propagandaMd = `\n- **Propaganda Techniques:**${detArticle.propaganda.length === 0 ? ' none found' : ''}\n`;
+        detArticle.propaganda.forEach(finding => {
+          propagandaMd += `  - **${PROPAGANDA_TECHNIQUE_INFO[finding.technique].label}** (${PROPAGANDA_SEVERITY_LABELS[finding.severity].toLowerCase()} severity): "${finding.excerpt.replace(/\n/g, ' ')}"\n`;
+          propagandaMd += `    - ${finding.explanation.replace(/\n/g, ' ')}\n`;
+        });
+      }
+
+      let biasMd = "";
+      if (detArticle.bias) {
+        const bias = detArticle.bias;
+        if (bias.isPolitical) {
+          biasMd = `\n- **Framing & Slant (${BIAS_SCALE_INFO[bias.scale].label}):** ${slantBucketLabel(bias.scale, bias.bucket)} (slant ${bias.slant}, ${bias.confidence}% confidence) - ${bias.framing}\n`;
+          biasMd += `  - ${bias.explanation.replace(/\n/g, ' ')}\n`;
+          if (bias.sources.length > 0) biasMd += `  - Sources: ${bias.sources.map(source => source.name).join(', ')}${bias.oneSidedSourcing ? ' (one-sided)' : ''}\n`;
+          if (bias.omittedPerspectives.length > 0) biasMd += `  - Omitted perspectives: ${bias.omittedPerspectives.join('; ')}\n`;
+          bias.evidence.forEach(item => {
+            biasMd += `  - "${item.quote.replace(/\n/g, ' ')}" - ${item.observation}\n`;
+          });
+        } else {
+          biasMd = `\n- **Framing & Slant:** not political content\n`;
+        }
+      }
+
+      let occlusionMd = "";
+      if (detArticle.occlusion) {
+        const occlusion = detArticle.occlusion;
+        occlusionMd = `\n- **Most Influential ${occlusion.unit === 'clause' ? 'Clauses' : 'Sentences'} (${occlusion.model.name} v${occlusion.model.version}, ${(occlusion.baselineFakeProbability * 100).toFixed(1)}% Fake uncalibrated):**\n`;
+        occlusion.spans.forEach(span => {
+          occlusionMd += `  - ${span.delta > 0 ? '+' : ''}${(span.delta * 100).toFixed(1)} pts toward ${span.delta > 0 ? 'Fake' : 'Real'}${span.flipsVerdict ? ' (removing it flips the verdict)' : ''}: "${span.text.replace(/\n/g, ' ')}"\n`;
+        });
+        if (occlusion.spans.length === 0) occlusionMd += `  - No single ${occlusion.unit} moved the prediction by more than a point\n`;
+      }
+
+      let sourceMd = "";
+      if (detArticle.source) {
+        const { url, domain, outlet, byline, publishedAt } = detArticle.source;
+        sourceMd = `**Source:** [${outlet || domain}](${url})`;
+        if (byline) sourceMd += ` - ${byline}`;
+        if (publishedAt) sourceMd += ` - Published ${format(new Date(publishedAt), "MMMM d, yyyy")}`;
+      }
+      if (detArticle.document) {
+        sourceMd += `${sourceMd ? '\n\n' : ''}**Uploaded File:** ${detArticle.document.fileName} (${detArticle.document.fileType.toUpperCase()})`;
+      }
+
       markdownContent = `
 # ${detArticle.title || 'Analysis Report: Detected Article'}
-
+${sourceMd ? `\n${sourceMd}\n` : ''}
 **Full Article Text Analyzed:**
 ${detArticle.text}
-
+${detArticle.translation ? `\n**English Translation (used for detection):**\n${detArticle.translation.text}\n` : ''}
 ---
 **Detection Analysis:**
 - **Type:** Detected Article
 - **Prediction:** ${detArticle.result.label} (Confidence: ${detArticle.result.confidence.toFixed(1)}%)
-- **Detection Method:** ${detArticle.detectionMethod === 'custom' ? 'Truth Lens Model' : 'Genkit AI Model'}
-${justificationMd.trim()}
+${detArticle.calibration && detArticle.rawResult ? `- **Uncalibrated Prediction:** ${detArticle.rawResult.label} (${detArticle.rawResult.confidence.toFixed(1)}%, ${calibrationMethodNames[detArticle.calibration.method]})` : ''}
+- **Detection Method:** ${detectionMethodReportNames[detArticle.detectionMethod ?? 'llm']}
+${detArticle.models?.length ? `- **Model Versions:** ${describeModels(detArticle.models)}` : ''}
+${detArticle.promptVersion ? `- **LLM Prompt Version:** ${detArticle.promptVersion}` : ''}
+${detArticle.cachedAt ? `- **Cached Result:** first analyzed ${format(new Date(detArticle.cachedAt), "PPPp")}` : ''}
+${detArticle.language ? `- **Language:** ${detArticle.language.name}${detArticle.translation ? ' (machine-translated to English before detection)' : ''}` : ''}
+${ensembleMd.trim()}
+${chunksMd.trim()}
+${detArticle.aiText ? `- **AI Authorship:** ${AI_TEXT_VERDICT_LABELS[detArticle.aiText.verdict]} (${detArticle.aiText.likelihood}%; style features ${detArticle.aiText.stylometricScore}%, AI judge ${detArticle.aiText.judgeScore}%)` : ''}
+${credibilityMd.trim()}
+${detArticle.headlineAnalysis ? headlineAnalysisMarkdown(detArticle.headlineAnalysis).trim() : ''}
+${signalsMd.trim()}
+${occlusionMd.trim()}
+${evidenceMd.trim()}
+${claimsMd.trim()}
+${propagandaMd.trim()}
+${biasMd.trim()}
 ${factChecksMd.trim()}
+${detArticle.feedback ? `- **Your Feedback:** ${detArticle.feedback.isCorrect ? 'Correct' : `Incorrect${detArticle.feedback.correctedLabel ? ` (actually ${detArticle.feedback.correctedLabel})` : ''}`}${detArticle.feedback.comment ? ` - ${detArticle.feedback.comment.replace(/\n/g, ' ')}` : ''}` : ''}
 - **Analyzed on:** ${formattedTimestamp}
 - *Exported from Truth Lens AI*
 `;
@@ -213,7 +415,11 @@ ${factChecksMd.trim()}
         <p style="font-size: 11px;"><strong>Topic:</strong> ${genArticle.topic}</p>
         <p style="font-size: 11px;"><strong>Category:</strong> ${genArticle.category}</p>
         <p style="font-size: 11px;"><strong>Tone:</strong> ${genArticle.tone}</p>
+        ${genArticle.promptVersion ? `<p style="font-size: 11px;"><strong>Prompt Version:</strong> ${genArticle.promptVersion}</p>` : ''}
       `;
+      if (genArticle.headlineAnalysis) {
+        htmlContent += headlineAnalysisHtml(genArticle.headlineAnalysis);
+      }
     } else if (article.type === 'detected') {
       const detArticle = articleData as DetectedArticle;
       const titleForFile = detArticle.title ? detArticle.title.substring(0,30).replace(/[^a-z0-9]+/g, '-').toLowerCase() : 'analysis';
@@ -221,23 +427,112 @@ ${factChecksMd.trim()}
       htmlContent = `
         <h1 style="font-size: 24px; margin-bottom: 10px; color: #1a73e8;">${detArticle.title || 'Analysis Report'}</h1>
         <p style="font-size: 10px; color: #777; margin-bottom: 15px;">Analyzed on: ${formattedTimestamp} by Truth Lens AI</p>
+        ${detArticle.source ? `<p style="font-size: 11px; margin-bottom: 15px;"><strong>Source:</strong> <a href="${detArticle.source.url}" style="color: #1a73e8; text-decoration: none;">${detArticle.source.outlet || detArticle.source.domain}</a>${detArticle.source.byline ? ` - ${detArticle.source.byline}` : ''}${detArticle.source.publishedAt ? ` - Published ${format(new Date(detArticle.source.publishedAt), "MMMM d, yyyy")}` : ''}</p>` : ''}
+        ${detArticle.language ? `<p style="font-size: 11px; margin-bottom: 15px;"><strong>Language:</strong> ${detArticle.language.name}${detArticle.translation ? ' (machine-translated to English before detection)' : ''}</p>` : ''}
+        ${detArticle.document ? `<p style="font-size: 11px; margin-bottom: 15px;"><strong>Uploaded File:</strong> ${detArticle.document.fileName} (${detArticle.document.fileType.toUpperCase()})</p>` : ''}
         <h2 style="font-size: 16px; margin-top: 20px; margin-bottom: 5px; border-bottom: 1px solid #eee; padding-bottom: 5px;">Original Article Text:</h2>
         <div style="white-space: pre-wrap; line-height: 1.6; margin-bottom: 20px; padding: 10px; border: 1px solid #f0f0f0; background-color: #f9f9f9;">${detArticle.text.replace(/\n/g, '<br />')}</div>
+        ${detArticle.translation ? `<h2 style="font-size: 16px; margin-top: 20px; margin-bottom: 5px; border-bottom: 1px solid #eee; padding-bottom: 5px;">English Translation (used for detection):</h2>
+        <div style="white-space: pre-wrap; line-height: 1.6; margin-bottom: 20px; padding: 10px; border: 1px solid #f0f0f0; background-color: #f9f9f9;">${detArticle.translation.text.replace(/\n/g, '<br />')}</div>` : ''}
         <hr style="margin: 20px 0; border-top: 1px solid #ccc;"/>
         <h2 style="font-size: 16px; margin-top: 20px; margin-bottom: 10px;">Detection Analysis:</h2>
         <p style="font-size: 12px;"><strong>Prediction:</strong> <span style="font-weight: bold; color: ${detArticle.result.label === 'Fake' ? '#d93025' : '#1e8e3e'};">${detArticle.result.label}</span> (Confidence: ${detArticle.result.confidence.toFixed(1)}%)</p>
-        <p style="font-size: 12px;"><strong>Detection Method:</strong> ${detArticle.detectionMethod === 'custom' ? 'Truth Lens Model' : 'Genkit AI Model'}</p>
+        ${detArticle.calibration && detArticle.rawResult ? `<p style="font-size: 12px;"><strong>Uncalibrated Prediction:</strong> ${detArticle.rawResult.label} (${detArticle.rawResult.confidence.toFixed(1)}%, ${calibrationMethodNames[detArticle.calibration.method]})</p>` : ''}
+        <p style="font-size: 12px;"><strong>Detection Method:</strong> ${detectionMethodReportNames[detArticle.detectionMethod ?? 'llm']}</p>
+        ${detArticle.models?.length ? `<p style="font-size: 12px;"><strong>Model Versions:</strong> ${describeModels(detArticle.models)}</p>` : ''}
+        ${detArticle.promptVersion ? `<p style="font-size: 12px;"><strong>LLM Prompt Version:</strong> ${detArticle.promptVersion}</p>` : ''}
       `;
-      if (detArticle.justification) {
-        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">AI Justification:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
-        detArticle.justification.split('\n').forEach(line => {
-          const cleanedLine = line.trim().replace(/^[-*]\s*/, '').trim();
-          if (cleanedLine) htmlContent += `<li>${cleanedLine}</li>`;
+      if (detArticle.ensemble) {
+        const ensemble = detArticle.ensemble;
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Ensemble Components:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        ENSEMBLE_COMPONENTS.forEach(component => {
+          htmlContent += `<li>${ensembleComponentNames[component]}: ${describeEnsembleComponent(ensemble, component)}</li>`;
+        });
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.evidence && detArticle.evidence.length > 0) {
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">AI Evidence:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        detArticle.evidence.forEach(item => {
+          htmlContent += `<li><span style="color: ${item.direction === 'for' ? '#1e8e3e' : '#d93025'};">${EVIDENCE_DIRECTION_LABELS[item.direction]}</span> (${EVIDENCE_STRENGTH_LABELS[item.strength].toLowerCase()}, ${EVIDENCE_CATEGORY_LABELS[item.category].toLowerCase()}): ${item.statement}`;
+          if (item.quote) htmlContent += `<br/><em>&ldquo;${item.quote.text}&rdquo;</em>`;
+          htmlContent += `</li>`;
+        });
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.chunks && detArticle.chunks.length > 1) {
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Section Breakdown:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        detArticle.chunks.forEach(chunk => {
+          htmlContent += `<li>Section ${chunk.index + 1}: <strong>${chunk.result.label}</strong> (${chunk.result.confidence.toFixed(1)}%, ${Math.round(chunk.weight * 100)}% of text)${chunk.influence >= DRIVER_INFLUENCE ? ' - <em>drove the verdict</em>' : ''}</li>`;
+        });
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.aiText) {
+        const aiText = detArticle.aiText;
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">AI Authorship:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        htmlContent += `<li><strong>${AI_TEXT_VERDICT_LABELS[aiText.verdict]}</strong> (${aiText.likelihood}%; style features ${aiText.stylometricScore}%, AI judge ${aiText.judgeScore}%)</li>`;
+        htmlContent += `<li>${aiText.reasoning}</li>`;
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.sourceCredibility && (detArticle.sourceCredibility.article || detArticle.sourceCredibility.links.length > 0)) {
+        const { article: articleDomain, links } = detArticle.sourceCredibility;
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Source Credibility:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        if (articleDomain) htmlContent += `<li>Published by ${describeDomainCredibility(articleDomain)}</li>`;
+        links.forEach(link => {
+          htmlContent += `<li>Links to ${describeDomainCredibility(link)}</li>`;
+        });
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.headlineAnalysis) {
+        htmlContent += headlineAnalysisHtml(detArticle.headlineAnalysis);
+      }
+      if (detArticle.signals) {
+        const signals = detArticle.signals;
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Linguistic Signals:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        htmlContent += `<li>Flagged: ${signals.flagged.length > 0 ? signals.flagged.map(key => SIGNAL_LABELS[key]).join(', ') : 'none'}</li>`;
+        htmlContent += `<li>Reading ease ${signals.fleschReadingEase.toFixed(0)} (grade ${signals.fleschKincaidGrade.toFixed(1)}); ${signals.exclamationDensity.toFixed(2)} exclamation marks, ${signals.hedgingRatio.toFixed(2)} hedges and ${signals.absolutistRatio.toFixed(2)} absolutist words per 100 words</li>`;
+        htmlContent += `<li>${(signals.capsDensity * 100).toFixed(1)}% ALL-CAPS words, ${(signals.quoteDensity * 100).toFixed(1)}% quoted text, ${signals.attributionCount} attributions${signals.clickbaitHits.length > 0 ? `; clickbait phrases: ${signals.clickbaitHits.join(', ')}` : ''}</li>`;
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.claims && detArticle.claims.length > 0) {
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Claims:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        detArticle.claims.forEach(claim => {
+          const verdictColor = claim.verdict === 'refuted' ? '#d93025' : claim.verdict === 'supported' ? '#1e8e3e' : '#777';
+          htmlContent += `<li><strong style="color: ${verdictColor};">${claim.verdict.charAt(0).toUpperCase() + claim.verdict.slice(1)}:</strong> ${claim.text}<br /><span style="color: #555;">${claim.reasoning}</span></li>`;
+        });
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.propaganda) {
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Propaganda Techniques:</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        if (detArticle.propaganda.length === 0) htmlContent += `<li>None found</li>`;
+        detArticle.propaganda.forEach(finding => {
+          const severityColor = finding.severity === 'high' ? '#d93025' : finding.severity === 'medium' ? '#e37400' : '#777';
+          htmlContent += `<li><strong style="color: ${severityColor};">${PROPAGANDA_TECHNIQUE_INFO[finding.technique].label}</strong> (${PROPAGANDA_SEVERITY_LABELS[finding.severity].toLowerCase()} severity): &ldquo;${finding.excerpt}&rdquo;<br /><span style="color: #555;">${finding.explanation}</span></li>`;
+        });
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.bias?.isPolitical) {
+        const bias = detArticle.bias;
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Framing &amp; Slant (${BIAS_SCALE_INFO[bias.scale].label}):</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        htmlContent += `<li><strong>${slantBucketLabel(bias.scale, bias.bucket)}</strong> (slant ${bias.slant}, ${bias.confidence}% confidence) - ${bias.framing}</li>`;
+        htmlContent += `<li>${bias.explanation}</li>`;
+        if (bias.sources.length > 0) htmlContent += `<li>Sources: ${bias.sources.map(source => source.name).join(', ')}${bias.oneSidedSourcing ? ' <strong>(one-sided)</strong>' : ''}</li>`;
+        if (bias.omittedPerspectives.length > 0) htmlContent += `<li>Omitted perspectives: ${bias.omittedPerspectives.join('; ')}</li>`;
+        bias.evidence.forEach(item => {
+          htmlContent += `<li>&ldquo;${item.quote}&rdquo;<br /><span style="color: #555;">${item.observation}</span></li>`;
+        });
+        htmlContent += `</ul>`;
+      }
+      if (detArticle.occlusion && detArticle.occlusion.spans.length > 0) {
+        const occlusion = detArticle.occlusion;
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Most Influential ${occlusion.unit === 'clause' ? 'Clauses' : 'Sentences'} (${occlusion.model.name} v${occlusion.model.version}):</h3><ul style="list-style-type: disc; padding-left: 20px; font-size: 12px; line-height: 1.5;">`;
+        occlusion.spans.forEach(span => {
+          const color = span.delta > 0 ? '#dc2626' : '#16a34a';
+          htmlContent += `<li><strong style="color: ${color};">${span.delta > 0 ? '+' : ''}${(span.delta * 100).toFixed(1)} pts toward ${span.delta > 0 ? 'Fake' : 'Real'}</strong>${span.flipsVerdict ? ' (flips the verdict)' : ''}: &ldquo;${span.text}&rdquo;</li>`;
         });
         htmlContent += `</ul>`;
       }
       if (detArticle.factChecks && detArticle.factChecks.length > 0) {
-        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Fact-Checks (Mock Data):</h3>`;
+        htmlContent += `<h3 style="font-size: 14px; margin-top: 15px; margin-bottom: 5px;">Fact-Checks:</h3>`;
         detArticle.factChecks.forEach(fc => {
           htmlContent += `
             <div style="font-size: 12px; border: 1px solid #e0e0e0; padding: 8px; margin-bottom: 8px; border-radius: 4px;">
@@ -333,8 +628,27 @@ ${factChecksMd.trim()}
   const detectedArticleData = article.type === 'detected' ? article as DetectedArticle : null;
   const resultLabel = detectedArticleData?.result.label;
   const confidenceScore = detectedArticleData ? (detectedArticleData.result.confidence || 0).toFixed(1) : '';
-  const justification = detectedArticleData?.justification;
+  const rawResult = detectedArticleData?.calibration ? detectedArticleData.rawResult : undefined;
+  const evidence = detectedArticleData?.evidence;
   const factChecks = detectedArticleData?.factChecks;
+  const ensemble = detectedArticleData?.ensemble;
+  const claims = detectedArticleData?.claims;
+  const chunks = detectedArticleData?.chunks;
+  const language = detectedArticleData?.language;
+  const translation = detectedArticleData?.translation;
+  // Highlights and section offsets refer to the translation when the article was translated before detection.
+  const analyzedText = translation?.text ?? fullText;
+  const highlights = detectedArticleData?.highlights;
+  const source = detectedArticleData?.source;
+  const uploadedDocument = detectedArticleData?.document;
+  const signals = detectedArticleData?.signals;
+  const headlineAnalysis = articleData.headlineAnalysis;
+  const sourceCredibility = detectedArticleData?.sourceCredibility;
+  const aiText = detectedArticleData?.aiText;
+  const propaganda = detectedArticleData?.propaganda;
+  const bias = detectedArticleData?.bias;
+  const occlusion = detectedArticleData?.occlusion;
+  const hasCredibilityDetails = Boolean(sourceCredibility && (sourceCredibility.article || sourceCredibility.links.length > 0));
 
   const cardTitleText = isGenerated
     ? (articleData as GeneratedArticle).title
@@ -423,14 +737,89 @@ ${factChecksMd.trim()}
                       </Tooltip>
                   </TooltipProvider>
               )}
+              {aiText && (
+                  <TooltipProvider delayDuration={0}>
+                      <Tooltip>
+                          <TooltipTrigger asChild>
+                              <span><AiTextBadge analysis={aiText} /></span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                              <p>{AI_TEXT_VERDICT_LABELS[aiText.verdict]}. This is about who wrote the text, not whether it is true.</p>
+                          </TooltipContent>
+                      </Tooltip>
+                  </TooltipProvider>
+              )}
+              {bias?.isPolitical && (
+                  <TooltipProvider delayDuration={0}>
+                      <Tooltip>
+                          <TooltipTrigger asChild>
+                              <span><BiasBadge analysis={bias} /></span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                              <p>Framing on the {BIAS_SCALE_INFO[bias.scale].label} scale{bias.oneSidedSourcing ? '; sources are one-sided' : ''}. {bias.framing}</p>
+                          </TooltipContent>
+                      </Tooltip>
+                  </TooltipProvider>
+              )}
+              {detectedArticleData?.cachedAt && (
+                  <TooltipProvider delayDuration={0}>
+                      <Tooltip>
+                          <TooltipTrigger asChild>
+                              <Badge variant="outline" className="whitespace-nowrap">
+                                  <History className="mr-1 h-3 w-3" /> Cached
+                              </Badge>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                              <p>Served from the result cache. First analyzed {format(new Date(detectedArticleData.cachedAt), "MMM d, yyyy 'at' h:mm a")}.</p>
+                          </TooltipContent>
+                      </Tooltip>
+                  </TooltipProvider>
+              )}
+              {headlineAnalysis && headlineAnalysis.verdict !== 'neutral' && (
+                  <TooltipProvider delayDuration={0}>
+                      <Tooltip>
+                          <TooltipTrigger asChild>
+                              <span><HeadlineVerdictBadge analysis={headlineAnalysis} className="whitespace-nowrap" /></span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                              <p>Neutral rewrite: {headlineAnalysis.neutralRewrite}</p>
+                          </TooltipContent>
+                      </Tooltip>
+                  </TooltipProvider>
+              )}
               {article.id && onDelete && user?.uid && <ActionMenu />}
             </div>
         </div>
         {!isGenerated && detectedArticleData && (
           <CardDescription className="mt-1">
             Confidence: {confidenceScore}%
+            {rawResult && <span className="text-xs"> (calibrated; raw {rawResult.label} {rawResult.confidence.toFixed(1)}%)</span>}
           </CardDescription>
         )}
+        {!isGenerated && source && (
+          <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4 gap-y-1 mt-1">
+            <a href={source.url} target="_blank" rel="noopener noreferrer" className="flex items-center hover:text-primary hover:underline min-w-0">
+              <Globe className="mr-1 h-3 w-3 shrink-0" /> <span className="truncate">{source.outlet || source.domain}</span>
+            </a>
+            {sourceCredibility?.article?.entry && (
+              <ReliabilityBadge reliability={sourceCredibility.article.entry.reliability} className="px-1.5 py-0 text-[10px]" />
+            )}
+            {source.publishedAt && (
+              <span className="flex items-center"><CalendarDays className="mr-1 h-3 w-3" /> Published {format(new Date(source.publishedAt), "MMM d, yyyy")}</span>
+            )}
+          </div>
+        )}
+        {!isGenerated && language && language.code !== 'en' && language.code !== 'und' && (
+          <div className="text-xs text-muted-foreground flex items-center mt-1">
+            <Languages className="mr-1 h-3 w-3" /> {language.name}{translation ? ' (translated to English for detection)' : ''}
+          </div>
+        )}
+        {!isGenerated && uploadedDocument && (
+          <div className="text-xs text-muted-foreground flex items-center mt-1 min-w-0">
+            <Paperclip className="mr-1 h-3 w-3 shrink-0" /> <span className="truncate">{uploadedDocument.fileName}</span>
+            <Badge variant="outline" className="ml-2 px-1.5 py-0 text-[10px] uppercase">{uploadedDocument.fileType}</Badge>
+          </div>
+        )}
         {isGenerated && (
           <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4 gap-y-1 mt-1">
             <span className="flex items-center"><Tag className="mr-1 h-3 w-3" /> Topic: {(articleData as GeneratedArticle).topic}</span>
@@ -447,17 +836,17 @@ ${factChecksMd.trim()}
             </p>
         </div>
 
-        {!isGenerated && justification && (
+        {!isGenerated && propaganda && propaganda.length > 0 && (
+          <PropagandaBadges findings={propaganda} />
+        )}
+
+        {!isGenerated && evidence && evidence.length > 0 && (
           <>
             <Separator />
             <div>
-                <h4 className="font-semibold text-sm mb-1 flex items-center"><FileText className="mr-2 h-4 w-4 text-primary"/>AI Justification:</h4>
-                <ul className="list-disc list-inside text-xs space-y-1 pl-2 text-muted-foreground line-clamp-3">
-                {justification.split('\n').map((item, index) => {
-                    const cleanedItem = item.trim().replace(/^[-*]\s*/, '');
-                    return cleanedItem.length > 0 && <li key={index}>{cleanedItem}</li>;
-                })}
-                </ul>
+                <h4 className="font-semibold text-sm mb-1 flex items-center"><FileText className="mr-2 h-4 w-4 text-primary"/>AI Evidence:</h4>
+                <EvidenceList evidence={evidence.slice(0, 3)} compact className="pl-2" />
+                {evidence.length > 3 && <p className="text-xs text-muted-foreground pl-2 mt-1">+{evidence.length - 3} more in the full report</p>}
             </div>
           </>
         )}
@@ -476,18 +865,16 @@ ${factChecksMd.trim()}
                   <div className="flex items-center cursor-default">
                     {detectedArticleData.detectionMethod === 'custom' ? (
                       <Database className="mr-1 h-3 w-3 text-primary/80 shrink-0" />
+                    ) : detectedArticleData.detectionMethod === 'ensemble' ? (
+                      <Layers className="mr-1 h-3 w-3 text-primary/80 shrink-0" />
                     ) : (
                       <Brain className="mr-1 h-3 w-3 text-primary/80 shrink-0" />
                     )}
-                    <span className="truncate">Model: {detectedArticleData.detectionMethod === 'custom' ? 'Truth Lens' : 'Genkit AI'}</span>
+                    <span className="truncate">Model: {detectionMethodLabels[detectedArticleData.detectionMethod]}</span>
                   </div>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>
-                    {detectedArticleData.detectionMethod === 'custom'
-                      ? 'Detected using the Truth Lens model (Render API).'
-                      : 'Detected using a Genkit-powered Large Language Model.'}
-                  </p>
+                  <p>{detectionMethodDescriptions[detectedArticleData.detectionMethod]}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -537,37 +924,189 @@ ${factChecksMd.trim()}
                             <div><span className="font-semibold text-primary">Topic:</span> {(articleData as GeneratedArticle).topic}</div>
                             <div><span className="font-semibold text-primary">Category:</span> {(articleData as GeneratedArticle).category}</div>
                             <div><span className="font-semibold text-primary">Tone:</span> {(articleData as GeneratedArticle).tone}</div>
+                            {(articleData as GeneratedArticle).promptVersion && (
+                              <div className="sm:col-span-3 text-xs text-muted-foreground">
+                                <span className="font-semibold">Prompt version:</span> {(articleData as GeneratedArticle).promptVersion}
+                              </div>
+                            )}
                         </div>
                     )}
 
                     {!isGenerated && detectedArticleData && (
                          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm mb-4 p-3 border rounded-md bg-secondary/20">
                             <div><span className="font-semibold text-primary">Prediction:</span> <span className={cn(resultLabel === 'Fake' ? 'text-destructive' : 'text-green-600', "font-bold")}>{resultLabel}</span></div>
-                            <div><span className="font-semibold text-primary">Confidence:</span> {confidenceScore}%</div>
-                            <div><span className="font-semibold text-primary">Model:</span> {detectedArticleData.detectionMethod === 'custom' ? 'Truth Lens' : 'Genkit AI'}</div>
+                            <div>
+                              <span className="font-semibold text-primary">Confidence:</span> {confidenceScore}%
+                              {rawResult && detectedArticleData.calibration && (
+                                <span className="block text-xs text-muted-foreground">Raw: {rawResult.label} {rawResult.confidence.toFixed(1)}% ({calibrationMethodNames[detectedArticleData.calibration.method]})</span>
+                              )}
+                            </div>
+                            <div><span className="font-semibold text-primary">Model:</span> {detectionMethodLabels[detectedArticleData.detectionMethod ?? 'llm']}</div>
+                            {detectedArticleData.models && detectedArticleData.models.length > 0 && (
+                              <div className="sm:col-span-3 text-xs text-muted-foreground">
+                                <span className="font-semibold">Model versions:</span> {describeModels(detectedArticleData.models)}
+                              </div>
+                            )}
+                            {detectedArticleData.promptVersion && (
+                              <div className="sm:col-span-3 text-xs text-muted-foreground">
+                                <span className="font-semibold">LLM prompt version:</span> {detectedArticleData.promptVersion}
+                              </div>
+                            )}
+                        </div>
+                    )}
+
+                    {!isGenerated && ensemble && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Ensemble Components:</h4>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                {([
+                                  { component: 'custom', name: 'Truth Lens Model', icon: Database },
+                                  { component: 'llm', name: 'Genkit AI Model', icon: Brain },
+                                ] as const).map(({ component, name, icon: Icon }) => {
+                                    const verdict = ensemble[component];
+                                    return (
+                                        <div key={name} className="p-3 border rounded-md bg-muted/50 text-sm">
+                                            <p className="font-medium flex items-center"><Icon className="mr-2 h-4 w-4 text-primary" />{name}</p>
+                                            {verdict ? (
+                                                <p className="text-xs text-muted-foreground mt-1">
+                                                    Prediction: <span className={cn(verdict.label === 'Fake' ? 'text-destructive' : 'text-green-600', "font-semibold")}>{verdict.label}</span>
+                                                    {' '}({verdict.confidence.toFixed(1)}%) - Weight: {(ensemble.weights[component] * 100).toFixed(0)}%
+                                                </p>
+                                            ) : (
+                                                <p className="text-xs text-muted-foreground mt-1">{describeEnsembleComponent(ensemble, component)}</p>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            {ensemble.fallback && (
+                                <p className="text-xs text-muted-foreground mt-2 flex items-center">
+                                    <AlertTriangle className="mr-1 h-3 w-3 text-destructive" /> The {ensembleComponentNames[ensemble.fallback]} could not be reached, so this verdict comes from the other model alone.
+                                </p>
+                            )}
+                            {ensemble.agreement === false && (
+                                <p className="text-xs text-muted-foreground mt-2 flex items-center">
+                                    <AlertTriangle className="mr-1 h-3 w-3 text-destructive" /> The component models disagree on this article; treat the fused verdict with extra caution.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {!isGenerated && source && (
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm mb-4 p-3 border rounded-md bg-secondary/20">
+                            <div className="min-w-0">
+                                <span className="font-semibold text-primary">Source:</span>{' '}
+                                <a href={source.url} target="_blank" rel="noopener noreferrer" className="hover:underline inline-flex items-center break-all">
+                                    {source.outlet || source.domain} <ExternalLink className="ml-1 h-3 w-3 shrink-0" />
+                                </a>
+                            </div>
+                            <div className="flex items-center"><User className="mr-1 h-3 w-3 text-primary" /><span className="font-semibold text-primary mr-1">Byline:</span> {source.byline || 'Unknown'}</div>
+                            <div><span className="font-semibold text-primary">Published:</span> {source.publishedAt ? format(new Date(source.publishedAt), "MMM d, yyyy") : 'Unknown'}</div>
+                        </div>
+                    )}
+
+                    {!isGenerated && uploadedDocument && (
+                        <div className="flex items-center text-sm mb-4 p-3 border rounded-md bg-secondary/20 min-w-0">
+                            <Paperclip className="mr-1 h-3 w-3 text-primary shrink-0" />
+                            <span className="font-semibold text-primary mr-1">Uploaded File:</span>
+                            <span className="break-all">{uploadedDocument.fileName}</span>
+                            <Badge variant="outline" className="ml-2 uppercase">{uploadedDocument.fileType}</Badge>
                         </div>
                     )}
 
                     <div>
-                        <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Full Article Text:</h4>
-                        <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{fullText}</p>
+                        <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Full Article Text{language && translation ? ` (${language.name})` : ''}:</h4>
+                        {!isGenerated && !translation && highlights && highlights.length > 0 ? (
+                            <HighlightedText text={fullText} highlights={highlights} />
+                        ) : (
+                            <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{fullText}</p>
+                        )}
                     </div>
 
-                    {!isGenerated && justification && (
+                    {!isGenerated && translation && (
                         <div className="mt-4">
-                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">AI Justification:</h4>
-                            <ul className="list-disc list-inside text-sm space-y-1 pl-3 text-muted-foreground whitespace-pre-wrap leading-relaxed">
-                            {justification.split('\n').map((item, index) => {
-                                const cleanedItem = item.trim().replace(/^[-*]\s*/, '');
-                                return cleanedItem.length > 0 && <li key={index}>{cleanedItem}</li>;
-                            })}
-                            </ul>
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">English Translation (used for detection):</h4>
+                            {highlights && highlights.length > 0 ? (
+                                <HighlightedText text={translation.text} highlights={highlights} />
+                            ) : (
+                                <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">{translation.text}</p>
+                            )}
+                        </div>
+                    )}
+
+                    {!isGenerated && evidence && evidence.length > 0 && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">AI Evidence:</h4>
+                            <EvidenceList evidence={evidence} className="pl-3" />
+                        </div>
+                    )}
+
+                    {!isGenerated && chunks && chunks.length > 1 && detectedArticleData && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Section Breakdown:</h4>
+                            <ChunkBreakdown text={analyzedText} chunks={chunks} overall={detectedArticleData.result} />
+                        </div>
+                    )}
+
+                    {!isGenerated && aiText && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">AI Authorship:</h4>
+                            <AiTextPanel analysis={aiText} />
+                        </div>
+                    )}
+
+                    {!isGenerated && sourceCredibility && hasCredibilityDetails && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Source Credibility:</h4>
+                            <SourceCredibilityPanel summary={sourceCredibility} />
+                        </div>
+                    )}
+
+                    {headlineAnalysis && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Headline Check:</h4>
+                            <HeadlineAnalysisPanel analysis={headlineAnalysis} />
+                        </div>
+                    )}
+
+                    {!isGenerated && signals && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Linguistic Signals:</h4>
+                            <SignalsPanel signals={signals} />
+                        </div>
+                    )}
+
+                    {!isGenerated && claims && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Claims:</h4>
+                            <ClaimsList claims={claims} />
+                        </div>
+                    )}
+
+                    {!isGenerated && propaganda && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Propaganda Techniques:</h4>
+                            <PropagandaList findings={propaganda} />
+                        </div>
+                    )}
+
+                    {!isGenerated && bias && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Framing &amp; Slant:</h4>
+                            <BiasPanel analysis={bias} />
+                        </div>
+                    )}
+
+                    {!isGenerated && occlusion && detectedArticleData && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">What Drove the Truth Lens Verdict:</h4>
+                            <OcclusionHeatmap text={detectedArticleData.translation?.text ?? detectedArticleData.text} explanation={occlusion} />
                         </div>
                     )}
 
                     {!isGenerated && factChecks && factChecks.length > 0 && (
                         <div className="mt-4">
-                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">External Fact-Checks (Mock Data):</h4>
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">External Fact-Checks:</h4>
                             <div className="space-y-3">
                             {factChecks.map((fc, index) => (
                                 <div key={index} className="p-3 border rounded-md bg-muted/50">
@@ -583,6 +1122,13 @@ ${factChecksMd.trim()}
                             </div>
                         </div>
                     )}
+
+                    {!isGenerated && detectedArticleData && onFeedbackSaved && user?.uid && (
+                        <div className="mt-4">
+                            <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">Your Feedback:</h4>
+                            <DetectionFeedbackForm key={detectedArticleData.feedback?.submittedAt ?? 'none'} detection={detectedArticleData} onFeedbackSaved={onFeedbackSaved} />
+                        </div>
+                    )}
                 </div>
             </ScrollArea>
 
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button, buttonVariants } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteArticle as deleteArticleFromDb } from '@/lib/firebase';
+import { ComparisonPanel, ComparisonVerdictBadge } from '@/components/detection/ComparisonPanel';
+import { CLAIM_ALIGNMENT_LABELS, COMPARISON_VERDICT_LABELS, countAlignments } from '@/lib/comparison';
+import type { ComparedArticle } from '@/types';
+import { GitCompare, Clock, Download, Trash2, MoreVertical, Maximize, Loader2 } from 'lucide-react';
+
+function comparisonMarkdown(comparison: ComparedArticle): string {
+  const formattedTimestamp = comparison.timestamp ? format(new Date(comparison.timestamp), "MMMM d, yyyy, h:mm a") : 'N/A';
+  let claimsMd = "";
+  comparison.alignedClaims.forEach(claim => {
+    claimsMd += `- **${CLAIM_ALIGNMENT_LABELS[claim.status]}${claim.status !== 'consistent' && claim.importance === 'major' ? ' (major)' : ''}:** ${claim.explanation}\n`;
+    if (claim.subjectClaim) claimsMd += `  - ${comparison.subject.label}: ${claim.subjectClaim}\n`;
+    if (claim.referenceClaim) claimsMd += `  - ${comparison.reference.label}: ${claim.referenceClaim}\n`;
+  });
+  return `
+# ${comparison.title}
+
+**Consistency:** ${COMPARISON_VERDICT_LABELS[comparison.verdict]} (${comparison.consistencyScore}/100)
+
+${comparison.summary}
+
+## Aligned Claims
+${claimsMd || 'No factual claims could be matched between the two texts.'}
+
+---
+## ${comparison.subject.label}
+${comparison.subject.text}
+
+## ${comparison.reference.label}
+${comparison.reference.text}
+
+---
+- **Compared on:** ${formattedTimestamp}
+- *Exported from Truth Lens AI*
+`.trim().replace(/\n\s*\n\s*\n/g, '\n\n');
+}
+
+interface ComparisonCardProps {
+  comparison: ComparedArticle;
+  onDelete?: (articleId: string) => Promise<void>;
+}
+
+/** Saved-history card for a two-article comparison; the counterpart of ArticleCard for the 'compared' type. */
+export function ComparisonCard({ comparison, onDelete }: ComparisonCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDeleteAlertOpen, setIsDeleteAlertOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+  const counts = countAlignments(comparison.alignedClaims);
+
+  const handleDeleteConfirm = async () => {
+    if (!user?.uid || !comparison.id || !onDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteArticleFromDb(user.uid, comparison.id);
+      await onDelete(comparison.id);
+      toast({ title: "Comparison Removed", description: "The comparison has been removed from your history." });
+    } catch (error: any) {
+      toast({ title: "Removal Failed", description: error.message || "Could not remove the comparison.", variant: "destructive" });
+    } finally {
+      setIsDeleting(false);
+      setIsDeleteAlertOpen(false);
+    }
+  };
+
+  const handleExportMarkdown = () => {
+    const safeTitle = comparison.title.substring(0, 30).replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'comparison';
+    const filename = `truth-lens-ai-comparison-${safeTitle}.md`;
+    const blob = new Blob([comparisonMarkdown(comparison)], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast({ title: "Export Successful", description: `${filename} has been downloaded.` });
+  };
+
+  return (
+    <>
+    <Card className="shadow-md flex flex-col">
+      <CardHeader>
+        <div className="flex items-start justify-between w-full gap-2">
+          <CardTitle className="font-headline text-xl flex items-center flex-grow min-w-0">
+            <GitCompare className="mr-2 h-6 w-6 text-primary shrink-0" />
+            <span className="truncate">{comparison.title}</span>
+          </CardTitle>
+          <div className="flex items-center space-x-1 shrink-0">
+            <ComparisonVerdictBadge comparison={comparison} />
+            {comparison.id && onDelete && user?.uid && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+                    <MoreVertical className="h-4 w-4" />
+                    <span className="sr-only">Comparison Options</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={handleExportMarkdown} disabled={isDeleting}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export Markdown
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => setIsDeleteAlertOpen(true)}
+                    disabled={isDeleting}
+                    className="text-destructive focus:text-destructive focus:bg-destructive/10"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove from Saved
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        </div>
+        <CardDescription className="mt-1 truncate">
+          {comparison.subject.label} vs. {comparison.reference.label}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex-grow space-y-2">
+        <p className="text-sm line-clamp-4">{comparison.summary}</p>
+        <p className="text-xs text-muted-foreground">
+          {counts.contradiction} contradictions, {counts.omission} omissions, {counts.addition} added details, {counts.consistent} consistent claims
+        </p>
+      </CardContent>
+      <CardFooter className="flex justify-between items-center border-t pt-3 pb-3 gap-2">
+        <div className="flex items-center text-xs text-muted-foreground">
+          <Clock className="mr-1 h-3 w-3" />
+          {comparison.timestamp ? format(new Date(comparison.timestamp), "MMM d, yy, h:mm a") : 'Processing date...'}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setIsDetailModalOpen(true)} className="ml-auto">
+          <Maximize className="mr-2 h-3 w-3" /> View Comparison
+        </Button>
+      </CardFooter>
+    </Card>
+
+    <Dialog open={isDetailModalOpen} onOpenChange={setIsDetailModalOpen}>
+      <DialogContent className="max-w-4xl w-[90vw] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-headline flex items-center">
+            <GitCompare className="mr-3 h-7 w-7 text-primary shrink-0" />
+            {comparison.title}
+          </DialogTitle>
+          <DialogDescription className="text-xs text-muted-foreground pt-1">
+            Article Comparison - {comparison.timestamp ? format(new Date(comparison.timestamp), "MMMM d, yyyy, h:mm a") : 'Timestamp not available'}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[calc(90vh-12rem)] pr-5">
+          <div className="space-y-4 py-4">
+            <ComparisonPanel comparison={comparison} />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {[comparison.subject, comparison.reference].map((text, index) => (
+                <div key={index}>
+                  <h4 className="font-semibold text-lg mb-2 text-primary border-b pb-1">{text.label}:</h4>
+                  <p className="text-sm whitespace-pre-wrap">{text.text}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </ScrollArea>
+        <DialogFooter className="pt-4">
+          <DialogClose asChild>
+            <Button variant="outline">Close</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+
+    <AlertDialog open={isDeleteAlertOpen} onOpenChange={setIsDeleteAlertOpen}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This action cannot be undone. This will permanently remove the comparison from your saved history.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleDeleteConfirm} disabled={isDeleting} className={buttonVariants({ variant: "destructive" })}>
+            {isDeleting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Removing...</> : "Yes, Remove"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+    </>
+  );
+}
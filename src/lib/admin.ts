@@ -0,0 +1,11 @@
+// Admins are configured by email in NEXT_PUBLIC_ADMIN_EMAILS (comma-separated). The client uses this
+// to show admin pages; server actions re-check the caller's ID token (see services/adminAuth). Security
+// rules cannot read this list, so `npm run admins:sync` mirrors it into an `admin` custom claim for them.
+const ADMIN_EMAILS = (process.env.NEXT_PUBLIC_ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export function isAdminEmail(email: string | null | undefined): boolean {
+  return !!email && ADMIN_EMAILS.includes(email.toLowerCase());
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvCell, parseBatchFile } from './batch';
+
+const labelOf = (column: string, value: string) =>
+  parseBatchFile(`text,${column}\nSome article text,${value}\n`, 'set.csv')[0].label;
+
+describe('parseBatchFile labels', () => {
+  it.each([
+    ['label', 'Fake', 'Fake'],
+    ['label', 'real', 'Real'],
+    ['Verdict', ' FAKE ', 'Fake'],
+    ['is_fake', '1', 'Fake'],
+    ['is_fake', 'true', 'Fake'],
+    ['isFake', 'yes', 'Fake'],
+    ['fake', '0', 'Real'],
+    ['fake', 'false', 'Real'],
+    ['is_fake', 'no', 'Real'],
+  ])('reads %s=%s as %s', (column, value, expected) => {
+    expect(labelOf(column, value)).toBe(expected);
+  });
+
+  it.each([
+    ['label', 'true'],
+    ['label', '1'],
+    ['label', 'yes'],
+    ['verdict', '0'],
+    ['label', 'Satire'],
+    ['is_fake', 'maybe'],
+  ])('rejects %s=%s instead of guessing', (column, value) => {
+    expect(() => labelOf(column, value)).toThrow(/Row 1 has an unrecognised/);
+  });
+
+  it('leaves rows with an empty label unlabeled', () => {
+    expect(labelOf('label', '')).toBeUndefined();
+  });
+
+  it('reads JSON booleans and numbers in is_fake columns', () => {
+    const rows = parseBatchFile('{"text":"One","is_fake":true}\n{"text":"Two","is_fake":0}\n', 'set.jsonl');
+    expect(rows.map(row => row.label)).toEqual(['Fake', 'Real']);
+  });
+});
+
+describe('escapeCsvCell', () => {
+  it.each([
+    ['=HYPERLINK("http://evil.example")', `"'=HYPERLINK(""http://evil.example"")"`],
+    ['+1+2', "'+1+2"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\tindented', "'\tindented"],
+    ['\r=1', `"'\r=1"`],
+  ])('neutralises the formula in %j', (value, expected) => {
+    expect(escapeCsvCell(value)).toBe(expected);
+  });
+
+  it('quotes cells with commas, quotes and newlines', () => {
+    expect(escapeCsvCell('a, "b"\nc')).toBe('"a, ""b""\nc"');
+  });
+
+  it('leaves numbers and plain text unchanged', () => {
+    expect(escapeCsvCell(-0.25)).toBe('-0.25');
+    expect(escapeCsvCell('Fake')).toBe('Fake');
+    expect(escapeCsvCell(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,194 @@
+export interface BatchInputRow {
+  rowNumber: number; // 1-based position in the uploaded file (data rows only)
+  text: string;
+  title?: string;
+  url?: string;
+  label?: 'Real' | 'Fake'; // Ground-truth label, when the file provides one (used for calibration and evaluation)
+}
+
+const TEXT_FIELDS = ['text', 'content', 'article', 'article_text', 'articletext', 'body'];
+const TITLE_FIELDS = ['title', 'headline'];
+const URL_FIELDS = ['url', 'link', 'source'];
+const LABEL_FIELDS = ['label', 'verdict'];
+// Boolean columns where true/1/yes means the article is fake.
+const IS_FAKE_FIELDS = ['is_fake', 'isfake', 'fake'];
+
+/**
+ * Parses a CSV (with a header row) or JSONL file of articles. Each row needs a text column
+ * ("text", "content", "article" or "body"); "title"/"headline", "url" and a ground-truth label are kept when
+ * present. The label is either a "label"/"verdict" column saying Real or Fake, or an "is_fake" column holding
+ * true/false, 1/0 or yes/no; a row with any other non-empty label value is rejected rather than guessed at.
+ * JSONL lines may also be plain JSON strings.
+ */
+export function parseBatchFile(content: string, fileName: string): BatchInputRow[] {
+  const isJsonl = /\.(jsonl|ndjson|json)$/i.test(fileName) || content.trimStart().startsWith('{');
+  const records = isJsonl ? parseJsonl(content) : parseCsvRecords(content);
+
+  const rows: BatchInputRow[] = [];
+  records.forEach((record, index) => {
+    const text = pickField(record, TEXT_FIELDS);
+    if (!text) return;
+    const title = pickField(record, TITLE_FIELDS);
+    const url = pickField(record, URL_FIELDS);
+    const label = pickLabel(record, index + 1);
+    rows.push({
+      rowNumber: index + 1,
+      text,
+      ...(title ? { title } : {}),
+      ...(url ? { url } : {}),
+      ...(label ? { label } : {}),
+    });
+  });
+  if (rows.length === 0) {
+    throw new Error(isJsonl
+      ? "No articles found. Each JSONL line should be an object with a \"text\" field."
+      : "No articles found. The CSV needs a header row with a \"text\" column.");
+  }
+  return rows;
+}
+
+function pickField(record: Record<string, unknown>, names: string[]): string | undefined {
+  for (const [key, value] of Object.entries(record)) {
+    if (names.includes(key.trim().toLowerCase()) && typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function pickLabel(record: Record<string, unknown>, rowNumber: number): 'Real' | 'Fake' | undefined {
+  for (const [key, value] of Object.entries(record)) {
+    const field = key.trim().toLowerCase();
+    const isLabelField = LABEL_FIELDS.includes(field);
+    if (!isLabelField && !IS_FAKE_FIELDS.includes(field)) continue;
+    const normalized = value === undefined || value === null ? '' : String(value).trim().toLowerCase();
+    if (!normalized) continue;
+    if (isLabelField) {
+      if (normalized === 'fake') return 'Fake';
+      if (normalized === 'real') return 'Real';
+      throw new Error(`Row ${rowNumber} has an unrecognised ${key.trim()} "${String(value).trim()}". Use Real or Fake.`);
+    }
+    if (['1', 'true', 'yes'].includes(normalized)) return 'Fake';
+    if (['0', 'false', 'no'].includes(normalized)) return 'Real';
+    throw new Error(`Row ${rowNumber} has an unrecognised ${key.trim()} value "${String(value).trim()}". Use true/false, 1/0 or yes/no.`);
+  }
+  return undefined;
+}
+
+function parseJsonl(content: string): Record<string, unknown>[] {
+  return content.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON.`);
+    }
+    if (typeof value === 'string') return [{ text: value }];
+    return value && typeof value === 'object' && !Array.isArray(value) ? [value as Record<string, unknown>] : [];
+  });
+}
+
+function parseCsvRecords(content: string): Record<string, string>[] {
+  const [header, ...dataRows] = parseCsv(content);
+  if (!header) return [];
+  return dataRows
+    .filter(row => row.some(cell => cell.trim()))
+    .map(row => Object.fromEntries(header.map((name, column) => [name, row[column] ?? ''])));
+}
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes.
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Spreadsheets run text starting with one of these as a formula, so such cells get a leading apostrophe
+// (numbers are left alone: a negative score is not a formula).
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function escapeCsvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight, reporting each
+ * settled item as it finishes. Stops picking up new items once `signal` is aborted.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onSettled: (index: number, outcome: PromiseSettledResult<R>) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  let nextIndex = 0;
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      let outcome: PromiseSettledResult<R>;
+      try {
+        outcome = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        outcome = { status: 'rejected', reason };
+      }
+      onSettled(index, outcome);
+    }
+  };
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, runNext));
+}
+
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
@@ -0,0 +1,84 @@
+import type { BiasScale, BiasSource, DetectedArticle, SlantBucket } from '@/types';
+
+export const BIAS_SCALES = [
+  'left_right',
+  'libertarian_authoritarian',
+  'government_opposition',
+  'establishment_populist',
+] as const satisfies readonly BiasScale[];
+
+// Negative slant leans toward `negativePole`, positive slant toward `positivePole`.
+export const BIAS_SCALE_INFO: Record<BiasScale, { label: string; negativePole: string; positivePole: string; description: string }> = {
+  left_right: {
+    label: 'Left / Right',
+    negativePole: 'Left',
+    positivePole: 'Right',
+    description: 'Economic and social left versus right, as commonly used in party politics.',
+  },
+  libertarian_authoritarian: {
+    label: 'Libertarian / Authoritarian',
+    negativePole: 'Libertarian',
+    positivePole: 'Authoritarian',
+    description: 'Individual liberty and limited state power versus order, control and strong state power.',
+  },
+  government_opposition: {
+    label: 'Opposition / Government',
+    negativePole: 'Opposition',
+    positivePole: 'Government',
+    description: 'Critical of the government in power versus supportive of it, whichever party that is.',
+  },
+  establishment_populist: {
+    label: 'Establishment / Populist',
+    negativePole: 'Establishment',
+    positivePole: 'Populist',
+    description: 'Trust in institutions and experts versus "the people against the elites".',
+  },
+};
+
+export const DEFAULT_BIAS_SCALE: BiasScale = 'left_right';
+
+export const SLANT_BUCKETS = ['strong_negative', 'lean_negative', 'balanced', 'lean_positive', 'strong_positive'] as const satisfies readonly SlantBucket[];
+
+const LEAN_THRESHOLD = 15;
+const STRONG_THRESHOLD = 50;
+
+export function slantBucket(slant: number): SlantBucket {
+  if (slant <= -STRONG_THRESHOLD) return 'strong_negative';
+  if (slant <= -LEAN_THRESHOLD) return 'lean_negative';
+  if (slant >= STRONG_THRESHOLD) return 'strong_positive';
+  if (slant >= LEAN_THRESHOLD) return 'lean_positive';
+  return 'balanced';
+}
+
+/** "Leans Left", "Strongly Authoritarian", "Balanced" and so on. */
+export function slantBucketLabel(scale: BiasScale, bucket: SlantBucket): string {
+  const { negativePole, positivePole } = BIAS_SCALE_INFO[scale];
+  switch (bucket) {
+    case 'strong_negative': return `Strongly ${negativePole}`;
+    case 'lean_negative': return `Leans ${negativePole}`;
+    case 'balanced': return 'Balanced';
+    case 'lean_positive': return `Leans ${positivePole}`;
+    case 'strong_positive': return `Strongly ${positivePole}`;
+  }
+}
+
+/**
+ * Sourcing is one-sided when at least two quoted sources take a side and all of them take the same one.
+ * Neutral sources (officials reading out figures, wire copy) do not balance a story.
+ */
+export function isOneSidedSourcing(sources: BiasSource[]): boolean {
+  const negative = sources.filter(source => source.side === 'negative').length;
+  const positive = sources.filter(source => source.side === 'positive').length;
+  return (negative >= 2 && positive === 0) || (positive >= 2 && negative === 0);
+}
+
+/** Counts of political detections per slant bucket on one scale, for the history chart. */
+export function slantDistribution(articles: DetectedArticle[], scale: BiasScale): Record<SlantBucket, number> {
+  const counts = Object.fromEntries(SLANT_BUCKETS.map(bucket => [bucket, 0])) as Record<SlantBucket, number>;
+  for (const article of articles) {
+    if (article.bias?.isPolitical && article.bias.scale === scale) {
+      counts[article.bias.bucket]++;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { calibrateProbability, fitCalibration, fitPlatt, fitTemperature, toFakeProbability, toVerdict, type CalibrationSample } from './calibration';
+
+// `count` predictions at P(fake) = p (or 1 - p for the real ones), of which `accuracy` are right.
+function samplesAt(p: number, accuracy: number, count = 100): CalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const isFake = i % 2 === 0;
+    const correct = i < count * accuracy;
+    const predictsFake = correct ? isFake : !isFake;
+    return { fakeProbability: predictsFake ? p : 1 - p, isFake };
+  });
+}
+
+describe('verdict conversion', () => {
+  it('maps verdicts to P(fake) and back', () => {
+    expect(toFakeProbability({ label: 'Fake', confidence: 80 })).toBeCloseTo(0.8);
+    expect(toFakeProbability({ label: 'Real', confidence: 80 })).toBeCloseTo(0.2);
+    expect(toVerdict(0.2)).toEqual({ label: 'Real', confidence: 80 });
+    expect(toVerdict(0.5)).toEqual({ label: 'Fake', confidence: 50 });
+  });
+});
+
+describe('fitTemperature', () => {
+  it('softens an overconfident model (T > 1)', () => {
+    expect(fitTemperature(samplesAt(0.95, 0.7))).toBeGreaterThan(1);
+  });
+
+  it('sharpens an underconfident model (T < 1)', () => {
+    expect(fitTemperature(samplesAt(0.6, 0.95))).toBeLessThan(1);
+  });
+
+  it('maps the predictions onto the observed accuracy', () => {
+    const temperature = fitTemperature(samplesAt(0.95, 0.7));
+    expect(calibrateProbability(0.95, { method: 'temperature', temperature })).toBeCloseTo(0.7, 2);
+  });
+});
+
+describe('fitPlatt', () => {
+  it('maps the predictions onto the (smoothed) observed accuracy', () => {
+    const parameters = fitPlatt(samplesAt(0.95, 0.7));
+    expect(parameters.slope).toBeGreaterThan(0);
+    expect(calibrateProbability(0.95, { method: 'platt', ...parameters })).toBeCloseTo(0.7, 1);
+  });
+
+  it('sharpens an underconfident model (slope > 1)', () => {
+    expect(fitPlatt(samplesAt(0.6, 0.95)).slope).toBeGreaterThan(1);
+  });
+});
+
+describe('fitCalibration', () => {
+  it.each(['temperature', 'platt'] as const)('lowers ECE and NLL on an overconfident set with %s scaling', method => {
+    const { metrics, sampleCount } = fitCalibration(samplesAt(0.95, 0.7), method);
+    expect(sampleCount).toBe(100);
+    expect(metrics.eceAfter).toBeLessThan(metrics.eceBefore);
+    expect(metrics.nllAfter).toBeLessThan(metrics.nllBefore);
+  });
+
+  it('needs both real and fake examples', () => {
+    const onlyFake = [{ fakeProbability: 0.9, isFake: true }, { fakeProbability: 0.6, isFake: true }];
+    expect(() => fitCalibration(onlyFake, 'temperature')).toThrow(/both real and fake/);
+  });
+
+  it('leaves probabilities unchanged with neutral parameters', () => {
+    expect(calibrateProbability(0.83, { method: 'temperature', temperature: 1 })).toBeCloseTo(0.83);
+    expect(calibrateProbability(0.83, { method: 'platt', slope: 1, intercept: 0 })).toBeCloseTo(0.83);
+  });
+});
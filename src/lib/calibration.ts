@@ -0,0 +1,176 @@
+import type { CalibrationMethod, CalibrationModel, DetectionVerdict } from '@/types';
+
+/** One labeled prediction: the model's raw probability that the article is fake, and the truth. */
+export interface CalibrationSample {
+  fakeProbability: number;
+  isFake: boolean;
+}
+
+export interface ReliabilityBin {
+  binStart: number;
+  binEnd: number;
+  meanPredicted: number; // Mean predicted P(fake) of the samples in the bin
+  observedFrequency: number; // Fraction of those samples that are actually fake
+  count: number;
+}
+
+const EPSILON = 1e-4;
+export const DEFAULT_RELIABILITY_BINS = 10;
+
+// Converts a label/confidence pair into the probability that the article is fake (0-1).
+export function toFakeProbability(verdict: DetectionVerdict): number {
+  const p = verdict.confidence / 100;
+  return verdict.label === 'Fake' ? p : 1 - p;
+}
+
+export function toVerdict(fakeProbability: number): DetectionVerdict {
+  const label: 'Real' | 'Fake' = fakeProbability >= 0.5 ? 'Fake' : 'Real';
+  const confidence = (label === 'Fake' ? fakeProbability : 1 - fakeProbability) * 100;
+  return { label, confidence: parseFloat(confidence.toFixed(1)) };
+}
+
+function logit(p: number): number {
+  const clamped = Math.min(1 - EPSILON, Math.max(EPSILON, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/** Maps a raw P(fake) through the fitted temperature or Platt scaling. */
+export function calibrateProbability(fakeProbability: number, model: Pick<CalibrationModel, 'method' | 'temperature' | 'slope' | 'intercept'>): number {
+  const z = logit(fakeProbability);
+  return model.method === 'temperature'
+    ? sigmoid(z / (model.temperature ?? 1))
+    : sigmoid((model.slope ?? 1) * z + (model.intercept ?? 0));
+}
+
+export function calibrateVerdict(verdict: DetectionVerdict, model: CalibrationModel): DetectionVerdict {
+  return toVerdict(calibrateProbability(toFakeProbability(verdict), model));
+}
+
+/** Mean negative log-likelihood of the labels under the given probabilities. */
+export function negativeLogLikelihood(probabilities: number[], samples: CalibrationSample[]): number {
+  const total = samples.reduce((sum, sample, i) => {
+    const p = Math.min(1 - EPSILON, Math.max(EPSILON, probabilities[i]));
+    return sum - (sample.isFake ? Math.log(p) : Math.log(1 - p));
+  }, 0);
+  return total / Math.max(1, samples.length);
+}
+
+/** Fits a single temperature T (q = sigmoid(logit(p) / T)) by golden-section search on log T. */
+export function fitTemperature(samples: CalibrationSample[]): number {
+  const logits = samples.map(sample => logit(sample.fakeProbability));
+  const loss = (logT: number) => negativeLogLikelihood(logits.map(z => sigmoid(z / Math.exp(logT))), samples);
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.log(0.05);
+  let high = Math.log(20);
+  let x1 = high - ratio * (high - low);
+  let x2 = low + ratio * (high - low);
+  let f1 = loss(x1);
+  let f2 = loss(x2);
+  for (let i = 0; i < 60; i++) {
+    if (f1 < f2) {
+      high = x2; x2 = x1; f2 = f1;
+      x1 = high - ratio * (high - low); f1 = loss(x1);
+    } else {
+      low = x1; x1 = x2; f1 = f2;
+      x2 = low + ratio * (high - low); f2 = loss(x2);
+    }
+  }
+  return Math.exp((low + high) / 2);
+}
+
+/**
+ * Fits Platt scaling (q = sigmoid(a * logit(p) + b)) with Newton's method and a small ridge for stability. Steps are
+ * halved until they lower the loss: plain Newton overshoots and diverges when the raw model is very overconfident.
+ */
+export function fitPlatt(samples: CalibrationSample[]): { slope: number; intercept: number } {
+  const logits = samples.map(sample => logit(sample.fakeProbability));
+  // Platt's smoothed targets avoid overconfident fits on small labeled sets.
+  const positives = samples.filter(sample => sample.isFake).length;
+  const negatives = samples.length - positives;
+  const targets = samples.map(sample => sample.isFake ? (positives + 1) / (positives + 2) : 1 / (negatives + 2));
+  const ridge = 1e-3;
+  const loss = (a: number, b: number) => logits.reduce((sum, z, i) => {
+    const q = Math.min(1 - 1e-12, Math.max(1e-12, sigmoid(a * z + b)));
+    return sum - targets[i] * Math.log(q) - (1 - targets[i]) * Math.log(1 - q);
+  }, ridge * a * a / 2);
+
+  let a = 1;
+  let b = 0;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let gA = ridge * a, gB = 0, hAA = ridge, hAB = 0, hBB = ridge;
+    logits.forEach((z, i) => {
+      const q = sigmoid(a * z + b);
+      const residual = q - targets[i];
+      const weight = Math.max(q * (1 - q), 1e-8);
+      gA += residual * z;
+      gB += residual;
+      hAA += weight * z * z;
+      hAB += weight * z;
+      hBB += weight;
+    });
+    const determinant = hAA * hBB - hAB * hAB;
+    if (Math.abs(determinant) < 1e-12) break;
+    let stepA = (hBB * gA - hAB * gB) / determinant;
+    let stepB = (hAA * gB - hAB * gA) / determinant;
+    const currentLoss = loss(a, b);
+    while (loss(a - stepA, b - stepB) > currentLoss && Math.abs(stepA) + Math.abs(stepB) > 1e-9) {
+      stepA /= 2;
+      stepB /= 2;
+    }
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-7 && Math.abs(stepB) < 1e-7) break;
+  }
+  return { slope: a, intercept: b };
+}
+
+/** Groups predictions into equal-width P(fake) bins and compares predicted vs observed frequency. */
+export function reliabilityBins(probabilities: number[], samples: CalibrationSample[], binCount: number = DEFAULT_RELIABILITY_BINS): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({ binStart: i / binCount, binEnd: (i + 1) / binCount, sum: 0, fakes: 0, count: 0 }));
+  probabilities.forEach((p, i) => {
+    const bin = bins[Math.min(binCount - 1, Math.floor(p * binCount))];
+    bin.sum += p;
+    bin.count++;
+    if (samples[i].isFake) bin.fakes++;
+  });
+  return bins.map(({ binStart, binEnd, sum, fakes, count }) => ({
+    binStart,
+    binEnd,
+    meanPredicted: count > 0 ? sum / count : (binStart + binEnd) / 2,
+    observedFrequency: count > 0 ? fakes / count : 0,
+    count,
+  }));
+}
+
+/** Expected calibration error: the count-weighted mean gap between predicted and observed frequency. */
+export function expectedCalibrationError(bins: ReliabilityBin[]): number {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return 0;
+  return bins.reduce((sum, bin) => sum + (bin.count / total) * Math.abs(bin.meanPredicted - bin.observedFrequency), 0);
+}
+
+/** Fits the requested scaling and reports before/after metrics on the same labeled set. */
+export function fitCalibration(samples: CalibrationSample[], method: CalibrationMethod): Omit<CalibrationModel, 'detectionMethod' | 'fittedAt'> {
+  if (samples.length < 2 || samples.every(sample => sample.isFake) || samples.every(sample => !sample.isFake)) {
+    throw new Error("The labeled set needs both real and fake examples to fit a calibration.");
+  }
+  const rawProbabilities = samples.map(sample => sample.fakeProbability);
+  const parameters = method === 'temperature' ? { temperature: fitTemperature(samples) } : fitPlatt(samples);
+  const calibrated = rawProbabilities.map(p => calibrateProbability(p, { method, ...parameters }));
+  return {
+    method,
+    ...parameters,
+    sampleCount: samples.length,
+    metrics: {
+      eceBefore: expectedCalibrationError(reliabilityBins(rawProbabilities, samples)),
+      eceAfter: expectedCalibrationError(reliabilityBins(calibrated, samples)),
+      nllBefore: negativeLogLikelihood(rawProbabilities, samples),
+      nllAfter: negativeLogLikelihood(calibrated, samples),
+    },
+  };
+}
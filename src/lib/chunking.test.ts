@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, splitSentences } from './chunking';
+
+describe('chunkText', () => {
+  it('keeps short text in one chunk without the surrounding whitespace', () => {
+    const text = '\n  A short article.\n\nSecond paragraph.  \n';
+    expect(chunkText(text, 500)).toEqual([
+      { text: 'A short article.\n\nSecond paragraph.', start: 3, end: 38 },
+    ]);
+  });
+
+  it('packs whole paragraphs into windows of at most maxChars', () => {
+    const paragraphs = ['a'.repeat(300), 'b'.repeat(300), 'c'.repeat(300)];
+    const chunks = chunkText(paragraphs.join('\n\n'), 700);
+    expect(chunks.map(chunk => chunk.text)).toEqual([`${paragraphs[0]}\n\n${paragraphs[1]}`, paragraphs[2]]);
+    chunks.forEach(chunk => expect(chunk.end - chunk.start).toBeLessThanOrEqual(700));
+  });
+
+  it('splits a long paragraph at sentence boundaries', () => {
+    const sentence = (letter: string) => `${letter.repeat(300)}.`;
+    const text = [sentence('a'), sentence('b'), sentence('c')].join(' ');
+    expect(chunkText(text, 650).map(chunk => chunk.text)).toEqual([`${sentence('a')} ${sentence('b')}`, sentence('c')]);
+  });
+
+  it('splits a sentence longer than a window mid-sentence as a last resort', () => {
+    const chunks = chunkText('x'.repeat(1200), 500);
+    expect(chunks.map(({ start, end }) => [start, end])).toEqual([[0, 500], [500, 1000], [1000, 1200]]);
+  });
+
+  it('returns offsets that map every chunk back onto the original text', () => {
+    const text = 'First paragraph. It has two sentences.\n\n\n   Second one!\n\n' + 'Long sentence here. '.repeat(40);
+    chunkText(text, 200).forEach(chunk => {
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    });
+  });
+
+  it('returns no chunks for blank text', () => {
+    expect(chunkText('  \n\n  ')).toEqual([]);
+  });
+});
+
+describe('splitSentences', () => {
+  it('splits after sentence punctuation, including a closing quote, and at paragraph breaks', () => {
+    const text = 'He said "stop." Then left! Why?\n\nNew paragraph without a full stop';
+    expect(splitSentences(text).map(({ start, end }) => text.slice(start, end))).toEqual([
+      'He said "stop."',
+      'Then left!',
+      'Why?',
+      'New paragraph without a full stop',
+    ]);
+  });
+});
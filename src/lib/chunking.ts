@@ -0,0 +1,71 @@
+export interface TextChunk {
+  text: string;
+  start: number; // Character offset of the chunk in the original text
+  end: number;
+}
+
+export const DEFAULT_CHUNK_CHARS = 4000;
+
+const SENTENCE_BOUNDARY = /(?<=[.!?]["')\]]?)\s+/g;
+
+/**
+ * Splits text into windows of at most `maxChars`, packing whole paragraphs together where possible.
+ * Paragraphs longer than a window are split at sentence boundaries, and only as a last resort mid-sentence.
+ * Offsets always refer to the original text so chunk results can be mapped back onto it.
+ */
+export function chunkText(text: string, maxChars: number = DEFAULT_CHUNK_CHARS): TextChunk[] {
+  const pieces = splitWithOffsets(text, /\n\s*\n/g)
+    .flatMap(paragraph => paragraph.end - paragraph.start <= maxChars
+      ? [paragraph]
+      : splitLongParagraph(text, paragraph, maxChars));
+
+  const chunks: TextChunk[] = [];
+  let current: { start: number; end: number } | null = null;
+  for (const piece of pieces) {
+    if (current && piece.end - current.start <= maxChars) {
+      current.end = piece.end;
+    } else {
+      if (current) chunks.push(current as TextChunk);
+      current = { start: piece.start, end: piece.end };
+    }
+  }
+  if (current) chunks.push(current as TextChunk);
+
+  return chunks.map(({ start, end }) => ({ text: text.slice(start, end), start, end }));
+}
+
+/** Sentence offsets in the text; a paragraph break always ends a sentence. */
+export function splitSentences(text: string): { start: number; end: number }[] {
+  return splitWithOffsets(text, /\n\s*\n/g).flatMap(paragraph => splitWithOffsets(text, SENTENCE_BOUNDARY, paragraph.start, paragraph.end));
+}
+
+// Returns the trimmed, non-empty segments between separator matches, with their offsets.
+function splitWithOffsets(text: string, separator: RegExp, from = 0, to = text.length): { start: number; end: number }[] {
+  const segments: { start: number; end: number }[] = [];
+  const slice = text.slice(from, to);
+  let segmentStart = 0;
+  const pushSegment = (start: number, end: number) => {
+    const raw = slice.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) segments.push({ start: from + start + leading, end: from + start + leading + trimmed.length });
+  };
+  for (const match of slice.matchAll(separator)) {
+    pushSegment(segmentStart, match.index!);
+    segmentStart = match.index! + match[0].length;
+  }
+  pushSegment(segmentStart, slice.length);
+  return segments;
+}
+
+function splitLongParagraph(text: string, paragraph: { start: number; end: number }, maxChars: number): { start: number; end: number }[] {
+  const sentences = splitWithOffsets(text, SENTENCE_BOUNDARY, paragraph.start, paragraph.end);
+  return sentences.flatMap(sentence => {
+    if (sentence.end - sentence.start <= maxChars) return [sentence];
+    const hardSplits: { start: number; end: number }[] = [];
+    for (let start = sentence.start; start < sentence.end; start += maxChars) {
+      hardSplits.push({ start, end: Math.min(start + maxChars, sentence.end) });
+    }
+    return hardSplits;
+  });
+}
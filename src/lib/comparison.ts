@@ -0,0 +1,46 @@
+import type { AlignedClaim, ClaimAlignmentStatus, ComparisonVerdict } from '@/types';
+
+export const CLAIM_ALIGNMENT_STATUSES = ['consistent', 'contradiction', 'omission', 'addition'] as const satisfies readonly ClaimAlignmentStatus[];
+
+export const CLAIM_ALIGNMENT_LABELS: Record<ClaimAlignmentStatus, string> = {
+  consistent: 'Consistent',
+  contradiction: 'Contradiction',
+  omission: 'Omitted',
+  addition: 'Added detail',
+};
+
+export const COMPARISON_VERDICT_LABELS: Record<ComparisonVerdict, string> = {
+  consistent: 'Consistent',
+  partially_consistent: 'Partially consistent',
+  inconsistent: 'Inconsistent',
+};
+
+// Points taken off a perfect score per difference. A contradiction weighs most: one of the two texts must be wrong.
+const PENALTIES: Record<Exclude<ClaimAlignmentStatus, 'consistent'>, Record<AlignedClaim['importance'], number>> = {
+  contradiction: { major: 30, minor: 10 },
+  omission: { major: 12, minor: 3 },
+  addition: { major: 12, minor: 3 },
+};
+
+const CONSISTENT_THRESHOLD = 80;
+const INCONSISTENT_THRESHOLD = 50;
+
+/** 0-100 agreement between the two texts, from the differences found between their claims. */
+export function consistencyScore(claims: AlignedClaim[]): number {
+  const penalty = claims.reduce((sum, claim) => sum + (claim.status === 'consistent' ? 0 : PENALTIES[claim.status][claim.importance]), 0);
+  return Math.max(0, 100 - penalty);
+}
+
+/** A major contradiction makes the texts inconsistent whatever else they agree on. */
+export function comparisonVerdict(claims: AlignedClaim[], score: number): ComparisonVerdict {
+  if (score < INCONSISTENT_THRESHOLD || claims.some(claim => claim.status === 'contradiction' && claim.importance === 'major')) {
+    return 'inconsistent';
+  }
+  return score >= CONSISTENT_THRESHOLD ? 'consistent' : 'partially_consistent';
+}
+
+export function countAlignments(claims: AlignedClaim[]): Record<ClaimAlignmentStatus, number> {
+  const counts = Object.fromEntries(CLAIM_ALIGNMENT_STATUSES.map(status => [status, 0])) as Record<ClaimAlignmentStatus, number>;
+  claims.forEach(claim => counts[claim.status]++);
+  return counts;
+}
@@ -0,0 +1,156 @@
+import { detectFakeNews, type DetectFakeNewsInput } from '@/ai/flows/detect-fake-news';
+import { llmDetectFakeNews, type LlmDetectFakeNewsInput } from '@/ai/flows/llm-detect-fake-news';
+import { ensembleDetectFakeNews, type EnsembleDetectFakeNewsInput } from '@/ai/flows/ensemble-detect-fake-news';
+import { chunkedDetectFakeNews, type ChunkedDetectFakeNewsInput } from '@/ai/flows/chunked-detect-fake-news';
+import { translateArticle } from '@/ai/flows/translate-article';
+import { detectAiText } from '@/ai/flows/detect-ai-text';
+import { detectLanguage, languageName } from '@/lib/language';
+import { analyzeSignals } from '@/lib/signals';
+import { lookupSourceCredibility } from '@/services/sourceCredibilityService';
+import type { ArticleTranslation, DetectedArticle, DetectionMethod } from '@/types';
+
+export const MAX_ARTICLE_CHARS = 100000;
+// Articles longer than this are analyzed section by section and the verdicts aggregated.
+export const CHUNKED_DETECTION_THRESHOLD_CHARS = 10000;
+
+export type DetectionRunResult = Pick<DetectedArticle, 'title' | 'result' | 'rawResult' | 'calibration' | 'cachedAt' | 'models' | 'signals' | 'sourceCredibility' | 'aiText' | 'evidence' | 'factChecks' | 'ensemble' | 'highlights' | 'chunks' | 'language' | 'translation' | 'promptVersion'>;
+
+export interface DetectionOptions {
+  customModelWeight?: number; // Share (%) of the Truth Lens model in the ensemble verdict
+  translate?: boolean; // Translate non-English articles to English before running the detector
+  responseLanguage?: string; // ISO 639-1 code of the language the LLM should explain its verdict in
+  forceRefresh?: boolean; // Bypass the detection result cache and query the models again
+  modelId?: string; // Registry id of the ML model for 'custom' and 'ensemble' detection; the registry default if omitted
+  sourceUrl?: string; // URL the article was fetched from, rated in the source credibility lookup
+  estimateAiAuthorship?: boolean; // Also estimate whether the text was machine-written; left unset if that analysis fails
+  promptVersion?: string; // LLM detection prompt version to use instead of the registry's traffic split
+}
+
+export function generateSnippetTitle(text: string, maxLength: number = 60): string {
+  if (text.length <= maxLength) return text;
+  const snippet = text.substring(0, maxLength);
+  const lastSpace = snippet.lastIndexOf(' ');
+  return (lastSpace > 0 ? snippet.substring(0, lastSpace) : snippet) + "...";
+}
+
+/** The title runDetection gives an article when no model suggested one. */
+export function fallbackDetectionTitle(text: string): string {
+  return `Analysis: ${generateSnippetTitle(text)}`;
+}
+
+/**
+ * Runs the selected detection method on one article and normalizes the flow output
+ * into the fields stored on a DetectedArticle. Shared by the single and batch detectors.
+ */
+export async function runDetection(
+  detectionMethod: DetectionMethod,
+  originalText: string,
+  { customModelWeight = 50, translate = false, responseLanguage, forceRefresh = false, modelId, sourceUrl, estimateAiAuthorship = false, promptVersion }: DetectionOptions = {},
+): Promise<DetectionRunResult> {
+  // Links are looked up in the original text, alongside detection; the verdict doesn't depend on it.
+  const credibilityPromise = lookupSourceCredibility({ articleUrl: sourceUrl, text: originalText }).catch((credibilityError: any) => {
+    console.warn("Source credibility lookup failed, continuing without it:", credibilityError);
+    return undefined;
+  });
+  // Authorship is judged on the original text: a machine translation would read as machine-written.
+  const aiTextPromise = estimateAiAuthorship
+    ? detectAiText({ articleText: originalText, forceRefresh }).catch((aiTextError: any) => {
+        console.warn("AI authorship analysis failed, continuing without it:", aiTextError);
+        return undefined;
+      })
+    : Promise.resolve(undefined);
+  const fallbackTitle = fallbackDetectionTitle(originalText);
+  const language = detectLanguage(originalText);
+  const responseLanguageName = responseLanguage && responseLanguage !== 'en' ? languageName(responseLanguage) : undefined;
+
+  let translation: ArticleTranslation | undefined;
+  if (translate && language.code !== 'en' && language.code !== 'und') {
+    const { translatedText } = await translateArticle({ articleText: originalText, sourceLanguage: language.name, targetLanguage: 'English' });
+    translation = { targetLanguage: 'en', text: translatedText };
+  }
+  // The detectors see the translation when there is one; highlight and chunk offsets then refer to it.
+  const articleText = translation?.text ?? originalText;
+  let run: DetectionRunResult;
+
+  if (articleText.length > CHUNKED_DETECTION_THRESHOLD_CHARS) {
+    const input: ChunkedDetectFakeNewsInput = {
+      articleText,
+      detectionMethod,
+      weights: detectionMethod === 'ensemble' ? { custom: customModelWeight, llm: 100 - customModelWeight } : undefined,
+      responseLanguage: responseLanguageName,
+      modelId,
+      forceRefresh,
+      promptVersion,
+    };
+    const result = await chunkedDetectFakeNews(input);
+    run = {
+      title: result.suggestedTitle || fallbackTitle,
+      result: { label: result.label, confidence: result.confidence },
+      rawResult: result.raw,
+      calibration: result.calibration,
+      cachedAt: result.cachedAt,
+      models: result.models,
+      evidence: result.evidence,
+      factChecks: result.factChecks,
+      ensemble: result.ensemble,
+      highlights: result.highlights,
+      chunks: result.chunks,
+      promptVersion: result.promptVersion,
+    };
+  } else if (detectionMethod === 'custom') {
+    const input: DetectFakeNewsInput = { articleText, modelId, forceRefresh };
+    const result = await detectFakeNews(input);
+    run = {
+      title: fallbackTitle,
+      result: { label: result.label, confidence: result.confidence },
+      rawResult: result.raw,
+      calibration: result.calibration,
+      cachedAt: result.cachedAt,
+      models: result.models,
+      factChecks: result.factChecks,
+    };
+  } else if (detectionMethod === 'llm') {
+    const input: LlmDetectFakeNewsInput = { articleText, responseLanguage: responseLanguageName, forceRefresh, promptVersion };
+    const result = await llmDetectFakeNews(input);
+    run = {
+      title: result.suggestedTitle || fallbackTitle,
+      result: { label: result.label, confidence: result.confidence },
+      rawResult: result.raw,
+      calibration: result.calibration,
+      cachedAt: result.cachedAt,
+      models: result.models,
+      evidence: result.evidence,
+      factChecks: result.factChecks,
+      highlights: result.highlights,
+      promptVersion: result.promptVersion,
+    };
+  } else {
+    const input: EnsembleDetectFakeNewsInput = {
+      articleText,
+      weights: { custom: customModelWeight, llm: 100 - customModelWeight },
+      responseLanguage: responseLanguageName,
+      modelId,
+      forceRefresh,
+      promptVersion,
+    };
+    const result = await ensembleDetectFakeNews(input);
+    run = {
+      title: result.suggestedTitle || fallbackTitle,
+      result: { label: result.label, confidence: result.confidence },
+      rawResult: result.raw,
+      calibration: result.calibration,
+      cachedAt: result.cachedAt,
+      models: result.models,
+      evidence: result.evidence,
+      factChecks: result.factChecks,
+      ensemble: result.ensemble,
+      highlights: result.highlights,
+      promptVersion: result.promptVersion,
+    };
+  }
+
+  if (!run.result.label || run.result.confidence === undefined) {
+    throw new Error("AI did not return a valid detection structure (label or confidence missing).");
+  }
+  return { ...run, language, translation, signals: analyzeSignals(articleText), sourceCredibility: await credibilityPromise, aiText: await aiTextPromise };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { expectedCalibrationError, reliabilityBins } from './calibration';
+import { confusionMatrix, evaluatePredictions, rocCurve, type EvaluationSample } from './evaluation';
+
+const sample = (fakeProbability: number, isFake: boolean, predictedFake = fakeProbability >= 0.5): EvaluationSample =>
+  ({ fakeProbability, isFake, predictedFake });
+
+describe('confusionMatrix', () => {
+  it('counts the verdict labels, not a probability threshold', () => {
+    // Scored at exactly 50% but labelled Real by the detector: a true negative, not a false positive.
+    const samples = [sample(0.9, true), sample(0.8, false), sample(0.5, false, false), sample(0.2, true), sample(0.1, false)];
+    expect(confusionMatrix(samples)).toEqual({ truePositives: 1, falsePositives: 1, trueNegatives: 2, falseNegatives: 1 });
+  });
+});
+
+describe('rocCurve', () => {
+  it('gives an AUC of 1 for a perfect ranking and 0 for an inverted one', () => {
+    expect(rocCurve([sample(0.9, true), sample(0.7, true), sample(0.3, false), sample(0.1, false)]).auc).toBe(1);
+    expect(rocCurve([sample(0.9, false), sample(0.7, false), sample(0.3, true), sample(0.1, true)]).auc).toBe(0);
+  });
+
+  it('steps tied probabilities together, so a constant score has an AUC of 0.5', () => {
+    const { points, auc } = rocCurve([sample(0.6, true), sample(0.6, false), sample(0.6, true), sample(0.6, false)]);
+    expect(auc).toBe(0.5);
+    expect(points).toEqual([
+      { threshold: 1, falsePositiveRate: 0, truePositiveRate: 0 },
+      { threshold: 0.6, falsePositiveRate: 1, truePositiveRate: 1 },
+    ]);
+  });
+
+  it('matches the pairwise ranking probability', () => {
+    // 3 of the 4 (fake, real) pairs are ranked correctly.
+    expect(rocCurve([sample(0.9, true), sample(0.6, false), sample(0.4, true), sample(0.1, false)]).auc).toBeCloseTo(0.75);
+  });
+
+  it('reports 0.5 without points when only one class is present', () => {
+    expect(rocCurve([sample(0.9, true), sample(0.2, true)])).toEqual({ points: [], auc: 0.5 });
+  });
+
+  it('thins long curves but keeps the end point', () => {
+    const samples = Array.from({ length: 500 }, (_, i) => sample(i / 500, i % 3 === 0));
+    const { points } = rocCurve(samples);
+    expect(points.length).toBeLessThanOrEqual(101);
+    expect(points[points.length - 1]).toMatchObject({ falsePositiveRate: 1, truePositiveRate: 1 });
+  });
+});
+
+describe('expected calibration error', () => {
+  it('is 0 when predicted and observed frequencies match in every bin', () => {
+    const samples = [sample(0.75, true), sample(0.75, true), sample(0.75, true), sample(0.75, false), sample(0, false)];
+    const bins = reliabilityBins(samples.map(({ fakeProbability }) => fakeProbability), samples);
+    expect(expectedCalibrationError(bins)).toBeCloseTo(0);
+  });
+
+  it('is the count-weighted gap between confidence and accuracy', () => {
+    // Four predictions at 0.9 of which half are fake, one at 0.1 that is real: (4 * 0.4 + 1 * 0.1) / 5.
+    const samples = [sample(0.9, true), sample(0.9, true), sample(0.9, false), sample(0.9, false), sample(0.1, false)];
+    const bins = reliabilityBins(samples.map(({ fakeProbability }) => fakeProbability), samples);
+    expect(expectedCalibrationError(bins)).toBeCloseTo(0.34);
+  });
+
+  it('puts a probability of exactly 1 in the last bin', () => {
+    const bins = reliabilityBins([1], [sample(1, true)]);
+    expect(bins[bins.length - 1].count).toBe(1);
+  });
+});
+
+describe('evaluatePredictions', () => {
+  it('derives precision, recall, F1, accuracy and the Brier score', () => {
+    const metrics = evaluatePredictions([sample(0.9, true), sample(0.8, false), sample(0.2, true), sample(0.1, false)]);
+    expect(metrics).toMatchObject({ sampleCount: 4, accuracy: 0.5, precision: 0.5, recall: 0.5, f1: 0.5 });
+    expect(metrics.brierScore).toBeCloseTo((0.01 + 0.64 + 0.64 + 0.01) / 4);
+  });
+
+  it('only reports the raw ECE when calibration changed the predictions', () => {
+    const samples = [sample(0.9, true), sample(0.1, false)];
+    expect(evaluatePredictions(samples, samples).rawExpectedCalibrationError).toBeUndefined();
+    expect(evaluatePredictions(samples, [sample(0.99, true), sample(0.4, false)]).rawExpectedCalibrationError).toBeCloseTo((0.01 + 0.4) / 2);
+  });
+});
@@ -0,0 +1,143 @@
+import { expectedCalibrationError, reliabilityBins, type CalibrationSample } from '@/lib/calibration';
+import type { ConfusionMatrix, DetectionMethod, EvaluationMetrics, EvaluationReport, EvaluationTarget, EvaluationTargetResult, RocPoint } from '@/types';
+
+export const DETECTION_METHODS = ['custom', 'llm', 'ensemble'] as const satisfies readonly DetectionMethod[];
+
+// The ROC curve is stored with the report, so it is thinned to at most this many points.
+const MAX_ROC_POINTS = 101;
+
+/** Identifies a detector configuration across runs. The LLM method does not use an ML model, so it has no model id. */
+export function evaluationTargetKey(target: EvaluationTarget): string {
+  return target.detectionMethod === 'llm' ? 'llm' : `${target.detectionMethod}:${target.modelId ?? 'default'}`;
+}
+
+/** A labeled prediction together with the detector's own verdict, which decides articles scored at exactly 50%. */
+export interface EvaluationSample extends CalibrationSample {
+  predictedFake: boolean;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+export function confusionMatrix(samples: EvaluationSample[]): ConfusionMatrix {
+  const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+  for (const { predictedFake, isFake } of samples) {
+    if (predictedFake && isFake) matrix.truePositives++;
+    else if (predictedFake) matrix.falsePositives++;
+    else if (isFake) matrix.falseNegatives++;
+    else matrix.trueNegatives++;
+  }
+  return matrix;
+}
+
+/**
+ * ROC curve from the highest threshold down, with tied probabilities stepping together, and the area under it
+ * by the trapezoid rule. With only one class present the curve is undefined and the AUC is reported as 0.5.
+ */
+export function rocCurve(samples: CalibrationSample[]): { points: RocPoint[]; auc: number } {
+  const positives = samples.filter(sample => sample.isFake).length;
+  const negatives = samples.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return { points: [], auc: 0.5 };
+  }
+  const sorted = [...samples].sort((a, b) => b.fakeProbability - a.fakeProbability);
+  const points: RocPoint[] = [{ threshold: 1, falsePositiveRate: 0, truePositiveRate: 0 }];
+  let truePositives = 0;
+  let falsePositives = 0;
+  let auc = 0;
+  for (let index = 0; index < sorted.length;) {
+    const threshold = sorted[index].fakeProbability;
+    while (index < sorted.length && sorted[index].fakeProbability === threshold) {
+      if (sorted[index].isFake) truePositives++;
+      else falsePositives++;
+      index++;
+    }
+    const previous = points[points.length - 1];
+    const point = { threshold, falsePositiveRate: falsePositives / negatives, truePositiveRate: truePositives / positives };
+    auc += (point.falsePositiveRate - previous.falsePositiveRate) * (point.truePositiveRate + previous.truePositiveRate) / 2;
+    points.push(point);
+  }
+  const step = Math.ceil(points.length / MAX_ROC_POINTS);
+  const thinned = step > 1 ? points.filter((_, index) => index % step === 0 || index === points.length - 1) : points;
+  return { points: thinned, auc };
+}
+
+/**
+ * Classification, ranking and calibration metrics for one detector on a labeled set. `rawSamples` are the
+ * same predictions before calibration, when a calibration model was applied.
+ */
+export function evaluatePredictions(samples: EvaluationSample[], rawSamples?: CalibrationSample[]): EvaluationMetrics {
+  const matrix = confusionMatrix(samples);
+  const { truePositives, falsePositives, trueNegatives, falseNegatives } = matrix;
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+  const { points, auc } = rocCurve(samples);
+  const probabilities = samples.map(sample => sample.fakeProbability);
+  const rawDiffers = rawSamples?.some((sample, index) => sample.fakeProbability !== samples[index].fakeProbability);
+  return {
+    sampleCount: samples.length,
+    accuracy: ratio(truePositives + trueNegatives, samples.length),
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    confusionMatrix: matrix,
+    rocAuc: auc,
+    rocCurve: points,
+    expectedCalibrationError: expectedCalibrationError(reliabilityBins(probabilities, samples)),
+    rawExpectedCalibrationError: rawSamples && rawDiffers
+      ? expectedCalibrationError(reliabilityBins(rawSamples.map(sample => sample.fakeProbability), rawSamples))
+      : undefined,
+    brierScore: ratio(samples.reduce((sum, sample) => sum + (sample.fakeProbability - (sample.isFake ? 1 : 0)) ** 2, 0), samples.length),
+  };
+}
+
+export interface EvaluationTargetComparison {
+  key: string;
+  baseline?: EvaluationMetrics;
+  candidate?: EvaluationMetrics;
+  // Rows whose verdict went from wrong to right and from right to wrong; only when both runs used the same dataset
+  fixed?: number;
+  broken?: number;
+}
+
+// Reports saved before verdicts were recorded only have probabilities; their ties at 50% count as Fake.
+function predictedFakeAt(target: EvaluationTargetResult, index: number): boolean | null {
+  const label = target.predictedLabels?.[index];
+  if (label) return label === 'Fake';
+  const probability = target.fakeProbabilities[index];
+  return probability == null ? null : probability >= 0.5;
+}
+
+/** Matches the targets of two reports by key. Row-level changes are only counted when the datasets are identical. */
+export function compareEvaluationReports(baseline: EvaluationReport, candidate: EvaluationReport): {
+  sameDataset: boolean;
+  targets: EvaluationTargetComparison[];
+} {
+  const sameDataset = baseline.dataset.fingerprint === candidate.dataset.fingerprint;
+  const keys = [...new Set([...baseline.targets, ...candidate.targets].map(target => target.key))];
+  return {
+    sameDataset,
+    targets: keys.map(key => {
+      const before = baseline.targets.find(target => target.key === key);
+      const after = candidate.targets.find(target => target.key === key);
+      const comparison: EvaluationTargetComparison = { key, baseline: before?.metrics, candidate: after?.metrics };
+      if (sameDataset && before && after) {
+        let fixed = 0;
+        let broken = 0;
+        candidate.dataset.labels.forEach((label, index) => {
+          const was = predictedFakeAt(before, index);
+          const now = predictedFakeAt(after, index);
+          if (was === null || now === null) return;
+          const wasRight = was === (label === 'Fake');
+          const isRight = now === (label === 'Fake');
+          if (!wasRight && isRight) fixed++;
+          if (wasRight && !isRight) broken++;
+        });
+        comparison.fixed = fixed;
+        comparison.broken = broken;
+      }
+      return comparison;
+    }),
+  };
+}
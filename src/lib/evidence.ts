@@ -0,0 +1,84 @@
+import type { Article, DetectedArticle, DetectionChunk, DetectionVerdict, Evidence, EvidenceCategory, EvidenceDirection, EvidenceStrength } from '@/types';
+
+export const EVIDENCE_CATEGORIES = [
+  'source_quality',
+  'factual_accuracy',
+  'language_style',
+  'internal_consistency',
+  'fact_check',
+  'context',
+  'general',
+] as const satisfies readonly EvidenceCategory[];
+
+export const EVIDENCE_DIRECTIONS = ['for', 'against'] as const satisfies readonly EvidenceDirection[];
+
+export const EVIDENCE_STRENGTHS = ['weak', 'moderate', 'strong'] as const satisfies readonly EvidenceStrength[];
+
+export const EVIDENCE_CATEGORY_LABELS: Record<EvidenceCategory, string> = {
+  source_quality: 'Sources',
+  factual_accuracy: 'Factual accuracy',
+  language_style: 'Language and tone',
+  internal_consistency: 'Internal consistency',
+  fact_check: 'Fact-checks',
+  context: 'Context',
+  general: 'General',
+};
+
+export const EVIDENCE_DIRECTION_LABELS: Record<EvidenceDirection, string> = {
+  for: 'Points to real',
+  against: 'Points to fake',
+};
+
+export const EVIDENCE_STRENGTH_LABELS: Record<EvidenceStrength, string> = {
+  weak: 'Weak',
+  moderate: 'Moderate',
+  strong: 'Strong',
+};
+
+/**
+ * Converts a pre-evidence justification (hyphen or asterisk bullets, one per line) into evidence items.
+ * The bullets only ever argued for the verdict, so they take its direction; category and strength are unknown.
+ */
+function evidenceFromJustification(justification: string, label: DetectionVerdict['label']): Evidence[] {
+  return justification
+    .split('\n')
+    .map(line => line.trim().replace(/^[-*•]\s*/, '').trim())
+    .filter(Boolean)
+    .map(statement => ({
+      statement,
+      category: 'general',
+      direction: label === 'Real' ? 'for' : 'against',
+      strength: 'moderate',
+    }));
+}
+
+type LegacyDetection = Omit<DetectedArticle, 'chunks'> & { justification?: unknown; chunks?: (DetectionChunk & { justification?: unknown })[] };
+
+/**
+ * Upgrades a detection saved before evidence existed: its `justification` string (and those of its sections)
+ * become `evidence`. The LLM's own verdict decides the direction, since the fused or calibrated one may differ.
+ * Anything else is returned unchanged, so this is safe to run on every article read back from storage.
+ */
+export function migrateJustification<T extends Article>(article: T): T {
+  if (article.type !== 'detected') return article;
+  const { justification, chunks, ...rest } = article as LegacyDetection;
+  if (typeof justification !== 'string' && !chunks?.some(chunk => typeof chunk.justification === 'string')) {
+    return article;
+  }
+  const llmLabel = rest.ensemble?.llm?.label ?? rest.rawResult?.label ?? rest.result.label;
+  const migrated: DetectedArticle = {
+    ...rest,
+    evidence: rest.evidence ?? (typeof justification === 'string' ? evidenceFromJustification(justification, llmLabel) : undefined),
+    chunks: chunks?.map(({ justification: chunkJustification, ...chunk }) => ({
+      ...chunk,
+      evidence: chunk.evidence ?? (typeof chunkJustification === 'string' ? evidenceFromJustification(chunkJustification, chunk.result.label) : undefined),
+    })),
+  };
+  return migrated as T;
+}
+
+/** One line of plain text per item, for Markdown, PDF and CSV exports. */
+export function describeEvidence(item: Evidence): string {
+  const tags = [EVIDENCE_DIRECTION_LABELS[item.direction], EVIDENCE_STRENGTH_LABELS[item.strength].toLowerCase(), EVIDENCE_CATEGORY_LABELS[item.category].toLowerCase()];
+  return `${item.statement} (${tags.join(', ')})${item.quote ? ` - "${item.quote.text}"` : ''}`;
+}
@@ -0,0 +1,88 @@
+import type { DetectedArticle, DetectionFeedback, DetectionFeedbackRecord, DetectionModelInfo, DetectionVerdict, FeedbackGroupSummary, FeedbackLabel } from '@/types';
+
+export const FEEDBACK_LABELS = ['Real', 'Fake', 'Mixed', 'Satire', 'Unverifiable'] as const satisfies readonly FeedbackLabel[];
+
+export const FEEDBACK_LABEL_DESCRIPTIONS: Record<FeedbackLabel, string> = {
+  Real: 'Accurate reporting',
+  Fake: 'False or fabricated',
+  Mixed: 'Some claims true, some false',
+  Satire: 'Satire or parody, not meant literally',
+  Unverifiable: 'Cannot be confirmed either way',
+};
+
+export const MAX_FEEDBACK_COMMENT_CHARS = 1000;
+const FEEDBACK_EXCERPT_CHARS = 300;
+
+/** The label a user most likely means when they say a binary verdict is wrong. */
+export function oppositeLabel(label: DetectionVerdict['label']): FeedbackLabel {
+  return label === 'Fake' ? 'Real' : 'Fake';
+}
+
+function modelVersionsKey(models: DetectionModelInfo[] | undefined): string {
+  if (!models?.length) return 'Unknown';
+  return models.map(model => `${model.name} (${model.version})`).join(', ');
+}
+
+/** Feedback is grouped by detection method and the exact set of model versions behind the verdict. */
+export function feedbackGroupKey(record: Pick<DetectionFeedbackRecord, 'detectionMethod' | 'models'>): string {
+  return `${record.detectionMethod}|${modelVersionsKey(record.models)}`;
+}
+
+/**
+ * The feedback document for a detection: what the user said plus a snapshot of what they judged. Replaces the
+ * detection's earlier feedback, if it has any.
+ */
+export function feedbackRecord(
+  detection: DetectedArticle,
+  input: Pick<DetectionFeedback, 'isCorrect' | 'correctedLabel' | 'comment'>,
+): Omit<DetectionFeedbackRecord, 'id' | 'userId' | 'submittedAt'> & { id?: string } {
+  return {
+    ...input,
+    id: detection.feedback?.id,
+    articleId: detection.id,
+    title: detection.title,
+    excerpt: detection.text.substring(0, FEEDBACK_EXCERPT_CHARS),
+    predicted: detection.result,
+    detectionMethod: detection.detectionMethod ?? 'llm',
+    models: detection.models,
+  };
+}
+
+/** Feedback grouped by detection method and model versions, least accurate group first. */
+export function aggregateFeedback(records: DetectionFeedbackRecord[]): FeedbackGroupSummary[] {
+  const groups = new Map<string, FeedbackGroupSummary>();
+  for (const record of records) {
+    const key = feedbackGroupKey(record);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        detectionMethod: record.detectionMethod,
+        modelVersions: modelVersionsKey(record.models),
+        total: 0,
+        correct: 0,
+        incorrect: 0,
+        accuracy: 0,
+        falseFakes: 0,
+        falseReals: 0,
+        correctedLabels: {},
+        lastSubmittedAt: record.submittedAt,
+      };
+      groups.set(key, group);
+    }
+    group.total++;
+    if (record.isCorrect) {
+      group.correct++;
+    } else {
+      group.incorrect++;
+      if (record.predicted.label === 'Fake') group.falseFakes++;
+      else group.falseReals++;
+      const corrected = record.correctedLabel ?? oppositeLabel(record.predicted.label);
+      group.correctedLabels[corrected] = (group.correctedLabels[corrected] ?? 0) + 1;
+    }
+    if (record.submittedAt > group.lastSubmittedAt) group.lastSubmittedAt = record.submittedAt;
+  }
+  return [...groups.values()]
+    .map(group => ({ ...group, accuracy: Math.round((group.correct / group.total) * 1000) / 10 }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total);
+}
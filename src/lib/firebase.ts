@@ -21,9 +21,12 @@ import {
   doc, 
   setDoc, 
   deleteDoc,
+  updateDoc,
+  deleteField,
   type Timestamp 
 } from 'firebase/firestore';
-import type { Article, GeneratedArticle, DetectedArticle } from '@/types';
+import type { Article, GeneratedArticle, DetectedArticle, DetectionFeedback, DetectionFeedbackRecord } from '@/types';
+import { migrateJustification } from '@/lib/evidence';
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -187,6 +190,26 @@ export const updateUserPasswordInFirebase = async (newPassword: string): Promise
 };
 
 
+// Recursively drops undefined values from plain objects and arrays, since Firestore rejects them.
+const stripUndefined = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(item => stripUndefined(item)) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, fieldValue]) => fieldValue !== undefined)
+        .map(([key, fieldValue]) => [key, stripUndefined(fieldValue)])
+    ) as T;
+  }
+  return value;
+};
+
+// ID token for the signed-in user, passed to server actions that must verify who is calling.
+export const getCurrentUserIdToken = async (): Promise<string | undefined> => {
+  return auth.currentUser ? auth.currentUser.getIdToken() : undefined;
+};
+
 export const saveArticle = async (userId: string, articleDataToSave: Omit<Article, 'id' | 'timestamp'> & { timestamp?: any }) => {
   if (!userId) {
     throw new Error("User ID is required to save an article.");
@@ -194,23 +217,15 @@ export const saveArticle = async (userId: string, articleDataToSave: Omit<Articl
   try {
     const userArticlesCollectionRef = collection(db, 'users', userId, 'articles');
 
+    // Remove undefined fields (including nested ones, e.g. optional claim fact-checks) which Firestore rejects
     const firestorePayload: { [key:string]: any } = {
-      ...articleDataToSave,
+      ...stripUndefined(articleDataToSave),
       timestamp: serverTimestamp(), // Use Firestore server timestamp for consistency
     };
 
-    // Explicitly remove undefined fields which Firestore might reject if not handled by rules
-    if (articleDataToSave.type === 'detected') {
-      const detectedData = articleDataToSave as Omit<DetectedArticle, 'id' | 'timestamp'>;
-      if (detectedData.justification === undefined) delete firestorePayload.justification;
-      if (detectedData.factChecks === undefined) delete firestorePayload.factChecks;
-    } else if (articleDataToSave.type === 'generated') {
-      const generatedData = articleDataToSave as Omit<GeneratedArticle, 'id' | 'timestamp'>;
-      if (generatedData.imageUrl === undefined) delete firestorePayload.imageUrl;
-    }
-
 
     const docRef = await addDoc(userArticlesCollectionRef, firestorePayload);
+    await linkPendingFeedback(articleDataToSave, docRef.id);
     
     // Construct the object to return, using a client-generated timestamp for immediate UI update consistency.
     // The serverTimestamp handles the actual stored value.
@@ -247,12 +262,21 @@ export const fetchUserArticles = async (userId: string): Promise<Article[]> => {
     return querySnapshot.docs.map(doc => {
       const data = doc.data();
       const firestoreTimestamp = data.timestamp as Timestamp; // Assuming 'timestamp' is stored as Firestore Timestamp
-      return {
+      const storedArticle = {
         id: doc.id,
         ...data,
         // Convert Firestore Timestamp to ISO string for client-side consistency
         timestamp: firestoreTimestamp ? firestoreTimestamp.toDate().toISOString() : new Date().toISOString(),
       } as Article; // Cast to Article type
+      const article = migrateJustification(storedArticle);
+      if (article !== storedArticle) {
+        // Detections saved before evidence existed are converted once; until the write lands they are converted on every read.
+        const { evidence, chunks } = article as DetectedArticle;
+        updateDoc(doc.ref, stripUndefined({ evidence, chunks, justification: deleteField() })).catch(migrationError => {
+          console.warn(`Could not store migrated evidence for article ${doc.id}:`, migrationError);
+        });
+      }
+      return article;
     });
   } catch (error: any) {
     console.error("Error fetching user articles from Firestore:", error);
@@ -281,3 +305,68 @@ export const deleteArticle = async (userId: string, articleId: string): Promise<
   }
 };
 
+// Feedback lives in a top-level collection so admins can aggregate it across users; firestore.rules lets
+// users write their own feedback documents and admins read all of them.
+const DETECTION_FEEDBACK_COLLECTION = 'detectionFeedback';
+
+/**
+ * Stores a user's feedback on a detection. Pass the `id` of earlier feedback to replace it. When the detection
+ * was saved (`record.articleId`), the feedback is also written onto the saved article.
+ */
+export const saveDetectionFeedback = async (userId: string, record: Omit<DetectionFeedbackRecord, 'id' | 'userId' | 'submittedAt'> & { id?: string }): Promise<DetectionFeedback> => {
+  if (!userId) {
+    throw new Error("User ID is required to send feedback.");
+  }
+  try {
+    const feedbackDocRef = record.id
+      ? doc(db, DETECTION_FEEDBACK_COLLECTION, record.id)
+      : doc(collection(db, DETECTION_FEEDBACK_COLLECTION));
+    const feedback: DetectionFeedback = {
+      id: feedbackDocRef.id,
+      isCorrect: record.isCorrect,
+      correctedLabel: record.isCorrect ? undefined : record.correctedLabel,
+      comment: record.comment?.trim() || undefined,
+      submittedAt: new Date().toISOString(),
+    };
+    await setDoc(feedbackDocRef, stripUndefined({ ...record, ...feedback, userId }));
+    if (record.articleId) {
+      await updateDoc(doc(db, 'users', userId, 'articles', record.articleId), { feedback: stripUndefined(feedback) });
+    }
+    return feedback;
+  } catch (error: any) {
+    console.error("Error saving detection feedback to Firestore:", error);
+    if (error.code === 'permission-denied') {
+      throw new Error("Failed to send feedback: You do not have permission for this action. Please ensure you are logged in correctly.");
+    }
+    throw new Error("Failed to send feedback due to a server issue. Please try again.");
+  }
+};
+
+/**
+ * Feedback given before its detection was saved has no `articleId`. The saved article already carries the feedback,
+ * so only the feedback document needs the link. A failure here doesn't undo the save; it is logged instead.
+ */
+const linkPendingFeedback = async (article: Omit<Article, 'id' | 'timestamp'>, articleId: string) => {
+  const feedbackId = article.type === 'detected' ? (article as Omit<DetectedArticle, 'id' | 'timestamp'>).feedback?.id : undefined;
+  if (!feedbackId) return;
+  try {
+    await updateDoc(doc(db, DETECTION_FEEDBACK_COLLECTION, feedbackId), { articleId });
+  } catch (error) {
+    console.error("Error linking detection feedback to the saved article:", error);
+  }
+};
+
+// Admin only: every feedback document, newest first.
+export const fetchDetectionFeedback = async (): Promise<DetectionFeedbackRecord[]> => {
+  try {
+    const q = query(collection(db, DETECTION_FEEDBACK_COLLECTION), orderBy("submittedAt", "desc"));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(feedbackDoc => ({ ...feedbackDoc.data(), id: feedbackDoc.id }) as DetectionFeedbackRecord);
+  } catch (error: any) {
+    console.error("Error fetching detection feedback from Firestore:", error);
+    if (error.code === 'permission-denied') {
+      throw new Error("Failed to load feedback: your account is not allowed to read feedback from all users.");
+    }
+    throw new Error("Failed to load feedback due to a server issue. Please try again later.");
+  }
+};
@@ -0,0 +1,101 @@
+import type { HeadlinePattern, HeadlinePatternHit, HeadlineVerdict } from '@/types';
+
+export const HEADLINE_PATTERNS = [
+  'curiosity_gap',
+  'listicle',
+  'superlative',
+  'emotional_trigger',
+  'question',
+  'direct_address',
+  'urgency',
+  'all_caps',
+  'excessive_punctuation',
+] as const;
+
+export const HEADLINE_PATTERN_LABELS: Record<HeadlinePattern, string> = {
+  curiosity_gap: 'Curiosity gap',
+  listicle: 'Listicle',
+  superlative: 'Superlative',
+  emotional_trigger: 'Emotional trigger',
+  question: 'Question headline',
+  direct_address: 'Direct address',
+  urgency: 'False urgency',
+  all_caps: 'ALL CAPS',
+  excessive_punctuation: 'Excessive punctuation',
+};
+
+export const HEADLINE_VERDICT_LABELS: Record<HeadlineVerdict, string> = {
+  neutral: 'Neutral headline',
+  borderline: 'Borderline clickbait',
+  clickbait: 'Clickbait',
+};
+
+// Scores at or above these (0-100) move a headline from neutral to borderline to clickbait.
+const BORDERLINE_SCORE = 35;
+const CLICKBAIT_SCORE = 65;
+
+export function headlineVerdict(clickbaitScore: number): HeadlineVerdict {
+  if (clickbaitScore >= CLICKBAIT_SCORE) return 'clickbait';
+  if (clickbaitScore >= BORDERLINE_SCORE) return 'borderline';
+  return 'neutral';
+}
+
+const PATTERN_RULES: { pattern: HeadlinePattern; regex: RegExp; explanation: string }[] = [
+  {
+    pattern: 'curiosity_gap',
+    regex: /\b(you won'?t believe|what happen(s|ed) next|the reason (why )?.{0,30} will|this is (why|what|how)|here'?s (why|what|how)|the truth about|nobody (is talking|knew)|will (shock|surprise|amaze) you|(one|this) (weird )?trick)\b/i,
+    explanation: 'Withholds the key information to make the reader click.',
+  },
+  {
+    pattern: 'listicle',
+    regex: /^\s*\d{1,3}\s+(\w+\s+){0,3}(reasons|things|ways|facts|signs|tips|secrets|times|photos|people)\b/i,
+    explanation: 'Numbered list format, often used to promise easy, skimmable content.',
+  },
+  {
+    pattern: 'superlative',
+    regex: /\b(best|worst|greatest|biggest|most|least|ever|unbelievable|incredible|ultimate|insane|epic)\b/i,
+    explanation: 'Exaggerates with superlatives or extreme adjectives.',
+  },
+  {
+    pattern: 'emotional_trigger',
+    regex: /\b(shocking|outrage(ous)?|terrifying|heartbreaking|disgusting|furious|slams?|destroys?|horrifying|devastating|jaw-dropping|mind-blowing)\b/i,
+    explanation: 'Uses emotionally loaded words to provoke a reaction.',
+  },
+  {
+    pattern: 'question',
+    regex: /\?\s*$/,
+    explanation: 'Poses a question the article may not answer (Betteridge\'s law).',
+  },
+  {
+    pattern: 'direct_address',
+    regex: /\b(you|your|you'll|you're)\b/i,
+    explanation: 'Addresses the reader directly to create a personal stake.',
+  },
+  {
+    pattern: 'urgency',
+    regex: /\b(right now|before it'?s (too late|deleted)|must (see|read|watch)|don'?t miss|breaking|urgent|act now|immediately)\b/i,
+    explanation: 'Creates artificial urgency.',
+  },
+  {
+    pattern: 'all_caps',
+    // Runs of capitals or one long capitalized word, so that acronyms like NASA or NATO do not count
+    regex: /\b[A-Z]{2,}(?:\s+[A-Z]{2,})+\b|\b[A-Z]{6,}\b/,
+    explanation: 'Shouts with words in all capitals.',
+  },
+  {
+    pattern: 'excessive_punctuation',
+    regex: /[!?]{2,}|!/,
+    explanation: 'Uses exclamation marks or stacked punctuation.',
+  },
+];
+
+/**
+ * Finds clickbait patterns in a headline with simple rules. Used as hints for the headline flow
+ * and as a fallback so that obvious patterns are reported even when the model misses them.
+ */
+export function detectHeadlinePatterns(headline: string): HeadlinePatternHit[] {
+  return PATTERN_RULES.flatMap(({ pattern, regex, explanation }) => {
+    const match = headline.match(regex);
+    return match ? [{ pattern, excerpt: match[0].trim(), explanation }] : [];
+  });
+}
@@ -0,0 +1,60 @@
+import type { HighlightSpan, ManipulationCategory } from '@/types';
+
+export const MANIPULATION_CATEGORIES = [
+  'sensational_wording',
+  'unsupported_claim',
+  'anonymous_source',
+  'emotional_appeal',
+  'misleading_statistic',
+  'logical_fallacy',
+] as const satisfies readonly ManipulationCategory[];
+
+export const manipulationCategoryLabels: Record<ManipulationCategory, string> = {
+  sensational_wording: 'Sensational wording',
+  unsupported_claim: 'Unsupported claim',
+  anonymous_source: 'Anonymous source',
+  emotional_appeal: 'Emotional appeal',
+  misleading_statistic: 'Misleading statistic',
+  logical_fallacy: 'Logical fallacy',
+};
+
+/**
+ * Finds an excerpt quoted by the LLM in the original text and returns its character offsets.
+ * Tries an exact match first, then a case-insensitive match that tolerates differences in whitespace,
+ * since models often normalize line breaks when quoting.
+ */
+export function locateExcerpt(text: string, excerpt: string): { start: number; end: number } | null {
+  const trimmed = excerpt.trim();
+  if (!trimmed) return null;
+
+  const exactIndex = text.indexOf(trimmed);
+  if (exactIndex !== -1) {
+    return { start: exactIndex, end: exactIndex + trimmed.length };
+  }
+
+  const pattern = trimmed
+    .split(/\s+/)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const match = new RegExp(pattern, 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+/**
+ * Sorts spans by position and drops any span overlapping an earlier one, so the text can be
+ * rendered as a flat sequence of plain and highlighted segments.
+ */
+export function normalizeSpans(spans: HighlightSpan[], textLength: number): HighlightSpan[] {
+  const sorted = spans
+    .filter(span => span.start >= 0 && span.end <= textLength && span.end > span.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const result: HighlightSpan[] = [];
+  for (const span of sorted) {
+    const previous = result[result.length - 1];
+    if (!previous || span.start >= previous.end) {
+      result.push(span);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,100 @@
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+
+export interface ReadableArticle {
+  title?: string;
+  byline?: string;
+  siteName?: string;
+  publishedAt?: string; // ISO 8601, when the page declares a parseable publish date
+  text: string;
+}
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+
+/**
+ * Converts an HTML fragment to plain text, keeping one paragraph per block element
+ * so paragraph boundaries survive for downstream chunking and highlighting.
+ */
+export function htmlToPlainText(html: string): string {
+  const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  document.querySelectorAll('script, style, noscript, template').forEach(node => node.remove());
+
+  const blocks = Array.from(document.querySelectorAll(BLOCK_SELECTOR))
+    // Skip blocks nested in another block (e.g. <p> inside <blockquote>) to avoid duplicated text
+    .filter(element => !element.parentElement?.closest(BLOCK_SELECTOR))
+    .map(element => normalizeWhitespace(element.textContent ?? ''))
+    .filter(text => text.length > 0);
+
+  return blocks.length > 0 ? blocks.join('\n\n') : normalizeWhitespace(document.body?.textContent ?? '');
+}
+
+/**
+ * Extracts the main article body and metadata from a full HTML page using Mozilla Readability,
+ * falling back to common meta tags and JSON-LD for fields Readability does not find.
+ */
+export function extractReadableArticle(html: string): ReadableArticle {
+  const { document } = parseHTML(html);
+  const meta = readMetadata(document);
+
+  // Readability mutates the document, so metadata is read first.
+  const parsed = new Readability(document as unknown as Document).parse();
+  const text = parsed?.content ? htmlToPlainText(parsed.content) : htmlToPlainText(document.body?.innerHTML ?? '');
+
+  return {
+    title: cleanOptional(parsed?.title) ?? meta.title,
+    byline: cleanOptional(parsed?.byline) ?? meta.byline,
+    siteName: cleanOptional(parsed?.siteName) ?? meta.siteName,
+    publishedAt: toIsoDate(parsed?.publishedTime) ?? toIsoDate(meta.publishedAt),
+    text,
+  };
+}
+
+function readMetadata(document: any): Partial<ReadableArticle> {
+  const metaContent = (...selectors: string[]) => {
+    for (const selector of selectors) {
+      const value = document.querySelector(selector)?.getAttribute('content');
+      if (value && value.trim()) return value.trim();
+    }
+    return undefined;
+  };
+
+  let jsonLd: any = {};
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]')) as any[]) {
+    try {
+      const data = JSON.parse(script.textContent ?? '');
+      const items = Array.isArray(data) ? data : (Array.isArray(data?.['@graph']) ? data['@graph'] : [data]);
+      const article = items.find((item: any) => typeof item?.['@type'] === 'string' && /Article|Posting/.test(item['@type']));
+      if (article) {
+        jsonLd = article;
+        break;
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore it.
+    }
+  }
+  const author = Array.isArray(jsonLd.author) ? jsonLd.author[0] : jsonLd.author;
+
+  return {
+    title: metaContent('meta[property="og:title"]', 'meta[name="twitter:title"]') ?? cleanOptional(document.querySelector('title')?.textContent),
+    byline: metaContent('meta[name="author"]', 'meta[property="article:author"]') ?? (typeof author === 'string' ? author : author?.name),
+    siteName: metaContent('meta[property="og:site_name"]', 'meta[name="application-name"]') ?? jsonLd.publisher?.name,
+    publishedAt: metaContent('meta[property="article:published_time"]', 'meta[name="pubdate"]', 'meta[name="date"]', 'meta[itemprop="datePublished"]')
+      ?? document.querySelector('time[datetime]')?.getAttribute('datetime')
+      ?? jsonLd.datePublished,
+  };
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function cleanOptional(value: string | null | undefined): string | undefined {
+  const cleaned = value ? normalizeWhitespace(value) : '';
+  return cleaned || undefined;
+}
+
+function toIsoDate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,69 @@
+import type { ArticleLanguage } from '@/types';
+
+export const SUPPORTED_LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  hi: 'Hindi',
+  de: 'German',
+  pt: 'Portuguese',
+  it: 'Italian',
+} as const;
+
+export type SupportedLanguageCode = keyof typeof SUPPORTED_LANGUAGES;
+
+export const UNKNOWN_LANGUAGE: ArticleLanguage = { code: 'und', name: 'Unknown', confidence: 0 };
+
+// Below this many words the stopword counts are too noisy to call a language.
+const MIN_WORDS = 5;
+
+// High-frequency function words that are distinctive for each Latin-script language.
+const STOPWORDS: Record<Exclude<SupportedLanguageCode, 'hi'>, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'was', 'for', 'with', 'he', 'she', 'they', 'this', 'have', 'from', 'by', 'not', 'are', 'which', 'would', 'has', 'been'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'por', 'con', 'para', 'es', 'del', 'se', 'no', 'al', 'lo', 'como', 'pero', 'su', 'más', 'fue'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'avec', 'il', 'elle', 'ce', 'sont', 'mais', 'été'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'von', 'sich', 'auf', 'für', 'dem', 'auch', 'es', 'im', 'wird', 'sie', 'wurde', 'aber', 'noch'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'por', 'mais', 'dos', 'das', 'se', 'foi', 'ao', 'mas', 'são'],
+  it: ['il', 'lo', 'la', 'gli', 'le', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'con', 'del', 'della', 'sono', 'nel', 'alla', 'anche', 'ma', 'più', 'stato', 'questo'],
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([code, words]) => [code, new Set(words)])
+) as Record<keyof typeof STOPWORDS, Set<string>>;
+
+export function languageName(code: string): string {
+  return SUPPORTED_LANGUAGES[code as SupportedLanguageCode] ?? UNKNOWN_LANGUAGE.name;
+}
+
+/**
+ * Identifies the language of an article locally (no API call), so it can run on every keystroke.
+ * Hindi is recognised by Devanagari script; Latin-script languages by their share of common stopwords.
+ */
+export function detectLanguage(text: string): ArticleLanguage {
+  const sample = text.slice(0, 5000);
+  const letters = sample.match(/\p{L}/gu) ?? [];
+  if (letters.length === 0) return UNKNOWN_LANGUAGE;
+
+  const devanagari = letters.filter(char => /\p{Script=Devanagari}/u.test(char)).length;
+  if (devanagari / letters.length > 0.3) {
+    return { code: 'hi', name: SUPPORTED_LANGUAGES.hi, confidence: round(devanagari / letters.length) };
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < MIN_WORDS) return UNKNOWN_LANGUAGE;
+
+  const scores = (Object.keys(STOPWORD_SETS) as (keyof typeof STOPWORD_SETS)[])
+    .map(code => ({ code, hits: words.filter(word => STOPWORD_SETS[code].has(word)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const [best, runnerUp] = scores;
+  if (best.hits === 0) return UNKNOWN_LANGUAGE;
+
+  // Confidence blends how clearly the winner beats the runner-up with how much of the text it explains.
+  const margin = (best.hits - runnerUp.hits) / best.hits;
+  const coverage = Math.min(1, (best.hits / words.length) / 0.25);
+  return { code: best.code, name: SUPPORTED_LANGUAGES[best.code], confidence: round(0.5 * margin + 0.5 * coverage) };
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
@@ -0,0 +1,50 @@
+/**
+ * Error codes for calls to the HTTP ML models. Server actions only carry an error message to the browser,
+ * so the code travels inside it as a trailing "[ML_...]" tag and is parsed back out for display.
+ */
+export const ML_ERROR_CODES = [
+  'ML_NOT_CONFIGURED',
+  'ML_TIMEOUT',
+  'ML_NETWORK',
+  'ML_UNAVAILABLE',
+  'ML_REQUEST_REJECTED',
+  'ML_BAD_RESPONSE',
+  'ML_CIRCUIT_OPEN',
+] as const;
+
+export type MlErrorCode = typeof ML_ERROR_CODES[number];
+
+export const mlErrorTitles: Record<MlErrorCode, string> = {
+  ML_NOT_CONFIGURED: "Model Not Configured",
+  ML_TIMEOUT: "Model Timed Out",
+  ML_NETWORK: "Model Unreachable",
+  ML_UNAVAILABLE: "Model Service Unavailable",
+  ML_REQUEST_REJECTED: "Request Rejected by Model",
+  ML_BAD_RESPONSE: "Unexpected Model Response",
+  ML_CIRCUIT_OPEN: "Model Temporarily Disabled",
+};
+
+// Transient failures where trying again a little later is likely to work.
+export const RETRYABLE_ML_ERROR_CODES: ReadonlySet<MlErrorCode> = new Set(['ML_TIMEOUT', 'ML_NETWORK', 'ML_UNAVAILABLE']);
+
+const CODE_TAG_PATTERN = /\s*\[(ML_[A-Z_]+)\]/;
+
+export function tagMlErrorMessage(code: MlErrorCode, message: string): string {
+  return `${message} [${code}]`;
+}
+
+export function parseMlErrorCode(message: string | undefined): MlErrorCode | undefined {
+  const code = message?.match(CODE_TAG_PATTERN)?.[1];
+  return code && (ML_ERROR_CODES as readonly string[]).includes(code) ? code as MlErrorCode : undefined;
+}
+
+/** Splits a detection error into a toast title and a description without the code tag. */
+export function describeDetectionError(error: unknown, fallbackTitle: string): { code?: MlErrorCode; title: string; description: string } {
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+  const code = parseMlErrorCode(message);
+  return {
+    code,
+    title: code ? mlErrorTitles[code] : fallbackTitle,
+    description: message.replace(CODE_TAG_PATTERN, '') || "Could not analyze the article. Please try again.",
+  };
+}
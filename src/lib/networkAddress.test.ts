@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { isNonPublicAddress } from './networkAddress';
+
+describe('isNonPublicAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '::',
+    '::1',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'ff02::1',
+  ])('rejects %s', address => {
+    expect(isNonPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    // IPv4-mapped, in the dotted form and in the hex form Node's URL parser produces
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:169.254.169.254',
+    '::ffff:a9fe:a9fe',
+    '::ffff:10.0.0.1',
+    '0:0:0:0:0:ffff:c0a8:0101',
+    // IPv4-compatible
+    '::127.0.0.1',
+    '::7f00:1',
+    '::169.254.169.254',
+    // NAT64 and 6to4 wrapping private addresses
+    '64:ff9b::127.0.0.1',
+    '2002:7f00:1::',
+    '2002:a9fe:a9fe::1',
+  ])('rejects the IPv4-in-IPv6 form %s', address => {
+    expect(isNonPublicAddress(address)).toBe(true);
+  });
+
+  it('rejects the hosts Node produces for bracketed IPv4-in-IPv6 URLs', () => {
+    for (const url of ['http://[::ffff:127.0.0.1]/', 'http://[::ffff:169.254.169.254]/', 'http://[::127.0.0.1]/']) {
+      const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+      expect(isNonPublicAddress(host)).toBe(true);
+    }
+  });
+
+  it.each([
+    '8.8.8.8',
+    '93.184.216.34',
+    '172.32.0.1',
+    '100.128.0.1',
+    '2606:4700:4700::1111',
+    '::ffff:8.8.8.8',
+    '64:ff9b::808:808',
+    '2002:808:808::1',
+  ])('accepts the public address %s', address => {
+    expect(isNonPublicAddress(address)).toBe(false);
+  });
+
+  it('treats anything that is not an IP address as non-public', () => {
+    expect(isNonPublicAddress('localhost')).toBe(true);
+    expect(isNonPublicAddress('')).toBe(true);
+  });
+});
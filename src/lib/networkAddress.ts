@@ -0,0 +1,70 @@
+import { isIP } from 'net';
+
+// IPv4 ranges that are never public, as the first octet and the range of the second: "this network", private,
+// shared (CGNAT), loopback, link-local (including the cloud metadata address) and benchmarking.
+const NON_PUBLIC_IPV4: Array<[number, number, number]> = [
+  [0, 0, 255],
+  [10, 0, 255],
+  [100, 64, 127],
+  [127, 0, 255],
+  [169, 254, 254],
+  [172, 16, 31],
+  [192, 168, 168],
+  [198, 18, 19],
+];
+
+function isNonPublicIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+  if (a >= 224) return true; // Multicast and reserved
+  if (a === 192 && b === 0 && c === 0) return true; // IETF protocol assignments
+  return NON_PUBLIC_IPV4.some(([first, from, to]) => a === first && b >= from && b <= to);
+}
+
+/** The 16 bytes of an IPv6 address, including forms with `::` and an embedded dotted IPv4 tail. */
+function ipv6Bytes(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, ''); // Drop a zone id
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[1].split('.').map(Number);
+    text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.includes('::') ? text.split('::') : [text, undefined];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+function ipv4From(bytes: number[]): string {
+  return bytes.join('.');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet. IPv6 forms that
+ * carry an IPv4 address (mapped `::ffff:0:0/96`, compatible `::/96`, NAT64 `64:ff9b::/96` and 6to4 `2002::/16`)
+ * are judged by that IPv4 address, whichever way they are written. Anything that is not an IP address counts as
+ * non-public.
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isNonPublicIPv4(address);
+  if (version !== 6) return true;
+
+  const bytes = ipv6Bytes(address);
+  const leadingZeros = bytes.findIndex(byte => byte !== 0);
+  if (leadingZeros === -1 || (leadingZeros === 15 && bytes[15] === 1)) return true; // :: and ::1
+  if (leadingZeros >= 12) return isNonPublicIPv4(ipv4From(bytes.slice(12))); // IPv4-compatible
+  if (leadingZeros === 10 && bytes[10] === 0xff && bytes[11] === 0xff) return isNonPublicIPv4(ipv4From(bytes.slice(12))); // IPv4-mapped
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && bytes.slice(4, 12).every(byte => byte === 0)) {
+    return isNonPublicIPv4(ipv4From(bytes.slice(12))); // NAT64
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return isNonPublicIPv4(ipv4From(bytes.slice(2, 6))); // 6to4
+  return (bytes[0] & 0xfe) === 0xfc // Unique local fc00::/7
+    || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) // Link-local fe80::/10
+    || bytes[0] === 0xff; // Multicast
+}
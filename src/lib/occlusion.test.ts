@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_OCCLUSION_UNITS, occlusionUnits, removeSpan, topOcclusionSpans } from './occlusion';
+import type { OcclusionSpan } from '@/types';
+
+const spanTexts = (text: string, spans: { start: number; end: number }[]) => spans.map(({ start, end }) => text.slice(start, end));
+
+describe('occlusionUnits', () => {
+  it('uses sentences for ordinary texts', () => {
+    const text = 'One happened. Two followed. Three was odd. Four ended it.';
+    const { unit, spans } = occlusionUnits(text);
+    expect(unit).toBe('sentence');
+    expect(spanTexts(text, spans)).toEqual(['One happened.', 'Two followed.', 'Three was odd.', 'Four ended it.']);
+  });
+
+  it('falls back to clauses for very short texts', () => {
+    const text = 'Officials said, without evidence, that the vote was rigged; nobody agreed.';
+    const { unit, spans } = occlusionUnits(text);
+    expect(unit).toBe('clause');
+    expect(spanTexts(text, spans)).toEqual(['Officials said,', 'without evidence,', 'that the vote was rigged;', 'nobody agreed.']);
+  });
+
+  it('keeps sentences when a short text has no clause boundaries', () => {
+    const text = 'Short claim here. Another one.';
+    expect(occlusionUnits(text)).toMatchObject({ unit: 'sentence', spans: [{ start: 0, end: 17 }, { start: 18, end: 30 }] });
+  });
+
+  it('groups adjacent sentences of long texts to stay within the call budget', () => {
+    const text = Array.from({ length: 95 }, (_, i) => `Sentence number ${i}.`).join(' ');
+    const { unit, spans } = occlusionUnits(text);
+    expect(unit).toBe('sentence');
+    expect(spans.length).toBeLessThanOrEqual(MAX_OCCLUSION_UNITS);
+    expect(spanTexts(text, spans)[0]).toBe('Sentence number 0. Sentence number 1. Sentence number 2. Sentence number 3.');
+    expect(spans[spans.length - 1].end).toBe(text.length);
+  });
+});
+
+describe('removeSpan', () => {
+  it('cuts the span out and joins the rest with a single space', () => {
+    const text = 'Keep this. Drop this.  Keep that.';
+    expect(removeSpan(text, { start: 11, end: 21 })).toBe('Keep this. Keep that.');
+    expect(removeSpan(text, { start: 0, end: 10 })).toBe('Drop this.  Keep that.');
+  });
+});
+
+describe('topOcclusionSpans', () => {
+  const span = (delta: number): OcclusionSpan => ({ start: 0, end: 1, text: 'x', fakeProbability: 0.5 - delta, delta, flipsVerdict: false });
+
+  it('ranks by the size of the change in either direction and drops noise', () => {
+    const ranked = topOcclusionSpans([span(0.05), span(-0.3), span(0.005), span(0.2), span(-0.009)]);
+    expect(ranked.map(({ delta }) => delta)).toEqual([-0.3, 0.2, 0.05]);
+  });
+
+  it('returns at most the limit', () => {
+    expect(topOcclusionSpans([span(0.1), span(0.2), span(0.3)], 2).map(({ delta }) => delta)).toEqual([0.3, 0.2]);
+  });
+});
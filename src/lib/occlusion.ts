@@ -0,0 +1,58 @@
+import type { OcclusionSpan } from '@/types';
+import { splitSentences } from '@/lib/chunking';
+
+// Each unit costs one model call; longer texts have adjacent sentences removed together to stay within budget.
+export const MAX_OCCLUSION_UNITS = 30;
+// Texts with fewer sentences than this are perturbed clause by clause instead, so there is something to compare.
+const MIN_SENTENCE_UNITS = 4;
+export const TOP_OCCLUSION_SPANS = 5;
+// Changes smaller than this (1 percentage point) are noise, not a contribution.
+export const MIN_OCCLUSION_DELTA = 0.01;
+
+const CLAUSE_BOUNDARY = /(?<=[,;:])\s+|\s+[—–-]\s+/g;
+
+function splitClauses(text: string, sentence: { start: number; end: number }): { start: number; end: number }[] {
+  const clauses: { start: number; end: number }[] = [];
+  let start = sentence.start;
+  for (const match of text.slice(sentence.start, sentence.end).matchAll(CLAUSE_BOUNDARY)) {
+    const end = sentence.start + match.index!;
+    if (end > start) clauses.push({ start, end });
+    start = end + match[0].length;
+  }
+  if (sentence.end > start) clauses.push({ start, end: sentence.end });
+  return clauses;
+}
+
+/** The spans removed one at a time: sentences, clauses for very short texts, or groups of sentences for long ones. */
+export function occlusionUnits(text: string): { unit: 'sentence' | 'clause'; spans: { start: number; end: number }[] } {
+  const sentences = splitSentences(text);
+  if (sentences.length < MIN_SENTENCE_UNITS) {
+    const clauses = sentences.flatMap(sentence => splitClauses(text, sentence));
+    if (clauses.length > sentences.length) {
+      return { unit: 'clause', spans: clauses.slice(0, MAX_OCCLUSION_UNITS) };
+    }
+  }
+  if (sentences.length <= MAX_OCCLUSION_UNITS) {
+    return { unit: 'sentence', spans: sentences };
+  }
+  const groupSize = Math.ceil(sentences.length / MAX_OCCLUSION_UNITS);
+  const groups: { start: number; end: number }[] = [];
+  for (let index = 0; index < sentences.length; index += groupSize) {
+    const group = sentences.slice(index, index + groupSize);
+    groups.push({ start: group[0].start, end: group[group.length - 1].end });
+  }
+  return { unit: 'sentence', spans: groups };
+}
+
+/** The text with one span cut out, joined with a single space. */
+export function removeSpan(text: string, span: { start: number; end: number }): string {
+  return `${text.slice(0, span.start).trimEnd()} ${text.slice(span.end).trimStart()}`.trim();
+}
+
+/** The spans that moved the prediction most, in either direction, strongest first. */
+export function topOcclusionSpans(spans: OcclusionSpan[], limit: number = TOP_OCCLUSION_SPANS): OcclusionSpan[] {
+  return spans
+    .filter(span => Math.abs(span.delta) >= MIN_OCCLUSION_DELTA)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    .slice(0, limit);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { builtInPromptVersions, defaultPromptVersion, effectiveTraffic, nextPromptVersion, pickPromptVersion } from './prompts';
+import type { PromptId, PromptRegistryEntry, PromptVersion } from '@/types';
+
+const promptId: PromptId = 'llmDetectFakeNews';
+
+function entryWith(traffic: Record<string, number>, extra: Partial<PromptVersion>[] = []): PromptRegistryEntry {
+  const builtIn = builtInPromptVersions(promptId);
+  const next = Number(nextPromptVersion(builtIn));
+  const added = extra.map((version, index) => ({
+    promptId,
+    version: String(next + index),
+    template: '{{{articleText}}}',
+    createdAt: new Date(0).toISOString(),
+    ...version,
+  }));
+  return { promptId, versions: [...builtIn, ...added], traffic };
+}
+
+const keys = Array.from({ length: 2000 }, (_, i) => `article text number ${i}`);
+
+describe('pickPromptVersion', () => {
+  it('gives the same bucket key the same version every time', () => {
+    const entry = entryWith({}, [{}]);
+    const [control, candidate] = [defaultPromptVersion(promptId).version, entry.versions[entry.versions.length - 1].version];
+    entry.traffic = { [control]: 50, [candidate]: 50 };
+    keys.slice(0, 50).forEach(key => {
+      const first = pickPromptVersion(entry, key).version;
+      expect(pickPromptVersion(entry, key).version).toBe(first);
+      expect(pickPromptVersion({ ...entry }, key).version).toBe(first);
+    });
+  });
+
+  it('splits bucket keys roughly in proportion to the traffic shares', () => {
+    const entry = entryWith({}, [{}]);
+    const [control, candidate] = [defaultPromptVersion(promptId).version, entry.versions[entry.versions.length - 1].version];
+    entry.traffic = { [control]: 80, [candidate]: 20 };
+    const picks = keys.map(key => pickPromptVersion(entry, key).version);
+    const candidateShare = picks.filter(version => version === candidate).length / picks.length;
+    expect(candidateShare).toBeGreaterThan(0.15);
+    expect(candidateShare).toBeLessThan(0.25);
+  });
+
+  it('keeps most keys on their version when a share grows', () => {
+    const entry = entryWith({}, [{}]);
+    const [control, candidate] = [defaultPromptVersion(promptId).version, entry.versions[entry.versions.length - 1].version];
+    const before = keys.map(key => pickPromptVersion({ ...entry, traffic: { [control]: 90, [candidate]: 10 } }, key).version);
+    const after = keys.map(key => pickPromptVersion({ ...entry, traffic: { [control]: 80, [candidate]: 20 } }, key).version);
+    // Keys that were on the candidate stay there; only control keys move over.
+    before.forEach((version, index) => {
+      if (version === candidate) expect(after[index]).toBe(candidate);
+    });
+  });
+
+  it('uses the default built-in version when no split is saved', () => {
+    expect(pickPromptVersion(entryWith({}), 'any key').version).toBe(defaultPromptVersion(promptId).version);
+  });
+
+  it('never picks a retired version or one with a zero share', () => {
+    const entry = entryWith({}, [{ retired: true }, {}]);
+    const [retired, zero] = entry.versions.slice(-2).map(version => version.version);
+    entry.traffic = { [retired]: 100, [zero]: 0 };
+    expect(effectiveTraffic(entry)).toEqual({ [defaultPromptVersion(promptId).version]: 100 });
+    keys.slice(0, 100).forEach(key => {
+      expect(pickPromptVersion(entry, key).version).toBe(defaultPromptVersion(promptId).version);
+    });
+  });
+});
+
+describe('nextPromptVersion', () => {
+  it('numbers after the highest numeric version', () => {
+    const versions = [{ version: '1' }, { version: '7' }, { version: 'draft' }] as PromptVersion[];
+    expect(nextPromptVersion(versions)).toBe('8');
+    expect(nextPromptVersion([])).toBe('1');
+  });
+});
@@ -0,0 +1,161 @@
+import { MANIPULATION_CATEGORIES } from '@/lib/highlights';
+import { EVIDENCE_CATEGORIES } from '@/lib/evidence';
+import type { PromptId, PromptRegistryEntry, PromptVersion } from '@/types';
+
+export const PROMPT_IDS = ['llmDetectFakeNews', 'generateFakeNewsArticle'] as const satisfies readonly PromptId[];
+
+export const PROMPT_INFO: Record<PromptId, { label: string; description: string; requiredVariables: string[]; optionalVariables: string[] }> = {
+  llmDetectFakeNews: {
+    label: 'LLM Detection',
+    description: 'Asks the Genkit model for a Real/Fake verdict, a title, the evidence behind it, fact-checks and manipulative passages. Used by the Genkit AI method, the ensemble and long-article detection.',
+    requiredVariables: ['articleText'],
+    optionalVariables: ['responseLanguage'],
+  },
+  generateFakeNewsArticle: {
+    label: 'Article Generation',
+    description: 'Writes a fake news article and headline for the generator and the game.',
+    requiredVariables: ['topic', 'category', 'tone'],
+    optionalVariables: [],
+  },
+};
+
+interface BuiltInPromptVersion {
+  version: string;
+  template: string;
+  notes: string;
+  retired?: boolean;
+}
+
+/**
+ * Versions that ship with the code, oldest first; the last one serves all traffic until a split is saved.
+ * Changing a template means adding a version here, never editing one: saved articles, feedback, evaluation
+ * reports and the detection cache all identify a prompt by its version.
+ */
+const BUILT_IN_PROMPT_VERSIONS: Record<PromptId, BuiltInPromptVersion[]> = {
+  llmDetectFakeNews: [
+    {
+      version: '1',
+      notes: 'Original template with a free-text justification. Retired: the flow now only accepts structured evidence.',
+      retired: true,
+      template: `You are an AI assistant specializing in fake news detection and analysis.
+Analyze the following news article text.
+You MUST generate a concise, representative title for the article, no more than 15 words long. This title should summarize the main topic or claim of the article.
+Based on your analysis, determine if the article is 'Real' or 'Fake'.
+You MUST provide a confidence score (an integer between 0 and 100) for your prediction.
+You MUST provide a brief justification for your prediction, consisting of 2 to 3 main bullet points. Each bullet point should be a short sentence. Do NOT use HTML formatting in the justification; provide plain text bullet points, each starting with a hyphen (-) or asterisk (*).
+If the article contains verifiable claims, use the 'externalFactCheckerTool' to find published fact-checks. Copy any findings from this tool into the 'factChecks' output field exactly as returned (source, claimReviewed, rating, url); never invent fact-checks that the tool did not return. If the tool returns no results, omit the 'factChecks' field or return an empty array.
+Identify passages that use manipulative or unreliable techniques and list them in 'manipulativeSpans'. Each excerpt MUST be copied verbatim from the article text (a phrase or a single sentence, not a paraphrase) and tagged with one category: ${MANIPULATION_CATEGORIES.join(', ')}. Flag at most 8 passages; return an empty array if there are none.
+{{#if responseLanguage}}
+Write the suggested title, the justification and each passage's reason in {{responseLanguage}}. The label MUST still be exactly 'Real' or 'Fake', and excerpts MUST still be copied verbatim in the language of the article text.
+{{/if}}
+
+Article Text:
+{{{articleText}}}
+`,
+    },
+    {
+      version: '2',
+      notes: 'Structured evidence (statement, category, direction, strength, quote) instead of justification bullets.',
+      template: `You are an AI assistant specializing in fake news detection and analysis.
+Analyze the following news article text.
+You MUST generate a concise, representative title for the article, no more than 15 words long. This title should summarize the main topic or claim of the article.
+Based on your analysis, determine if the article is 'Real' or 'Fake'.
+You MUST provide a confidence score (an integer between 0 and 100) for your prediction.
+You MUST list the evidence behind your prediction in 'evidence': 2 to 5 items, each with a 'statement' of one short plain-text sentence (no HTML, no bullet characters), a 'category' (one of: ${EVIDENCE_CATEGORIES.join(', ')}), a 'direction' ('for' if it points to the article being real, 'against' if it points to it being fake) and a 'strength' (weak, moderate or strong). Include evidence that argues against your prediction too, if there is any. When an item rests on a specific passage, copy that passage verbatim from the article text into 'quote'.
+If the article contains verifiable claims, use the 'externalFactCheckerTool' to find published fact-checks. Copy any findings from this tool into the 'factChecks' output field exactly as returned (source, claimReviewed, rating, url); never invent fact-checks that the tool did not return. If the tool returns no results, omit the 'factChecks' field or return an empty array.
+Identify passages that use manipulative or unreliable techniques and list them in 'manipulativeSpans'. Each excerpt MUST be copied verbatim from the article text (a phrase or a single sentence, not a paraphrase) and tagged with one category: ${MANIPULATION_CATEGORIES.join(', ')}. Flag at most 8 passages; return an empty array if there are none.
+{{#if responseLanguage}}
+Write the suggested title, each evidence statement and each passage's reason in {{responseLanguage}}. The label MUST still be exactly 'Real' or 'Fake', and excerpts and quotes MUST still be copied verbatim in the language of the article text.
+{{/if}}
+
+Article Text:
+{{{articleText}}}
+`,
+    },
+  ],
+  generateFakeNewsArticle: [
+    {
+      version: '1',
+      notes: 'Built-in template shipped with the app.',
+      template: `You are a professional fake news article writer.
+
+You will be provided with a topic, category, and tone.
+
+You MUST generate a catchy and relevant headline (title) for the article.
+You will write a fake news article based on the topic, category, and tone.
+
+Topic: {{{topic}}}
+Category: {{{category}}}
+Tone: {{{tone}}}
+
+Headline: 
+Article: `,
+    },
+  ],
+};
+
+export function builtInPromptVersions(promptId: PromptId): PromptVersion[] {
+  return BUILT_IN_PROMPT_VERSIONS[promptId].map(({ version, template, notes, retired }) => ({
+    promptId,
+    version,
+    template,
+    notes,
+    createdAt: new Date(0).toISOString(),
+    builtIn: true,
+    ...(retired ? { retired } : {}),
+  }));
+}
+
+/** The newest built-in version, used when no traffic split is saved or the registry cannot be read. */
+export function defaultPromptVersion(promptId: PromptId): PromptVersion {
+  const versions = builtInPromptVersions(promptId);
+  return versions[versions.length - 1];
+}
+
+/** Required variables the template never references, as {{name}} or {{{name}}}. */
+export function missingPromptVariables(promptId: PromptId, template: string): string[] {
+  return PROMPT_INFO[promptId].requiredVariables.filter(name => !new RegExp(`{{{?\\s*${name}\\s*}?}}`).test(template));
+}
+
+/** The next free version number: one more than the highest existing numeric version. */
+export function nextPromptVersion(versions: PromptVersion[]): string {
+  const highest = Math.max(0, ...versions.map(version => parseInt(version.version, 10)).filter(Number.isFinite));
+  return String(highest + 1);
+}
+
+/**
+ * The traffic split actually in effect: live (not retired) versions with a positive share, or all traffic on the
+ * default built-in version.
+ */
+export function effectiveTraffic(entry: Pick<PromptRegistryEntry, 'promptId' | 'versions' | 'traffic'>): Record<string, number> {
+  const live = new Set(entry.versions.filter(version => !version.retired).map(version => version.version));
+  const active = Object.entries(entry.traffic).filter(([version, share]) => live.has(version) && share > 0);
+  return active.length > 0 ? Object.fromEntries(active) : { [defaultPromptVersion(entry.promptId).version]: 100 };
+}
+
+// 32-bit FNV-1a; only needs to spread keys evenly over 100 buckets, and runs on client and server alike.
+function hashToBucket(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * Picks a version according to the traffic split. With a bucket key (e.g. the article text) the same key always
+ * gets the same version, so repeated analyses of an article agree and hit the cache; without one the pick is random.
+ */
+export function pickPromptVersion(entry: Pick<PromptRegistryEntry, 'promptId' | 'versions' | 'traffic'>, bucketKey?: string): PromptVersion {
+  const traffic = effectiveTraffic(entry);
+  const total = Object.values(traffic).reduce((sum, share) => sum + share, 0);
+  const point = (bucketKey !== undefined ? hashToBucket(bucketKey) : Math.floor(Math.random() * 100)) * total / 100;
+  let cumulative = 0;
+  const candidates = entry.versions.filter(version => traffic[version.version] !== undefined);
+  for (const version of candidates) {
+    cumulative += traffic[version.version];
+    if (point < cumulative) return version;
+  }
+  return candidates[candidates.length - 1] ?? defaultPromptVersion(entry.promptId);
+}
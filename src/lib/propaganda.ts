@@ -0,0 +1,101 @@
+import type { DetectedArticle, PropagandaFinding, PropagandaSeverity, PropagandaTechnique } from '@/types';
+
+// Fixed taxonomy, adapted from the SemEval-2020 Task 11 propaganda techniques used in our workshops.
+export const PROPAGANDA_TECHNIQUES = [
+  'loaded_language',
+  'name_calling',
+  'exaggeration',
+  'repetition',
+  'appeal_to_fear',
+  'flag_waving',
+  'doubt',
+  'whataboutism',
+  'bandwagon',
+  'false_dilemma',
+  'causal_oversimplification',
+  'slogans',
+  'appeal_to_authority',
+  'straw_man',
+  'red_herring',
+  'thought_terminating_cliche',
+] as const;
+
+export const PROPAGANDA_SEVERITIES = ['low', 'medium', 'high'] as const;
+
+export const PROPAGANDA_TECHNIQUE_INFO: Record<PropagandaTechnique, { label: string; definition: string }> = {
+  loaded_language: { label: 'Loaded language', definition: 'Words with strong emotional connotations used to sway the reader.' },
+  name_calling: { label: 'Name calling', definition: 'Labeling a person or group with a term the audience fears, hates or admires.' },
+  exaggeration: { label: 'Exaggeration / minimisation', definition: 'Making something seem much bigger or much smaller than it is.' },
+  repetition: { label: 'Repetition', definition: 'Repeating the same message over and over so that it sticks.' },
+  appeal_to_fear: { label: 'Appeal to fear', definition: 'Building support by stoking anxiety or panic about an alternative.' },
+  flag_waving: { label: 'Flag-waving', definition: 'Appealing to group or national identity to justify an idea.' },
+  doubt: { label: 'Casting doubt', definition: 'Questioning the credibility of someone instead of addressing their argument.' },
+  whataboutism: { label: 'Whataboutism', definition: 'Deflecting criticism by pointing at the opponent\'s alleged hypocrisy.' },
+  bandwagon: { label: 'Bandwagon', definition: 'Urging the reader to agree because "everyone" already does.' },
+  false_dilemma: { label: 'False dilemma', definition: 'Presenting two options as the only ones when more exist.' },
+  causal_oversimplification: { label: 'Causal oversimplification', definition: 'Blaming a single cause for a complex issue.' },
+  slogans: { label: 'Slogans', definition: 'Short, striking phrases that replace an argument.' },
+  appeal_to_authority: { label: 'Appeal to authority', definition: 'Claiming something is true only because an authority said so.' },
+  straw_man: { label: 'Straw man', definition: 'Refuting a distorted version of the opponent\'s position.' },
+  red_herring: { label: 'Red herring', definition: 'Introducing an irrelevant topic to divert attention from the issue.' },
+  thought_terminating_cliche: { label: 'Thought-terminating cliché', definition: 'A stock phrase that discourages further thinking ("it is what it is").' },
+};
+
+export const PROPAGANDA_SEVERITY_LABELS: Record<PropagandaSeverity, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const SEVERITY_RANK: Record<PropagandaSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+export function compareSeverity(a: PropagandaSeverity, b: PropagandaSeverity): number {
+  return SEVERITY_RANK[a] - SEVERITY_RANK[b];
+}
+
+/** One entry per technique used in an article, with its most severe finding; most severe first. */
+export function techniquesInArticle(findings: PropagandaFinding[]): { technique: PropagandaTechnique; severity: PropagandaSeverity; count: number }[] {
+  const byTechnique = new Map<PropagandaTechnique, { technique: PropagandaTechnique; severity: PropagandaSeverity; count: number }>();
+  for (const finding of findings) {
+    const existing = byTechnique.get(finding.technique);
+    if (existing) {
+      existing.count++;
+      if (compareSeverity(finding.severity, existing.severity) > 0) existing.severity = finding.severity;
+    } else {
+      byTechnique.set(finding.technique, { technique: finding.technique, severity: finding.severity, count: 1 });
+    }
+  }
+  return [...byTechnique.values()].sort((a, b) => compareSeverity(b.severity, a.severity) || b.count - a.count);
+}
+
+export interface PropagandaTechniqueTotals {
+  technique: PropagandaTechnique;
+  articleCount: number; // Articles that use the technique at least once
+  findingCount: number;
+  highSeverityCount: number;
+}
+
+/** Totals per technique across a set of detections (e.g. a user's history), most widespread first. */
+export function aggregatePropaganda(articles: DetectedArticle[]): { analyzedArticles: number; totals: PropagandaTechniqueTotals[] } {
+  const totals = new Map<PropagandaTechnique, PropagandaTechniqueTotals>();
+  let analyzedArticles = 0;
+  for (const article of articles) {
+    if (!article.propaganda) continue;
+    analyzedArticles++;
+    const seen = new Set<PropagandaTechnique>();
+    for (const finding of article.propaganda) {
+      const entry = totals.get(finding.technique) ?? { technique: finding.technique, articleCount: 0, findingCount: 0, highSeverityCount: 0 };
+      entry.findingCount++;
+      if (finding.severity === 'high') entry.highSeverityCount++;
+      if (!seen.has(finding.technique)) {
+        entry.articleCount++;
+        seen.add(finding.technique);
+      }
+      totals.set(finding.technique, entry);
+    }
+  }
+  return {
+    analyzedArticles,
+    totals: [...totals.values()].sort((a, b) => b.articleCount - a.articleCount || b.findingCount - a.findingCount),
+  };
+}
@@ -0,0 +1,108 @@
+import type { LinguisticSignalKey, LinguisticSignals } from '@/types';
+
+// The lexicons are English; non-English articles should be analyzed on their translation.
+const HEDGING_WORDS = [
+  'allegedly', 'apparently', 'arguably', 'could', 'likely', 'may', 'maybe', 'might', 'perhaps', 'possibly',
+  'presumably', 'probably', 'reportedly', 'seemingly', 'seems', 'suggests', 'supposedly', 'unclear', 'unconfirmed',
+];
+
+const ABSOLUTIST_WORDS = [
+  'absolutely', 'all', 'always', 'certainly', 'completely', 'constantly', 'definitely', 'entire', 'entirely', 'every',
+  'everyone', 'everything', 'never', 'nobody', 'none', 'nothing', 'proven', 'totally', 'undeniable', 'undeniably',
+];
+
+// Multi-word attribution cues are matched as phrases, single verbs as words.
+const ATTRIBUTION_PATTERN = /\b(according to|said|says|told|stated|reported|confirmed|announced|explained|wrote|in a statement|spokesperson|spokesman|spokeswoman)\b/gi;
+
+const CLICKBAIT_PHRASES = [
+  "you won't believe", 'you will never believe', 'what happened next', 'will shock you', 'shocking', 'mind-blowing',
+  'jaw-dropping', 'doctors hate', 'this one trick', 'one weird trick', 'the truth about', "they don't want you to know",
+  'the real reason', 'goes viral', 'breaks the internet', 'must see', 'must-see', 'gone wrong', "here's why",
+  'here is why', 'secret', 'exposed', 'miracle', 'banned', 'wake up', 'share before', 'before it gets deleted',
+];
+
+const HEDGING_SET = new Set(HEDGING_WORDS);
+const ABSOLUTIST_SET = new Set(ABSOLUTIST_WORDS);
+
+// Ranges beyond which a signal is unusual for edited news copy. Deliberately loose: a flag is a prompt to look, not a verdict.
+const THRESHOLDS = {
+  minReadingEase: 30, // Flesch reading ease below this is "very difficult"
+  maxExclamationsPer100Words: 0.5,
+  maxCapsShare: 0.03,
+  maxHedgingPer100Words: 2,
+  maxAbsolutistPer100Words: 1.5,
+  minWordsForWordRates: 60, // A single hedge in a two-line snippet says little
+  minWordsForAttribution: 150, // Shorter texts often legitimately have no attribution
+};
+
+export const SIGNAL_LABELS: Record<LinguisticSignalKey, string> = {
+  readability: 'Hard to read',
+  exclamation: 'Many exclamation marks',
+  caps: 'Shouting (ALL CAPS)',
+  hedging: 'Heavy hedging',
+  absolutist: 'Absolutist language',
+  attribution: 'No attributed sources',
+  clickbait: 'Clickbait phrasing',
+};
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Vowel-group heuristic; accurate enough for readability formulas, which were fitted with hand counts anyway.
+function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length <= 3) return 1;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+function quotedCharacters(text: string): number {
+  const quotes = text.match(/["“][^"“”]{3,}["”]/g) ?? [];
+  return quotes.reduce((sum, quote) => sum + quote.length, 0);
+}
+
+/**
+ * Computes deterministic, explainable style signals for an article (no model calls).
+ * Densities are per 100 words so that long and short articles are comparable.
+ */
+export function analyzeSignals(text: string): LinguisticSignals {
+  const words = text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? [];
+  const wordCount = words.length;
+  const sentenceCount = Math.max(1, (text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) ?? []).filter(sentence => /\p{L}/u.test(sentence)).length);
+  const per100 = (count: number) => (wordCount > 0 ? round((count / wordCount) * 100) : 0);
+
+  const lowerWords = words.map(word => word.toLowerCase());
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = wordCount > 0 ? syllables / wordCount : 0;
+
+  const lowerText = text.toLowerCase();
+  const clickbaitHits = CLICKBAIT_PHRASES.filter(phrase => new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lowerText));
+
+  const signals: Omit<LinguisticSignals, 'flagged'> = {
+    wordCount,
+    sentenceCount,
+    fleschReadingEase: wordCount > 0 ? round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord, 1) : 0,
+    fleschKincaidGrade: wordCount > 0 ? round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59), 1) : 0,
+    exclamationDensity: per100((text.match(/!/g) ?? []).length),
+    capsDensity: wordCount > 0 ? round(words.filter(word => word.length >= 3 && /\p{Lu}/u.test(word) && word === word.toUpperCase()).length / wordCount, 3) : 0,
+    hedgingRatio: per100(lowerWords.filter(word => HEDGING_SET.has(word)).length),
+    absolutistRatio: per100(lowerWords.filter(word => ABSOLUTIST_SET.has(word)).length),
+    quoteDensity: text.length > 0 ? round(quotedCharacters(text) / text.length, 3) : 0,
+    attributionCount: (text.match(ATTRIBUTION_PATTERN) ?? []).length,
+    clickbaitHits,
+  };
+
+  const flagged: LinguisticSignalKey[] = [];
+  if (wordCount > 0 && signals.fleschReadingEase < THRESHOLDS.minReadingEase) flagged.push('readability');
+  if (signals.exclamationDensity > THRESHOLDS.maxExclamationsPer100Words) flagged.push('exclamation');
+  if (signals.capsDensity > THRESHOLDS.maxCapsShare) flagged.push('caps');
+  if (wordCount >= THRESHOLDS.minWordsForWordRates && signals.hedgingRatio > THRESHOLDS.maxHedgingPer100Words) flagged.push('hedging');
+  if (wordCount >= THRESHOLDS.minWordsForWordRates && signals.absolutistRatio > THRESHOLDS.maxAbsolutistPer100Words) flagged.push('absolutist');
+  if (wordCount >= THRESHOLDS.minWordsForAttribution && signals.attributionCount === 0) flagged.push('attribution');
+  if (clickbaitHits.length > 0) flagged.push('clickbait');
+
+  return { ...signals, flagged };
+}
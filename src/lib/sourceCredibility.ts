@@ -0,0 +1,84 @@
+import type { DomainCredibility, SourceCredibilityEntry, SourceCredibilitySummary, SourceReliability } from '@/types';
+
+export const SOURCE_RELIABILITIES = ['high', 'generally_reliable', 'mixed', 'low', 'very_low', 'satire'] as const;
+
+export const RELIABILITY_LABELS: Record<SourceReliability, string> = {
+  high: 'High',
+  generally_reliable: 'Generally reliable',
+  mixed: 'Mixed',
+  low: 'Low',
+  very_low: 'Very low',
+  satire: 'Satire',
+};
+
+export const LOW_CREDIBILITY_RELIABILITIES: ReadonlySet<SourceReliability> = new Set(['low', 'very_low', 'satire']);
+
+// Only explicit links (with a scheme or "www."): bare "name.tld" matches too many file names and abbreviations.
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'()[\]]+/gi;
+
+/** Lower-cased host without "www." or port, from a URL or a bare domain; undefined if it isn't one. */
+export function normalizeDomain(urlOrDomain: string): string | undefined {
+  const trimmed = urlOrDomain.trim().toLowerCase();
+  if (!trimmed) return undefined;
+  try {
+    const host = new URL(/^[a-z]+:\/\//.test(trimmed) ? trimmed : `http://${trimmed}`).hostname;
+    const domain = host.replace(/^www\./, '').replace(/\.$/, '');
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/.test(domain) ? domain : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Domains of the links in a text, with how often each is linked. */
+export function extractLinkedDomains(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const match of text.match(LINK_PATTERN) ?? []) {
+    const domain = normalizeDomain(match.replace(/[.,;:!?]+$/, ''));
+    if (domain) counts.set(domain, (counts.get(domain) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** The most specific entry for a domain: an exact match, else the closest parent domain (news.bbc.co.uk -> bbc.co.uk). */
+export function findCredibilityEntry(domain: string, entries: SourceCredibilityEntry[]): SourceCredibilityEntry | undefined {
+  const byDomain = new Map(entries.map(entry => [entry.domain, entry]));
+  const labels = domain.split('.');
+  for (let start = 0; start < labels.length - 1; start++) {
+    const entry = byDomain.get(labels.slice(start).join('.'));
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+function describeDomain(domain: string, entries: SourceCredibilityEntry[], linkCount?: number): DomainCredibility {
+  const entry = findCredibilityEntry(domain, entries);
+  return {
+    domain,
+    ...(entry ? { entry: { domain: entry.domain, name: entry.name, reliability: entry.reliability, ownership: entry.ownership, notes: entry.notes } } : {}),
+    ...(linkCount !== undefined ? { linkCount } : {}),
+  };
+}
+
+/**
+ * Rates the article's own domain and every domain it links to against the credibility database.
+ * Links back to the article's own site are left out; they say nothing about its sourcing.
+ */
+export function summarizeSourceCredibility(
+  { articleUrl, text }: { articleUrl?: string; text: string },
+  entries: SourceCredibilityEntry[],
+): SourceCredibilitySummary {
+  const articleDomain = articleUrl ? normalizeDomain(articleUrl) : undefined;
+  const articleSite = articleDomain ? findCredibilityEntry(articleDomain, entries)?.domain ?? articleDomain : undefined;
+
+  const links = [...extractLinkedDomains(text)]
+    .filter(([domain]) => !articleSite || (domain !== articleSite && !domain.endsWith(`.${articleSite}`)))
+    .map(([domain, count]) => describeDomain(domain, entries, count))
+    .sort((a, b) => (b.linkCount ?? 0) - (a.linkCount ?? 0) || a.domain.localeCompare(b.domain));
+
+  return {
+    ...(articleDomain ? { article: describeDomain(articleDomain, entries) } : {}),
+    links,
+    lowCredibilityLinks: links.filter(link => link.entry && LOW_CREDIBILITY_RELIABILITIES.has(link.entry.reliability)).length,
+    checkedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,39 @@
+import { isAdminEmail } from '@/lib/admin';
+
+const LOOKUP_TIMEOUT_MS = 10000;
+
+/**
+ * Verifies a Firebase ID token with the Identity Toolkit API and checks that its owner is an admin.
+ * Server actions that change shared configuration must call this before doing anything.
+ */
+export async function assertAdmin(idToken: string | undefined): Promise<string> {
+  if (!idToken) {
+    throw new Error("You must be signed in as an admin to do this.");
+  }
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!apiKey) {
+    throw new Error("Firebase is not configured (NEXT_PUBLIC_FIREBASE_API_KEY is missing), so admin access cannot be verified.");
+  }
+
+  let email: string | undefined;
+  try {
+    const response = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ idToken }),
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+    });
+    if (response.ok) {
+      const data = await response.json();
+      email = data?.users?.[0]?.email;
+    }
+  } catch (error) {
+    console.error("[TruthLensAI] Could not verify admin ID token:", error);
+    throw new Error("Could not verify your admin session. Please try again.");
+  }
+
+  if (!isAdminEmail(email)) {
+    throw new Error("Your session has expired or your account does not have admin access.");
+  }
+  return email!;
+}
@@ -0,0 +1,61 @@
+import { getAdminFirestore } from '@/services/firebaseAdmin';
+
+// How long a server instance reuses what it read. Changes saved on another instance show up after at most this.
+const READ_CACHE_TTL_MS = 60 * 1000;
+
+export interface AdminCollection<T> {
+  /** Every document by id. Empty when Firebase Admin is not configured; the last good read if Firestore fails. */
+  readAll(): Promise<Record<string, T>>;
+  /** Replaces one document in a transaction with what `change` returns for its current value; null deletes it. */
+  update(id: string, change: (current: T | undefined) => T | null): Promise<Record<string, T>>;
+}
+
+/**
+ * A Firestore collection of admin-managed settings, shared by every server instance and written only through the
+ * Admin SDK (clients have no access under firestore.rules). Values are stored as JSON, which keeps undefined fields
+ * and nested arrays from being rejected. `description` names the data in log and error messages.
+ */
+export function adminCollection<T>(collectionName: string, description: string): AdminCollection<T> {
+  let cached: { documents: Promise<Record<string, T>>; expiresAt: number } | null = null;
+  let lastGood: Record<string, T> = {};
+
+  async function load(): Promise<Record<string, T>> {
+    const db = getAdminFirestore();
+    if (!db) return {};
+    try {
+      const snapshot = await db.collection(collectionName).get();
+      lastGood = Object.fromEntries(snapshot.docs.map(document => [document.id, JSON.parse(document.get('value')) as T]));
+    } catch (error) {
+      console.error(`[TruthLensAI] Could not read ${description} from Firestore; using the last values read:`, error);
+    }
+    return lastGood;
+  }
+
+  function readAll(): Promise<Record<string, T>> {
+    if (!cached || cached.expiresAt <= Date.now()) {
+      cached = { documents: load(), expiresAt: Date.now() + READ_CACHE_TTL_MS };
+    }
+    return cached.documents;
+  }
+
+  async function update(id: string, change: (current: T | undefined) => T | null): Promise<Record<string, T>> {
+    const db = getAdminFirestore();
+    if (!db) {
+      throw new Error(`Firebase Admin is not configured (FIREBASE_SERVICE_ACCOUNT), so ${description} cannot be saved.`);
+    }
+    const reference = db.collection(collectionName).doc(id);
+    await db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(reference);
+      const next = change(snapshot.exists ? JSON.parse(snapshot.get('value')) as T : undefined);
+      if (next === null) {
+        transaction.delete(reference);
+      } else {
+        transaction.set(reference, { value: JSON.stringify(next), updatedAt: new Date().toISOString() });
+      }
+    });
+    cached = null;
+    return readAll();
+  }
+
+  return { readAll, update };
+}
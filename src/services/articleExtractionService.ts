@@ -0,0 +1,166 @@
+'use server';
+
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP, type LookupFunction } from 'net';
+import { Agent, fetch, type Response } from 'undici';
+import { extractReadableArticle } from '@/lib/htmlExtraction';
+import { isNonPublicAddress } from '@/lib/networkAddress';
+import type { ArticleSource } from '@/types';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_HTML_BYTES = 3 * 1024 * 1024;
+const MIN_ARTICLE_CHARS = 50;
+const MAX_REDIRECTS = 5;
+
+const NON_PUBLIC_ADDRESS_CODE = 'ENONPUBLIC';
+
+/**
+ * dns.lookup for the actual connection, failing for non-public addresses. assertPublicHost resolves the host once
+ * for a clear error message; without this the connection would resolve it again, and a DNS-rebinding host could
+ * answer with an internal address the second time.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) return callback(error, '', 0);
+    if (entries.length === 0 || entries.some(entry => isNonPublicAddress(entry.address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a non-public address.`), { code: NON_PUBLIC_ADDRESS_CODE }), '', 0);
+    }
+    if (options.all) return callback(null, entries);
+    callback(null, entries[0].address, entries[0].family);
+  });
+};
+
+const publicOnlyAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+export interface ExtractedArticle {
+  source: ArticleSource;
+  text: string;
+}
+
+/**
+ * Fetches a news page server-side and extracts the main article text plus headline, byline,
+ * outlet and publish date. Only public http(s) addresses are fetched.
+ */
+export async function extractArticleFromUrl(rawUrl: string): Promise<ExtractedArticle> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new Error("The article URL is not valid. Please enter a full address starting with http:// or https://.");
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error("Only http:// and https:// article URLs are supported.");
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  let html: string;
+  let finalUrl = url;
+  try {
+    // Redirects are followed manually so every hop is checked against the private-address guard.
+    let response: Response | undefined;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await assertPublicHost(finalUrl.hostname);
+      response = await fetch(finalUrl, {
+        dispatcher: publicOnlyAgent,
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; TruthLensAI/1.0; +article-analysis)',
+          Accept: 'text/html,application/xhtml+xml',
+        },
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      finalUrl = new URL(location, finalUrl);
+      if (finalUrl.protocol !== 'http:' && finalUrl.protocol !== 'https:') {
+        throw new Error("The article URL redirected to an unsupported address.");
+      }
+      if (hop === MAX_REDIRECTS) {
+        throw new Error("The article URL redirected too many times.");
+      }
+    }
+    response = response!;
+    if (!response.ok) {
+      throw new Error(`The website responded with an error (status ${response.status}). The page may be unavailable or require a login.`);
+    }
+    const contentType = response.headers.get('content-type') || '';
+    if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+      throw new Error(`The URL does not point to a web page (content type: ${contentType || 'unknown'}).`);
+    }
+    const declaredLength = Number(response.headers.get('content-length') || 0);
+    if (declaredLength > MAX_HTML_BYTES) {
+      throw new Error("The web page is too large to analyze.");
+    }
+    html = await readCappedText(response, MAX_HTML_BYTES);
+  } catch (error: any) {
+    console.error("[TruthLensAI] Error fetching article URL:", url.toString(), error);
+    if (error?.cause?.code === NON_PUBLIC_ADDRESS_CODE) {
+      throw new Error("That URL points to a private or local network address and cannot be fetched.");
+    }
+    if (error?.name === 'AbortError') {
+      throw new Error("The website took too long to respond. Please try again or paste the article text instead.");
+    }
+    if (error instanceof Error && !(error instanceof TypeError)) {
+      throw error;
+    }
+    throw new Error("Could not reach the website. Please check the URL or paste the article text instead.");
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const article = extractReadableArticle(html);
+  if (article.text.length < MIN_ARTICLE_CHARS) {
+    throw new Error("Could not find article content on that page. It may be paywalled or rendered by JavaScript; try pasting the text instead.");
+  }
+
+  const domain = finalUrl.hostname.replace(/^www\./, '').toLowerCase();
+  const source: ArticleSource = {
+    url: finalUrl.toString(),
+    domain,
+    ...(article.title ? { headline: article.title } : {}),
+    ...(article.siteName ? { outlet: article.siteName } : {}),
+    ...(article.byline ? { byline: article.byline } : {}),
+    ...(article.publishedAt ? { publishedAt: article.publishedAt } : {}),
+  };
+  return { source, text: article.text };
+}
+
+// Rejects hosts that resolve to loopback, private, link-local or otherwise non-public addresses.
+async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      throw new Error(`Could not resolve the website address "${hostname}". Please check the URL.`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    throw new Error("That URL points to a private or local network address and cannot be fetched.");
+  }
+}
+
+// Reads the body as UTF-8 text, stopping as soon as it passes maxBytes; content-length is optional and may lie.
+async function readCappedText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error("The web page is too large to analyze.");
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
@@ -0,0 +1,36 @@
+import { calibrateVerdict } from '@/lib/calibration';
+import { adminCollection } from '@/services/adminCollection';
+import type { CalibrationInfo, CalibrationModel, DetectionMethod, DetectionVerdict } from '@/types';
+
+type Calibrations = Partial<Record<DetectionMethod, CalibrationModel>>;
+
+// One document per detection method, so a model fitted on one instance is applied on all of them.
+const calibrationModels = adminCollection<CalibrationModel>('calibration', 'calibration models');
+
+/** Reads the fitted calibration models (one per detection method). No stored model means "uncalibrated". */
+export async function readCalibrations(): Promise<Calibrations> {
+  return calibrationModels.readAll() as Promise<Calibrations>;
+}
+
+export async function writeCalibration(detectionMethod: DetectionMethod, model: CalibrationModel | null): Promise<Calibrations> {
+  return calibrationModels.update(detectionMethod, () => model) as Promise<Calibrations>;
+}
+
+export interface CalibratedVerdict {
+  result: DetectionVerdict;
+  raw: DetectionVerdict;
+  calibration?: CalibrationInfo;
+}
+
+/** Applies the fitted calibration for a detection method, if there is one. Never fails the detection. */
+export async function applyCalibration(detectionMethod: DetectionMethod, raw: DetectionVerdict): Promise<CalibratedVerdict> {
+  const model = (await readCalibrations())[detectionMethod];
+  if (!model) {
+    return { result: raw, raw };
+  }
+  return {
+    result: calibrateVerdict(raw, model),
+    raw,
+    calibration: { method: model.method, fittedAt: model.fittedAt },
+  };
+}
@@ -0,0 +1,23 @@
+'use server';
+
+import { assertAdmin } from '@/services/adminAuth';
+import { readCalibrations, writeCalibration } from '@/services/calibration/store';
+import type { CalibrationModel, DetectionMethod } from '@/types';
+
+export async function fetchCalibrations(): Promise<Partial<Record<DetectionMethod, CalibrationModel>>> {
+  return readCalibrations();
+}
+
+/** Stores a fitted calibration model; it is applied to every detection with that method from now on. */
+export async function saveCalibration(idToken: string | undefined, model: CalibrationModel): Promise<void> {
+  await assertAdmin(idToken);
+  if (model.method === 'temperature' ? !(model.temperature! > 0) : !Number.isFinite(model.slope) || !Number.isFinite(model.intercept)) {
+    throw new Error("The calibration parameters are invalid. Please fit the calibration again.");
+  }
+  await writeCalibration(model.detectionMethod, model);
+}
+
+export async function clearCalibration(idToken: string | undefined, detectionMethod: DetectionMethod): Promise<void> {
+  await assertAdmin(idToken);
+  await writeCalibration(detectionMethod, null);
+}
@@ -0,0 +1,140 @@
+import { createHash } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminFirestore } from '@/services/firebaseAdmin';
+import type { DetectionMethod } from '@/types';
+
+// Shared by every server instance and written only through the Admin SDK; firestore.rules denies the browser
+// any access to this collection.
+const CACHE_COLLECTION = 'detectionCache';
+const DEFAULT_TTL_HOURS = 24 * 7;
+const MAX_MEMORY_ENTRIES = 500;
+
+interface CacheEntry {
+  value: unknown;
+  cachedAt: string;
+  expiresAt: number;
+}
+
+export interface DetectionCacheKey {
+  /** A detector, or 'aiText' for the authorship estimate, which is cached the same way. */
+  detectionMethod: DetectionMethod | 'aiText';
+  /** Identifies the model (and prompt) that produced the result; bumping it invalidates old entries. */
+  modelVersion: string;
+  articleText: string;
+  /** Anything else that changes the output for the same text, e.g. the response language. */
+  variant?: string;
+}
+
+export interface CacheLookupResult<T> {
+  value: T;
+  /** When the value was first computed. Only set when it was served from the cache. */
+  cachedAt?: string;
+}
+
+// Process-wide tier in front of Firestore; Map iteration order doubles as a least-recently-used list.
+const memoryCache = new Map<string, CacheEntry>();
+
+function ttlMs(): number {
+  const hours = Number(process.env.DETECTION_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+/** Whitespace and Unicode-form differences (e.g. from copy/paste) should not cause a cache miss. */
+export function normalizeForCache(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+function cacheKey({ detectionMethod, modelVersion, articleText, variant }: DetectionCacheKey): string {
+  return createHash('sha256')
+    .update([detectionMethod, modelVersion, variant ?? '', normalizeForCache(articleText)].join('\u0000'))
+    .digest('hex');
+}
+
+function rememberInMemory(key: string, entry: CacheEntry) {
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  if (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+}
+
+async function readEntry(key: string): Promise<CacheEntry | null> {
+  const inMemory = memoryCache.get(key);
+  if (inMemory && inMemory.expiresAt > Date.now()) {
+    rememberInMemory(key, inMemory);
+    return inMemory;
+  }
+  memoryCache.delete(key);
+
+  const db = getAdminFirestore();
+  if (!db) return null;
+  try {
+    const snapshot = await db.collection(CACHE_COLLECTION).doc(key).get();
+    if (!snapshot.exists) return null;
+    const data = snapshot.data()!;
+    const expiresAt = (data.expiresAt as Timestamp).toMillis();
+    if (expiresAt <= Date.now()) {
+      await snapshot.ref.delete();
+      return null;
+    }
+    const entry: CacheEntry = { value: JSON.parse(data.value), cachedAt: data.cachedAt, expiresAt };
+    rememberInMemory(key, entry);
+    return entry;
+  } catch (error) {
+    console.warn("[TruthLensAI] Detection cache lookup failed; continuing without it:", error);
+    return null;
+  }
+}
+
+async function writeEntry(key: string, parts: DetectionCacheKey, entry: CacheEntry) {
+  rememberInMemory(key, entry);
+  const db = getAdminFirestore();
+  if (!db) return;
+  try {
+    // The value is stored as JSON: results may hold undefined fields and nested arrays, which Firestore rejects.
+    await db.collection(CACHE_COLLECTION).doc(key).set({
+      detectionMethod: parts.detectionMethod,
+      modelVersion: parts.modelVersion,
+      value: JSON.stringify(entry.value),
+      cachedAt: entry.cachedAt,
+      expiresAt: Timestamp.fromMillis(entry.expiresAt),
+    });
+  } catch (error) {
+    console.warn("[TruthLensAI] Could not write detection result to the cache:", error);
+  }
+}
+
+/**
+ * Returns the cached result for this text/method/model if there is a fresh one, otherwise computes and stores it.
+ * Entries live in the Firestore `detectionCache` collection (expiresAt can back a Firestore TTL policy); without
+ * Firebase Admin credentials only the in-memory tier is used. Cache failures never fail the detection. Set
+ * DETECTION_CACHE_TTL_HOURS=0 to disable caching.
+ */
+export async function withDetectionCache<T>(
+  parts: DetectionCacheKey,
+  compute: () => Promise<T>,
+  { forceRefresh = false }: { forceRefresh?: boolean } = {}
+): Promise<CacheLookupResult<T>> {
+  const ttl = ttlMs();
+  if (ttl === 0) {
+    return { value: await compute() };
+  }
+
+  const key = cacheKey(parts);
+  if (!forceRefresh) {
+    const entry = await readEntry(key);
+    if (entry) {
+      return { value: entry.value as T, cachedAt: entry.cachedAt };
+    }
+  }
+
+  const value = await compute();
+  await writeEntry(key, parts, { value, cachedAt: new Date().toISOString(), expiresAt: Date.now() + ttl });
+  return { value };
+}
+
+/** The oldest cache time when every part of a combined result was a cache hit, otherwise undefined. */
+export function combinedCachedAt(parts: Array<string | undefined>): string | undefined {
+  if (parts.length === 0 || parts.some(cachedAt => !cachedAt)) return undefined;
+  return (parts as string[]).reduce((oldest, cachedAt) => (cachedAt < oldest ? cachedAt : oldest));
+}
@@ -0,0 +1,110 @@
+'use server';
+
+import mammoth from 'mammoth';
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf';
+import { extractReadableArticle } from '@/lib/htmlExtraction';
+import type { SourceDocument, SourceDocumentType } from '@/types';
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+export interface ExtractedDocument {
+  document: SourceDocument;
+  text: string;
+  title?: string; // Title found in the document itself (HTML <title>/og:title), if any
+}
+
+const EXTENSION_TYPES: Record<string, SourceDocumentType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  txt: 'txt',
+};
+
+const MIME_TYPES: Record<string, SourceDocumentType> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/plain': 'txt',
+};
+
+/**
+ * Extracts plain text from an uploaded PDF, DOCX, HTML or TXT file.
+ * Expects a FormData with the file under "file" so it can be called directly as a server action.
+ */
+export async function extractTextFromDocument(formData: FormData): Promise<ExtractedDocument> {
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    throw new Error("No file was uploaded. Please choose a PDF, DOCX, HTML or TXT file.");
+  }
+  if (file.size === 0) {
+    throw new Error("The uploaded file is empty.");
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`The file is too large (max ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB).`);
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const fileType = EXTENSION_TYPES[extension] ?? MIME_TYPES[file.type];
+  if (!fileType) {
+    throw new Error("Unsupported file type. Please upload a PDF, DOCX, HTML or TXT file.");
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  let text: string;
+  let title: string | undefined;
+  try {
+    switch (fileType) {
+      case 'pdf': {
+        const pdf = await getDocumentProxy(new Uint8Array(buffer));
+        const { text: pages } = await extractPdfText(pdf, { mergePages: false });
+        text = pages.map(normalizePdfPage).filter(Boolean).join('\n\n');
+        break;
+      }
+      case 'docx': {
+        const result = await mammoth.extractRawText({ buffer });
+        text = result.value;
+        break;
+      }
+      case 'html': {
+        const article = extractReadableArticle(buffer.toString('utf-8'));
+        text = article.text;
+        title = article.title;
+        break;
+      }
+      case 'txt':
+        text = buffer.toString('utf-8');
+        break;
+    }
+  } catch (error: any) {
+    console.error(`[TruthLensAI] Failed to extract text from uploaded ${fileType} file "${file.name}":`, error);
+    throw new Error(`Could not read the ${fileType.toUpperCase()} file. It may be corrupted, encrypted or password-protected.`);
+  }
+
+  text = text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!text) {
+    throw new Error(fileType === 'pdf'
+      ? "No text could be found in the PDF. Scanned documents without a text layer are not supported."
+      : "No text could be found in the uploaded file.");
+  }
+
+  return {
+    document: {
+      fileName: file.name,
+      fileType,
+      ...(file.type ? { mimeType: file.type } : {}),
+    },
+    text,
+    ...(title ? { title } : {}),
+  };
+}
+
+// PDF text comes back with hard line wraps; rejoin wrapped lines while keeping blank-line paragraph breaks.
+function normalizePdfPage(page: string): string {
+  return page
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/-\n(?=[a-z])/g, '').replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
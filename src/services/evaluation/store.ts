@@ -0,0 +1,45 @@
+import { readFile, writeFile, mkdir, readdir } from 'fs/promises';
+import path from 'path';
+import type { EvaluationReport } from '@/types';
+
+const DEFAULT_EVALUATION_REPORTS_DIR = 'data/evaluations';
+
+function reportsDir(): string {
+  return path.resolve(process.cwd(), process.env.EVALUATION_REPORTS_DIR || DEFAULT_EVALUATION_REPORTS_DIR);
+}
+
+/** Writes a report as `<id>.json`; ids start with the run time, so the files sort chronologically. */
+export async function writeEvaluationReport(report: EvaluationReport): Promise<string> {
+  const dir = reportsDir();
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, `${report.id}.json`);
+  await writeFile(filePath, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+  return filePath;
+}
+
+export async function readEvaluationReport(id: string): Promise<EvaluationReport> {
+  try {
+    return JSON.parse(await readFile(path.join(reportsDir(), `${path.basename(id, '.json')}.json`), 'utf-8')) as EvaluationReport;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new Error(`No evaluation report "${id}" in ${reportsDir()}.`);
+    }
+    throw error;
+  }
+}
+
+/** Every saved report, newest first. Unreadable files are skipped with a warning. */
+export async function readEvaluationReports(): Promise<EvaluationReport[]> {
+  let fileNames: string[];
+  try {
+    fileNames = (await readdir(reportsDir())).filter(fileName => fileName.endsWith('.json'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+  const reports = await Promise.all(fileNames.sort().reverse().map(fileName => readEvaluationReport(fileName).catch(error => {
+    console.warn(`[TruthLensAI] Skipping unreadable evaluation report ${fileName}:`, error);
+    return null;
+  })));
+  return reports.filter((report): report is EvaluationReport => report !== null);
+}
@@ -0,0 +1,80 @@
+import { httpUrl, readSource } from './loadSource';
+import { matchEntries } from './matching';
+import type { FactCheckEntry, FactCheckProvider, FactCheckSearchOptions } from './types';
+
+/**
+ * Adapter for schema.org ClaimReview data. Accepts any of:
+ * - a JSON-LD ClaimReview object, an array of them, or a document with an `@graph`;
+ * - a schema.org DataFeed (`dataFeedElement[].item[]`), as published by fact-checkers;
+ * - a Google Fact Check Tools `claims:search` response (`claims[].claimReview[]`).
+ */
+export function createClaimReviewProvider(source: string): FactCheckProvider {
+  return {
+    id: 'claimreview',
+    async search(text: string, options?: FactCheckSearchOptions) {
+      const entries = parseClaimReviewDocument(JSON.parse(await readSource(source)));
+      return matchEntries(text, entries, 'claimreview', options);
+    },
+  };
+}
+
+function parseClaimReviewDocument(doc: any): FactCheckEntry[] {
+  if (Array.isArray(doc)) {
+    return doc.flatMap(parseClaimReviewDocument);
+  }
+  if (!doc || typeof doc !== 'object') {
+    return [];
+  }
+  if (Array.isArray(doc['@graph'])) {
+    return parseClaimReviewDocument(doc['@graph']);
+  }
+  if (Array.isArray(doc.dataFeedElement)) {
+    return doc.dataFeedElement.flatMap((element: any) => parseClaimReviewDocument(element.item ?? element));
+  }
+  if (Array.isArray(doc.claims)) {
+    return doc.claims.flatMap(parseFactCheckToolsClaim);
+  }
+  const type = doc['@type'];
+  if (type === 'ClaimReview' || (Array.isArray(type) && type.includes('ClaimReview'))) {
+    const entry = parseClaimReview(doc);
+    return entry ? [entry] : [];
+  }
+  return [];
+}
+
+function parseClaimReview(review: any): FactCheckEntry | null {
+  const claimReviewed = typeof review.claimReviewed === 'string' ? review.claimReviewed.trim() : '';
+  const rating = review.reviewRating?.alternateName ?? review.reviewRating?.name;
+  const source = nameOf(review.author) ?? nameOf(review.publisher);
+  if (!claimReviewed || !rating || !source) {
+    return null;
+  }
+  return {
+    claimReviewed,
+    rating: String(rating),
+    source,
+    url: httpUrl(review.url),
+    datePublished: typeof review.datePublished === 'string' ? review.datePublished : undefined,
+  };
+}
+
+function parseFactCheckToolsClaim(claim: any): FactCheckEntry[] {
+  if (typeof claim?.text !== 'string' || !Array.isArray(claim.claimReview)) {
+    return [];
+  }
+  return claim.claimReview
+    .filter((review: any) => review.textualRating && nameOf(review.publisher))
+    .map((review: any) => ({
+      claimReviewed: claim.text.trim(),
+      rating: String(review.textualRating),
+      source: nameOf(review.publisher)!,
+      url: httpUrl(review.url),
+      datePublished: typeof review.reviewDate === 'string' ? review.reviewDate : undefined,
+    }));
+}
+
+function nameOf(party: any): string | undefined {
+  const first = Array.isArray(party) ? party[0] : party;
+  if (typeof first === 'string') return first;
+  return typeof first?.name === 'string' ? first.name : (typeof first?.site === 'string' ? first.site : undefined);
+}
@@ -0,0 +1,69 @@
+import { createClaimReviewProvider } from './claimReviewProvider';
+import { createLocalCorpusProvider } from './localCorpusProvider';
+import { DEFAULT_LIMIT } from './matching';
+import type { FactCheckMatch, FactCheckProvider, FactCheckSearchOptions } from './types';
+
+export type { FactCheckEntry, FactCheckMatch, FactCheckProvider, FactCheckSearchOptions } from './types';
+
+const DEFAULT_CORPUS_PATH = 'data/fact-check-corpus.json';
+
+/**
+ * Builds the providers listed in FACT_CHECK_PROVIDERS (comma-separated, default "local").
+ * - `claimreview` reads FACT_CHECK_CLAIMREVIEW_SOURCE (URL or file path to ClaimReview JSON).
+ * - `local` reads FACT_CHECK_CORPUS_PATH (defaults to data/fact-check-corpus.json, which ships empty).
+ */
+export function getConfiguredFactCheckProviders(): FactCheckProvider[] {
+  const ids = (process.env.FACT_CHECK_PROVIDERS || 'local')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: FactCheckProvider[] = [];
+  for (const id of ids) {
+    if (id === 'local') {
+      providers.push(createLocalCorpusProvider(process.env.FACT_CHECK_CORPUS_PATH || DEFAULT_CORPUS_PATH));
+    } else if (id === 'claimreview') {
+      const source = process.env.FACT_CHECK_CLAIMREVIEW_SOURCE;
+      if (!source) {
+        console.warn("[TruthLensAI] FACT_CHECK_PROVIDERS includes 'claimreview' but FACT_CHECK_CLAIMREVIEW_SOURCE is not set; skipping it.");
+        continue;
+      }
+      providers.push(createClaimReviewProvider(source));
+    } else {
+      console.warn(`[TruthLensAI] Unknown fact-check provider '${id}' in FACT_CHECK_PROVIDERS; skipping it.`);
+    }
+  }
+  return providers;
+}
+
+/**
+ * Searches all configured providers for fact-checks matching claims in the text.
+ * A failing provider is logged and skipped so one bad source doesn't hide results from the others.
+ * Duplicate reviews (same URL, or same source and claim) are collapsed, keeping the best score.
+ */
+export async function searchFactChecks(
+  text: string,
+  options: FactCheckSearchOptions = {},
+  providers: FactCheckProvider[] = getConfiguredFactCheckProviders()
+): Promise<FactCheckMatch[]> {
+  const results = await Promise.allSettled(providers.map(provider => provider.search(text, options)));
+
+  const byKey = new Map<string, FactCheckMatch>();
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`[TruthLensAI] Fact-check provider '${providers[index].id}' failed:`, result.reason);
+      return;
+    }
+    for (const match of result.value) {
+      const key = match.url ?? `${match.source}::${match.claimReviewed.toLowerCase()}`;
+      const existing = byKey.get(key);
+      if (!existing || match.score > existing.score) {
+        byKey.set(key, match);
+      }
+    }
+  });
+
+  return [...byKey.values()]
+    .sort((a, b) => b.score - a.score || a.claimReviewed.localeCompare(b.claimReviewed))
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
@@ -0,0 +1,48 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+const SOURCE_TTL_MS = 10 * 60 * 1000;
+
+const sourceCache = new Map<string, { loadedAt: number; raw: Promise<string> }>();
+
+/**
+ * Reads a provider data source, which may be an http(s) URL or a file path relative to the project root.
+ * Contents are cached per source for a few minutes so repeated detections don't re-read the data.
+ */
+export async function readSource(source: string): Promise<string> {
+  const cached = sourceCache.get(source);
+  if (cached && Date.now() - cached.loadedAt < SOURCE_TTL_MS) {
+    return cached.raw;
+  }
+
+  const raw = /^https?:\/\//i.test(source) ? fetchRemote(source) : readFile(path.resolve(process.cwd(), source), 'utf-8');
+  sourceCache.set(source, { loadedAt: Date.now(), raw });
+  try {
+    return await raw;
+  } catch (error) {
+    sourceCache.delete(source); // Don't cache failures
+    throw error;
+  }
+}
+
+async function fetchRemote(url: string): Promise<string> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Fact-check source ${url} responded with status ${response.status}.`);
+  }
+  return response.text();
+}
+
+/**
+ * The value when it is an absolute http(s) URL, otherwise undefined. Provider data is not trusted: a relative or
+ * malformed link would fail result validation for the whole detection, and other schemes must never become links.
+ */
+export function httpUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,51 @@
+import { httpUrl, readSource } from './loadSource';
+import { matchEntries } from './matching';
+import type { FactCheckEntry, FactCheckProvider, FactCheckSearchOptions } from './types';
+
+// Corpora already reported as empty, so the warning is logged once per path rather than on every detection.
+const reportedEmpty = new Set<string>();
+
+/**
+ * Adapter for a locally curated fact-check corpus stored as a JSON array or JSON Lines file.
+ * Each record needs `claimReviewed` (or `claim`), `rating` and `source`; `url` and `datePublished` are optional.
+ * The repository ships the default corpus empty: copy records in the format of data/fact-check-corpus.example.json
+ * from fact-checkers whose data you may reuse, or point FACT_CHECK_CORPUS_PATH at your own file.
+ */
+export function createLocalCorpusProvider(corpusPath: string): FactCheckProvider {
+  return {
+    id: 'local',
+    async search(text: string, options?: FactCheckSearchOptions) {
+      const entries = parseCorpus(await readSource(corpusPath), corpusPath);
+      if (entries.length === 0 && !reportedEmpty.has(corpusPath)) {
+        reportedEmpty.add(corpusPath);
+        console.warn(`[TruthLensAI] Fact-check corpus ${corpusPath} has no usable records, so the local provider will never match. See data/fact-check-corpus.example.json for the record format.`);
+      }
+      return matchEntries(text, entries, 'local', options);
+    },
+  };
+}
+
+function parseCorpus(raw: string, corpusPath: string): FactCheckEntry[] {
+  const records: any[] = corpusPath.endsWith('.jsonl')
+    ? raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+    : JSON.parse(raw);
+
+  if (!Array.isArray(records)) {
+    throw new Error(`Fact-check corpus at ${corpusPath} must be a JSON array or a JSON Lines file.`);
+  }
+
+  return records.flatMap((record): FactCheckEntry[] => {
+    const claimReviewed = record?.claimReviewed ?? record?.claim;
+    if (typeof claimReviewed !== 'string' || typeof record.rating !== 'string' || typeof record.source !== 'string') {
+      console.warn(`[TruthLensAI] Skipping malformed record in fact-check corpus ${corpusPath}:`, record);
+      return [];
+    }
+    return [{
+      claimReviewed: claimReviewed.trim(),
+      rating: record.rating,
+      source: record.source,
+      url: httpUrl(record.url),
+      datePublished: typeof record.datePublished === 'string' ? record.datePublished : undefined,
+    }];
+  });
+}
@@ -0,0 +1,88 @@
+import type { FactCheckEntry, FactCheckMatch, FactCheckSearchOptions } from './types';
+
+export const DEFAULT_MIN_SCORE = 0.4;
+export const DEFAULT_LIMIT = 5;
+
+// Sentences and reviewed claims with fewer content tokens than this are too short to match reliably.
+const MIN_TOKENS = 3;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'against', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'because', 'been', 'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'does', 'doing',
+  'down', 'during', 'each', 'even', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her',
+  'here', 'hers', 'him', 'his', 'how', 'however', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'like', 'many',
+  'may', 'more', 'most', 'much', 'must', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or',
+  'other', 'our', 'out', 'over', 'own', 'report', 'reported', 'reports', 'said', 'same', 'say', 'says', 'she',
+  'should', 'since', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'told', 'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'year', 'years', 'yet',
+  'you', 'your',
+]);
+
+/** Lower-cases, strips punctuation and stop words, and returns the distinct content tokens of a text. */
+export function tokenize(text: string): Set<string> {
+  const tokens = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !STOP_WORDS.has(token));
+  return new Set(tokens);
+}
+
+/** Splits text into sentences on terminal punctuation and line breaks. */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Jaccard similarity between two token sets: |A ∩ B| / |A ∪ B|.
+ * Both sides count, so a long sentence that merely mentions a few of a claim's words scores low.
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Scores every entry against the sentences of the article text and returns the best matches,
+ * ordered by score (ties broken by claim text so results are stable).
+ */
+export function matchEntries(
+  text: string,
+  entries: FactCheckEntry[],
+  providerId: string,
+  options: FactCheckSearchOptions = {}
+): FactCheckMatch[] {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const sentenceTokens = splitSentences(text).map(tokenize).filter(tokens => tokens.size >= MIN_TOKENS);
+
+  const matches: FactCheckMatch[] = [];
+  for (const entry of entries) {
+    const claimTokens = tokenize(entry.claimReviewed);
+    if (claimTokens.size < MIN_TOKENS) continue;
+    const score = Math.max(0, ...sentenceTokens.map(tokens => jaccard(claimTokens, tokens)));
+    if (score >= minScore) {
+      matches.push({
+        source: entry.source,
+        claimReviewed: entry.claimReviewed,
+        rating: entry.rating,
+        ...(entry.url ? { url: entry.url } : {}),
+        score: parseFloat(score.toFixed(3)),
+        providerId,
+      });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.claimReviewed.localeCompare(b.claimReviewed))
+    .slice(0, limit);
+}
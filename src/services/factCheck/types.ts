@@ -0,0 +1,35 @@
+import type { FactCheckResult } from '@/types';
+
+/**
+ * A reviewed claim as stored by a fact-check provider, before it is matched against article text.
+ */
+export interface FactCheckEntry {
+  claimReviewed: string;
+  rating: string;
+  source: string;
+  url?: string;
+  datePublished?: string;
+}
+
+/**
+ * A source of fact-checks that can be searched with free text.
+ * Implementations must be deterministic: the same query against the same data returns the same matches.
+ */
+export interface FactCheckProvider {
+  /** Stable identifier used in FACT_CHECK_PROVIDERS (e.g. 'claimreview', 'local'). */
+  readonly id: string;
+  search(text: string, options?: FactCheckSearchOptions): Promise<FactCheckMatch[]>;
+}
+
+export interface FactCheckSearchOptions {
+  /** Maximum number of matches to return. */
+  limit?: number;
+  /** Minimum similarity (0-1) between an article sentence and a reviewed claim. */
+  minScore?: number;
+}
+
+export interface FactCheckMatch extends FactCheckResult {
+  /** Similarity between the reviewed claim and the best-matching sentence in the article (0-1). */
+  score: number;
+  providerId: string;
+}
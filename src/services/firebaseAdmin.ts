@@ -0,0 +1,53 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp, type App } from 'firebase-admin/app';
+import { getAuth, type Auth } from 'firebase-admin/auth';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+// A named app so this never collides with a default app initialised elsewhere (e.g. by a hosting runtime).
+const ADMIN_APP_NAME = 'truthlens-admin';
+
+let adminApp: App | null | undefined;
+
+/**
+ * The server-only Firebase Admin app, or null when there are no credentials. Credentials come from
+ * FIREBASE_SERVICE_ACCOUNT (the service account key JSON) or, on Google Cloud / App Hosting or with
+ * GOOGLE_APPLICATION_CREDENTIALS set, from the application default credentials. Unlike the client SDK in
+ * src/lib/firebase.ts, the Admin SDK bypasses security rules, so it must never be imported from client code.
+ */
+function getAdminApp(): App | null {
+  if (adminApp !== undefined) return adminApp;
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  const hasDefaultCredentials = Boolean(
+    process.env.GOOGLE_APPLICATION_CREDENTIALS || process.env.K_SERVICE || process.env.FIREBASE_CONFIG
+  );
+  if (!serviceAccount && !hasDefaultCredentials) {
+    console.warn("[TruthLensAI] Firebase Admin is not configured (set FIREBASE_SERVICE_ACCOUNT); server-side Firestore data is unavailable.");
+    adminApp = null;
+    return adminApp;
+  }
+
+  try {
+    adminApp = getApps().some(app => app.name === ADMIN_APP_NAME)
+      ? getApp(ADMIN_APP_NAME)
+      : initializeApp({
+          credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+          projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+        }, ADMIN_APP_NAME);
+  } catch (error) {
+    console.warn("[TruthLensAI] Could not initialise Firebase Admin; server-side Firestore data is unavailable:", error);
+    adminApp = null;
+  }
+  return adminApp;
+}
+
+/** Firestore with admin privileges, or null when Firebase Admin is not configured. */
+export function getAdminFirestore(): Firestore | null {
+  const app = getAdminApp();
+  return app ? getFirestore(app) : null;
+}
+
+/** Firebase Auth with admin privileges, or null when Firebase Admin is not configured. */
+export function getAdminAuth(): Auth | null {
+  const app = getAdminApp();
+  return app ? getAuth(app) : null;
+}
@@ -0,0 +1,19 @@
+'use server';
+
+import { checkModelHealth, listModels } from '@/services/mlModels/registry';
+import { isCircuitOpen } from '@/services/mlModels/client';
+import type { MlModelSummary } from '@/types';
+
+/** Lists the registered ML detection models with their current health. */
+export async function fetchMlModels({ refreshHealth = false }: { refreshHealth?: boolean } = {}): Promise<MlModelSummary[]> {
+  const models = await listModels();
+  return Promise.all(models.map(async model => ({
+    id: model.id,
+    name: model.name,
+    version: model.version,
+    isDefault: model.default,
+    health: isCircuitOpen(model.id)
+      ? { status: 'unhealthy' as const, checkedAt: new Date().toISOString(), message: 'Paused after repeated failed calls; detections fail fast until it recovers.' }
+      : await checkModelHealth(model, { refresh: refreshHealth }),
+  })));
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callModel, isCircuitOpen, MlClientError } from './client';
+import type { ResolvedMlModel } from './types';
+
+const THRESHOLD = 5;
+const COOLDOWN_MS = 30000;
+
+let modelCount = 0;
+// Circuits are kept per model id for the whole process, so every test gets a fresh model.
+function newModel(): ResolvedMlModel {
+  modelCount++;
+  return { id: `test-model-${modelCount}`, name: 'Test', version: '1', url: 'https://ml.example/predict', default: false, maxRetries: 0 };
+}
+
+const healthy = () => new Response(JSON.stringify({ prediction: 'fake', confidence: 0.9 }), { status: 200 });
+const unavailable = () => new Response('down', { status: 503 });
+const rejected = () => new Response('bad request', { status: 400 });
+
+async function failWith(model: ResolvedMlModel, times: number) {
+  for (let i = 0; i < times; i++) {
+    await expect(callModel(model, 'text')).rejects.toBeInstanceOf(MlClientError);
+  }
+}
+
+describe('ML model circuit breaker', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('opens after the threshold of consecutive unhealthy failures and then fails fast', async () => {
+    const model = newModel();
+    fetchMock.mockImplementation(async () => unavailable());
+    await failWith(model, THRESHOLD - 1);
+    expect(isCircuitOpen(model.id)).toBe(false);
+    await failWith(model, 1);
+    expect(isCircuitOpen(model.id)).toBe(true);
+
+    fetchMock.mockClear();
+    await expect(callModel(model, 'text')).rejects.toMatchObject({ code: 'ML_CIRCUIT_OPEN' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('does not count rejected requests, which say nothing about the service health', async () => {
+    const model = newModel();
+    fetchMock.mockImplementation(async () => rejected());
+    await failWith(model, THRESHOLD + 2);
+    expect(isCircuitOpen(model.id)).toBe(false);
+  });
+
+  it('resets the failure count after a success', async () => {
+    const model = newModel();
+    fetchMock.mockImplementation(async () => unavailable());
+    await failWith(model, THRESHOLD - 1);
+    fetchMock.mockImplementationOnce(async () => healthy());
+    await expect(callModel(model, 'text')).resolves.toEqual({ label: 'Fake', confidence: 90 });
+    await failWith(model, THRESHOLD - 1);
+    expect(isCircuitOpen(model.id)).toBe(false);
+  });
+
+  it('lets one probe through after the cooldown and closes when it succeeds', async () => {
+    const model = newModel();
+    fetchMock.mockImplementation(async () => unavailable());
+    await failWith(model, THRESHOLD);
+
+    vi.advanceTimersByTime(COOLDOWN_MS + 1);
+    expect(isCircuitOpen(model.id)).toBe(false);
+    let releaseProbe!: (response: Response) => void;
+    fetchMock.mockImplementationOnce(() => new Promise(resolve => { releaseProbe = resolve; }));
+    const probe = callModel(model, 'text');
+    // While the probe is in flight, other calls still fail fast.
+    await expect(callModel(model, 'text')).rejects.toMatchObject({ code: 'ML_CIRCUIT_OPEN' });
+    releaseProbe(healthy());
+    await expect(probe).resolves.toMatchObject({ label: 'Fake' });
+
+    fetchMock.mockImplementation(async () => healthy());
+    await expect(callModel(model, 'text')).resolves.toMatchObject({ label: 'Fake' });
+  });
+
+  it('reopens at once when the probe fails', async () => {
+    const model = newModel();
+    fetchMock.mockImplementation(async () => unavailable());
+    await failWith(model, THRESHOLD);
+
+    vi.advanceTimersByTime(COOLDOWN_MS + 1);
+    await failWith(model, 1);
+    expect(isCircuitOpen(model.id)).toBe(true);
+  });
+});
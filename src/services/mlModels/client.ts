@@ -0,0 +1,164 @@
+import { RETRYABLE_ML_ERROR_CODES, tagMlErrorMessage, type MlErrorCode } from '@/lib/mlErrors';
+import type { DetectionVerdict } from '@/types';
+import { buildRequestBody, buildRequestHeaders, parsePrediction } from './mapping';
+import type { ResolvedMlModel } from './types';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 4000;
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_COOLDOWN_MS = 30000;
+
+/** A failed model call. The code is also tagged onto the message so it survives the trip to the browser. */
+export class MlClientError extends Error {
+  readonly code: MlErrorCode;
+  readonly status?: number;
+
+  constructor(code: MlErrorCode, message: string, status?: number) {
+    super(tagMlErrorMessage(code, message));
+    this.name = 'MlClientError';
+    this.code = code;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_ML_ERROR_CODES.has(this.code);
+  }
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number; // 0 while closed
+  probeInFlight: boolean; // Half-open: one trial call is let through after the cooldown
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function circuitFor(modelId: string): CircuitState {
+  let circuit = circuits.get(modelId);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openUntil: 0, probeInFlight: false };
+    circuits.set(modelId, circuit);
+  }
+  return circuit;
+}
+
+/** Whether calls to this model are currently being short-circuited after repeated failures. */
+export function isCircuitOpen(modelId: string): boolean {
+  const circuit = circuits.get(modelId);
+  return Boolean(circuit && circuit.openUntil > Date.now());
+}
+
+function acquireCircuit(model: ResolvedMlModel) {
+  const circuit = circuitFor(model.id);
+  if (circuit.openUntil === 0) return;
+  const waitSeconds = Math.ceil((circuit.openUntil - Date.now()) / 1000);
+  if (waitSeconds > 0 || circuit.probeInFlight) {
+    throw new MlClientError(
+      'ML_CIRCUIT_OPEN',
+      `The ${model.name} model service has failed repeatedly and is paused. Please try again in ${Math.max(waitSeconds, 1)} seconds or choose another model.`
+    );
+  }
+  circuit.probeInFlight = true;
+}
+
+function recordOutcome(model: ResolvedMlModel, error?: MlClientError) {
+  const circuit = circuitFor(model.id);
+  circuit.probeInFlight = false;
+  // Only failures that say the service is unhealthy count; a rejected request or odd payload does not.
+  if (!error || !error.retryable) {
+    circuit.consecutiveFailures = 0;
+    circuit.openUntil = 0;
+    return;
+  }
+  circuit.consecutiveFailures += 1;
+  const halfOpenProbeFailed = circuit.openUntil !== 0;
+  if (halfOpenProbeFailed || circuit.consecutiveFailures >= envNumber('ML_CIRCUIT_FAILURE_THRESHOLD', DEFAULT_CIRCUIT_FAILURE_THRESHOLD)) {
+    circuit.openUntil = Date.now() + envNumber('ML_CIRCUIT_COOLDOWN_MS', DEFAULT_CIRCUIT_COOLDOWN_MS);
+    console.warn(`[TruthLensAI] Circuit opened for ML model "${model.id}" after ${circuit.consecutiveFailures} consecutive failures.`);
+  }
+}
+
+// "Full jitter" exponential backoff: a random delay up to base * 2^attempt, capped.
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+async function attemptCall(model: ResolvedMlModel, articleText: string, timeoutMs: number): Promise<DetectionVerdict> {
+  let response: Response;
+  try {
+    response = await fetch(model.url, {
+      method: 'POST',
+      headers: buildRequestHeaders(model),
+      body: JSON.stringify(buildRequestBody(model, articleText)),
+      signal: AbortSignal.timeout(timeoutMs),
+      cache: 'no-store',
+    });
+  } catch (error: any) {
+    if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+      throw new MlClientError('ML_TIMEOUT', `The ${model.name} model service did not respond within ${Math.round(timeoutMs / 1000)} seconds.`);
+    }
+    console.error(`[TruthLensAI] Network error calling ML model "${model.id}":`, error);
+    throw new MlClientError('ML_NETWORK', `Could not reach the ${model.name} model service. It may be down or the network is unavailable.`);
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => '');
+    console.error(`[TruthLensAI] ML model "${model.id}" responded with status ${response.status}. Body: ${errorBody.substring(0, 500)}`);
+    if (response.status >= 500 || response.status === 429) {
+      throw new MlClientError('ML_UNAVAILABLE', `The ${model.name} model service responded with an error (status ${response.status}). It might be temporarily unavailable.`, response.status);
+    }
+    throw new MlClientError('ML_REQUEST_REJECTED', `The ${model.name} model service rejected the request (status ${response.status}). It might be misconfigured.`, response.status);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (jsonError) {
+    console.error(`[TruthLensAI] ML model "${model.id}" returned a non-JSON response:`, jsonError);
+    throw new MlClientError('ML_BAD_RESPONSE', `The ${model.name} model service returned an invalid response format (expected JSON). Please report this issue.`);
+  }
+  const prediction = parsePrediction(model, data);
+  if (!prediction) {
+    console.error(`[TruthLensAI] Response from ML model "${model.id}" does not match its registry response mapping:`, data);
+    throw new MlClientError('ML_BAD_RESPONSE', `The ${model.name} model service returned an unexpected data structure. Please report this issue.`);
+  }
+  return prediction;
+}
+
+/**
+ * Calls a registered model with a per-attempt timeout, retrying timeouts, network errors and 5xx/429 responses
+ * with jittered backoff. After repeated failures the model's circuit opens and calls fail fast until it cools down.
+ */
+export async function callModel(model: ResolvedMlModel, articleText: string): Promise<DetectionVerdict> {
+  if (!model.url) {
+    throw new MlClientError('ML_NOT_CONFIGURED', `The ${model.name} model endpoint is not configured. Please contact support or check the application settings.`);
+  }
+  acquireCircuit(model);
+
+  const timeoutMs = model.timeoutMs ?? envNumber('ML_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const maxRetries = model.maxRetries ?? envNumber('ML_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const prediction = await attemptCall(model, articleText, timeoutMs);
+      recordOutcome(model);
+      return prediction;
+    } catch (error) {
+      const clientError = error instanceof MlClientError
+        ? error
+        : new MlClientError('ML_BAD_RESPONSE', `An unexpected issue occurred while using the ${model.name} model.`);
+      if (!clientError.retryable || attempt >= maxRetries) {
+        recordOutcome(model, clientError);
+        throw clientError;
+      }
+      console.warn(`[TruthLensAI] ML model "${model.id}" attempt ${attempt + 1} failed (${clientError.code}); retrying.`);
+      await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt)));
+    }
+  }
+}
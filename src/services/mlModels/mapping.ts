@@ -0,0 +1,58 @@
+import type { DetectionVerdict } from '@/types';
+import type { MlModelConfig } from './types';
+
+const DEFAULT_FAKE_VALUES = ['fake', '1', 'true'];
+
+function getPath(data: unknown, dottedPath: string): unknown {
+  return dottedPath.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+function setPath(target: Record<string, any>, dottedPath: string, value: unknown) {
+  const keys = dottedPath.split('.');
+  const parent = keys.slice(0, -1).reduce((node, key) => (node[key] ??= {}), target);
+  parent[keys[keys.length - 1]] = value;
+}
+
+export function buildRequestBody(model: MlModelConfig, articleText: string): Record<string, unknown> {
+  const body: Record<string, unknown> = structuredClone(model.request?.body ?? {});
+  setPath(body, model.request?.textField ?? 'text', articleText);
+  return body;
+}
+
+export function buildRequestHeaders(model: MlModelConfig): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...model.request?.headers };
+  const apiKey = model.apiKeyEnv ? process.env[model.apiKeyEnv] : undefined;
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+/**
+ * Maps a model's JSON response onto a verdict using its response mapping.
+ * Returns null when the response does not have the configured shape.
+ */
+export function parsePrediction(model: MlModelConfig, data: unknown): DetectionVerdict | null {
+  const mapping = model.response ?? {};
+  const rawScore = getPath(data, mapping.confidencePath ?? 'confidence');
+  const score = typeof rawScore === 'string' ? parseFloat(rawScore) : rawScore;
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    return null;
+  }
+  const probability = Math.max(0, Math.min(1, mapping.confidenceScale === 'percent' ? score / 100 : score));
+
+  if (mapping.confidenceOf === 'fake') {
+    const isFake = probability >= 0.5;
+    return { label: isFake ? 'Fake' : 'Real', confidence: parseFloat(((isFake ? probability : 1 - probability) * 100).toFixed(1)) };
+  }
+
+  const rawLabel = getPath(data, mapping.labelPath ?? 'prediction');
+  if (typeof rawLabel !== 'string' && typeof rawLabel !== 'number' && typeof rawLabel !== 'boolean') {
+    return null;
+  }
+  const fakeValues = (mapping.fakeValues ?? DEFAULT_FAKE_VALUES).map(value => value.toLowerCase());
+  return {
+    label: fakeValues.includes(String(rawLabel).toLowerCase()) ? 'Fake' : 'Real',
+    confidence: parseFloat((probability * 100).toFixed(1)),
+  };
+}
@@ -0,0 +1,110 @@
+import { readSource } from '@/services/factCheck/loadSource';
+import type { DetectionModelInfo, MlModelHealth } from '@/types';
+import type { MlModelConfig, ResolvedMlModel } from './types';
+
+const DEFAULT_REGISTRY_SOURCE = 'data/ml-models.json';
+const HEALTH_TIMEOUT_MS = 5000;
+const HEALTH_TTL_MS = 60 * 1000;
+
+const healthCache = new Map<string, { checkedAt: number; health: Promise<MlModelHealth> }>();
+
+// Without a registry file the app keeps working with the single endpoint it has always used.
+function legacyRegistry(): MlModelConfig[] {
+  return [{
+    id: 'truth-lens',
+    name: 'Truth Lens',
+    version: process.env.CUSTOM_ML_MODEL_VERSION || 'unversioned',
+    urlEnv: 'NEXT_PUBLIC_CUSTOM_ML_API_URL',
+    default: true,
+  }];
+}
+
+function resolve(configs: MlModelConfig[]): ResolvedMlModel[] {
+  const defaultIndex = Math.max(0, configs.findIndex(config => config.default));
+  return configs.map((config, i) => ({
+    ...config,
+    url: config.url || (config.urlEnv ? process.env[config.urlEnv] : undefined) || '',
+    default: i === defaultIndex,
+  }));
+}
+
+function validate(records: unknown, source: string): MlModelConfig[] {
+  if (!Array.isArray(records)) {
+    throw new Error(`ML model registry at ${source} must be a JSON array of model definitions.`);
+  }
+  const ids = new Set<string>();
+  return records.flatMap((record: any): MlModelConfig[] => {
+    if (typeof record?.id !== 'string' || typeof record.name !== 'string' || typeof record.version !== 'string' || ids.has(record.id)) {
+      console.warn(`[TruthLensAI] Skipping malformed or duplicate entry in ML model registry ${source}:`, record);
+      return [];
+    }
+    ids.add(record.id);
+    return [record as MlModelConfig];
+  });
+}
+
+/**
+ * Reads the model registry from ML_MODELS_PATH (a file relative to the project root or an http(s) URL).
+ * Falls back to the single Truth Lens endpoint from NEXT_PUBLIC_CUSTOM_ML_API_URL when there is no registry.
+ */
+export async function listModels(): Promise<ResolvedMlModel[]> {
+  const source = process.env.ML_MODELS_PATH || DEFAULT_REGISTRY_SOURCE;
+  let configs: MlModelConfig[];
+  try {
+    configs = validate(JSON.parse(await readSource(source)), source);
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error(`[TruthLensAI] Could not load ML model registry from ${source}; using the default Truth Lens endpoint:`, error);
+    }
+    configs = [];
+  }
+  return resolve(configs.length > 0 ? configs : legacyRegistry());
+}
+
+/** Looks up a model by id, or the registry default when no id is given. */
+export async function getModel(modelId?: string): Promise<ResolvedMlModel> {
+  const models = await listModels();
+  const model = modelId ? models.find(candidate => candidate.id === modelId) : models.find(candidate => candidate.default);
+  if (!model) {
+    throw new Error(`The ML model "${modelId}" is not registered. Please choose another model.`);
+  }
+  return model;
+}
+
+export function modelInfo(model: MlModelConfig): DetectionModelInfo {
+  return { provider: 'http', name: model.name, version: model.version };
+}
+
+async function probe(model: ResolvedMlModel): Promise<MlModelHealth> {
+  const checkedAt = new Date().toISOString();
+  if (!model.url) {
+    return { status: 'unconfigured', checkedAt, message: 'No endpoint URL is configured.' };
+  }
+  if (!model.healthUrl) {
+    return { status: 'unknown', checkedAt, message: 'No health endpoint is configured.' };
+  }
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(model.healthUrl, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS), cache: 'no-store' });
+    return {
+      status: response.ok ? 'healthy' : 'unhealthy',
+      checkedAt,
+      latencyMs: Date.now() - startedAt,
+      ...(response.ok ? {} : { message: `Health check responded with status ${response.status}.` }),
+    };
+  } catch (error: any) {
+    return { status: 'unhealthy', checkedAt, message: error?.name === 'TimeoutError' ? 'Health check timed out.' : 'Health endpoint is unreachable.' };
+  }
+}
+
+/** Health of a model, re-checked at most once a minute. */
+export function checkModelHealth(model: ResolvedMlModel, { refresh = false }: { refresh?: boolean } = {}): Promise<MlModelHealth> {
+  const cacheKey = `${model.id}|${model.healthUrl ?? ''}|${model.url}`;
+  const cached = healthCache.get(cacheKey);
+  if (!refresh && cached && Date.now() - cached.checkedAt < HEALTH_TTL_MS) {
+    return cached.health;
+  }
+  const health = probe(model);
+  healthCache.set(cacheKey, { checkedAt: Date.now(), health });
+  return health;
+}
@@ -0,0 +1,51 @@
+/**
+ * An HTTP model endpoint that classifies article text as real or fake, as configured in the model registry.
+ */
+export interface MlModelConfig {
+  /** Stable identifier used to select the model (e.g. 'truth-lens-v2'). */
+  id: string;
+  /** Human-readable name recorded on every detection (e.g. 'Truth Lens'). */
+  name: string;
+  version: string;
+  /** Prediction endpoint. `urlEnv` names an environment variable to read it from instead. */
+  url?: string;
+  urlEnv?: string;
+  /** Optional GET endpoint that answers 2xx when the model is up. */
+  healthUrl?: string;
+  /** Environment variable holding a bearer token sent as the Authorization header. */
+  apiKeyEnv?: string;
+  /** Per-attempt timeout and retry count; override ML_TIMEOUT_MS / ML_MAX_RETRIES for this model. */
+  timeoutMs?: number;
+  maxRetries?: number;
+  request?: MlModelRequestMapping;
+  response?: MlModelResponseMapping;
+  /** The model used when none is selected. Defaults to the first model in the registry. */
+  default?: boolean;
+}
+
+export interface MlModelRequestMapping {
+  /** Dotted path of the article text in the JSON body. Defaults to 'text'. */
+  textField?: string;
+  /** Fixed fields merged into every request body. */
+  body?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+export interface MlModelResponseMapping {
+  /** Dotted path of the predicted label. Defaults to 'prediction'. May be omitted when `confidenceOf` is 'fake'. */
+  labelPath?: string;
+  /** Dotted path of the score. Defaults to 'confidence'. */
+  confidencePath?: string;
+  /** Label values (case-insensitive) that mean "fake". Defaults to fake, 1 and true. */
+  fakeValues?: string[];
+  /** Whether the score is a 0-1 fraction or a 0-100 percentage. Defaults to 'fraction'. */
+  confidenceScale?: 'fraction' | 'percent';
+  /** Whether the score is the confidence in the predicted label or the probability that the article is fake. */
+  confidenceOf?: 'label' | 'fake';
+}
+
+/** A registry entry with its endpoint resolved; what the detection tool actually calls. */
+export interface ResolvedMlModel extends MlModelConfig {
+  url: string;
+  default: boolean;
+}
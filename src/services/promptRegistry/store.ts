@@ -0,0 +1,71 @@
+import { builtInPromptVersions, defaultPromptVersion, pickPromptVersion } from '@/lib/prompts';
+import { adminCollection } from '@/services/adminCollection';
+import type { PromptId, PromptRegistryEntry, PromptVersion } from '@/types';
+
+// The built-in versions live in the code, so Firestore only holds added versions and traffic splits, one
+// document per prompt.
+type StoredPromptEntry = Omit<PromptRegistryEntry, 'promptId'>;
+
+const promptRegistry = adminCollection<StoredPromptEntry>('promptRegistry', 'the prompt registry');
+
+/** A prompt's versions, the built-in ones first, and its traffic split. Nothing stored means only the built-in versions. */
+export async function readPromptEntry(promptId: PromptId): Promise<PromptRegistryEntry> {
+  const stored: StoredPromptEntry | undefined = (await promptRegistry.readAll())[promptId];
+  const builtIn = builtInPromptVersions(promptId);
+  const added = (stored?.versions ?? []).filter(version => {
+    const shadowed = builtIn.some(existing => existing.version === version.version);
+    if (shadowed) {
+      console.warn(`[TruthLensAI] Ignoring stored version ${version.version} of prompt ${promptId}: a built-in version has the same number.`);
+    }
+    return !shadowed;
+  });
+  return {
+    promptId,
+    versions: [...builtIn, ...added],
+    traffic: stored?.traffic ?? {},
+    updatedAt: stored?.updatedAt,
+    updatedBy: stored?.updatedBy,
+  };
+}
+
+const EMPTY_ENTRY: StoredPromptEntry = { versions: [], traffic: {} };
+
+/** Appends a version. Versions are immutable, so reusing a version number is an error. */
+export async function addPromptVersion(version: PromptVersion): Promise<PromptRegistryEntry> {
+  await promptRegistry.update(version.promptId, (stored = EMPTY_ENTRY) => {
+    const existing = [...builtInPromptVersions(version.promptId), ...stored.versions];
+    if (existing.some(other => other.version === version.version)) {
+      throw new Error(`Version ${version.version} of this prompt already exists. Create a new version instead of changing it.`);
+    }
+    return { ...stored, versions: [...stored.versions, version] };
+  });
+  return readPromptEntry(version.promptId);
+}
+
+export async function writePromptTraffic(promptId: PromptId, traffic: Record<string, number>, updatedBy?: string): Promise<PromptRegistryEntry> {
+  await promptRegistry.update(promptId, (stored = EMPTY_ENTRY) => ({
+    ...stored,
+    traffic,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  }));
+  return readPromptEntry(promptId);
+}
+
+/**
+ * The version to run for one request: `pinnedVersion` when it exists (e.g. to reproduce an earlier analysis),
+ * otherwise a pick according to the traffic split. Never fails the request; falls back to the built-in version.
+ */
+export async function selectPromptVersion(promptId: PromptId, bucketKey?: string, pinnedVersion?: string): Promise<PromptVersion> {
+  try {
+    const entry = await readPromptEntry(promptId);
+    const pinned = pinnedVersion ? entry.versions.find(version => version.version === pinnedVersion && !version.retired) : undefined;
+    if (pinnedVersion && !pinned) {
+      console.warn(`[TruthLensAI] Prompt ${promptId} has no usable version ${pinnedVersion}; using the traffic split instead.`);
+    }
+    return pinned ?? pickPromptVersion(entry, bucketKey);
+  } catch (error) {
+    console.error(`[TruthLensAI] Could not select a version of prompt ${promptId}; using the default built-in version:`, error);
+    return defaultPromptVersion(promptId);
+  }
+}
@@ -0,0 +1,73 @@
+'use server';
+
+import { assertAdmin } from '@/services/adminAuth';
+import { addPromptVersion, readPromptEntry, writePromptTraffic } from '@/services/promptRegistry/store';
+import { missingPromptVariables, nextPromptVersion, PROMPT_IDS } from '@/lib/prompts';
+import type { PromptId, PromptRegistryEntry } from '@/types';
+
+const MAX_TEMPLATE_CHARS = 20000;
+const MAX_NOTES_CHARS = 1000;
+
+export async function fetchPromptRegistry(): Promise<PromptRegistryEntry[]> {
+  return Promise.all(PROMPT_IDS.map(promptId => readPromptEntry(promptId)));
+}
+
+/** Adds a version with the next free number. It gets no traffic until a split including it is saved. */
+export async function savePromptVersion(
+  idToken: string | undefined,
+  input: { promptId: PromptId; template: string; notes?: string },
+): Promise<PromptRegistryEntry> {
+  const email = await assertAdmin(idToken);
+  if (!PROMPT_IDS.includes(input.promptId)) {
+    throw new Error(`Unknown prompt "${input.promptId}".`);
+  }
+  const template = input.template.trim();
+  if (!template) {
+    throw new Error("The prompt template cannot be empty.");
+  }
+  if (template.length > MAX_TEMPLATE_CHARS) {
+    throw new Error(`The prompt template is too long (maximum ${MAX_TEMPLATE_CHARS.toLocaleString()} characters).`);
+  }
+  const missing = missingPromptVariables(input.promptId, template);
+  if (missing.length > 0) {
+    throw new Error(`The template must use ${missing.map(name => `{{{${name}}}}`).join(', ')}.`);
+  }
+  const entry = await readPromptEntry(input.promptId);
+  return addPromptVersion({
+    promptId: input.promptId,
+    version: nextPromptVersion(entry.versions),
+    template,
+    notes: input.notes?.trim().substring(0, MAX_NOTES_CHARS) || undefined,
+    createdAt: new Date().toISOString(),
+    createdBy: email,
+  });
+}
+
+/** Replaces a prompt's traffic split: whole percentages for existing versions, summing to 100. */
+export async function savePromptTraffic(
+  idToken: string | undefined,
+  promptId: PromptId,
+  traffic: Record<string, number>,
+): Promise<PromptRegistryEntry> {
+  const email = await assertAdmin(idToken);
+  const entry = await readPromptEntry(promptId);
+  const known = new Set(entry.versions.map(version => version.version));
+  const retired = new Set(entry.versions.filter(version => version.retired).map(version => version.version));
+  const shares = Object.entries(traffic).filter(([, share]) => share !== 0);
+  const unknown = shares.filter(([version]) => !known.has(version)).map(([version]) => version);
+  if (unknown.length > 0) {
+    throw new Error(`The prompt has no version ${unknown.join(', ')}.`);
+  }
+  const retiredShares = shares.filter(([version]) => retired.has(version)).map(([version]) => version);
+  if (retiredShares.length > 0) {
+    throw new Error(`Version ${retiredShares.join(', ')} is retired and cannot receive traffic.`);
+  }
+  if (shares.some(([, share]) => !Number.isInteger(share) || share < 0 || share > 100)) {
+    throw new Error("Traffic shares must be whole percentages between 0 and 100.");
+  }
+  const total = shares.reduce((sum, [, share]) => sum + share, 0);
+  if (total !== 100) {
+    throw new Error(`Traffic shares must add up to 100% (currently ${total}%).`);
+  }
+  return writePromptTraffic(promptId, Object.fromEntries(shares), email);
+}
@@ -0,0 +1,64 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { adminCollection } from '@/services/adminCollection';
+import type { SourceCredibilityEntry } from '@/types';
+
+const DEFAULT_SOURCE_CREDIBILITY_PATH = 'data/source-credibility.json';
+
+// An admin's change to one domain: a new or edited entry, or the removal of a seed entry.
+type SourceOverride = SourceCredibilityEntry | { domain: string; removed: true; updatedAt: string };
+
+const sourceOverrides = adminCollection<SourceOverride>('sourceCredibility', 'source credibility changes');
+
+// The seed list ships with the app and is never written, so reading it once per process is enough.
+let seedEntries: Promise<SourceCredibilityEntry[]> | null = null;
+
+function sourceCredibilityPath(): string {
+  return path.resolve(process.cwd(), process.env.SOURCE_CREDIBILITY_PATH || DEFAULT_SOURCE_CREDIBILITY_PATH);
+}
+
+function readSeedEntries(): Promise<SourceCredibilityEntry[]> {
+  seedEntries ??= readFile(sourceCredibilityPath(), 'utf-8')
+    .then(raw => JSON.parse(raw) as SourceCredibilityEntry[])
+    .catch((error: any) => {
+      if (error?.code !== 'ENOENT') {
+        console.error("[TruthLensAI] Could not read the source credibility seed list; only admin entries will be rated:", error);
+      }
+      return [];
+    });
+  return seedEntries;
+}
+
+/** The seed list with the admins' changes from Firestore applied, sorted by domain. */
+export async function readSourceEntries(): Promise<SourceCredibilityEntry[]> {
+  const [seed, overrides] = await Promise.all([readSeedEntries(), sourceOverrides.readAll()]);
+  const byDomain = new Map(seed.map(entry => [entry.domain, entry]));
+  Object.values(overrides).forEach(override => {
+    if ('removed' in override) {
+      byDomain.delete(override.domain);
+    } else {
+      byDomain.set(override.domain, override);
+    }
+  });
+  return [...byDomain.values()].sort((a, b) => a.domain.localeCompare(b.domain));
+}
+
+// Seed entries can only be hidden, so removing one stores a marker; an admin-only entry is simply deleted.
+async function removeDomain(domain: string): Promise<void> {
+  const inSeed = (await readSeedEntries()).some(entry => entry.domain === domain);
+  await sourceOverrides.update(domain, () => (inSeed ? { domain, removed: true, updatedAt: new Date().toISOString() } : null));
+}
+
+/** Adds an entry, or replaces the one for the same domain (and `previousDomain`, when a domain is renamed). */
+export async function upsertSourceEntry(entry: SourceCredibilityEntry, previousDomain?: string): Promise<SourceCredibilityEntry[]> {
+  await sourceOverrides.update(entry.domain, () => entry);
+  if (previousDomain && previousDomain !== entry.domain) {
+    await removeDomain(previousDomain);
+  }
+  return readSourceEntries();
+}
+
+export async function removeSourceEntry(domain: string): Promise<SourceCredibilityEntry[]> {
+  await removeDomain(domain);
+  return readSourceEntries();
+}
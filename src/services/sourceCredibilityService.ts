@@ -0,0 +1,47 @@
+'use server';
+
+import { assertAdmin } from '@/services/adminAuth';
+import { readSourceEntries, removeSourceEntry, upsertSourceEntry } from '@/services/sourceCredibility/store';
+import { normalizeDomain, SOURCE_RELIABILITIES, summarizeSourceCredibility } from '@/lib/sourceCredibility';
+import type { SourceCredibilityEntry, SourceCredibilitySummary } from '@/types';
+
+const MAX_FIELD_CHARS = 1000;
+
+export async function fetchSourceEntries(): Promise<SourceCredibilityEntry[]> {
+  return readSourceEntries();
+}
+
+/** Rates the domain an article came from and the domains linked in its text. */
+export async function lookupSourceCredibility(input: { articleUrl?: string; text: string }): Promise<SourceCredibilitySummary> {
+  return summarizeSourceCredibility(input, await readSourceEntries());
+}
+
+/** Adds or updates a domain; pass `previousDomain` when editing an entry's domain. Returns the updated database. */
+export async function saveSourceEntry(
+  idToken: string | undefined,
+  entry: Omit<SourceCredibilityEntry, 'updatedAt'>,
+  previousDomain?: string,
+): Promise<SourceCredibilityEntry[]> {
+  await assertAdmin(idToken);
+  const domain = normalizeDomain(entry.domain);
+  if (!domain) {
+    throw new Error(`"${entry.domain}" is not a valid domain. Enter something like "example.com".`);
+  }
+  if (!SOURCE_RELIABILITIES.includes(entry.reliability)) {
+    throw new Error("Please choose a reliability rating.");
+  }
+  const optional = (value?: string) => value?.trim().substring(0, MAX_FIELD_CHARS) || undefined;
+  return upsertSourceEntry({
+    domain,
+    name: optional(entry.name),
+    reliability: entry.reliability,
+    ownership: optional(entry.ownership),
+    notes: optional(entry.notes),
+    updatedAt: new Date().toISOString(),
+  }, previousDomain);
+}
+
+export async function deleteSourceEntry(idToken: string | undefined, domain: string): Promise<SourceCredibilityEntry[]> {
+  await assertAdmin(idToken);
+  return removeSourceEntry(domain);
+}
@@ -16,6 +16,31 @@ export interface GeneratedArticle {
   tone: string;
   timestamp: string;
   imageUrl?: string;
+  headlineAnalysis?: HeadlineAnalysis; // Clickbait scoring of the generated title
+  promptVersion?: string; // Version of the generation prompt that wrote the article
+}
+
+// Genkit prompts whose templates are managed in the prompt registry.
+export type PromptId = 'llmDetectFakeNews' | 'generateFakeNewsArticle';
+
+// Versions are immutable: changing a prompt means adding a version and moving traffic to it.
+export interface PromptVersion {
+  promptId: PromptId;
+  version: string; // Numbered from "1"; built-in and admin-created versions share one sequence
+  template: string; // Handlebars template, as passed to ai.definePrompt
+  notes?: string; // What changed and why
+  createdAt: string; // ISO 8601
+  createdBy?: string; // Admin email
+  builtIn?: boolean; // Shipped with the code rather than added in the admin editor
+  retired?: boolean; // Kept for the record; its output no longer fits the flow, so it cannot get traffic
+}
+
+export interface PromptRegistryEntry {
+  promptId: PromptId;
+  versions: PromptVersion[]; // Oldest first, built-in versions before admin-created ones
+  traffic: Record<string, number>; // Percentage of requests per version; sums to 100. Versions not listed get none.
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
 export interface FactCheckResult {
@@ -25,21 +50,500 @@ export interface FactCheckResult {
   url?: string;
 }
 
+export type ClaimVerdict = 'supported' | 'refuted' | 'unverifiable';
+
+export interface ArticleClaim {
+  text: string;
+  verdict: ClaimVerdict;
+  reasoning: string;
+  factChecks?: FactCheckResult[]; // Published fact-checks that matched this claim
+}
+
+export type ManipulationCategory =
+  | 'sensational_wording'
+  | 'unsupported_claim'
+  | 'anonymous_source'
+  | 'emotional_appeal'
+  | 'misleading_statistic'
+  | 'logical_fallacy';
+
+export interface HighlightSpan {
+  start: number; // Character offset (inclusive) into the analyzed text
+  end: number; // Character offset (exclusive) into the analyzed text
+  category: ManipulationCategory;
+  reason: string;
+}
+
+export type EvidenceCategory =
+  | 'source_quality'
+  | 'factual_accuracy'
+  | 'language_style'
+  | 'internal_consistency'
+  | 'fact_check'
+  | 'context'
+  | 'general';
+
+// Relative to the article, not the verdict: 'for' points to it being real, 'against' to it being fake.
+export type EvidenceDirection = 'for' | 'against';
+
+export type EvidenceStrength = 'weak' | 'moderate' | 'strong';
+
+// One reason behind an LLM verdict.
+export interface Evidence {
+  statement: string; // One short sentence
+  category: EvidenceCategory;
+  direction: EvidenceDirection;
+  strength: EvidenceStrength;
+  quote?: { text: string; start: number; end: number }; // Passage the reason rests on; offsets into the analyzed text
+}
+
+// A span of the analyzed text and how the Truth Lens model's prediction changed when it was removed.
+export interface OcclusionSpan {
+  start: number; // Character offset (inclusive) into the analyzed text
+  end: number; // Character offset (exclusive) into the analyzed text
+  text: string;
+  fakeProbability: number; // 0-1 model probability of Fake with the span removed
+  delta: number; // Baseline minus fakeProbability; positive means the span pushed the model toward Fake
+  flipsVerdict: boolean; // Removing the span alone changes the predicted label
+}
+
+// Perturbation-based explanation of a raw (uncalibrated) ML model prediction.
+export interface OcclusionExplanation {
+  baselineFakeProbability: number; // 0-1 model probability of Fake for the full text
+  unit: 'sentence' | 'clause'; // What was removed in each perturbation
+  spans: OcclusionSpan[]; // Every span when freshly computed; only the top contributors when saved
+  queries: number; // Model calls made, including the baseline
+  model: DetectionModelInfo;
+}
+
+export interface ArticleSource {
+  url: string;
+  domain: string; // Outlet domain without "www.", e.g. "example.com"
+  headline?: string;
+  outlet?: string; // Site name as declared by the page
+  byline?: string;
+  publishedAt?: string; // ISO 8601 publish date, when the page declares one
+}
+
+export type SourceDocumentType = 'pdf' | 'docx' | 'html' | 'txt';
+
+export interface SourceDocument {
+  fileName: string;
+  fileType: SourceDocumentType;
+  mimeType?: string;
+}
+
+export type DetectionMethod = 'custom' | 'llm' | 'ensemble';
+
+export interface DetectionVerdict {
+  label: 'Real' | 'Fake';
+  confidence: number;
+}
+
+export interface EnsembleWeights {
+  custom: number;
+  llm: number;
+}
+
+export type EnsembleComponent = keyof EnsembleWeights;
+
+export interface EnsembleDetails {
+  weights: EnsembleWeights; // Shares actually used; 0 for a component that was skipped or failed
+  custom?: DetectionVerdict; // Truth Lens model component result; missing when its weight is 0 or it failed
+  llm?: DetectionVerdict; // Genkit LLM component result; missing when its weight is 0 or it failed
+  agreement?: boolean; // Whether both components predicted the same label; only set when both ran
+  fallback?: EnsembleComponent; // The component that failed, when the verdict comes from the other one alone
+}
+
+export interface ArticleLanguage {
+  code: string; // ISO 639-1 code, or 'und' when the language could not be identified
+  name: string;
+  confidence: number; // 0-1
+}
+
+export interface ArticleTranslation {
+  targetLanguage: string; // ISO 639-1 code of the language the article was translated into
+  text: string; // Highlights and chunk offsets refer to this text when a translation was used
+}
+
+export interface DetectionChunk {
+  index: number;
+  start: number; // Character offsets of the section within DetectedArticle.text
+  end: number;
+  result: DetectionVerdict;
+  weight: number; // Share (0-1) of the overall verdict contributed by this section
+  influence: number; // -1..1; positive values pushed the overall verdict, negative ones argued against it
+  evidence?: Evidence[]; // LLM reasoning for this section, when available; quote offsets are into DetectedArticle.text
+}
+
+export type CalibrationMethod = 'temperature' | 'platt';
+
+export interface CalibrationModel {
+  detectionMethod: DetectionMethod;
+  method: CalibrationMethod;
+  temperature?: number; // Temperature scaling: P = sigmoid(logit(p) / temperature)
+  slope?: number; // Platt scaling: P = sigmoid(slope * logit(p) + intercept)
+  intercept?: number;
+  sampleCount: number; // Size of the labeled set the parameters were fitted on
+  metrics: {
+    eceBefore: number; // Expected calibration error on the labeled set, raw vs calibrated
+    eceAfter: number;
+    nllBefore: number; // Mean negative log-likelihood, raw vs calibrated
+    nllAfter: number;
+  };
+  fittedAt: string; // ISO 8601
+}
+
+export interface CalibrationInfo {
+  method: CalibrationMethod;
+  fittedAt: string; // Identifies which fitted model produced the calibrated confidence
+}
+
+// Fake is the positive class: a true positive is a fake article flagged as Fake.
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface RocPoint {
+  threshold: number; // P(fake) at or above which an article is called Fake
+  falsePositiveRate: number;
+  truePositiveRate: number;
+}
+
+export interface EvaluationMetrics {
+  sampleCount: number; // Labeled articles the detector returned a verdict for
+  accuracy: number; // Metrics are 0-1
+  precision: number;
+  recall: number;
+  f1: number;
+  confusionMatrix: ConfusionMatrix;
+  rocAuc: number;
+  rocCurve: RocPoint[];
+  expectedCalibrationError: number; // Of the verdicts users see (calibrated, when a calibration model is active)
+  rawExpectedCalibrationError?: number; // Of the uncalibrated model output, when it differs
+  brierScore: number;
+}
+
+// One detector configuration being evaluated, e.g. the ensemble using a particular ML endpoint.
+export interface EvaluationTarget {
+  detectionMethod: DetectionMethod;
+  modelId?: string; // Registry id of the ML model for 'custom' and 'ensemble'; the registry default if omitted
+}
+
+export interface EvaluationTargetResult extends EvaluationTarget {
+  key: string; // Stable across runs, used to match targets when comparing reports
+  models: DetectionModelInfo[]; // Every model version that produced a verdict in this run
+  metrics: EvaluationMetrics;
+  failures: number; // Articles the detector errored on; excluded from the metrics
+  fakeProbabilities: (number | null)[]; // Per dataset row, in dataset order; null where detection failed
+  predictedLabels?: ('Real' | 'Fake' | null)[]; // The verdict per row, aligned with fakeProbabilities; missing in older reports
+  durationMs: number;
+}
+
+export interface EvaluationReport {
+  id: string; // Sortable: the run's start time plus a short name slug
+  name?: string;
+  dataset: {
+    name: string; // Usually the file name
+    fingerprint: string; // Hash of the texts and labels; reports are only strictly comparable when it matches
+    sampleCount: number;
+    fakeCount: number;
+    labels: ('Real' | 'Fake')[]; // Ground truth per row, aligned with each target's fakeProbabilities
+  };
+  targets: EvaluationTargetResult[];
+  startedAt: string; // ISO 8601
+  completedAt: string;
+}
+
+export type LinguisticSignalKey = 'readability' | 'exclamation' | 'caps' | 'hedging' | 'absolutist' | 'attribution' | 'clickbait';
+
+// Deterministic style features of the analyzed text; see src/lib/signals.ts.
+export interface LinguisticSignals {
+  wordCount: number;
+  sentenceCount: number;
+  fleschReadingEase: number; // 0-100+, higher is easier
+  fleschKincaidGrade: number; // US school grade level
+  exclamationDensity: number; // Exclamation marks per 100 words
+  capsDensity: number; // Share (0-1) of words written in ALL CAPS
+  hedgingRatio: number; // Hedging words per 100 words
+  absolutistRatio: number; // Absolutist words per 100 words
+  quoteDensity: number; // Share (0-1) of characters inside quotation marks
+  attributionCount: number; // Source attributions such as "according to" or "said"
+  clickbaitHits: string[]; // Clickbait lexicon phrases found in the text
+  flagged: LinguisticSignalKey[]; // Signals outside the range typical for news copy
+}
+
+export type HeadlinePattern =
+  | 'curiosity_gap'
+  | 'listicle'
+  | 'superlative'
+  | 'emotional_trigger'
+  | 'question'
+  | 'direct_address'
+  | 'urgency'
+  | 'all_caps'
+  | 'excessive_punctuation';
+
+export interface HeadlinePatternHit {
+  pattern: HeadlinePattern;
+  excerpt: string; // The part of the headline that triggered the pattern
+  explanation: string;
+}
+
+export type HeadlineVerdict = 'neutral' | 'borderline' | 'clickbait';
+
+export interface HeadlineAnalysis {
+  headline: string;
+  clickbaitScore: number; // 0-100, how much the headline baits the click instead of informing
+  sensationalismScore: number; // 0-100, how much it exaggerates or dramatizes
+  verdict: HeadlineVerdict; // Derived from clickbaitScore
+  patterns: HeadlinePatternHit[];
+  neutralRewrite: string; // Informative headline without the triggered patterns
+  explanation: string;
+  inferred?: boolean; // The text came without a headline, so the title the AI suggested for it was scored instead
+}
+
+export type PropagandaTechnique =
+  | 'loaded_language'
+  | 'name_calling'
+  | 'exaggeration'
+  | 'repetition'
+  | 'appeal_to_fear'
+  | 'flag_waving'
+  | 'doubt'
+  | 'whataboutism'
+  | 'bandwagon'
+  | 'false_dilemma'
+  | 'causal_oversimplification'
+  | 'slogans'
+  | 'appeal_to_authority'
+  | 'straw_man'
+  | 'red_herring'
+  | 'thought_terminating_cliche';
+
+export type PropagandaSeverity = 'low' | 'medium' | 'high';
+
+// One use of a propaganda technique; see src/lib/propaganda.ts for the taxonomy.
+export interface PropagandaFinding {
+  technique: PropagandaTechnique;
+  excerpt: string; // Verbatim passage from the article
+  severity: PropagandaSeverity; // How strongly the passage manipulates the reader
+  explanation: string;
+}
+
+// Political axis an article's slant is measured on; see src/lib/bias.ts for the poles of each.
+export type BiasScale = 'left_right' | 'libertarian_authoritarian' | 'government_opposition' | 'establishment_populist';
+
+export type SlantBucket = 'strong_negative' | 'lean_negative' | 'balanced' | 'lean_positive' | 'strong_positive';
+
+// A person or organization the article quotes, and which pole of the scale they speak for.
+export interface BiasSource {
+  name: string;
+  side: 'negative' | 'neutral' | 'positive';
+}
+
+export interface BiasEvidence {
+  quote: string; // Verbatim passage from the article
+  observation: string; // What the passage shows about the framing
+}
+
+// Framing and slant of political content on a chosen scale. Slant and buckets say nothing about accuracy.
+export interface BiasAnalysis {
+  scale: BiasScale;
+  isPolitical: boolean; // False when the article has no political angle; slant is then 0
+  slant: number; // -100 (negative pole) to 100 (positive pole), 0 is balanced
+  bucket: SlantBucket; // Derived from slant
+  confidence: number; // 0-100
+  framing: string; // The dominant frame, e.g. "immigration as a security threat"
+  sources: BiasSource[];
+  oneSidedSourcing: boolean; // Derived from sources: every source that takes a side takes the same one
+  omittedPerspectives: string[];
+  evidence: BiasEvidence[];
+  explanation: string;
+}
+
+// Style features used to estimate machine authorship; see src/lib/stylometry.ts.
+export interface StylometricFeatures {
+  wordCount: number;
+  sentenceLengthMean: number; // Words per sentence
+  burstiness: number; // Coefficient of variation of sentence length; low means uniform, machine-like sentences
+  typeTokenRatio: number; // Moving-window share of distinct words (0-1)
+  contractionRate: number; // Contractions per 100 words
+  repeatedOpeningShare: number; // Share (0-1) of sentences that repeat another sentence's first two words
+  llmPhraseHits: string[]; // Stock phrases typical of LLM output found in the text
+}
+
+export type AiTextVerdict = 'likely_ai' | 'uncertain' | 'likely_human';
+
+// Whether the text was written by a language model. Independent of the Real/Fake verdict.
+export interface AiTextAnalysis {
+  likelihood: number; // 0-100 combined estimate that the text is machine-generated
+  verdict: AiTextVerdict; // Derived from likelihood
+  stylometricScore: number; // 0-100 from the style features alone
+  judgeScore: number; // 0-100 from the LLM judge
+  features: StylometricFeatures;
+  indicators: string[]; // What the judge noticed, e.g. "generic conclusions without specifics"
+  reasoning: string;
+}
+
+export type SourceReliability = 'high' | 'generally_reliable' | 'mixed' | 'low' | 'very_low' | 'satire';
+
+// One outlet in the source credibility database (the data/source-credibility.json seed list plus admin changes).
+export interface SourceCredibilityEntry {
+  domain: string; // Registrable domain without "www.", e.g. "bbc.co.uk"; also covers its subdomains
+  name?: string; // Outlet name
+  reliability: SourceReliability;
+  ownership?: string;
+  notes?: string;
+  updatedAt: string; // ISO 8601
+}
+
+export interface DomainCredibility {
+  domain: string; // The domain as found in the article URL or text
+  entry?: Omit<SourceCredibilityEntry, 'updatedAt'>; // The database entry that matched it, if any
+  linkCount?: number; // How often the article text links to it
+}
+
+export interface SourceCredibilitySummary {
+  article?: DomainCredibility; // The domain the article was fetched from
+  links: DomainCredibility[]; // Domains linked or cited in the text
+  lowCredibilityLinks: number; // Linked domains rated low, very low or satire
+  checkedAt: string; // ISO 8601; ratings may have changed since
+}
+
+export interface DetectionModelInfo {
+  provider: 'http' | 'genkit'; // A registered ML endpoint or the Genkit LLM
+  name: string;
+  version: string;
+}
+
+export type MlModelHealthStatus = 'healthy' | 'unhealthy' | 'unknown' | 'unconfigured';
+
+export interface MlModelHealth {
+  status: MlModelHealthStatus;
+  checkedAt: string; // ISO 8601
+  latencyMs?: number;
+  message?: string;
+}
+
+// A registered ML detection endpoint as shown to users; endpoint URLs and credentials stay on the server.
+export interface MlModelSummary {
+  id: string;
+  name: string;
+  version: string;
+  isDefault: boolean;
+  health: MlModelHealth;
+}
+
+// What a user believes the article actually is when they report a verdict as wrong.
+export type FeedbackLabel = 'Real' | 'Fake' | 'Mixed' | 'Satire' | 'Unverifiable';
+
+// A user's verdict on a detection, kept on the saved article so it can be shown and edited later.
+export interface DetectionFeedback {
+  id: string; // Document id in the detectionFeedback collection
+  isCorrect: boolean;
+  correctedLabel?: FeedbackLabel; // Only when isCorrect is false
+  comment?: string;
+  submittedAt: string; // ISO 8601
+}
+
+// One feedback document in the detectionFeedback collection: the feedback plus what was being judged,
+// so it can be aggregated without reading users' saved articles.
+export interface DetectionFeedbackRecord extends DetectionFeedback {
+  userId: string;
+  articleId?: string; // Set once the detection is saved, also when that happens after the feedback was given
+  title?: string;
+  excerpt: string; // Start of the analyzed text
+  predicted: DetectionVerdict;
+  detectionMethod: DetectionMethod;
+  models?: DetectionModelInfo[];
+}
+
+// Feedback for one detection method and set of model versions.
+export interface FeedbackGroupSummary {
+  key: string;
+  detectionMethod: DetectionMethod;
+  modelVersions: string; // e.g. "truth-lens-bert (2.1.0)", or "Unknown" for detections that predate model tracking
+  total: number;
+  correct: number;
+  incorrect: number;
+  accuracy: number; // 0-100, share of feedback that said the verdict was correct
+  falseFakes: number; // Predicted Fake, reported as something else
+  falseReals: number; // Predicted Real, reported as something else
+  correctedLabels: Partial<Record<FeedbackLabel, number>>;
+  lastSubmittedAt: string;
+}
+
 export interface DetectedArticle {
   id?: string;
   userId?: string;
   type: 'detected';
   title?: string; // AI-generated or snippet-based title for the analyzed text
   text: string;
-  result: {
-    label: 'Real' | 'Fake';
-    confidence: number;
-  };
+  result: DetectionVerdict; // Calibrated verdict when a calibration model was applied
+  rawResult?: DetectionVerdict; // Verdict as returned by the model, before calibration
+  calibration?: CalibrationInfo; // Set when `result` was calibrated
+  cachedAt?: string; // ISO time the verdict was first computed, when it was served from the detection cache
+  models?: DetectionModelInfo[]; // Every model (name and version) that contributed to the verdict
+  signals?: LinguisticSignals; // Style features of the analyzed (translated, if any) text
+  headlineAnalysis?: HeadlineAnalysis; // Clickbait scoring of the article's own headline, or of the suggested title when it had none
+  sourceCredibility?: SourceCredibilitySummary; // Reputation of the article's domain and the domains it links to
+  aiText?: AiTextAnalysis; // Likelihood that the text was machine-written, separate from the Real/Fake verdict
+  propaganda?: PropagandaFinding[]; // Propaganda techniques found by the classifier; empty if it ran and found none
+  bias?: BiasAnalysis; // Political framing and slant, when requested
+  occlusion?: OcclusionExplanation; // Which spans moved the Truth Lens model's confidence most, when requested
+  promptVersion?: string; // Version of the LLM detection prompt, when the LLM took part in the verdict
+  feedback?: DetectionFeedback; // The user's own verdict on this detection
   timestamp: string;
-  detectionMethod?: 'custom' | 'llm';
-  justification?: string; // Added for XAI
+  detectionMethod?: DetectionMethod;
+  evidence?: Evidence[]; // Reasons behind the LLM verdict, when the LLM took part
   factChecks?: FactCheckResult[]; // Added for external fact-checking
+  ensemble?: EnsembleDetails; // Component results when detectionMethod is 'ensemble'
+  claims?: ArticleClaim[]; // Per-claim verdicts from claim analysis
+  highlights?: HighlightSpan[]; // Manipulative passages flagged by the LLM
+  source?: ArticleSource; // Set when the article was fetched from a URL
+  document?: SourceDocument; // Set when the article was extracted from an uploaded file
+  chunks?: DetectionChunk[]; // Per-section verdicts when a long article was analyzed in chunks
+  language?: ArticleLanguage; // Language identified in the original article text
+  translation?: ArticleTranslation; // Set when the article was machine-translated before detection
+}
+
+export type ClaimAlignmentStatus = 'consistent' | 'contradiction' | 'omission' | 'addition';
+
+export type ComparisonVerdict = 'consistent' | 'partially_consistent' | 'inconsistent';
+
+// One of the two texts in a comparison. The subject is the story being checked, the reference the report it is checked against.
+export interface ComparedText {
+  label: string; // e.g. "Viral post" or "Reuters"
+  text: string;
+  url?: string;
+}
+
+// A claim matched across the two texts. Omissions are in the reference only, additions in the subject only.
+export interface AlignedClaim {
+  status: ClaimAlignmentStatus;
+  subjectClaim?: string; // As the subject states it; absent for omissions
+  referenceClaim?: string; // As the reference states it; absent for additions
+  importance: 'minor' | 'major'; // Whether the difference changes what a reader takes away
+  explanation: string;
+}
+
+export interface ComparedArticle {
+  id?: string;
+  userId?: string;
+  type: 'compared';
+  title: string; // The event both texts cover
+  subject: ComparedText;
+  reference: ComparedText;
+  alignedClaims: AlignedClaim[];
+  consistencyScore: number; // 0-100, derived from the aligned claims; see src/lib/comparison.ts
+  verdict: ComparisonVerdict;
+  summary: string;
+  timestamp: string;
 }
 
-export type Article = GeneratedArticle | DetectedArticle;
+export type Article = GeneratedArticle | DetectedArticle | ComparedArticle;
 